@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   output: 'standalone',
+  // pdf.js loads its worker at runtime - keep it out of the server bundle
+  serverExternalPackages: ['pdfjs-dist'],
 };
 
 export default nextConfig;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/auth/authorize';
 
 /**
  * POST /api/catalogs/alias
@@ -7,16 +8,11 @@ import { createClient } from '@/lib/supabase/server';
  */
 export async function POST(req: NextRequest) {
     try {
-        const supabase = await createClient();
-        
         // Auth check
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('catalog.edit');
+        if (!user) return response;
+
+        const supabase = await createClient();
 
         const body = await req.json();
         const { catalog_key, alias_value, canonical_name } = body;
@@ -4,10 +4,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
 import { reconcileMetadata } from '@/lib/services/catalog-reconciler';
 
 export async function POST(request: NextRequest) {
     try {
+        const { user, response } = await authorize('catalog.read');
+        if (!user) return response;
+
         const body = await request.json();
         const { value, catalogKey } = body;
 
@@ -0,0 +1,103 @@
+/**
+ * Line Item History API Routes
+ * GET: Audit log of an order or a single line item
+ * POST: Revert a single change or a whole Spark session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { getDraftOrder } from '@/lib/services/draft-order.service';
+import {
+    getLineItemEvents,
+    revertLineItemEvent,
+    revertSparkSession,
+} from '@/lib/services/line-item-events.service';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/draft-orders/[id]/events?lineItemId=...
+ * List changes, newest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id: orderId } = await params;
+        const { user, response } = await authorize('order.read');
+        if (!user) return response;
+
+        const searchParams = request.nextUrl.searchParams;
+        const events = await getLineItemEvents(orderId, {
+            lineItemId: searchParams.get('lineItemId') || undefined,
+            limit: parseInt(searchParams.get('limit') || '200'),
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: events,
+        });
+    } catch (error) {
+        console.error('GET /api/draft-orders/[id]/events error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/draft-orders/[id]/events
+ * Revert a change ({ eventId }) or all changes of a Spark session ({ sessionId })
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id: orderId } = await params;
+        const { user, response } = await authorize('order.edit');
+        if (!user) return response;
+
+        // Verify existence (RLS handles tenant isolation)
+        const order = await getDraftOrder(orderId);
+        if (!order) {
+            return NextResponse.json(
+                { success: false, error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
+        const body = await request.json();
+        const { eventId, sessionId } = body as { eventId?: string; sessionId?: string };
+
+        if (!eventId && !sessionId) {
+            return NextResponse.json(
+                { success: false, error: 'eventId or sessionId is required' },
+                { status: 400 }
+            );
+        }
+
+        const result = eventId
+            ? await revertLineItemEvent(orderId, eventId)
+            : await revertSparkSession(orderId, sessionId!);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                revertedCount: result.revertedCount,
+                items: result.items,
+            },
+        });
+    } catch (error) {
+        console.error('POST /api/draft-orders/[id]/events error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
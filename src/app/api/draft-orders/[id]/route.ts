@@ -7,9 +7,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { authorize, forbidden } from '@/lib/auth/authorize';
+import { can } from '@/lib/auth/permissions';
+import { MANUAL_ORDER_STATUSES } from '@/lib/order-workflow';
 import {
     getDraftOrder,
     updateDraftOrderStatus,
+    assignReviewer,
+    setDraftOrderArchived,
     deleteDraftOrder,
 } from '@/lib/services/draft-order.service';
 import type { DraftOrderStatus } from '@/types';
@@ -25,15 +30,8 @@ interface RouteParams {
 export async function GET(request: NextRequest, { params }: RouteParams) {
     try {
         const { id } = await params;
-        const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('order.read');
+        if (!user) return response;
 
         const order = await getDraftOrder(id);
 
@@ -61,20 +59,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 /**
  * PATCH /api/draft-orders/[id]
- * Update a draft order's status or name
+ * Update a draft order's name, reviewer, status or archived flag
+ * Status changes follow the review workflow; export statuses return 400 and
+ * invalid transitions 409.
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
     try {
         const { id } = await params;
         const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('order.edit');
+        if (!user) return response;
 
         // Verify existence (RLS handles permission)
         const existing = await getDraftOrder(id);
@@ -86,35 +80,79 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         }
 
         const body = await request.json();
-        const { status, name } = body as { status?: DraftOrderStatus; name?: string };
-
-        // Build update object
-        const updates: Record<string, unknown> = {};
-        if (status !== undefined) updates.status = status;
-        if (name !== undefined) updates.name = name;
-
-        if (Object.keys(updates).length === 0) {
+        const { status, name, reviewerId, reviewNote, archived } = body as {
+            status?: DraftOrderStatus;
+            name?: string;
+            reviewerId?: string | null;
+            reviewNote?: string;
+            archived?: boolean;
+        };
+
+        if (status === undefined && name === undefined && reviewerId === undefined && archived === undefined) {
             return NextResponse.json(
                 { success: false, error: 'No valid fields to update' },
                 { status: 400 }
             );
         }
 
-        // Update order directly if name is provided, or use service for status
-        if (status && !name) {
-            const updated = await updateDraftOrderStatus(id, status);
-            return NextResponse.json({ success: true, data: updated });
+        if (status !== undefined && !MANUAL_ORDER_STATUSES.includes(status)) {
+            return NextResponse.json(
+                { success: false, error: `Status must be one of: ${MANUAL_ORDER_STATUSES.join(', ')}` },
+                { status: 400 }
+            );
         }
 
-        // Direct update for name (and optionally status)
-        const { data: updated, error } = await supabase
-            .from('draft_orders')
-            .update(updates)
-            .eq('id', id)
-            .select()
-            .single();
+        // Review workflow changes need the review permission on top of edit
+        if ((status !== undefined || reviewerId !== undefined) && !can(user, 'order.review')) {
+            return forbidden(user, 'order.review');
+        }
 
-        if (error) throw error;
+        let updated = existing;
+
+        if (name !== undefined) {
+            const { data, error } = await supabase
+                .from('draft_orders')
+                .update({ name })
+                .eq('id', id)
+                .select()
+                .single();
+
+            if (error) throw error;
+            updated = data;
+        }
+
+        if (reviewerId !== undefined) {
+            const result = await assignReviewer(id, reviewerId);
+            if (!result.success) {
+                return NextResponse.json(
+                    { success: false, error: result.error },
+                    { status: 400 }
+                );
+            }
+            updated = result.order!;
+        }
+
+        if (archived !== undefined) {
+            const result = await setDraftOrderArchived(id, archived);
+            if (!result.success) {
+                return NextResponse.json(
+                    { success: false, error: result.error },
+                    { status: 500 }
+                );
+            }
+            updated = result.order!;
+        }
+
+        if (status !== undefined) {
+            const result = await updateDraftOrderStatus(id, status, { note: reviewNote });
+            if (!result.success) {
+                return NextResponse.json(
+                    { success: false, error: result.error },
+                    { status: 409 }
+                );
+            }
+            updated = result.order!;
+        }
 
         return NextResponse.json({
             success: true,
@@ -136,15 +174,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
     try {
         const { id } = await params;
-        const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('order.delete');
+        if (!user) return response;
 
         // Verify existence (RLS handles permission)
         const existing = await getDraftOrder(id);
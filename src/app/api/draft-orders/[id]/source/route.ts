@@ -0,0 +1,64 @@
+/**
+ * Draft Order Source File API Route
+ * GET: Stream the uploaded document the order was extracted from
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { getDraftOrder } from '@/lib/services/draft-order.service';
+import { getStorageProvider } from '@/lib/storage';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/draft-orders/[id]/source
+ * Used by the PDF viewer and source snippets on the review page
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id: orderId } = await params;
+        const { user, response } = await authorize('order.read');
+        if (!user) return response;
+
+        const order = await getDraftOrder(orderId);
+        if (order?.source_file_purged_at) {
+            return NextResponse.json(
+                { success: false, error: 'Source file was deleted by the retention policy' },
+                { status: 410 }
+            );
+        }
+        if (!order?.source_file_path) {
+            return NextResponse.json(
+                { success: false, error: 'Source file not found' },
+                { status: 404 }
+            );
+        }
+
+        let file;
+        try {
+            file = await getStorageProvider().download(order.source_file_path);
+        } catch (downloadError) {
+            console.error('Failed to load source file:', downloadError);
+            return NextResponse.json(
+                { success: false, error: 'Source file not found' },
+                { status: 404 }
+            );
+        }
+
+        return new NextResponse(new Uint8Array(file.data), {
+            headers: {
+                'Content-Type': order.source_file_type || file.contentType,
+                'Content-Disposition': `inline; filename="${encodeURIComponent(order.source_file_name || 'source.pdf')}"`,
+                'Cache-Control': 'private, max-age=3600',
+            },
+        });
+    } catch (error) {
+        console.error('GET /api/draft-orders/[id]/source error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
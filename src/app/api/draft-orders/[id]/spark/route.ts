@@ -3,12 +3,13 @@
  * 
  * Native tool calling agent with streaming responses.
  * POST: Stream AI responses with tool execution
- * DELETE: Revert a previous Spark session
+ * DELETE: Revert a previous Spark session (from the line item audit log)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { streamText, tool, stepCountIs, convertToModelMessages, type UIMessage } from 'ai';
 import { createClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/auth/authorize';
 import { sparkModel } from '@/lib/extraction/unified-ai-client';
 import { 
     createPatchItemsSchema, 
@@ -28,6 +29,8 @@ import { getDraftOrder } from '@/lib/services/draft-order.service';
 import { getCatalogMatchGuide } from '@/lib/services/catalog-reconciler';
 import { parseFieldValue } from '@/lib/modules/processing/normalizer';
 import { regenerateTemplatesForLineItems } from '@/lib/services/regenerate-templates';
+import { revalidateOrder } from '@/lib/modules/processing/pipeline';
+import { recordLineItemChanges, revertSparkSession } from '@/lib/services/line-item-events.service';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -43,17 +46,6 @@ interface ProfileField {
     template?: string;
 }
 
-// In-memory session storage for undo capability
-// Production: use Redis or a dedicated DB table
-interface UndoSession {
-    patches: Array<{
-        id: string;
-        previous_data: Record<string, unknown>;
-    }>;
-    timestamp: number;
-}
-const sparkSessions = new Map<string, UndoSession>();
-
 /**
  * Build the system prompt for Spark with profile context
  */
@@ -134,12 +126,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         log('Start');
         
         const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        const { user, response } = await authorize('order.edit');
         log('Auth complete');
-
-        if (authError || !user) {
-            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
-        }
+        if (!user) return response;
 
         const body = await request.json();
         const { messages, lineItemIds } = body as {
@@ -212,6 +201,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
         const systemPrompt = buildSparkSystemPrompt(sparkFields, catalogGuide);
 
+        // All changes of this request are recorded under one session for undo
+        const sessionId = `${orderId}-${startTime}`;
+
         // Inject current data context into the conversation
         const dataContext = `\n\n[Current Data: ${items.length} items]\n${JSON.stringify(
             items.map(i => ({ id: i.id, ...(i.normalized_data as object) })),
@@ -276,21 +268,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
                         // Determine target items
                         const targetIds = item_ids.length > 0 ? item_ids : allItemIds;
                         
-                        // Capture previous state for undo
-                        const sessionId = `${orderId}-${Date.now()}`;
-                        const undoPatches: Array<{ id: string; previous_data: Record<string, unknown> }> = [];
                         const updatedItems: Array<{ id: string; data: Record<string, unknown> }> = [];
+                        const changes: Array<{ lineItemId: string; before: Record<string, unknown>; after: Record<string, unknown> }> = [];
                         
                         for (const id of targetIds) {
                             const currentData = itemsMap.get(id);
                             if (!currentData) continue;
                             
-                            // Capture previous value
-                            undoPatches.push({
-                                id,
-                                previous_data: { [canonicalKey]: currentData[canonicalKey] },
-                            });
-                            
                             // Apply update
                             const updatedData = { ...currentData, [canonicalKey]: parsedValue };
                             
@@ -306,12 +290,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
                             if (!updateError) {
                                 itemsMap.set(id, updatedData);
                                 updatedItems.push({ id, data: updatedData });
+                                changes.push({ lineItemId: id, before: currentData, after: updatedData });
                             }
                         }
                         
-                        // Store session for undo (30 minute TTL)
-                        sparkSessions.set(sessionId, { patches: undoPatches, timestamp: Date.now() });
-                        setTimeout(() => sparkSessions.delete(sessionId), 30 * 60 * 1000);
+                        if (updatedItems.length > 0) {
+                            await recordLineItemChanges(orderId, changes, { source: 'spark', sparkSessionId: sessionId });
+                            await revalidateOrder(orderId);
+                        }
                         
                         log(`patch_items complete: ${updatedItems.length} items updated, session: ${sessionId}`);
                         
@@ -338,7 +324,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
                         const regenerateResult = await regenerateTemplatesForLineItems(
                             orderId,
                             targetIds,
-                            field_keys?.length ? field_keys : undefined
+                            field_keys?.length ? field_keys : undefined,
+                            { source: 'spark', sparkSessionId: sessionId }
                         );
                         
                         if (!regenerateResult.success) {
@@ -499,12 +486,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
     try {
         const { id: orderId } = await params;
-        const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-        if (authError || !user) {
-            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
-        }
+        const { user, response } = await authorize('order.edit');
+        if (!user) return response;
 
         const body = await request.json();
         const { sessionId } = body as { sessionId: string };
@@ -517,44 +500,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
             );
         }
 
-        const session = sparkSessions.get(sessionId);
-        if (!session) {
+        const result = await revertSparkSession(orderId, sessionId);
+        if (!result.success) {
             return NextResponse.json(
-                { success: false, error: 'Session expired or not found' },
+                { success: false, error: result.error || 'Session not found' },
                 { status: 404 }
             );
         }
 
-        // Revert each patch
-        let revertedCount = 0;
-        const revertedItems: Array<{ id: string; data: Record<string, unknown> }> = [];
-        
-        for (const patch of session.patches) {
-            const { data: current } = await supabase
-                .from('draft_line_items')
-                .select('normalized_data')
-                .eq('id', patch.id)
-                .single();
-
-            if (current) {
-                const restoredData = {
-                    ...(current.normalized_data as Record<string, unknown>),
-                    ...patch.previous_data,
-                };
-
-                const { error } = await supabase
-                    .from('draft_line_items')
-                    .update({ normalized_data: restoredData })
-                    .eq('id', patch.id);
-
-                if (!error) {
-                    revertedCount++;
-                    revertedItems.push({ id: patch.id, data: restoredData });
-                }
-            }
-        }
-
-        sparkSessions.delete(sessionId);
+        const { revertedCount, items: revertedItems } = result;
 
         console.log(`[Spark] Reverted ${revertedCount} changes from session: ${sessionId}`);
 
@@ -1,11 +1,14 @@
 /**
  * Draft Order Submit API Route
- * POST: Submit an approved order to the shop system
+ * POST: Submit an approved order to the shop system (queues an upload job)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import { getDraftOrder, submitOrderToShop } from '@/lib/services/draft-order.service';
+import { authorize } from '@/lib/auth/authorize';
+import { getDraftOrder } from '@/lib/services/draft-order.service';
+import { enqueueJob, processJobsInBackground, type ShopUploadInput } from '@/lib/jobs';
+import type { UploadMode } from '@/lib/adapters';
+import type { JobType } from '@/types';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -13,22 +16,17 @@ interface RouteParams {
 
 /**
  * POST /api/draft-orders/[id]/submit
- * Submit the order to the configured shop system
+ * Queue the order for upload to the configured shop system.
+ * Returns the job ID; poll GET /api/jobs/[id] for the upload results.
+ * Body (optional): { mode: 'create' | 'upsert' } - upsert updates existing products by SKU/EAN
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
     try {
         const { id: orderId } = await params;
-        const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        const { user, response } = await authorize('order.submit');
+        if (!user) return response;
 
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
-
-        // Verify ownership
+        // Verify existence (RLS handles tenant isolation)
         const order = await getDraftOrder(orderId);
         if (!order) {
             return NextResponse.json(
@@ -36,38 +34,40 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
                 { status: 404 }
             );
         }
-        if (order.user_id !== user.id) {
-            return NextResponse.json(
-                { success: false, error: 'Forbidden' },
-                { status: 403 }
-            );
-        }
 
-        // Check order status
-        if (order.status !== 'approved') {
+        const body = await request.json().catch(() => ({})) as { mode?: UploadMode };
+        const mode: UploadMode = body.mode === 'upsert' ? 'upsert' : 'create';
+
+        // Check order status (upsert may re-submit exported or failed orders)
+        const resubmittable = mode === 'upsert' && (order.status === 'exported' || order.status === 'failed');
+        if (order.status !== 'approved' && !resubmittable) {
             return NextResponse.json(
                 { success: false, error: 'Order must be fully approved before submitting' },
                 { status: 400 }
             );
         }
 
-        // Submit to shop
-        const result = await submitOrderToShop(orderId);
+        // Only upserts are retried - a repeated create could duplicate products
+        const input: ShopUploadInput = { orderId, mode };
+        const job = await enqueueJob(
+            `${order.shop_system}_upload` as JobType,
+            { ...input },
+            user.id,
+            { maxAttempts: mode === 'upsert' ? 3 : 1 }
+        );
 
-        if (!result.success) {
-            return NextResponse.json(
-                { success: false, error: result.error },
-                { status: 500 }
-            );
-        }
+        processJobsInBackground(job.id);
 
-        return NextResponse.json({
-            success: true,
-            data: {
-                message: 'Order submitted successfully',
-                results: result.results,
+        return NextResponse.json(
+            {
+                success: true,
+                data: {
+                    message: 'Order queued for upload',
+                    jobId: job.id,
+                },
             },
-        });
+            { status: 202 }
+        );
     } catch (error) {
         console.error('POST /api/draft-orders/[id]/submit error:', error);
         return NextResponse.json(
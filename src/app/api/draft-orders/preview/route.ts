@@ -0,0 +1,97 @@
+/**
+ * Tabular File Preview API
+ * POST: Read the columns of a CSV/XLSX upload and suggest their mapping to
+ * the profile's fields (the saved mapping when this header set was seen before).
+ * Without a profile, the detected supplier's profile (or the default) is used.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { getProcessingProfile } from '@/lib/extraction/prompt-builder';
+import { getTabularFormat, parseTabularFile } from '@/lib/import/tabular-file';
+import { suggestColumnMapping, tabularSupplierText } from '@/lib/import/column-mapping';
+import { detectSupplier } from '@/lib/services/supplier.service';
+import type { FieldDefinition, SavedColumnMapping } from '@/types';
+
+/** Rows returned to show next to the mapping */
+const SAMPLE_ROWS = 3;
+
+/**
+ * POST /api/draft-orders/preview
+ * Form data: file, profile_id (optional, defaults to the default profile)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { user, response } = await authorize('order.create');
+        if (!user) return response;
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+        const profileId = formData.get('profile_id') as string | null;
+
+        if (!file) {
+            return NextResponse.json(
+                { success: false, error: 'No file provided' },
+                { status: 400 }
+            );
+        }
+
+        const format = getTabularFormat(file.name, file.type);
+        if (!format) {
+            return NextResponse.json(
+                { success: false, error: 'Only CSV and XLSX files can be previewed' },
+                { status: 400 }
+            );
+        }
+
+        let parsed;
+        try {
+            parsed = parseTabularFile(Buffer.from(await file.arrayBuffer()), format);
+        } catch (error) {
+            console.error('Failed to parse tabular file:', error);
+            return NextResponse.json(
+                { success: false, error: `Could not read ${format.toUpperCase()} file` },
+                { status: 400 }
+            );
+        }
+
+        const supplierMatch = profileId ? null : await detectSupplier({ text: tabularSupplierText(parsed) });
+
+        const profile = await getProcessingProfile(profileId || supplierMatch?.supplier.default_profile_id || undefined);
+        if (!profile) {
+            return NextResponse.json(
+                { success: false, error: 'Processing profile not found' },
+                { status: 404 }
+            );
+        }
+
+        const fields = (profile.fields || []) as unknown as FieldDefinition[];
+        const savedMappings = (profile as { column_mappings?: SavedColumnMapping[] }).column_mappings || [];
+        const { mapping, source } = suggestColumnMapping(parsed.headers, fields, savedMappings);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                format,
+                headers: parsed.headers,
+                rowCount: parsed.rows.length,
+                sampleRows: parsed.rows.slice(0, SAMPLE_ROWS),
+                mapping,
+                mappingSource: source,
+                profile: { id: profile.id, name: profile.name },
+                supplier: supplierMatch
+                    ? { id: supplierMatch.supplier.id, name: supplierMatch.supplier.name }
+                    : null,
+                fields: fields
+                    .filter(f => f.source !== 'computed')
+                    .map(f => ({ key: f.key, label: f.label })),
+            },
+        });
+    } catch (error) {
+        console.error('POST /api/draft-orders/preview error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 /**
  * Export API Route
  * POST: Generate export file from draft order using export config from processing profile
+ *       (a ZIP with manifest.json for configs with bundle files)
  * GET: List available export configs from processing profiles
  * 
  * Note: Uses input_profiles table with export_configs JSONB column (post-migration 021)
@@ -8,9 +9,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { exportRecords } from '@/lib/export';
-import type { OutputProfile, DataRecord } from '@/lib/export';
-import type { DraftLineItem, ExportConfig } from '@/types';
+import { authorize } from '@/lib/auth/authorize';
+import { exportRecords, getTransformCatalogKeys, groupCatalogEntries, toOutputProfile } from '@/lib/export';
+import type { DataRecord } from '@/lib/export';
+import type { CatalogEntry, DraftLineItem, ExportConfig, FieldDefinition } from '@/types';
 
 interface ExportRequest {
     order_id: string;
@@ -30,13 +32,8 @@ export async function POST(request: NextRequest) {
         const supabase = await createClient();
 
         // Auth check
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('order.export');
+        if (!user) return response;
 
         // Parse request body
         const body: ExportRequest = await request.json();
@@ -71,6 +68,7 @@ export async function POST(request: NextRequest) {
 
         // First check for snapshotted export config in order metadata
         let exportConfig: ExportConfig | null = null;
+        let fields = (order?.metadata?.profile_fields as FieldDefinition[] | null) || [];
         
         const snapshot = order?.metadata?.export_config_snapshot as ExportConfig | null;
         if (snapshot && !export_config_id) {
@@ -91,7 +89,7 @@ export async function POST(request: NextRequest) {
             // Fetch the processing profile with export_configs
             const { data: profile, error: profileError } = await supabase
                 .from('input_profiles')
-                .select('export_configs, default_export_config_idx')
+                .select('fields, export_configs, default_export_config_idx')
                 .eq('id', profileId)
                 .single();
 
@@ -102,6 +100,8 @@ export async function POST(request: NextRequest) {
                 );
             }
 
+            fields = (profile.fields as FieldDefinition[] | null) || fields;
+
             const configs = (profile.export_configs || []) as ExportConfig[];
             if (configs.length === 0) {
                 return NextResponse.json(
@@ -143,18 +143,24 @@ export async function POST(request: NextRequest) {
         }
 
         // Convert ExportConfig to OutputProfile format for export module
-        const outputProfile: OutputProfile = {
-            id: exportConfig.id,
-            name: exportConfig.name,
-            shop_system: exportConfig.shop_system,
-            field_mappings: exportConfig.field_mappings || [],
-            format: exportConfig.format,
-            format_options: exportConfig.format_options || {},
-            is_default: exportConfig.is_default,
-        };
+        const outputProfile = toOutputProfile(exportConfig);
+
+        // Load catalogs used by catalog lookup transforms of every file
+        const catalogKeys = getTransformCatalogKeys([
+            ...outputProfile.field_mappings,
+            ...(outputProfile.bundle_files || []).flatMap(file => file.field_mappings),
+        ]);
+        let catalogs: Record<string, CatalogEntry[]> = {};
+        if (catalogKeys.length > 0) {
+            const { data: entries } = await supabase
+                .from('catalog_entries')
+                .select('id, field_key, name, code, aliases, extra_data')
+                .in('field_key', catalogKeys);
+            catalogs = groupCatalogEntries((entries || []) as CatalogEntry[]);
+        }
 
         // Generate export
-        const result = exportRecords(records, outputProfile);
+        const result = exportRecords(records, outputProfile, fields, { catalogs });
 
         if (!result.success) {
             return NextResponse.json(
@@ -164,12 +170,17 @@ export async function POST(request: NextRequest) {
         }
 
         // Check if client wants file download or JSON response
-        const wantsDownload = request.headers.get('Accept')?.includes('text/csv') ||
-            request.headers.get('Accept')?.includes('application/octet-stream');
+        const accept = request.headers.get('Accept') || '';
+        const wantsDownload = accept.includes('text/csv') ||
+            accept.includes('application/octet-stream') ||
+            accept.includes('spreadsheetml') ||
+            accept.includes('application/zip');
+
+        const isBinary = result.data instanceof Uint8Array;
 
         if (wantsDownload && result.data) {
             // Return as file download
-            return new NextResponse(result.data, {
+            return new NextResponse(isBinary ? Buffer.from(result.data as Uint8Array) : result.data as string, {
                 status: 200,
                 headers: {
                     'Content-Type': result.content_type || 'text/csv',
@@ -178,11 +189,12 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // Return as JSON with data
+        // Return as JSON with data (binary formats base64-encoded)
         return NextResponse.json({
             success: true,
             data: {
-                content: result.data,
+                content: isBinary ? Buffer.from(result.data as Uint8Array).toString('base64') : result.data,
+                encoding: isBinary ? 'base64' : 'utf-8',
                 content_type: result.content_type,
                 filename: result.filename,
                 record_count: result.record_count,
@@ -206,13 +218,8 @@ export async function GET() {
     try {
         const supabase = await createClient();
 
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('order.read');
+        if (!user) return response;
 
         // Fetch all profiles with their export configs
         const { data: profiles, error } = await supabase
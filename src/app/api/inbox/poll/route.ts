@@ -0,0 +1,37 @@
+/**
+ * Inbox Poll API
+ * GET/POST: Poll the order inbox once (called by a scheduler/cron).
+ * Requires `Authorization: Bearer <INBOX_POLL_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMailSource, pollInbox } from '@/lib/inbox';
+
+// Extraction of the attachments runs inside this request
+export const maxDuration = 300;
+
+async function handlePoll(request: NextRequest) {
+    const secret = process.env.INBOX_POLL_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const limit = parseInt(request.nextUrl.searchParams.get('limit') || '20', 10);
+        const result = await pollInbox(getMailSource(), limit);
+
+        return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+        console.error('Inbox poll error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Inbox poll failed' },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = handlePoll;
+export const POST = handlePoll;
@@ -0,0 +1,65 @@
+/**
+ * Invitation Link API Routes
+ * Used by invitees, who are not tenant members yet.
+ * GET: Invitation details (tenant, email, role, expiry)
+ * POST: Accept the invitation as the signed-in user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { acceptInvitation, getInvitationByToken } from '@/lib/services/tenant.service';
+
+interface RouteParams {
+    params: Promise<{ token: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { token } = await params;
+
+        const invitation = await getInvitationByToken(token);
+        if (!invitation) {
+            return NextResponse.json(
+                { success: false, error: 'Invitation not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: invitation });
+    } catch (error) {
+        console.error('GET /api/invitations/[token] error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { token } = await params;
+
+        // Invitees have no membership yet, so only authentication is checked
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json(
+                { success: false, error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const result = await acceptInvitation(token);
+        if (!result.success) {
+            return NextResponse.json(result, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, data: { tenantId: result.tenantId } });
+    } catch (error) {
+        console.error('POST /api/invitations/[token] error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
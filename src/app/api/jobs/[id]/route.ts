@@ -1,47 +1,83 @@
+/**
+ * Job API Routes
+ * GET: Job status with progress percent and current step
+ * DELETE: Cancel a pending or running job
+ */
+
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { authorize } from "@/lib/auth/authorize";
+import { getJob, cancelJob, processJobsInBackground } from "@/lib/jobs";
 
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
-        const supabase = await createClient();
         const { id } = await params;
 
         // Check authentication
-        const {
-            data: { user },
-            error: authError,
-        } = await supabase.auth.getUser();
-        if (authError || !user) {
+        const { user, response } = await authorize("order.read");
+        if (!user) return response;
+
+        // Get job (RLS handles tenant isolation)
+        const job = await getJob(id);
+        if (!job) {
             return NextResponse.json(
-                { success: false, error: "Unauthorized" },
-                { status: 401 }
+                { success: false, error: "Job not found" },
+                { status: 404 }
             );
         }
 
-        // Get job
-        const { data: job, error: jobError } = await supabase
-            .from("jobs")
-            .select("*")
-            .eq("id", id)
-            .eq("user_id", user.id)
-            .single();
+        // Pick up jobs that are due for a retry or whose worker died
+        const now = Date.now();
+        const due = job.status === "pending" && new Date(job.run_at).getTime() <= now;
+        const stale = job.status === "processing" && !!job.locked_until && new Date(job.locked_until).getTime() < now;
+        if (due || stale) {
+            processJobsInBackground(job.id);
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: job,
+        });
+    } catch (error) {
+        console.error("Get job error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
 
-        if (jobError || !job) {
+        const { user, response } = await authorize("order.edit");
+        if (!user) return response;
+
+        const existing = await getJob(id);
+        if (!existing) {
             return NextResponse.json(
                 { success: false, error: "Job not found" },
                 { status: 404 }
             );
         }
 
+        const job = await cancelJob(id);
+
         return NextResponse.json({
             success: true,
             data: job,
         });
     } catch (error) {
-        console.error("Get job error:", error);
+        console.error("Cancel job error:", error);
         return NextResponse.json(
             {
                 success: false,
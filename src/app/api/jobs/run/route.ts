@@ -0,0 +1,34 @@
+/**
+ * Jobs Run API
+ * GET/POST: Run due jobs of all tenants - retries and expired leases (called by a scheduler/cron).
+ * Requires `Authorization: Bearer <JOBS_RUN_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueJobs } from '@/lib/jobs';
+
+export const maxDuration = 300;
+
+async function handleRun(request: NextRequest) {
+    const secret = process.env.JOBS_RUN_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const processed = await processDueJobs();
+        return NextResponse.json({ success: true, data: { processed } });
+    } catch (error) {
+        console.error('Jobs run error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Jobs run failed' },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = handleRun;
+export const POST = handleRun;
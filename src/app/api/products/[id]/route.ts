@@ -0,0 +1,85 @@
+/**
+ * Product API Routes
+ * GET: A product with its order history
+ * PATCH: Edit the product's attributes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { getProduct, updateProductOverrides } from '@/lib/services/products.service';
+import type { NormalizedProduct } from '@/types';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/products/[id]
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id } = await params;
+        const { user, response } = await authorize('product.read');
+        if (!user) return response;
+
+        const result = await getProduct(id);
+        if (!result) {
+            return NextResponse.json(
+                { success: false, error: 'Product not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+        console.error('GET /api/products/[id] error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/products/[id]
+ * Replace the edited attributes ({ overrides: { key: value } })
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id } = await params;
+        const { user, response } = await authorize('product.edit');
+        if (!user) return response;
+
+        const body = await request.json();
+        const overrides = body?.overrides as NormalizedProduct | undefined;
+
+        const isValid = !!overrides && typeof overrides === 'object' && !Array.isArray(overrides)
+            && Object.entries(overrides).every(([key, value]) =>
+                key.trim() !== '' && !key.startsWith('_')
+                && (value === null || ['string', 'number', 'boolean'].includes(typeof value))
+            );
+
+        if (!isValid) {
+            return NextResponse.json(
+                { success: false, error: 'overrides must map attribute names to plain values' },
+                { status: 400 }
+            );
+        }
+
+        const result = await updateProductOverrides(id, overrides);
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.error === 'Product not found' ? 404 : 500 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: result.product });
+    } catch (error) {
+        console.error('PATCH /api/products/[id] error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Products API Route
+ * GET: List the tenant's product master
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { getProducts } from '@/lib/services/products.service';
+
+/**
+ * GET /api/products?q=...&limit=...&offset=...
+ * List products, most recently exported first
+ * q: search SKU, EAN and name
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { user, response } = await authorize('product.read');
+        if (!user) return response;
+
+        const searchParams = request.nextUrl.searchParams;
+        const limit = parseInt(searchParams.get('limit') || '20', 10);
+        const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+        const { products, total } = await getProducts({
+            search: searchParams.get('q') || undefined,
+            limit,
+            offset,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: products,
+            pagination: {
+                total,
+                limit,
+                offset,
+                hasMore: offset + products.length < total,
+            },
+        });
+    } catch (error) {
+        console.error('GET /api/products error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Retention Run API
+ * GET/POST: Apply the retention policies of all tenants (called by a scheduler/cron).
+ * Requires `Authorization: Bearer <RETENTION_RUN_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runScheduledRetention } from '@/lib/services/retention.service';
+
+export const maxDuration = 300;
+
+async function handleRun(request: NextRequest) {
+    const secret = process.env.RETENTION_RUN_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const results = await runScheduledRetention();
+        return NextResponse.json({ success: true, data: results });
+    } catch (error) {
+        console.error('Retention run error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Retention run failed' },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = handleRun;
+export const POST = handleRun;
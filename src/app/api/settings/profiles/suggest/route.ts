@@ -6,9 +6,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { suggestProfileFromDocument } from "@/lib/extraction/profile-guesser";
 import { createClient } from "@/lib/supabase/server";
+import { authorize } from "@/lib/auth/authorize";
 
 export async function POST(request: NextRequest) {
     try {
+        const { user, response } = await authorize("settings.edit");
+        if (!user) return response;
+
         const formData = await request.formData();
         const file = formData.get("file") as File | null;
 
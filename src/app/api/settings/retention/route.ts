@@ -0,0 +1,79 @@
+/**
+ * Retention Settings API
+ * GET: Get the tenant's retention policy
+ * PUT: Update the retention policy
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { getRetentionPolicy, updateRetentionPolicy } from '@/lib/services/retention.service';
+import type { RetentionPolicy } from '@/types';
+
+/** Longest retention period that can be configured (10 years) */
+const MAX_RETENTION_DAYS = 3650;
+
+/**
+ * A number of days, or null to disable the rule
+ */
+function parseDays(value: unknown): number | null | undefined {
+    if (value === null || value === '') return null;
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS) return undefined;
+    return days;
+}
+
+export async function GET() {
+    try {
+        const { user, response } = await authorize('settings.read');
+        if (!user) return response;
+
+        const policy = await getRetentionPolicy();
+        return NextResponse.json({ success: true, data: policy });
+    } catch (error) {
+        console.error('GET /api/settings/retention error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/settings/retention
+ * Body: { archive_exported_after_days, purge_source_files_after_days } - days or null
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const { user, response } = await authorize('settings.edit');
+        if (!user) return response;
+
+        const body = await request.json();
+        const policy: Partial<RetentionPolicy> = {
+            archive_exported_after_days: parseDays(body.archive_exported_after_days),
+            purge_source_files_after_days: parseDays(body.purge_source_files_after_days),
+        };
+
+        if (policy.archive_exported_after_days === undefined || policy.purge_source_files_after_days === undefined) {
+            return NextResponse.json(
+                { success: false, error: `Retention periods must be whole days between 1 and ${MAX_RETENTION_DAYS}, or empty` },
+                { status: 400 }
+            );
+        }
+
+        const result = await updateRetentionPolicy(policy as RetentionPolicy);
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: result.policy });
+    } catch (error) {
+        console.error('PUT /api/settings/retention error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
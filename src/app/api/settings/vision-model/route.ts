@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/auth/authorize';
 import { type VisionModel, type SparkModel, VISION_MODELS, SPARK_MODELS, DEFAULT_VISION_MODEL, DEFAULT_SPARK_MODEL } from '@/lib/extraction';
 
 const VALID_VISION_MODELS = Object.keys(VISION_MODELS) as VisionModel[];
@@ -18,14 +19,8 @@ const VALID_SPARK_MODELS = Object.keys(SPARK_MODELS) as SparkModel[];
 export async function GET() {
     try {
         const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('settings.read');
+        if (!user) return response;
 
         const { data: tenant, error: tenantError } = await supabase
             .from('tenants')
@@ -67,14 +62,8 @@ export async function GET() {
 export async function PUT(request: NextRequest) {
     try {
         const supabase = await createClient();
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-        if (authError || !user) {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
-            );
-        }
+        const { user, response } = await authorize('settings.edit');
+        if (!user) return response;
 
         const body = await request.json();
         const { vision_model, spark_model, ai_reasoning_enabled } = body;
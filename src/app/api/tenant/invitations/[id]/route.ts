@@ -0,0 +1,33 @@
+/**
+ * Tenant Invitation API Route
+ * DELETE: Revoke an open invitation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { revokeInvitation } from '@/lib/services/tenant.service';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { id } = await params;
+        const { user, response } = await authorize('members.manage');
+        if (!user) return response;
+
+        const result = await revokeInvitation(id);
+        if (!result.success) {
+            return NextResponse.json(result, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('DELETE /api/tenant/invitations/[id] error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
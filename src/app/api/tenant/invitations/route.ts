@@ -0,0 +1,73 @@
+/**
+ * Tenant Invitations API Routes
+ * GET: Open invitations of the current tenant
+ * POST: Invite someone by email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { createInvitation, getInvitations } from '@/lib/services/tenant.service';
+
+export async function GET() {
+    try {
+        const { user, response } = await authorize('members.manage');
+        if (!user) return response;
+
+        const invitations = await getInvitations();
+        return NextResponse.json({ success: true, data: invitations });
+    } catch (error) {
+        console.error('GET /api/tenant/invitations error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/tenant/invitations
+ * Body: { email, role?: 'admin' | 'member' }
+ * Returns the invitation with its link; the link is only available in this response.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { user, response } = await authorize('members.manage');
+        if (!user) return response;
+
+        const { email, role = 'member' } = await request.json() as { email?: string; role?: string };
+        if (!email) {
+            return NextResponse.json(
+                { success: false, error: 'email is required' },
+                { status: 400 }
+            );
+        }
+        if (role !== 'admin' && role !== 'member') {
+            return NextResponse.json(
+                { success: false, error: 'role must be admin or member' },
+                { status: 400 }
+            );
+        }
+
+        const result = await createInvitation(email, role);
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                ...result.invitation,
+                inviteUrl: `${request.nextUrl.origin}/invite/${result.token}`,
+            },
+        });
+    } catch (error) {
+        console.error('POST /api/tenant/invitations error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Tenant Member API Routes
+ * PATCH: Change a member's role
+ * DELETE: Remove a member from the tenant
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { updateMemberRole, removeMember } from '@/lib/services/tenant.service';
+
+interface RouteParams {
+    params: Promise<{ userId: string }>;
+}
+
+/**
+ * PATCH /api/tenant/members/[userId]
+ * Body: { role: 'admin' | 'member' } - use /api/tenant/ownership to change the owner
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await params;
+        const { user, response } = await authorize('members.manage');
+        if (!user) return response;
+
+        const { role } = await request.json() as { role?: string };
+        if (role !== 'admin' && role !== 'member') {
+            return NextResponse.json(
+                { success: false, error: 'role must be admin or member' },
+                { status: 400 }
+            );
+        }
+
+        const result = await updateMemberRole(userId, role);
+        if (!result.success) {
+            return NextResponse.json(result, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('PATCH /api/tenant/members/[userId] error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/tenant/members/[userId]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await params;
+        const { user, response } = await authorize('members.manage');
+        if (!user) return response;
+
+        const result = await removeMember(userId);
+        if (!result.success) {
+            return NextResponse.json(result, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('DELETE /api/tenant/members/[userId] error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
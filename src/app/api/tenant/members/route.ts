@@ -1,8 +1,17 @@
+/**
+ * Tenant Members API Route
+ * GET: Members of the current tenant with their profile info
+ */
+
 import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
 import { getTenantMembers } from '@/lib/services/tenant.service';
 
 export async function GET() {
     try {
+        const { user, response } = await authorize('members.read');
+        if (!user) return response;
+
         const members = await getTenantMembers();
         return NextResponse.json({ success: true, data: members });
     } catch (error) {
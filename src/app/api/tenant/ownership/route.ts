@@ -0,0 +1,40 @@
+/**
+ * Tenant Ownership API Route
+ * POST: Transfer ownership to another member (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { transferOwnership } from '@/lib/services/tenant.service';
+
+/**
+ * POST /api/tenant/ownership
+ * Body: { userId } - the current owner becomes an admin
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { user, response } = await authorize('tenant.transfer');
+        if (!user) return response;
+
+        const { userId } = await request.json() as { userId?: string };
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'userId is required' },
+                { status: 400 }
+            );
+        }
+
+        const result = await transferOwnership(userId);
+        if (!result.success) {
+            return NextResponse.json(result, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('POST /api/tenant/ownership error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,82 +1,45 @@
-import { NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import { getCurrentTenantId } from '@/lib/services/tenant.service';
-
-export async function DELETE() {
+/**
+ * Tenant Reset API Route
+ * DELETE: Delete the tenant's data in the given scopes (owner only)
+ *
+ * Query: ?scopes=orders,catalogs,profiles (default: orders) and
+ * ?dryRun=true to only count what would be deleted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/authorize';
+import { RESET_SCOPE_TABLES, resetTenantData } from '@/lib/services/retention.service';
+import type { TenantResetScope } from '@/types';
+
+const VALID_SCOPES = Object.keys(RESET_SCOPE_TABLES) as TenantResetScope[];
+
+export async function DELETE(request: NextRequest) {
     try {
-        const supabase = await createClient();
-        
-        // 1. Verify Authentication
-        const { data: { user }, error: authError } = await supabase.auth.getUser();
-        if (authError || !user) {
+        // 1. Verify Authentication and Role (owners only)
+        const { user, response } = await authorize('tenant.reset');
+        if (!user) return response;
+
+        // 2. Parse Scopes
+        const searchParams = request.nextUrl.searchParams;
+        const scopes = (searchParams.get('scopes') || 'orders')
+            .split(',')
+            .map((scope) => scope.trim())
+            .filter(Boolean);
+
+        const invalid = scopes.filter((scope) => !VALID_SCOPES.includes(scope as TenantResetScope));
+        if (scopes.length === 0 || invalid.length > 0) {
             return NextResponse.json(
-                { success: false, error: 'Unauthorized' },
-                { status: 401 }
+                { success: false, error: `Invalid scope. Must be one of: ${VALID_SCOPES.join(', ')}` },
+                { status: 400 }
             );
         }
 
-        // 2. Verify Tenant Membership
-        const tenantId = await getCurrentTenantId();
-        if (!tenantId) {
-            return NextResponse.json(
-                { success: false, error: 'Tenant not found' },
-                { status: 404 }
-            );
-        }
-
-        // 3. Perform Deletion (Scoped to Tenant via RLS or explicit filter)
-        // Since we are using the service role client inside backend logic usually, 
-        // but here we used `createClient()` which is user-scoped. 
-        // RLS policies on `draft_orders` and `jobs` are "Tenant Isolation".
-        // So a simple `delete().neq('id', '0000...')` (delete all) works safely.
-
-        // Delete Draft Orders (cascades to line items)
-        const { error: ordersError } = await supabase
-            .from('draft_orders')
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all rows visible to this user
-        
-        if (ordersError) {
-            console.error('Failed to clear orders:', ordersError);
-            throw ordersError;
-        }
-
-        // Delete Jobs
-        const { error: jobsError } = await supabase
-            .from('jobs')
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all rows visible to this user
-
-        if (jobsError) {
-            console.error('Failed to clear jobs:', jobsError);
-            throw jobsError;
-        }
-
-        // Clear Storage Buckets (pdfs, catalogues)
-        // We attempt this but don't fail the whole request if it errors (e.g. buckets don't exist)
-        try {
-            const buckets = ['pdfs', 'catalogues'];
-            for (const bucket of buckets) {
-                const { data: files, error: listError } = await supabase.storage.from(bucket).list();
-                if (listError) {
-                    console.warn(`Failed to list files in bucket ${bucket}:`, listError);
-                    continue;
-                }
-
-                if (files && files.length > 0) {
-                    const paths = files.map(f => f.name);
-                    const { error: removeError } = await supabase.storage.from(bucket).remove(paths);
-                    if (removeError) {
-                        console.warn(`Failed to remove files from bucket ${bucket}:`, removeError);
-                    }
-                }
-            }
-        } catch (storageError) {
-            console.error('Storage cleanup error:', storageError);
-            // Continue - database is already cleared
-        }
+        // 3. Delete (or count) - scoped to the user's tenant
+        const result = await resetTenantData(user.tenant_id, scopes as TenantResetScope[], {
+            dryRun: searchParams.get('dryRun') === 'true',
+        });
 
-        return NextResponse.json({ success: true });
+        return NextResponse.json({ success: true, data: result });
     } catch (error) {
         console.error('Reset tenant data error:', error);
         return NextResponse.json(
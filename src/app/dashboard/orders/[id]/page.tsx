@@ -12,8 +12,12 @@ import { Button } from "@/components/ui/button";
 import { DraftOrderGrid } from "@/components/orders/flow/DraftOrderGrid";
 import { IngestrySpark } from "@/components/orders/flow/IngestrySpark";
 import { ExportDialog } from "@/components/orders/ExportDialog";
-import type { DraftOrder, NormalizedProduct, DraftOrderStatus, DraftLineItem } from "@/types";
+import { OrderReviewControls } from "@/components/orders/OrderReviewControls";
+import { PdfViewer } from "@/components/orders/PdfViewer";
+import { LineItemHistory } from "@/components/orders/flow/LineItemHistory";
+import type { DraftOrder, NormalizedProduct, DraftOrderStatus, DraftLineItem, FieldSources } from "@/types";
 import type { DataRecord } from "@/lib/export";
+import { waitForJob } from "@/lib/jobs/client";
 
 const statusConfig: Record<DraftOrderStatus, { label: string; className: string }> = {
     processing: {
@@ -24,6 +28,14 @@ const statusConfig: Record<DraftOrderStatus, { label: string; className: string
         label: "Pending Review",
         className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
     },
+    in_review: {
+        label: "In Review",
+        className: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300",
+    },
+    changes_requested: {
+        label: "Changes Requested",
+        className: "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+    },
     approved: {
         label: "All Approved",
         className: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
@@ -42,6 +54,17 @@ const statusConfig: Record<DraftOrderStatus, { label: string; className: string
     },
 };
 
+/** Source locations of a line item: the pages its fields were found on */
+function getItemSources(item: DraftLineItem | undefined): { page?: number; sources: FieldSources } {
+    const raw = item?.raw_data as unknown as { _sources?: FieldSources; _source_pages?: { start: number } } | undefined;
+    const sources = raw?._sources || {};
+    const pages = Object.values(sources).map(s => s.page);
+    return {
+        page: pages.length > 0 ? Math.min(...pages) : raw?._source_pages?.start,
+        sources,
+    };
+}
+
 export default function OrderDetailPage() {
     const params = useParams();
     const router = useRouter();
@@ -58,6 +81,14 @@ export default function OrderDetailPage() {
     const [sparkSelectedIds, setSparkSelectedIds] = useState<string[]>([]);
     const [sparkProcessing, setSparkProcessing] = useState(false);
     const [sparkOpen, setSparkOpen] = useState(false);
+
+    // Source PDF viewer state
+    const [isSourceOpen, setIsSourceOpen] = useState(false);
+    const [focusedItemId, setFocusedItemId] = useState<string | undefined>();
+    
+    // Change history: a single line item, or the whole order when no item is set
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [historyItem, setHistoryItem] = useState<DraftLineItem | undefined>();
     
     // Regeneration visual feedback state
     const [regeneratingRowIds, setRegeneratingRowIds] = useState<Set<string>>(new Set());
@@ -160,6 +191,43 @@ export default function OrderDetailPage() {
         }
     };
 
+    // Merge a duplicate line item into the line item it repeats
+    const handleMergeDuplicate = async (itemId: string, targetId: string) => {
+        try {
+            const response = await fetch(`/api/draft-orders/${orderId}/line-items`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ action: "merge_duplicate", lineItemId: itemId, targetId }),
+            });
+
+            const result = await response.json();
+            if (result.success) {
+                await fetchOrder();
+            }
+        } catch (err) {
+            console.error("Failed to merge duplicate:", err);
+        }
+    };
+
+    // Discard line items (e.g. duplicates)
+    const handleDiscardItems = async (itemIds: string[]) => {
+        if (!confirm(`Discard ${itemIds.length === 1 ? "this line item" : `${itemIds.length} line items`}?`)) return;
+        try {
+            const response = await fetch(`/api/draft-orders/${orderId}/line-items`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ action: "discard", lineItemIds: itemIds }),
+            });
+
+            const result = await response.json();
+            if (result.success) {
+                await fetchOrder();
+            }
+        } catch (err) {
+            console.error("Failed to discard items:", err);
+        }
+    };
+
     // Handle template field regeneration
     const handleRegenerateTemplates = async (itemIds: string[], fieldKeys?: string[]) => {
         // Set visual feedback
@@ -178,6 +246,7 @@ export default function OrderDetailPage() {
 
             const result = await response.json();
             if (result.success) {
+                await waitForJob(result.data.jobId);
                 await fetchOrder();
             }
         } catch (err) {
@@ -206,22 +275,28 @@ export default function OrderDetailPage() {
         }
     };
 
-    // Handle submit to shop
-    const handleSubmitToShop = async () => {
+    // Handle submit to shop (upsert updates products already in the shop)
+    const handleSubmitToShop = async (mode: "create" | "upsert" = "create") => {
         setIsSubmitting(true);
         setSubmitResult(null);
 
         try {
             const response = await fetch(`/api/draft-orders/${orderId}/submit`, {
                 method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ mode }),
             });
 
             const result = await response.json();
 
             if (result.success) {
+                const job = await waitForJob(result.data.jobId);
+                const uploaded = job.status === "completed" && job.result?.success === true;
                 setSubmitResult({
-                    success: true,
-                    message: "Order submitted successfully!",
+                    success: uploaded,
+                    message: uploaded
+                        ? (mode === "upsert" ? "Shop products updated successfully!" : "Order submitted successfully!")
+                        : job.error || "Some products failed to upload",
                 });
                 await fetchOrder();
             } else {
@@ -262,6 +337,15 @@ export default function OrderDetailPage() {
     const statusCfg = statusConfig[order.status] || statusConfig.processing;
     const canSubmit = order.status === "approved";
     const isExported = order.status === "exported";
+    const canResubmit = isExported || order.status === "failed";
+
+    // The viewer follows the clicked row, or the first selected one
+    const hasSourcePdf = !!order.source_file_path && (order.source_file_type || "application/pdf") === "application/pdf";
+    const sourceFileUrl = hasSourcePdf ? `/api/draft-orders/${orderId}/source` : undefined;
+    const viewerItemId = focusedItemId ?? sparkSelectedIds[0];
+    const viewerSource = getItemSources(order.line_items?.find(i => i.id === viewerItemId));
+    const fieldLabels = ((order.metadata as { profile_fields?: Array<{ key: string; label: string }> })?.profile_fields || [])
+        .reduce((acc, f) => ({ ...acc, [f.key]: f.label }), {} as Record<string, string>);
 
     return (
         <div className="space-y-6">
@@ -277,9 +361,15 @@ export default function OrderDetailPage() {
                         >
                             {statusCfg.label}
                         </span>
+                        {order.archived_at && (
+                            <span className="inline-flex items-center rounded-full bg-muted px-3 py-1 text-sm font-medium text-muted-foreground">
+                                Archived
+                            </span>
+                        )}
                     </div>
                     <p className="text-muted-foreground">
                         {order.source_file_name || "Uploaded file"} • {order.shop_system} •{" "}
+                        {order.supplier && <>{order.supplier.name} •{" "}</>}
                         {new Date(order.created_at).toLocaleString()}
                     </p>
                 </div>
@@ -298,9 +388,16 @@ export default function OrderDetailPage() {
                     >
                         Export
                     </Button>
-                    {!isExported && (
+                    {canResubmit ? (
+                        <Button
+                            onClick={() => handleSubmitToShop("upsert")}
+                            disabled={isSubmitting}
+                        >
+                            {isSubmitting ? "Submitting..." : "Update in Shop"}
+                        </Button>
+                    ) : (
                         <Button
-                            onClick={handleSubmitToShop}
+                            onClick={() => handleSubmitToShop()}
                             disabled={!canSubmit || isSubmitting}
                         >
                             {isSubmitting ? "Submitting..." : "Submit to Shop"}
@@ -309,6 +406,12 @@ export default function OrderDetailPage() {
                 </div>
             </div>
 
+            {/* Review Workflow */}
+            <OrderReviewControls
+                order={order}
+                onChange={(updated) => setOrder(prev => prev && { ...prev, ...updated })}
+            />
+
             {/* Submit Result Message */}
             {submitResult && (
                 <div
@@ -326,6 +429,27 @@ export default function OrderDetailPage() {
                 <Card className="flex-1 min-w-0 flex flex-col overflow-hidden">
                     <CardHeader className="flex flex-row items-center justify-between border-b shrink-0">
                         <CardTitle className="text-base font-medium">Product Validation</CardTitle>
+                        <div className="flex items-center gap-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                    setHistoryItem(undefined);
+                                    setIsHistoryOpen(true);
+                                }}
+                            >
+                                History
+                            </Button>
+                            {sourceFileUrl && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setIsSourceOpen(prev => !prev)}
+                                >
+                                    {isSourceOpen ? "Hide PDF" : "Show PDF"}
+                                </Button>
+                            )}
+                        </div>
                     </CardHeader>
                     <CardContent className="p-6 flex-1 overflow-auto">
                         {order.line_items && order.line_items.length > 0 ? (
@@ -343,10 +467,16 @@ export default function OrderDetailPage() {
                                 onSelectionChange={setSparkSelectedIds}
                                 onSparkToggle={() => setSparkOpen(prev => !prev)}
                                 regeneratingRowIds={regeneratingRowIds}
-                                fieldLabels={
-                                    ((order.metadata as { profile_fields?: Array<{ key: string; label: string }> })?.profile_fields || [])
-                                        .reduce((acc, f) => ({ ...acc, [f.key]: f.label }), {} as Record<string, string>)
-                                }
+                                sourceFileUrl={sourceFileUrl}
+                                onRowFocus={(item) => setFocusedItemId(item.id)}
+                                onMergeDuplicate={handleMergeDuplicate}
+                                onDiscardItems={handleDiscardItems}
+                                onShowHistory={(item) => {
+                                    setHistoryItem(item);
+                                    setIsHistoryOpen(true);
+                                }}
+                                focusedRowId={isSourceOpen ? viewerItemId : undefined}
+                                fieldLabels={fieldLabels}
                                 templatedFields={
                                     ((order.metadata as { profile_fields?: Array<{ key: string; use_template?: boolean; source?: string; logic_type?: string; template?: string; ai_prompt?: string }> })?.profile_fields || [])
                                         .filter(f => 
@@ -373,6 +503,26 @@ export default function OrderDetailPage() {
                     </CardContent>
                 </Card>
 
+                {/* Source PDF */}
+                {sourceFileUrl && isSourceOpen && (
+                    <Card className="w-[45%] max-w-[720px] shrink-0 flex flex-col overflow-hidden">
+                        <CardHeader className="flex flex-row items-center justify-between border-b shrink-0">
+                            <CardTitle className="text-base font-medium truncate">
+                                {order.source_file_name || "Source PDF"}
+                            </CardTitle>
+                            {viewerSource.page && (
+                                <CardDescription>Page {viewerSource.page}</CardDescription>
+                            )}
+                        </CardHeader>
+                        <PdfViewer
+                            url={sourceFileUrl}
+                            page={viewerSource.page}
+                            highlights={Object.values(viewerSource.sources)}
+                            className="flex-1 max-h-[720px]"
+                        />
+                    </Card>
+                )}
+
                 {/* Spark Sidebar */}
                 <IngestrySpark
                     orderId={orderId}
@@ -449,6 +599,17 @@ export default function OrderDetailPage() {
                     </dl>
                 </CardContent>
             </Card>
+            {/* Change History */}
+            <LineItemHistory
+                key={historyItem?.id ?? "order"}
+                orderId={orderId}
+                open={isHistoryOpen}
+                onOpenChange={setIsHistoryOpen}
+                lineItemId={historyItem?.id}
+                lineNumber={historyItem?.line_number}
+                fieldLabels={fieldLabels}
+                onReverted={fetchOrder}
+            />
             {/* Export Dialog */}
             <ExportDialog
                 open={isExportDialogOpen}
@@ -20,10 +20,12 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
-import type { ExportConfig } from "@/types";
+import type { ColumnMapping, ExportConfig } from "@/types";
 import { createClient } from "@/lib/supabase/client";
+import { waitForJob, cancelJob } from "@/lib/jobs/client";
 import { toast } from "sonner";
 import { Checkbox } from "@/components/ui/checkbox";
+import { ColumnMappingEditor } from "@/components/orders/ColumnMappingEditor";
 import { Upload, FileText, Check, ArrowRight, ArrowLeft, Sparkles } from "lucide-react";
 
 interface ProcessingProfile {
@@ -36,6 +38,25 @@ interface ProcessingProfile {
 
 type WizardStep = "upload" | "configure" | "processing";
 
+/** Profile selection value: use the detected supplier's profile */
+const AUTO_PROFILE = "auto";
+
+const ALLOWED_TYPES = [
+    "application/pdf",
+    "text/csv",
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+/** CSV/XLSX files are imported with a column mapping instead of AI extraction */
+function isTabularFile(file: File): boolean {
+    return /\.(csv|xlsx|xls)$/i.test(file.name);
+}
+
+function isAllowedFile(file: File): boolean {
+    return ALLOWED_TYPES.includes(file.type) || isTabularFile(file) || file.name.toLowerCase().endsWith(".pdf");
+}
+
 // Animation variants
 const stepVariants = {
     enter: (direction: number) => ({
@@ -117,13 +138,17 @@ export default function NewOrderPage() {
     const [_isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [progress, setProgress] = useState<string>("");
+    const [progressPercent, setProgressPercent] = useState(0);
+    const [jobId, setJobId] = useState<string | null>(null);
     const [createdOrderId, setCreatedOrderId] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
 
     // Processing profile state
     const [profiles, setProfiles] = useState<ProcessingProfile[]>([]);
-    const [selectedProfileId, setSelectedProfileId] = useState<string>("");
+    const [selectedProfileId, setSelectedProfileId] = useState<string>(AUTO_PROFILE);
     const [autoComputedFields, setAutoComputedFields] = useState(true);
+    const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+    const isTabular = file ? isTabularFile(file) : false;
 
     // Get selected profile
     const selectedProfile = profiles.find(p => p.id === selectedProfileId);
@@ -146,8 +171,6 @@ export default function NewOrderPage() {
 
             if (data && data.length > 0) {
                 setProfiles(data);
-                const defaultProfile = data.find(p => p.is_default) || data[0];
-                setSelectedProfileId(defaultProfile.id);
             }
         };
         fetchProfiles();
@@ -180,14 +203,12 @@ export default function NewOrderPage() {
 
         const droppedFile = e.dataTransfer.files?.[0];
         if (droppedFile) {
-            const allowedTypes = ["application/pdf", "text/csv", "application/vnd.ms-excel"];
-            if (!allowedTypes.includes(droppedFile.type) &&
-                !droppedFile.name.endsWith(".csv") &&
-                !droppedFile.name.endsWith(".pdf")) {
-                setError("Please upload a PDF or CSV file");
+            if (!isAllowedFile(droppedFile)) {
+                setError("Please upload a PDF, CSV or Excel file");
                 return;
             }
             setFile(droppedFile);
+            setColumnMapping(null);
             setError(null);
         }
     }, []);
@@ -211,14 +232,12 @@ export default function NewOrderPage() {
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
         if (selectedFile) {
-            const allowedTypes = ["application/pdf", "text/csv", "application/vnd.ms-excel"];
-            if (!allowedTypes.includes(selectedFile.type) &&
-                !selectedFile.name.endsWith(".csv") &&
-                !selectedFile.name.endsWith(".pdf")) {
-                setError("Please upload a PDF or CSV file");
+            if (!isAllowedFile(selectedFile)) {
+                setError("Please upload a PDF, CSV or Excel file");
                 return;
             }
             setFile(selectedFile);
+            setColumnMapping(null);
             setError(null);
         }
     };
@@ -234,11 +253,12 @@ export default function NewOrderPage() {
         setIsLoading(true);
         setError(null);
         setProgress("Uploading file...");
+        setProgressPercent(0);
 
         try {
             const formData = new FormData();
             formData.append("file", file);
-            if (selectedProfileId) {
+            if (selectedProfileId && selectedProfileId !== AUTO_PROFILE) {
                 formData.append("profile_id", selectedProfileId);
             }
             if (orderName.trim()) {
@@ -247,8 +267,9 @@ export default function NewOrderPage() {
             if (!autoComputedFields) {
                 formData.append("skip_computed", "true");
             }
-
-            setProgress("AI Processing...");
+            if (isTabular && columnMapping) {
+                formData.append("column_mapping", JSON.stringify(columnMapping));
+            }
 
             const response = await fetch("/api/draft-orders", {
                 method: "POST",
@@ -261,24 +282,56 @@ export default function NewOrderPage() {
                 throw new Error(result.error || "Failed to process order");
             }
 
-            setProgress(`Order created with ${result.data.productCount} products`);
-            setCreatedOrderId(result.data.orderId);
+            // Extraction/import runs as a background job - poll until it finishes
+            setJobId(result.data.jobId);
+            setProgress("Queued...");
+            const job = await waitForJob(result.data.jobId, (update) => {
+                setProgress(update.step || "Processing...");
+                setProgressPercent(update.progress);
+            });
+            setJobId(null);
+
+            if (job.status === "cancelled") {
+                toast.info("Processing cancelled");
+                goToStep("configure", -1);
+                setIsLoading(false);
+                return;
+            }
+            if (job.status === "failed") {
+                throw new Error(job.error || "Failed to process order");
+            }
+
+            const orderId = job.result?.draftOrderId as string;
+            const productCount = job.result?.productCount as number;
+            const supplierName = job.result?.supplierName as string | null;
+
+            setProgressPercent(100);
+            setProgress(`Order created with ${productCount} products`);
+            setCreatedOrderId(orderId);
             setIsLoading(false);
 
             toast.success("Order created successfully", {
-                description: `${result.data.productCount} products extracted`,
+                description: `${productCount} products ${isTabular ? "imported" : "extracted"}${supplierName ? ` from ${supplierName}` : ""}`,
                 action: {
                     label: "View Order",
-                    onClick: () => router.push(`/dashboard/orders/${result.data.orderId}`),
+                    onClick: () => router.push(`/dashboard/orders/${orderId}`),
                 },
             });
         } catch (err) {
             setError(err instanceof Error ? err.message : "An error occurred");
+            setJobId(null);
             goToStep("configure", -1);
             setIsLoading(false);
         }
     };
 
+    // Cancel a running extraction job (the poll loop picks up the new status)
+    const handleCancel = async () => {
+        if (!jobId) return;
+        setProgress("Cancelling...");
+        await cancelJob(jobId);
+    };
+
     return (
         <div className="max-w-2xl mx-auto space-y-6">
             {/* Header */}
@@ -382,7 +435,7 @@ export default function NewOrderPage() {
                                     Upload Order File
                                 </CardTitle>
                                 <CardDescription>
-                                    Drag and drop or click to select a PDF or CSV file
+                                    Drag and drop or click to select a PDF, CSV or Excel file
                                 </CardDescription>
                             </CardHeader>
                             <CardContent className="space-y-4 pb-6">
@@ -413,7 +466,7 @@ export default function NewOrderPage() {
 
                                     <Input
                                         type="file"
-                                        accept=".pdf,.csv"
+                                        accept=".pdf,.csv,.xlsx,.xls"
                                         onChange={handleFileChange}
                                         className="hidden"
                                         id="file-upload"
@@ -434,7 +487,7 @@ export default function NewOrderPage() {
                                                 {isDragging ? "Drop your file here" : "Click to select or drag and drop"}
                                             </p>
                                             <p className="text-sm text-muted-foreground mt-1">
-                                                PDF or CSV, max 10MB
+                                                PDF, CSV or XLSX, max 10MB
                                             </p>
                                         </div>
                                     </label>
@@ -529,12 +582,18 @@ export default function NewOrderPage() {
                                     <Label>Processing Profile</Label>
                                     <Select
                                         value={selectedProfileId}
-                                        onValueChange={setSelectedProfileId}
+                                        onValueChange={(id) => {
+                                            setSelectedProfileId(id);
+                                            setColumnMapping(null);
+                                        }}
                                     >
                                         <SelectTrigger className="w-full bg-muted/40 border-border/40">
                                             <SelectValue placeholder="Select a profile" />
                                         </SelectTrigger>
                                         <SelectContent>
+                                            <SelectItem value={AUTO_PROFILE}>
+                                                Auto-detect from supplier
+                                            </SelectItem>
                                             {profiles.map((profile) => {
                                                 const exportConfig = profile.export_configs?.[
                                                     profile.default_export_config_idx ?? 0
@@ -551,10 +610,25 @@ export default function NewOrderPage() {
                                         </SelectContent>
                                     </Select>
                                     <p className="text-xs text-muted-foreground">
-                                        Determines extraction fields, transformations, and export target
+                                        Determines extraction fields, transformations, and export target.
+                                        Auto-detect uses the profile of the supplier recognized on the first page,
+                                        or the default profile.
                                     </p>
                                 </div>
 
+                                {/* Column mapping for CSV/XLSX files */}
+                                {file && isTabular && (
+                                    <div className="space-y-2">
+                                        <Label>Column Mapping</Label>
+                                        <ColumnMappingEditor
+                                            file={file}
+                                            profileId={selectedProfileId === AUTO_PROFILE ? "" : selectedProfileId}
+                                            mapping={columnMapping}
+                                            onChange={setColumnMapping}
+                                        />
+                                    </div>
+                                )}
+
                                 {/* Show selected export target */}
                                 <AnimatePresence mode="wait">
                                     {defaultExportConfig && (
@@ -602,11 +676,12 @@ export default function NewOrderPage() {
                                     </Button>
                                     <Button
                                         onClick={handleSubmit}
+                                        disabled={isTabular && !Object.values(columnMapping || {}).some(Boolean)}
                                         className="flex-1 group"
                                         size="lg"
                                     >
                                         <Sparkles className="mr-2 h-4 w-4" />
-                                        Process Order
+                                        {isTabular ? "Import Order" : "Process Order"}
                                         <ArrowRight className="ml-2 h-4 w-4 transition-transform group-hover:translate-x-1" />
                                     </Button>
                                 </div>
@@ -701,6 +776,18 @@ export default function NewOrderPage() {
                                             >
                                                 {progress}
                                             </motion.p>
+                                            <div className="w-full max-w-xs h-1.5 rounded-full bg-primary/10 overflow-hidden">
+                                                <motion.div
+                                                    className="h-full bg-primary"
+                                                    animate={{ width: `${progressPercent}%` }}
+                                                    transition={{ duration: 0.4 }}
+                                                />
+                                            </div>
+                                            {jobId && (
+                                                <Button variant="ghost" size="sm" onClick={handleCancel}>
+                                                    Cancel
+                                                </Button>
+                                            )}
                                         </>
                                     )}
                                 </div>
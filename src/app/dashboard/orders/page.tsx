@@ -3,6 +3,8 @@
 /**
  * Orders List Page
  * Displays all draft orders with status, filtering, and navigation to detail views.
+ * Search covers order name, source file, supplier and line item values;
+ * archived orders are listed separately.
  */
 
 import { useState, useEffect, useCallback } from "react";
@@ -10,12 +12,25 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DataTable, type Column } from "@/components/ui/data-table";
-import { Trash2, Pencil } from "lucide-react";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Trash2, Pencil, Archive, ArchiveRestore, Search } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { UserAvatar } from "@/components/ui/user-avatar";
 import { PageHeader } from "@/components/layout";
+import { createClient } from "@/lib/supabase/client";
 import type { DraftOrder, DraftOrderStatus, TenantUserProfile } from "@/types";
 
+const ALL_PROFILES = "all";
+
+/** Delay before a search term is sent */
+const SEARCH_DEBOUNCE_MS = 300;
+
 const statusConfig: Record<DraftOrderStatus, { label: string; className: string }> = {
     processing: {
         label: "Processing",
@@ -25,6 +40,14 @@ const statusConfig: Record<DraftOrderStatus, { label: string; className: string
         label: "Pending Review",
         className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
     },
+    in_review: {
+        label: "In Review",
+        className: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300",
+    },
+    changes_requested: {
+        label: "Changes Requested",
+        className: "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+    },
     approved: {
         label: "Approved",
         className: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
@@ -47,20 +70,35 @@ export default function OrdersPage() {
     const [orders, setOrders] = useState<DraftOrder[]>([]);
     const [totalOrders, setTotalOrders] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
-    const [statusFilter, setStatusFilter] = useState<DraftOrderStatus | "all">("all");
+    // "mine": orders waiting for the current user (My queue)
+    const [statusFilter, setStatusFilter] = useState<DraftOrderStatus | "all" | "mine">("all");
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editingName, setEditingName] = useState("");
     const [page, setPage] = useState(0);
     const [pageSize, setPageSize] = useState(10);
     const [members, setMembers] = useState<Record<string, TenantUserProfile>>({});
+    const [searchInput, setSearchInput] = useState("");
+    const [search, setSearch] = useState("");
+    const [showArchived, setShowArchived] = useState(false);
+    const [dateFrom, setDateFrom] = useState("");
+    const [dateTo, setDateTo] = useState("");
+    const [profileId, setProfileId] = useState(ALL_PROFILES);
+    const [profiles, setProfiles] = useState<Array<{ id: string; name: string }>>([]);
 
     const fetchOrders = useCallback(async () => {
         setIsLoading(true);
         try {
             const params = new URLSearchParams();
-            if (statusFilter !== "all") {
+            if (statusFilter === "mine") {
+                params.set("queue", "mine");
+            } else if (statusFilter !== "all") {
                 params.set("status", statusFilter);
             }
+            if (search) params.set("q", search);
+            if (showArchived) params.set("archived", "true");
+            if (dateFrom) params.set("from", dateFrom);
+            if (dateTo) params.set("to", dateTo);
+            if (profileId !== ALL_PROFILES) params.set("profileId", profileId);
             params.set("limit", String(pageSize));
             params.set("offset", String(page * pageSize));
 
@@ -76,12 +114,36 @@ export default function OrdersPage() {
         } finally {
             setIsLoading(false);
         }
-    }, [statusFilter, page, pageSize]);
+    }, [statusFilter, search, showArchived, dateFrom, dateTo, profileId, page, pageSize]);
 
     useEffect(() => {
         fetchOrders();
     }, [fetchOrders]);
 
+    // Search after typing pauses
+    useEffect(() => {
+        const timeout = setTimeout(() => {
+            setSearch(searchInput.trim());
+            setPage(0);
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [searchInput]);
+
+    // Fetch profiles for the profile filter
+    useEffect(() => {
+        const fetchProfiles = async () => {
+            const supabase = createClient();
+            const { data } = await supabase
+                .from("input_profiles")
+                .select("id, name")
+                .order("name");
+            if (data) {
+                setProfiles(data);
+            }
+        };
+        fetchProfiles();
+    }, []);
+
     // Fetch tenant members for user info
     useEffect(() => {
         const fetchMembers = async () => {
@@ -119,6 +181,23 @@ export default function OrdersPage() {
         }
     };
 
+    const handleArchive = async (order: DraftOrder) => {
+        try {
+            const response = await fetch(`/api/draft-orders/${order.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ archived: !order.archived_at }),
+            });
+            if (response.ok) {
+                await fetchOrders();
+            } else {
+                alert(order.archived_at ? "Failed to restore order" : "Failed to archive order");
+            }
+        } catch (error) {
+            console.error("Archive error:", error);
+        }
+    };
+
     const handleStartRename = (order: DraftOrder) => {
         setEditingId(order.id);
         setEditingName(order.name || order.source_file_name || `Order ${order.id.slice(0, 8)}`);
@@ -237,6 +316,13 @@ export default function OrdersPage() {
             header: "User",
             render: (order) => <UserAvatar user={members[order.user_id]} />,
         },
+        {
+            key: "reviewer",
+            header: "Reviewer",
+            render: (order) => order.reviewer_id
+                ? <UserAvatar user={members[order.reviewer_id]} />
+                : <span className="text-sm text-muted-foreground">-</span>,
+        },
         {
             key: "created_at",
             header: "Created",
@@ -257,6 +343,21 @@ export default function OrdersPage() {
                             View
                         </Button>
                     </Link>
+                    <Tooltip>
+                        <TooltipTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleArchive(order)}
+                                className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                            >
+                                {order.archived_at
+                                    ? <ArchiveRestore className="h-4 w-4" />
+                                    : <Archive className="h-4 w-4" />}
+                            </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>{order.archived_at ? "Restore" : "Archive"}</TooltipContent>
+                    </Tooltip>
                     <Button
                         variant="ghost"
                         size="icon"
@@ -292,6 +393,13 @@ export default function OrdersPage() {
                 >
                     All
                 </Button>
+                <Button
+                    variant={statusFilter === "mine" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => { setStatusFilter("mine"); setPage(0); }}
+                >
+                    My Queue
+                </Button>
                 <Button
                     variant={statusFilter === "pending_review" ? "default" : "outline"}
                     size="sm"
@@ -299,6 +407,20 @@ export default function OrdersPage() {
                 >
                     Pending Review
                 </Button>
+                <Button
+                    variant={statusFilter === "in_review" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => { setStatusFilter("in_review"); setPage(0); }}
+                >
+                    In Review
+                </Button>
+                <Button
+                    variant={statusFilter === "changes_requested" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => { setStatusFilter("changes_requested"); setPage(0); }}
+                >
+                    Changes Requested
+                </Button>
                 <Button
                     variant={statusFilter === "approved" ? "default" : "outline"}
                     size="sm"
@@ -315,6 +437,55 @@ export default function OrdersPage() {
                 </Button>
             </div>
 
+            {/* Search */}
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="relative w-72">
+                    <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        placeholder="Search orders, suppliers, EAN, style..."
+                        className="pl-8"
+                    />
+                </div>
+                <Input
+                    type="date"
+                    value={dateFrom}
+                    onChange={(e) => { setDateFrom(e.target.value); setPage(0); }}
+                    className="w-40"
+                    aria-label="Created from"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                    type="date"
+                    value={dateTo}
+                    onChange={(e) => { setDateTo(e.target.value); setPage(0); }}
+                    className="w-40"
+                    aria-label="Created to"
+                />
+                <Select value={profileId} onValueChange={(value) => { setProfileId(value); setPage(0); }}>
+                    <SelectTrigger className="w-48">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL_PROFILES}>All profiles</SelectItem>
+                        {profiles.map((profile) => (
+                            <SelectItem key={profile.id} value={profile.id}>
+                                {profile.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button
+                    variant={showArchived ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => { setShowArchived(!showArchived); setPage(0); }}
+                >
+                    <Archive className="h-4 w-4 mr-1.5" />
+                    Archived
+                </Button>
+            </div>
+
             {/* Orders Table */}
             <DataTable
                 title="Orders"
@@ -322,7 +493,9 @@ export default function OrdersPage() {
                 data={orders}
                 keyExtractor={(order) => order.id}
                 isLoading={isLoading}
-                emptyMessage="No orders found. Create your first order to get started."
+                emptyMessage={search || showArchived || dateFrom || dateTo || profileId !== ALL_PROFILES
+                    ? "No orders match these filters."
+                    : "No orders found. Create your first order to get started."}
                 page={page}
                 pageSize={pageSize}
                 total={totalOrders}
@@ -0,0 +1,252 @@
+"use client";
+
+/**
+ * Product Detail Page
+ * Attributes of a product from its latest export, editable as overrides that
+ * later exports keep, the product's ID per shop system and its order history
+ * with quantities and prices.
+ */
+
+import { useState, useEffect, useCallback, use } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { RotateCcw } from "lucide-react";
+import { PageHeader } from "@/components/layout";
+import type { Product, ProductOrderLine, ShopSystem } from "@/types";
+
+const SHOP_SYSTEM_LABELS: Record<ShopSystem, string> = {
+    shopware: "Shopware",
+    xentral: "Xentral",
+    shopify: "Shopify",
+};
+
+function formatValue(value: unknown): string {
+    return value === null || value === undefined ? "" : String(value);
+}
+
+export default function ProductDetailPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = use(params);
+    const [product, setProduct] = useState<Product | null>(null);
+    const [history, setHistory] = useState<ProductOrderLine[]>([]);
+    const [edits, setEdits] = useState<Record<string, string>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const applyProduct = (next: Product) => {
+        setProduct(next);
+        setEdits(Object.fromEntries(
+            Object.entries(next.overrides).map(([key, value]) => [key, formatValue(value)])
+        ));
+    };
+
+    const fetchProduct = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/products/${id}`);
+            const result = await response.json();
+            if (result.success) {
+                applyProduct(result.data.product);
+                setHistory(result.data.history);
+            }
+        } catch (error) {
+            console.error("Failed to fetch product:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [id]);
+
+    useEffect(() => {
+        fetchProduct();
+    }, [fetchProduct]);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            // Empty fields fall back to the exported value
+            const overrides = Object.fromEntries(
+                Object.entries(edits).filter(([, value]) => value.trim() !== "")
+            );
+            const response = await fetch(`/api/products/${id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ overrides }),
+            });
+            const result = await response.json();
+            if (!result.success) {
+                throw new Error(result.error || "Failed to save product");
+            }
+            applyProduct(result.data);
+            toast.success("Product saved");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save product");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-muted-foreground">Loading product...</p>;
+    }
+
+    if (!product) {
+        return (
+            <div className="space-y-4">
+                <p className="text-muted-foreground">Product not found.</p>
+                <Link href="/dashboard/products">
+                    <Button variant="outline">Back to Products</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    const attributeKeys = [...new Set([...Object.keys(product.attributes), ...Object.keys(product.overrides)])];
+    const savedEdits = Object.fromEntries(
+        Object.entries(product.overrides).map(([key, value]) => [key, formatValue(value)])
+    );
+    const isDirty = attributeKeys.some((key) => (edits[key] || "") !== (savedEdits[key] || ""));
+    const shopSystems = Object.entries(product.external_variant_ids) as Array<[ShopSystem, string]>;
+
+    return (
+        <div className="space-y-6">
+            <PageHeader
+                title={product.name || product.sku || product.ean || "Product"}
+                description={[product.sku && `SKU ${product.sku}`, product.ean && `EAN ${product.ean}`].filter(Boolean).join(" · ")}
+                breadcrumbs={[{ label: "Products", href: "/dashboard/products" }, { label: product.sku || product.ean || "Product" }]}
+                actions={
+                    <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+                        {isSaving ? "Saving..." : "Save Changes"}
+                    </Button>
+                }
+            />
+
+            <Card>
+                <CardHeader className="border-b">
+                    <CardTitle className="text-base font-medium">Shop Variant IDs</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-4">
+                    {shopSystems.length > 0 ? (
+                        <dl className="grid gap-2 text-sm sm:grid-cols-[10rem_1fr]">
+                            {shopSystems.map(([system, externalId]) => (
+                                <div key={system} className="contents">
+                                    <dt className="text-muted-foreground">{SHOP_SYSTEM_LABELS[system] || system}</dt>
+                                    <dd className="font-mono">{externalId}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">No shop system has returned a variant ID for this product yet.</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="border-b">
+                    <CardTitle className="text-base font-medium">Attributes</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-48">Attribute</TableHead>
+                                <TableHead>Exported</TableHead>
+                                <TableHead>Edited</TableHead>
+                                <TableHead className="w-12" />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {attributeKeys.map((key) => (
+                                <TableRow key={key}>
+                                    <TableCell className="font-medium">{key}</TableCell>
+                                    <TableCell className="text-sm text-muted-foreground">
+                                        {formatValue(product.attributes[key]) || "-"}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Input
+                                            value={edits[key] || ""}
+                                            onChange={(e) => setEdits((prev) => ({ ...prev, [key]: e.target.value }))}
+                                            placeholder={formatValue(product.attributes[key])}
+                                            className="h-8"
+                                        />
+                                    </TableCell>
+                                    <TableCell>
+                                        {edits[key] && (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8 text-muted-foreground"
+                                                title="Use exported value"
+                                                onClick={() => setEdits((prev) => ({ ...prev, [key]: "" }))}
+                                            >
+                                                <RotateCcw className="h-4 w-4" />
+                                            </Button>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="border-b">
+                    <CardTitle className="text-base font-medium">Order History</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Order</TableHead>
+                                <TableHead>Exported</TableHead>
+                                <TableHead>Shop System</TableHead>
+                                <TableHead className="text-right">Quantity</TableHead>
+                                <TableHead className="text-right">Price</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {history.map((line) => (
+                                <TableRow key={line.id}>
+                                    <TableCell>
+                                        <Link href={`/dashboard/orders/${line.draft_order_id}`} className="hover:underline">
+                                            {line.order?.name || line.order?.source_file_name || `Order ${line.draft_order_id.slice(0, 8)}`}
+                                        </Link>
+                                    </TableCell>
+                                    <TableCell className="text-sm text-muted-foreground">
+                                        {new Date(line.exported_at).toLocaleDateString()}
+                                    </TableCell>
+                                    <TableCell className="text-sm">
+                                        {SHOP_SYSTEM_LABELS[line.shop_system] || line.shop_system}
+                                        {line.external_id && (
+                                            <span className="ml-1.5 font-mono text-xs text-muted-foreground">{line.external_id}</span>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-right">{line.quantity ?? "-"}</TableCell>
+                                    <TableCell className="text-right">
+                                        {line.price !== null ? line.price.toFixed(2) : "-"}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                            {history.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                                        No orders yet.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
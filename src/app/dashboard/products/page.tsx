@@ -1,17 +1,181 @@
+"use client";
+
+/**
+ * Products List Page
+ * The tenant's product master: every product exported with an order, keyed
+ * by SKU or EAN, with the shop systems it was pushed to.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DataTable, type Column } from "@/components/ui/data-table";
+import { Search } from "lucide-react";
+import { PageHeader } from "@/components/layout";
+import type { Product, ShopSystem } from "@/types";
+
+/** Delay before a search term is sent */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SHOP_SYSTEM_LABELS: Record<ShopSystem, string> = {
+    shopware: "Shopware",
+    xentral: "Xentral",
+    shopify: "Shopify",
+};
+
 export default function ProductsPage() {
+    const [products, setProducts] = useState<Product[]>([]);
+    const [totalProducts, setTotalProducts] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [page, setPage] = useState(0);
+    const [pageSize, setPageSize] = useState(10);
+    const [searchInput, setSearchInput] = useState("");
+    const [search, setSearch] = useState("");
+
+    const fetchProducts = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (search) params.set("q", search);
+            params.set("limit", String(pageSize));
+            params.set("offset", String(page * pageSize));
+
+            const response = await fetch(`/api/products?${params}`);
+            const result = await response.json();
+
+            if (result.success) {
+                setProducts(result.data);
+                setTotalProducts(result.pagination?.total || result.data.length);
+            }
+        } catch (error) {
+            console.error("Failed to fetch products:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [search, page, pageSize]);
+
+    useEffect(() => {
+        fetchProducts();
+    }, [fetchProducts]);
+
+    // Search after typing pauses
+    useEffect(() => {
+        const timeout = setTimeout(() => {
+            setSearch(searchInput.trim());
+            setPage(0);
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [searchInput]);
+
+    const handlePageSizeChange = (newSize: number) => {
+        setPageSize(newSize);
+        setPage(0);
+    };
+
+    const columns: Column<Product>[] = [
+        {
+            key: "name",
+            header: "Name",
+            render: (product) => (
+                <Link href={`/dashboard/products/${product.id}`} className="font-medium hover:underline">
+                    {product.name || product.sku || product.ean}
+                </Link>
+            ),
+        },
+        {
+            key: "sku",
+            header: "SKU",
+            render: (product) => <span className="font-mono text-sm">{product.sku || "-"}</span>,
+        },
+        {
+            key: "ean",
+            header: "EAN",
+            hiddenOnMobile: true,
+            render: (product) => <span className="font-mono text-sm">{product.ean || "-"}</span>,
+        },
+        {
+            key: "shops",
+            header: "Shop Systems",
+            hiddenOnMobile: true,
+            render: (product) => {
+                const systems = Object.keys(product.external_variant_ids) as ShopSystem[];
+                return systems.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                        {systems.map((system) => (
+                            <span
+                                key={system}
+                                className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+                            >
+                                {SHOP_SYSTEM_LABELS[system] || system}
+                            </span>
+                        ))}
+                    </div>
+                ) : (
+                    <span className="text-sm text-muted-foreground">-</span>
+                );
+            },
+        },
+        {
+            key: "orders",
+            header: "Orders",
+            render: (product) => <span className="text-sm">{product.order_count ?? 0}</span>,
+        },
+        {
+            key: "last_exported_at",
+            header: "Last Exported",
+            render: (product) => (
+                <span className="text-sm text-muted-foreground">
+                    {product.last_exported_at ? new Date(product.last_exported_at).toLocaleDateString() : "-"}
+                </span>
+            ),
+        },
+        {
+            key: "actions",
+            header: "Actions",
+            className: "text-right",
+            render: (product) => (
+                <Link href={`/dashboard/products/${product.id}`}>
+                    <Button variant="outline" size="sm">
+                        View
+                    </Button>
+                </Link>
+            ),
+        },
+    ];
+
     return (
-        <div className="space-y-8">
-            <div>
-                <h2 className="text-2xl font-bold tracking-tight">Products</h2>
-                <p className="text-muted-foreground">
-                    View and edit extracted product data
-                </p>
-            </div>
-            <div className="flex items-center justify-center rounded-lg border border-dashed p-12">
-                <p className="text-muted-foreground">
-                    Products will appear here after processing order confirmations
-                </p>
+        <div className="space-y-6">
+            <PageHeader
+                title="Products"
+                description="Products exported with your orders, with their order history"
+            />
+
+            <div className="relative w-72">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Search SKU, EAN or name..."
+                    className="pl-8"
+                />
             </div>
+
+            <DataTable
+                title="Products"
+                columns={columns}
+                data={products}
+                keyExtractor={(product) => product.id}
+                isLoading={isLoading}
+                emptyMessage={search
+                    ? "No products match this search."
+                    : "Products will appear here after exporting orders to a shop system."}
+                page={page}
+                pageSize={pageSize}
+                total={totalProducts}
+                onPageChange={setPage}
+                onPageSizeChange={handlePageSizeChange}
+            />
         </div>
     );
 }
@@ -26,7 +26,11 @@ import {
     DialogTrigger,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MembersSection } from "@/components/settings/MembersSection";
 import { SPARK_MODELS, VISION_MODELS, type SparkModel, type VisionModel } from "@/lib/extraction/types";
+import type { RetentionPolicy, TenantResetScope } from "@/types";
 
 const configSections = [
     {
@@ -291,15 +295,59 @@ function AIReasoningToggle() {
     );
 }
 
+const RESET_SCOPES: Array<{ value: TenantResetScope; label: string; description: string }> = [
+    { value: "orders", label: "Orders", description: "Draft orders, line items, history, jobs, source files and the product master" },
+    { value: "catalogs", label: "Catalogs", description: "Catalog entries and custom catalog columns" },
+    { value: "profiles", label: "Profiles", description: "Input profiles with their export configurations" },
+];
+
+const RESET_COUNT_LABELS: Record<string, string> = {
+    draft_orders: "orders",
+    jobs: "jobs",
+    products: "products",
+    source_files: "source files",
+    catalog_entries: "catalog entries",
+    catalog_fields: "catalog columns",
+    input_profiles: "profiles",
+};
+
 function DataResetSection() {
     const [open, setOpen] = useState(false);
     const [step, setStep] = useState(1);
     const [loading, setLoading] = useState(false);
+    const [scopes, setScopes] = useState<TenantResetScope[]>(["orders"]);
+    const [counts, setCounts] = useState<Record<string, number>>({});
+
+    const resetUrl = (dryRun: boolean) =>
+        `/api/tenant/reset?scopes=${scopes.join(",")}${dryRun ? "&dryRun=true" : ""}`;
+
+    const toggleScope = (scope: TenantResetScope, checked: boolean) => {
+        setScopes((prev) => checked ? [...prev, scope] : prev.filter((s) => s !== scope));
+    };
+
+    const handlePreview = async () => {
+        setLoading(true);
+        try {
+            const res = await fetch(resetUrl(true), { method: "DELETE" });
+            const data = await res.json();
+            if (data.success) {
+                setCounts(data.data.counts);
+                setStep(2);
+            } else {
+                alert("Failed to count data: " + data.error);
+            }
+        } catch (error) {
+            console.error(error);
+            alert("Failed to count data.");
+        } finally {
+            setLoading(false);
+        }
+    };
 
     const handleReset = async () => {
         setLoading(true);
         try {
-            const res = await fetch("/api/tenant/reset", {
+            const res = await fetch(resetUrl(false), {
                 method: "DELETE",
             });
             const data = await res.json();
@@ -328,8 +376,8 @@ function DataResetSection() {
     return (
         <div className="flex items-center justify-between px-6 py-4">
             <div>
-                <p className="text-sm font-medium text-red-600 dark:text-red-400">Clear All Data</p>
-                <p className="text-xs text-muted-foreground">Delete all orders and jobs permanently</p>
+                <p className="text-sm font-medium text-red-600 dark:text-red-400">Clear Data</p>
+                <p className="text-xs text-muted-foreground">Delete orders, catalogs or profiles permanently</p>
             </div>
             
             <Dialog open={open} onOpenChange={handleOpenChange}>
@@ -343,17 +391,43 @@ function DataResetSection() {
                         </DialogTitle>
                         <DialogDescription>
                             {step === 1 
-                                ? "This will permanently delete all draft orders, line items, and job history for your current tenant." 
-                                : "This action cannot be undone. All your extracted data will be lost forever."}
+                                ? "Choose what to delete permanently for your current tenant." 
+                                : "This action cannot be undone. The following will be deleted:"}
                         </DialogDescription>
                     </DialogHeader>
+                    {step === 1 ? (
+                        <div className="space-y-3">
+                            {RESET_SCOPES.map((scope) => (
+                                <label key={scope.value} className="flex items-start gap-3 cursor-pointer">
+                                    <Checkbox
+                                        className="mt-0.5"
+                                        checked={scopes.includes(scope.value)}
+                                        onCheckedChange={(checked) => toggleScope(scope.value, checked)}
+                                    />
+                                    <div>
+                                        <p className="text-sm font-medium">{scope.label}</p>
+                                        <p className="text-xs text-muted-foreground">{scope.description}</p>
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
+                    ) : (
+                        <ul className="space-y-1 text-sm">
+                            {Object.entries(counts).map(([key, count]) => (
+                                <li key={key} className="flex justify-between">
+                                    <span className="text-muted-foreground">{RESET_COUNT_LABELS[key] || key}</span>
+                                    <span className="font-medium tabular-nums">{count}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                     <DialogFooter className="gap-2 sm:gap-0">
                         <Button variant="ghost" onClick={() => setOpen(false)} disabled={loading}>
                             Cancel
                         </Button>
                         {step === 1 ? (
-                            <Button variant="destructive" onClick={() => setStep(2)}>
-                                Yes, Continue
+                            <Button variant="destructive" onClick={handlePreview} disabled={loading || scopes.length === 0}>
+                                {loading ? "Counting..." : "Yes, Continue"}
                             </Button>
                         ) : (
                             <Button variant="destructive" onClick={handleReset} disabled={loading}>
@@ -367,6 +441,89 @@ function DataResetSection() {
     );
 }
 
+const RETENTION_RULES: Array<{ field: keyof RetentionPolicy; label: string; description: string }> = [
+    {
+        field: "archive_exported_after_days",
+        label: "Archive Exported Orders",
+        description: "Archive orders this many days after export",
+    },
+    {
+        field: "purge_source_files_after_days",
+        label: "Delete Source Files",
+        description: "Delete uploaded documents of orders older than this",
+    },
+];
+
+function RetentionSettings() {
+    const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch("/api/settings/retention")
+            .then((res) => res.json())
+            .then((data) => {
+                if (data.success) {
+                    setPolicy(data.data);
+                }
+            });
+    }, []);
+
+    const valueOf = (field: keyof RetentionPolicy) =>
+        values[field] ?? (policy?.[field] == null ? "" : String(policy[field]));
+
+    const save = async (field: keyof RetentionPolicy) => {
+        if (!policy || values[field] === undefined) return;
+        setSaving(true);
+        try {
+            const res = await fetch("/api/settings/retention", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...policy, [field]: values[field] === "" ? null : values[field] }),
+            });
+            const data = await res.json();
+            if (data.success) {
+                setPolicy(data.data);
+            } else {
+                alert(data.error);
+            }
+            setValues((prev) => {
+                const next = { ...prev };
+                delete next[field];
+                return next;
+            });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="divide-y">
+            {RETENTION_RULES.map((rule) => (
+                <div key={rule.field} className="flex items-center justify-between px-6 py-4">
+                    <div>
+                        <p className="text-sm font-medium">{rule.label}</p>
+                        <p className="text-xs text-muted-foreground">{rule.description}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Input
+                            type="number"
+                            min={1}
+                            value={valueOf(rule.field)}
+                            onChange={(e) => setValues((prev) => ({ ...prev, [rule.field]: e.target.value }))}
+                            onBlur={() => save(rule.field)}
+                            placeholder="Never"
+                            disabled={!policy || saving}
+                            className="h-8 w-24 text-right"
+                        />
+                        <span className="text-xs text-muted-foreground">days</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
+
 export default function SettingsPage() {
     return (
         <div className="space-y-6">
@@ -446,6 +603,9 @@ export default function SettingsPage() {
                 </CardContent>
             </Card>
 
+            {/* Members */}
+            <MembersSection />
+
             {/* Integrations */}
             <Card>
                 <CardHeader className="border-b">
@@ -475,6 +635,16 @@ export default function SettingsPage() {
                 </CardContent>
             </Card>
 
+            {/* Data Retention */}
+            <Card>
+                <CardHeader className="border-b">
+                    <CardTitle className="text-base font-medium">Data Retention</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <RetentionSettings />
+                </CardContent>
+            </Card>
+
             {/* Danger Zone */}
             <Card className="border-red-200 dark:border-red-900">
                 <CardHeader className="border-b border-red-100 dark:border-red-900 bg-red-50/50 dark:bg-red-950/20">
@@ -11,6 +11,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { createClient } from "@/lib/supabase/client";
 import { PageHeader } from "@/components/layout";
+import { usePermission } from "@/hooks/usePermission";
 import type { ProcessingProfile } from "@/types";
 import { Trash2, FileText, Star, Plus, Sparkles, Loader2, Brain, Search, Wand2, CheckCircle2 } from "lucide-react";
 
@@ -38,6 +39,7 @@ export default function ProcessingProfilesPage() {
     const [isLoading, setIsLoading] = useState(true);
     const [isSparkLoading, setIsSparkLoading] = useState(false);
     const sparkFileInputRef = useRef<HTMLInputElement>(null);
+    const canEdit = usePermission("settings.edit");
 
     const handleSparkSetup = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
@@ -120,7 +122,7 @@ export default function ProcessingProfilesPage() {
             <PageHeader
                 title="Profiles"
                 description="Configure extraction, transformation, and export pipelines"
-                actions={
+                actions={canEdit && (
                     <div className="flex items-center gap-2">
                         <input
                             ref={sparkFileInputRef}
@@ -144,7 +146,7 @@ export default function ProcessingProfilesPage() {
                             New Profile
                         </Button>
                     </div>
-                }
+                )}
             />
 
             {/* Profiles Gallery */}
@@ -154,21 +156,25 @@ export default function ProcessingProfilesPage() {
                         <CardContent className="py-12 text-center text-muted-foreground">
                             <FileText className="h-12 w-12 mx-auto mb-3 opacity-30" />
                             <p className="font-medium">No profiles yet</p>
-                            <p className="text-sm mt-1">Create your first processing profile to get started</p>
-                            <div className="flex items-center justify-center gap-3 mt-4">
-                                <Button
-                                    variant="outline"
-                                    onClick={() => sparkFileInputRef.current?.click()}
-                                    disabled={isSparkLoading}
-                                    className="gap-1.5"
-                                >
-                                    <Sparkles className="h-4 w-4 text-purple-500" />
-                                    AI Setup
-                                </Button>
-                                <Button onClick={() => router.push("/dashboard/settings/profiles/new")}>
-                                    Create Profile
-                                </Button>
-                            </div>
+                            <p className="text-sm mt-1">
+                                {canEdit ? "Create your first processing profile to get started" : "Ask an admin to create a processing profile"}
+                            </p>
+                            {canEdit && (
+                                <div className="flex items-center justify-center gap-3 mt-4">
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => sparkFileInputRef.current?.click()}
+                                        disabled={isSparkLoading}
+                                        className="gap-1.5"
+                                    >
+                                        <Sparkles className="h-4 w-4 text-purple-500" />
+                                        AI Setup
+                                    </Button>
+                                    <Button onClick={() => router.push("/dashboard/settings/profiles/new")}>
+                                        Create Profile
+                                    </Button>
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
                 ) : (
@@ -189,7 +195,7 @@ export default function ProcessingProfilesPage() {
                             >
                                 {/* Actions (top-right, hover only) */}
                                 <div className="absolute top-2 right-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                    {!profile.is_default && (
+                                    {canEdit && !profile.is_default && (
                                         <>
                                             <button
                                                 onClick={(e) => {
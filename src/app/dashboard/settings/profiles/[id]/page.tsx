@@ -12,11 +12,12 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { createClient } from "@/lib/supabase/client";
-import type { ProcessingProfile, FieldDefinition, ExportConfig } from "@/types";
+import type { ProcessingProfile, FieldDefinition, ExportConfig, VariantGroupingConfig } from "@/types";
 import { IntakeTab } from "@/components/settings/IntakeTab";
 import { TransformTab } from "@/components/settings/TransformTab";
 import { ExportTab } from "@/components/settings/ExportTab";
 import { ProfilePreviewTable } from "@/components/settings/ProfilePreviewTable";
+import { usePermission } from "@/hooks/usePermission";
 import { FileText, Sparkles, Send, ChevronRight, Save, Loader2, CircleDot, Copy, Pencil, Brain, Search, Wand2, CheckCircle2 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -58,6 +59,7 @@ export default function ProfileEditorPage() {
     const [activeTab, setActiveTab] = useState("intake");
     const initialFormData = useRef<string>("");
     const sparkFileInputRef = useRef<HTMLInputElement>(null);
+    const canEdit = usePermission("settings.edit");
 
     // Form state
     const [formData, setFormData] = useState({
@@ -69,6 +71,7 @@ export default function ProfileEditorPage() {
         generate_sku: false,
         export_configs: [] as ExportConfig[],
         default_export_config_idx: 0,
+        variant_grouping: { group_by: [], variant_axes: [] } as VariantGroupingConfig,
     });
 
     // Track dirty state
@@ -91,7 +94,7 @@ export default function ProfileEditorPage() {
     }, [isDirty]);
 
     const handleNavigateBack = () => {
-        if (isDirty && !confirm("You have unsaved changes. Are you sure you want to leave?")) {
+        if (canEdit && isDirty && !confirm("You have unsaved changes. Are you sure you want to leave?")) {
             return;
         }
         router.push("/dashboard/settings/processing");
@@ -122,6 +125,7 @@ export default function ProfileEditorPage() {
                 generate_sku: false,
                 export_configs: [],
                 default_export_config_idx: 0,
+                variant_grouping: { group_by: [], variant_axes: [] },
             };
             setFormData(newData);
             initialFormData.current = JSON.stringify(newData);
@@ -155,6 +159,7 @@ export default function ProfileEditorPage() {
             generate_sku: data.generate_sku ?? false,
             export_configs: data.export_configs || [],
             default_export_config_idx: data.default_export_config_idx ?? 0,
+            variant_grouping: data.variant_grouping || { group_by: [], variant_axes: [] },
         };
         setFormData(loadedData);
         initialFormData.current = JSON.stringify(loadedData);
@@ -264,6 +269,7 @@ export default function ProfileEditorPage() {
                 generate_sku: formData.generate_sku,
                 export_configs: formData.export_configs,
                 default_export_config_idx: formData.default_export_config_idx,
+                variant_grouping: formData.variant_grouping.group_by.length > 0 ? formData.variant_grouping : null,
             };
 
             if (isNew) {
@@ -293,6 +299,20 @@ export default function ProfileEditorPage() {
         }
     };
 
+    // Toggle a field in one variant grouping list (a field is either a group key or an axis)
+    const toggleVariantField = (list: keyof VariantGroupingConfig, key: string) => {
+        const other: keyof VariantGroupingConfig = list === "group_by" ? "variant_axes" : "group_by";
+        const current = formData.variant_grouping[list];
+        setFormData({
+            ...formData,
+            variant_grouping: {
+                ...formData.variant_grouping,
+                [list]: current.includes(key) ? current.filter(k => k !== key) : [...current, key],
+                [other]: formData.variant_grouping[other].filter(k => k !== key),
+            },
+        });
+    };
+
     // Field counts
     const extractedCount = formData.fields.filter(f => f.source !== 'computed').length;
     const computedCount = formData.fields.filter(f => f.source === 'computed').length;
@@ -328,12 +348,17 @@ export default function ProfileEditorPage() {
                         >
                             <Pencil className="h-3.5 w-3.5" />
                         </Button>
-                        {isDirty && (
+                        {canEdit && isDirty && (
                             <span className="flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300">
                                 <CircleDot className="h-3 w-3" />
                                 Unsaved
                             </span>
                         )}
+                        {!canEdit && (
+                            <span className="px-2.5 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground">
+                                View only
+                            </span>
+                        )}
                     </div>
                     <p className="text-muted-foreground">
                         {formData.description || "No description"} • {extractedCount} source fields • {computedCount} virtual fields
@@ -344,7 +369,7 @@ export default function ProfileEditorPage() {
                     <Button variant="outline" onClick={handleNavigateBack}>
                         Back
                     </Button>
-                    {!isNew && (
+                    {canEdit && !isNew && (
                         <Button 
                             variant="outline" 
                             onClick={async () => {
@@ -362,6 +387,7 @@ export default function ProfileEditorPage() {
                                             generate_sku: formData.generate_sku,
                                             export_configs: formData.export_configs,
                                             default_export_config_idx: formData.default_export_config_idx,
+                                            variant_grouping: formData.variant_grouping.group_by.length > 0 ? formData.variant_grouping : null,
                                         })
                                         .select("id")
                                         .single();
@@ -381,10 +407,12 @@ export default function ProfileEditorPage() {
                             Save as Copy
                         </Button>
                     )}
-                    <Button onClick={handleSave} disabled={isSaving || !formData.name} className="gap-1.5">
-                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
-                        {isSaving ? "Saving..." : "Save Profile"}
-                    </Button>
+                    {canEdit && (
+                        <Button onClick={handleSave} disabled={isSaving || !formData.name} className="gap-1.5">
+                            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                            {isSaving ? "Saving..." : "Save Profile"}
+                        </Button>
+                    )}
                 </div>
             </div>
 
@@ -527,6 +555,40 @@ export default function ProfileEditorPage() {
                                     className="w-full h-20 rounded-lg border border-border/60 ring-1 ring-inset ring-border/50 bg-muted/40 focus:bg-background px-3 py-2 text-sm resize-none"
                                 />
                             </div>
+                            <div className="mt-4 space-y-3">
+                                <div>
+                                    <Label className="text-xs">Variant Grouping</Label>
+                                    <p className="text-xs text-muted-foreground mt-0.5">
+                                        Line items sharing the group fields are uploaded as one parent product, with the variant axes as options.
+                                    </p>
+                                </div>
+                                {(["group_by", "variant_axes"] as const).map((list) => (
+                                    <div key={list} className="space-y-1.5">
+                                        <span className="text-xs text-muted-foreground">
+                                            {list === "group_by" ? "Group by" : "Variant axes"}
+                                        </span>
+                                        <div className="flex flex-wrap gap-1.5">
+                                            {formData.fields.filter(f => f.key).map((field) => {
+                                                const active = formData.variant_grouping[list].includes(field.key);
+                                                return (
+                                                    <button
+                                                        key={field.key}
+                                                        type="button"
+                                                        onClick={() => toggleVariantField(list, field.key)}
+                                                        className={`px-2 py-0.5 rounded-md text-xs font-mono transition-all active:scale-[0.98] ${
+                                                            active
+                                                                ? "bg-primary/10 text-primary ring-1 ring-inset ring-primary/40"
+                                                                : "bg-muted/40 text-muted-foreground ring-1 ring-inset ring-border/50 hover:bg-muted/60"
+                                                        }`}
+                                                    >
+                                                        {field.key}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
                         </details>
                     </div>
 
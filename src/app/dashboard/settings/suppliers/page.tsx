@@ -0,0 +1,295 @@
+"use client";
+
+/**
+ * Suppliers Page
+ * Suppliers are recognized on upload by sender domain, VAT ID or letterhead
+ * text, and their documents are processed with the linked profile.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { createClient } from "@/lib/supabase/client";
+import { PageHeader } from "@/components/layout";
+import type { Supplier, SupplierFingerprint } from "@/types";
+import { Plus, Trash2, Truck } from "lucide-react";
+import { toast } from "sonner";
+
+/** Select value for "no default profile" */
+const NO_PROFILE = "__none__";
+
+interface SupplierForm {
+    id?: string;
+    name: string;
+    emailDomains: string;
+    vatIds: string;
+    texts: string;
+    defaultProfileId: string;
+}
+
+const EMPTY_FORM: SupplierForm = {
+    name: "",
+    emailDomains: "",
+    vatIds: "",
+    texts: "",
+    defaultProfileId: NO_PROFILE,
+};
+
+function splitList(value: string, separator: RegExp): string[] {
+    return value.split(separator).map((v) => v.trim()).filter(Boolean);
+}
+
+function toForm(supplier: Supplier): SupplierForm {
+    const fingerprints = supplier.fingerprints || [];
+    return {
+        id: supplier.id,
+        name: supplier.name,
+        emailDomains: (supplier.email_domains || []).join(", "),
+        vatIds: fingerprints.filter((f) => f.type === "vat_id").map((f) => f.value).join(", "),
+        texts: fingerprints.filter((f) => f.type === "text").map((f) => f.value).join("\n"),
+        defaultProfileId: supplier.default_profile_id || NO_PROFILE,
+    };
+}
+
+async function loadSuppliers(): Promise<{ suppliers: Supplier[]; profiles: Array<{ id: string; name: string }> }> {
+    const supabase = createClient();
+    const [{ data: supplierData }, { data: profileData }] = await Promise.all([
+        supabase.from("vendors").select("*").order("name"),
+        supabase.from("input_profiles").select("id, name").order("name"),
+    ]);
+    return { suppliers: (supplierData as Supplier[]) || [], profiles: profileData || [] };
+}
+
+export default function SuppliersPage() {
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [profiles, setProfiles] = useState<Array<{ id: string; name: string }>>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [form, setForm] = useState<SupplierForm | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fetchData = useCallback(async () => {
+        const data = await loadSuppliers();
+        setSuppliers(data.suppliers);
+        setProfiles(data.profiles);
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadSuppliers().then((data) => {
+            if (cancelled) return;
+            setSuppliers(data.suppliers);
+            setProfiles(data.profiles);
+            setIsLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const handleSave = async () => {
+        if (!form || !form.name.trim()) return;
+        setIsSaving(true);
+
+        const fingerprints: SupplierFingerprint[] = [
+            ...splitList(form.vatIds, /[,\n]/).map((value) => ({ type: "vat_id" as const, value })),
+            ...splitList(form.texts, /\n/).map((value) => ({ type: "text" as const, value })),
+        ];
+        const record = {
+            name: form.name.trim(),
+            email_domains: splitList(form.emailDomains, /[,\s]+/).map((d) => d.replace(/^@/, "").toLowerCase()),
+            fingerprints,
+            default_profile_id: form.defaultProfileId === NO_PROFILE ? null : form.defaultProfileId,
+        };
+
+        const supabase = createClient();
+        const { error } = form.id
+            ? await supabase.from("vendors").update(record).eq("id", form.id)
+            : await supabase.from("vendors").insert(record);
+
+        setIsSaving(false);
+        if (error) {
+            toast.error("Failed to save supplier", { description: error.message });
+            return;
+        }
+
+        setForm(null);
+        await fetchData();
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm("Delete this supplier? Orders keep their data but lose the supplier link.")) return;
+        const supabase = createClient();
+        await supabase.from("vendors").delete().eq("id", id);
+        await fetchData();
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center py-12">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <PageHeader
+                title="Suppliers"
+                description="Recognize suppliers on upload and pick their profile automatically"
+                actions={
+                    <Button onClick={() => setForm(EMPTY_FORM)} className="gap-1.5">
+                        <Plus className="h-4 w-4" />
+                        New Supplier
+                    </Button>
+                }
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {suppliers.length === 0 ? (
+                    <Card className="col-span-full">
+                        <CardContent className="py-12 text-center text-muted-foreground">
+                            <Truck className="h-12 w-12 mx-auto mb-3 opacity-30" />
+                            <p className="font-medium">No suppliers yet</p>
+                            <p className="text-sm mt-1">
+                                Add a supplier with its VAT ID or letterhead text to auto-select its profile
+                            </p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    suppliers.map((supplier) => {
+                        const profile = profiles.find((p) => p.id === supplier.default_profile_id);
+                        return (
+                            <div
+                                key={supplier.id}
+                                onClick={() => setForm(toForm(supplier))}
+                                className="group relative p-4 rounded-2xl cursor-pointer transition-all bg-card/60 backdrop-blur-md ring-1 ring-inset ring-border/50 hover:ring-2 hover:ring-primary/30 hover:shadow-sm"
+                            >
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleDelete(supplier.id);
+                                    }}
+                                    className="absolute top-2 right-2 p-1.5 rounded-md text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-destructive hover:bg-destructive/10"
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </button>
+
+                                <h4 className="font-semibold truncate pr-8 mb-2">{supplier.name}</h4>
+                                <p className="text-sm text-muted-foreground truncate mb-4">
+                                    {supplier.email_domains?.length ? supplier.email_domains.join(", ") : "No email domains"}
+                                </p>
+
+                                <div className="flex flex-wrap items-center gap-2 text-xs">
+                                    <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted font-medium">
+                                        {supplier.fingerprints?.length || 0} fingerprints
+                                    </span>
+                                    <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/60 text-muted-foreground">
+                                        → {profile?.name || "Default profile"}
+                                    </span>
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+
+            <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{form?.id ? "Edit Supplier" : "New Supplier"}</DialogTitle>
+                        <DialogDescription>
+                            Uploads matching the sender domain, a VAT ID or any of the texts are assigned to this supplier.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {form && (
+                        <div className="space-y-4">
+                            <div className="space-y-1">
+                                <Label htmlFor="supplier-name">Name</Label>
+                                <Input
+                                    id="supplier-name"
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                    placeholder="e.g., ACME Fashion GmbH"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="supplier-domains">Email domains</Label>
+                                <Input
+                                    id="supplier-domains"
+                                    value={form.emailDomains}
+                                    onChange={(e) => setForm({ ...form, emailDomains: e.target.value })}
+                                    placeholder="acme.de, acme-fashion.com"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="supplier-vat">VAT IDs</Label>
+                                <Input
+                                    id="supplier-vat"
+                                    value={form.vatIds}
+                                    onChange={(e) => setForm({ ...form, vatIds: e.target.value })}
+                                    placeholder="DE123456789"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="supplier-texts">Letterhead texts (one per line)</Label>
+                                <Textarea
+                                    id="supplier-texts"
+                                    value={form.texts}
+                                    onChange={(e) => setForm({ ...form, texts: e.target.value })}
+                                    placeholder={"Musterstraße 1, 12345 Berlin\nDE89 3704 0044 0532 0130 00"}
+                                    rows={3}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label>Profile</Label>
+                                <Select
+                                    value={form.defaultProfileId}
+                                    onValueChange={(value) => setForm({ ...form, defaultProfileId: value })}
+                                >
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NO_PROFILE}>Default profile</SelectItem>
+                                        {profiles.map((profile) => (
+                                            <SelectItem key={profile.id} value={profile.id}>
+                                                {profile.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                        <Button onClick={handleSave} disabled={isSaving || !form?.name.trim()}>
+                            {isSaving ? "Saving..." : "Save"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
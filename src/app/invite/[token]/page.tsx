@@ -0,0 +1,175 @@
+"use client";
+
+/**
+ * Invitation Page
+ * Landing page of an invitation link: shows the organization and role,
+ * lets the invitee create an account or sign in, and accepts the invitation.
+ */
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { InvitationPreview } from "@/lib/services/tenant.service";
+
+export default function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = use(params);
+    const router = useRouter();
+    const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+    const [userEmail, setUserEmail] = useState<string | null>(null);
+    const [password, setPassword] = useState("");
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const supabase = createClient();
+                const [{ data: { user } }, response] = await Promise.all([
+                    supabase.auth.getUser(),
+                    fetch(`/api/invitations/${token}`),
+                ]);
+                const result = await response.json();
+                setUserEmail(user?.email || null);
+                if (result.success) {
+                    setInvitation(result.data);
+                } else {
+                    setError(result.error || "Invitation not found");
+                }
+            } catch (err) {
+                console.error("Failed to load invitation:", err);
+                setError("Failed to load invitation");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        load();
+    }, [token]);
+
+    const accept = async () => {
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/invitations/${token}`, { method: "POST" });
+            const result = await response.json();
+            if (!result.success) {
+                throw new Error(result.error || "Failed to accept invitation");
+            }
+            router.push("/dashboard");
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to accept invitation");
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSignUp = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!invitation) return;
+        setIsSubmitting(true);
+        setError(null);
+
+        const supabase = createClient();
+        const { data, error } = await supabase.auth.signUp({
+            email: invitation.email,
+            password,
+        });
+
+        if (error) {
+            setError(error.message);
+            setIsSubmitting(false);
+        } else if (data.session) {
+            await accept();
+        } else {
+            setNotice("Check your inbox to confirm your email address, then open this invitation link again.");
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSignOut = async () => {
+        const supabase = createClient();
+        await supabase.auth.signOut();
+        setUserEmail(null);
+    };
+
+    const isExpired = invitation && new Date(invitation.expires_at) < new Date();
+    const isWrongAccount = invitation && userEmail && userEmail.toLowerCase() !== invitation.email.toLowerCase();
+
+    return (
+        <div className="flex min-h-screen items-center justify-center bg-background p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="text-center">
+                    <CardTitle className="text-2xl">Ingestry</CardTitle>
+                    {invitation && (
+                        <p className="text-sm text-muted-foreground">
+                            You have been invited to join <span className="font-medium text-foreground">{invitation.tenant_name}</span> as {invitation.role}
+                        </p>
+                    )}
+                </CardHeader>
+                <CardContent className="space-y-4 pb-6">
+                    {isLoading ? (
+                        <p className="text-center text-sm text-muted-foreground">Loading invitation...</p>
+                    ) : !invitation ? (
+                        null
+                    ) : invitation.accepted ? (
+                        <p className="text-center text-sm text-muted-foreground">
+                            This invitation has already been accepted. <Link href="/login" className="underline">Sign in</Link>
+                        </p>
+                    ) : isExpired ? (
+                        <p className="text-center text-sm text-muted-foreground">
+                            This invitation has expired. Ask an admin of {invitation.tenant_name} for a new one.
+                        </p>
+                    ) : isWrongAccount ? (
+                        <div className="space-y-3 text-center text-sm">
+                            <p className="text-muted-foreground">
+                                This invitation is for {invitation.email}, but you are signed in as {userEmail}.
+                            </p>
+                            <Button variant="outline" onClick={handleSignOut}>Sign out</Button>
+                        </div>
+                    ) : userEmail ? (
+                        <Button className="w-full" onClick={accept} disabled={isSubmitting}>
+                            {isSubmitting ? "Joining..." : `Join ${invitation.tenant_name}`}
+                        </Button>
+                    ) : notice ? (
+                        <p className="text-center text-sm text-muted-foreground">{notice}</p>
+                    ) : (
+                        <form onSubmit={handleSignUp} className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="email">Email</Label>
+                                <Input id="email" type="email" value={invitation.email} disabled />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="password">Choose a password</Label>
+                                <Input
+                                    id="password"
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    minLength={8}
+                                    required
+                                />
+                            </div>
+                            <Button type="submit" className="w-full" disabled={isSubmitting}>
+                                {isSubmitting ? "Creating account..." : "Create Account & Join"}
+                            </Button>
+                            <p className="text-center text-xs text-muted-foreground">
+                                Already have an account?{" "}
+                                <Link href={`/login?next=/invite/${token}`} className="underline">
+                                    Sign in
+                                </Link>
+                            </p>
+                        </form>
+                    )}
+
+                    {error && <p className="text-center text-sm text-red-500">{error}</p>}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
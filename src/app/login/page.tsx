@@ -8,6 +8,20 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
+/**
+ * Path to return to after sign-in - only same-origin targets, since browsers
+ * read e.g. "/\evil.com" as another host
+ */
+function getReturnPath(next: string | null): string {
+    if (!next) return "/dashboard";
+    try {
+        const url = new URL(next, window.location.origin);
+        return url.origin === window.location.origin ? url.pathname + url.search + url.hash : "/dashboard";
+    } catch {
+        return "/dashboard";
+    }
+}
+
 export default function LoginPage() {
     const router = useRouter();
     const [email, setEmail] = useState("");
@@ -30,7 +44,8 @@ export default function LoginPage() {
             setError(error.message);
             setIsLoading(false);
         } else {
-            router.push("/dashboard");
+            // Return to where sign-in was requested (e.g. an invitation link)
+            router.push(getReturnPath(new URLSearchParams(window.location.search).get("next")));
             router.refresh();
         }
     };
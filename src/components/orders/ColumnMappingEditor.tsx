@@ -0,0 +1,139 @@
+"use client";
+
+/**
+ * ColumnMappingEditor - Map CSV/XLSX columns to profile fields
+ * Loads the file's columns from POST /api/draft-orders/preview with the
+ * suggested (or previously saved) mapping and lets the user adjust it.
+ */
+
+import { useEffect, useState } from "react";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import type { ColumnMapping } from "@/types";
+
+/** Select value for columns that are not imported */
+const IGNORE = "__ignore__";
+
+interface FilePreview {
+    headers: string[];
+    rowCount: number;
+    sampleRows: Record<string, string>[];
+    mapping: ColumnMapping;
+    mappingSource: "saved" | "suggested";
+    profile: { id: string; name: string };
+    supplier: { id: string; name: string } | null;
+    fields: Array<{ key: string; label: string }>;
+}
+
+interface ColumnMappingEditorProps {
+    file: File;
+    /** Empty to use the detected supplier's profile */
+    profileId: string;
+    mapping: ColumnMapping | null;
+    onChange: (mapping: ColumnMapping) => void;
+}
+
+export function ColumnMappingEditor({ file, profileId, mapping, onChange }: ColumnMappingEditorProps) {
+    const requestKey = `${file.name}:${file.size}:${file.lastModified}:${profileId}`;
+    const [loaded, setLoaded] = useState<{ key: string; preview?: FilePreview; error?: string } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const formData = new FormData();
+        formData.append("file", file);
+        if (profileId) {
+            formData.append("profile_id", profileId);
+        }
+
+        fetch("/api/draft-orders/preview", { method: "POST", body: formData })
+            .then((res) => res.json())
+            .then((result) => {
+                if (cancelled) return;
+                if (!result.success) {
+                    setLoaded({ key: requestKey, error: result.error || "Could not read file" });
+                    return;
+                }
+                setLoaded({ key: requestKey, preview: result.data });
+                onChange(result.data.mapping);
+            })
+            .catch(() => {
+                if (!cancelled) setLoaded({ key: requestKey, error: "Could not read file" });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+        // onChange is a state setter of the parent
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [requestKey]);
+
+    const current = loaded?.key === requestKey ? loaded : null;
+
+    if (!current) {
+        return <div className="h-24 rounded-lg bg-muted animate-pulse" />;
+    }
+    if (current.error || !current.preview) {
+        return <p className="text-sm text-destructive">{current.error}</p>;
+    }
+
+    const { preview } = current;
+    const values = mapping ?? preview.mapping;
+    const mappedCount = Object.values(values).filter(Boolean).length;
+
+    return (
+        <div className="space-y-2">
+            {!profileId && (
+                <p className="text-xs text-muted-foreground">
+                    {preview.supplier ? `Detected supplier ${preview.supplier.name} · ` : ""}
+                    Profile: <span className="font-medium text-foreground">{preview.profile.name}</span>
+                </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+                {preview.rowCount} rows, {mappedCount} of {preview.headers.length} columns mapped
+                {preview.mappingSource === "saved" && " · using the saved mapping for these columns"}
+            </p>
+            <div className="max-h-72 overflow-y-auto rounded-lg ring-1 ring-inset ring-border/40 divide-y divide-border/40">
+                {preview.headers.map((header) => (
+                    <div key={header} className="grid grid-cols-2 items-center gap-3 px-3 py-2">
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{header}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                                {preview.sampleRows.map((row) => row[header]).filter(Boolean).join(", ") || "—"}
+                            </p>
+                        </div>
+                        <Select
+                            value={values[header] || IGNORE}
+                            onValueChange={(value) => {
+                                const next = { ...values };
+                                if (value === IGNORE) {
+                                    delete next[header];
+                                } else {
+                                    next[header] = value;
+                                }
+                                onChange(next);
+                            }}
+                        >
+                            <SelectTrigger className="w-full bg-muted/40 border-border/40">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={IGNORE}>Don&apos;t import</SelectItem>
+                                {preview.fields.map((field) => (
+                                    <SelectItem key={field.key} value={field.key}>
+                                        {field.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
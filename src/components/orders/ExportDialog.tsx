@@ -23,20 +23,17 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { createClient } from "@/lib/supabase/client";
-import { mapRecords, type OutputProfile, type DataRecord, type FieldMapping } from "@/lib/export";
-import type { ExportConfig, ShopSystem } from "@/types";
+import {
+    mapRecords,
+    exportRecords,
+    toOutputProfile,
+    getTransformCatalogKeys,
+    groupCatalogEntries,
+    type DataRecord,
+} from "@/lib/export";
+import type { CatalogEntry, ExportConfig, FieldDefinition } from "@/types";
 
-interface ExportConfigOption {
-    id: string;
-    name: string;
-    shop_system: ShopSystem;
-    field_mappings: FieldMapping[];
-    format: "csv" | "json";
-    format_options: {
-        delimiter?: string;
-        include_header?: boolean;
-    };
-    is_default?: boolean;
+interface ExportConfigOption extends ExportConfig {
     source: "snapshot" | "profile";
 }
 
@@ -53,6 +50,9 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
     const [isLoading, setIsLoading] = useState(true);
     const [isExporting, setIsExporting] = useState(false);
     const [previewData, setPreviewData] = useState<DataRecord[]>([]);
+    const [rowCount, setRowCount] = useState(0);
+    const [fields, setFields] = useState<FieldDefinition[]>([]);
+    const [catalogs, setCatalogs] = useState<Record<string, CatalogEntry[]>>({});
     const [error, setError] = useState<string | null>(null);
 
     // Fetch export config from order metadata (snapshot) or profile fallback
@@ -71,6 +71,7 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
             if (orderError) throw orderError;
 
             const configs: ExportConfigOption[] = [];
+            let profileFields = (order?.metadata?.profile_fields as FieldDefinition[] | null) || [];
 
             // Check for snapshotted config in metadata (preferred)
             const snapshot = order?.metadata?.export_config_snapshot as ExportConfig | null;
@@ -86,10 +87,12 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
             if (order?.metadata?.profile_id) {
                 const { data: profile } = await supabase
                     .from("input_profiles")
-                    .select("export_configs, default_export_config_idx")
+                    .select("fields, export_configs, default_export_config_idx")
                     .eq("id", order.metadata.profile_id)
                     .single();
 
+                profileFields = (profile?.fields as FieldDefinition[] | null) || profileFields;
+
                 if (profile?.export_configs && Array.isArray(profile.export_configs)) {
                     for (const config of profile.export_configs) {
                         // Don't add duplicates if already in snapshot
@@ -103,7 +106,21 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
                 }
             }
 
+            // Catalogs used by catalog lookup transforms
+            const catalogKeys = getTransformCatalogKeys(configs.flatMap(c => [
+                ...(c.field_mappings || []),
+                ...(c.bundle_files || []).flatMap(f => f.field_mappings),
+            ]));
+            if (catalogKeys.length > 0) {
+                const { data: entries } = await supabase
+                    .from("catalog_entries")
+                    .select("id, field_key, name, code, aliases, extra_data")
+                    .in("field_key", catalogKeys);
+                setCatalogs(groupCatalogEntries((entries || []) as CatalogEntry[]));
+            }
+
             setExportConfigs(configs);
+            setFields(profileFields);
             
             // Select first config (snapshot takes priority)
             if (configs.length > 0) {
@@ -129,23 +146,13 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
         if (selectedConfigId && records.length > 0) {
             const config = exportConfigs.find(c => c.id === selectedConfigId);
             if (config) {
-                const outputProfile: OutputProfile = {
-                    id: config.id,
-                    name: config.name,
-                    shop_system: config.shop_system,
-                    field_mappings: config.field_mappings || [],
-                    format: config.format,
-                    format_options: {
-                        delimiter: config.format_options?.delimiter || ";",
-                        include_header: config.format_options?.include_header !== false,
-                    },
-                    is_default: config.is_default,
-                };
-                const mapped = mapRecords(records.slice(0, 5), outputProfile);
-                setPreviewData(mapped);
+                // Row rules change the row count, so the whole order is mapped
+                const mapped = mapRecords(records, toOutputProfile(config), { catalogs });
+                setPreviewData(mapped.slice(0, 5));
+                setRowCount(mapped.length);
             }
         }
-    }, [selectedConfigId, exportConfigs, records]);
+    }, [selectedConfigId, exportConfigs, records, catalogs]);
 
     const handleExport = async () => {
         if (!selectedConfigId) return;
@@ -157,49 +164,14 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
             const config = exportConfigs.find(c => c.id === selectedConfigId);
             if (!config) throw new Error("No export config selected");
 
-            // Build output profile from selected config
-            const outputProfile: OutputProfile = {
-                id: config.id,
-                name: config.name,
-                shop_system: config.shop_system,
-                field_mappings: config.field_mappings || [],
-                format: config.format,
-                format_options: {
-                    delimiter: config.format_options?.delimiter || ";",
-                    include_header: config.format_options?.include_header !== false,
-                },
-                is_default: config.is_default,
-            };
-
-            // Map all records
-            const mappedData = mapRecords(records, outputProfile);
-
-            // Serialize based on format
-            let content: string;
-            let contentType: string;
-            let extension: string;
-
-            if (config.format === "csv") {
-                const headers = Object.keys(mappedData[0] || {});
-                const delimiter = config.format_options?.delimiter || ";";
-                const rows = [
-                    config.format_options?.include_header !== false ? headers.join(delimiter) : "",
-                    ...mappedData.map(row =>
-                        headers.map(h => String(row[h] || "").replace(/"/g, '""')).join(delimiter)
-                    ),
-                ].filter(Boolean);
-                content = rows.join("\n");
-                contentType = "text/csv";
-                extension = "csv";
-            } else {
-                content = JSON.stringify(mappedData, null, 2);
-                contentType = "application/json";
-                extension = "json";
-            }
+            // Same serialization as POST /api/export (bundles become a ZIP)
+            const result = exportRecords(records, toOutputProfile(config), fields, { catalogs });
+            if (!result.success || result.data === undefined) throw new Error(result.error || "Export failed");
 
             // Download
-            const timestamp = new Date().toISOString().slice(0, 10);
-            const filename = `export_${config.name.toLowerCase().replace(/\s+/g, "_")}_${timestamp}.${extension}`;
+            const content = result.data instanceof Uint8Array ? new Uint8Array(result.data) : result.data;
+            const filename = result.filename || "export";
+            const contentType = result.content_type || "application/octet-stream";
             const blob = new Blob([content], { type: contentType });
             const url = URL.createObjectURL(blob);
             const link = document.createElement("a");
@@ -252,7 +224,9 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
                                 <SelectContent>
                                     {exportConfigs.map(config => (
                                         <SelectItem key={config.id} value={config.id}>
-                                            {config.name} ({config.format.toUpperCase()})
+                                            {config.name} ({config.bundle_files?.length
+                                                ? `ZIP, ${config.bundle_files.length + 1} files`
+                                                : config.format.toUpperCase()})
                                             {config.source === "snapshot" && " ✓ Snapshot"}
                                         </SelectItem>
                                     ))}
@@ -268,13 +242,20 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
                                 }
                             </p>
                         )}
+                        {selectedConfig?.bundle_files?.length ? (
+                            <p className="text-xs text-muted-foreground">
+                                ZIP with manifest.json: {[selectedConfig, ...selectedConfig.bundle_files]
+                                    .map(f => `${f.name} (${f.format.toUpperCase()})`)
+                                    .join(", ")}. The preview shows {selectedConfig.name}.
+                            </p>
+                        ) : null}
                     </div>
 
                     {/* Preview Table */}
                     <div className="space-y-2">
                         <div className="flex items-center justify-between">
                             <label className="text-sm font-medium">
-                                Preview (first {Math.min(5, records.length)} of {records.length} records)
+                                Preview (first {Math.min(5, rowCount)} of {rowCount} rows)
                             </label>
                         </div>
                         
@@ -330,7 +311,7 @@ export function ExportDialog({ open, onOpenChange, orderId, records }: ExportDia
                 {/* Actions */}
                 <div className="flex items-center justify-between pt-4 border-t">
                     <div className="text-sm text-muted-foreground">
-                        Total: {records.length} records
+                        Total: {rowCount} rows from {records.length} records
                     </div>
                     <div className="flex gap-2">
                         <Button variant="outline" onClick={() => onOpenChange(false)}>
@@ -0,0 +1,167 @@
+"use client";
+
+/**
+ * Order Review Controls
+ * Reviewer assignment and review workflow actions for a draft order:
+ * start a review, request changes with a note, or resubmit after changes.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import type { DraftOrder, DraftOrderStatus, TenantUserProfile } from "@/types";
+
+const UNASSIGNED = "unassigned";
+
+interface OrderReviewControlsProps {
+    order: DraftOrder;
+    /** Called with the updated order after a change */
+    onChange: (order: DraftOrder) => void;
+}
+
+export function OrderReviewControls({ order, onChange }: OrderReviewControlsProps) {
+    const [members, setMembers] = useState<TenantUserProfile[]>([]);
+    const [isUpdating, setIsUpdating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isNoteOpen, setIsNoteOpen] = useState(false);
+    const [note, setNote] = useState("");
+
+    useEffect(() => {
+        const fetchMembers = async () => {
+            try {
+                const response = await fetch("/api/tenant/members");
+                const result = await response.json();
+                if (result.success && Array.isArray(result.data)) {
+                    setMembers(result.data);
+                }
+            } catch (err) {
+                console.error("Failed to fetch members:", err);
+            }
+        };
+        fetchMembers();
+    }, []);
+
+    const updateOrder = async (body: { status?: DraftOrderStatus; reviewerId?: string | null; reviewNote?: string }) => {
+        setIsUpdating(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/draft-orders/${order.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            });
+            const result = await response.json();
+            if (!result.success) {
+                throw new Error(result.error || "Failed to update order");
+            }
+            onChange(result.data);
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to update order");
+            return false;
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleRequestChanges = async () => {
+        if (await updateOrder({ status: "changes_requested", reviewNote: note })) {
+            setIsNoteOpen(false);
+            setNote("");
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm text-muted-foreground">Reviewer:</span>
+                <Select
+                    value={order.reviewer_id || UNASSIGNED}
+                    onValueChange={(value) => updateOrder({ reviewerId: value === UNASSIGNED ? null : value })}
+                    disabled={isUpdating}
+                >
+                    <SelectTrigger className="h-8 w-56">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                        {members.map((member) => (
+                            <SelectItem key={member.user_id} value={member.user_id}>
+                                {member.full_name || member.email}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                {order.status === "pending_review" && (
+                    <Button size="sm" variant="outline" disabled={isUpdating} onClick={() => updateOrder({ status: "in_review" })}>
+                        Start Review
+                    </Button>
+                )}
+                {order.status === "in_review" && (
+                    <Button size="sm" variant="outline" disabled={isUpdating} onClick={() => setIsNoteOpen(true)}>
+                        Request Changes
+                    </Button>
+                )}
+                {order.status === "changes_requested" && (
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isUpdating}
+                        onClick={() => updateOrder({ status: order.reviewer_id ? "in_review" : "pending_review" })}
+                    >
+                        Resubmit for Review
+                    </Button>
+                )}
+            </div>
+
+            {order.status === "changes_requested" && order.review_note && (
+                <div className="rounded-lg border border-orange-200 bg-orange-50 px-4 py-2 text-sm text-orange-800 dark:border-orange-800 dark:bg-orange-950 dark:text-orange-300">
+                    <span className="font-medium">Changes requested:</span> {order.review_note}
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <Dialog open={isNoteOpen} onOpenChange={setIsNoteOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Request Changes</DialogTitle>
+                        <DialogDescription>
+                            The order goes back to its uploader with this note.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <Textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="What needs to be changed?"
+                        rows={4}
+                    />
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsNoteOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleRequestChanges} disabled={isUpdating || !note.trim()}>
+                            Request Changes
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+/**
+ * PdfViewer - Scrollable view of an order's source PDF
+ * Shown next to the review grid. Pages render lazily when they come into view,
+ * and the viewer scrolls to `page` whenever it changes.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { FieldSource } from "@/types";
+import { cn } from "@/lib/utils";
+import { loadPdfDocument } from "@/lib/pdf-document";
+
+/** Canvas resolution relative to the displayed width (sharp on HiDPI screens) */
+const PIXEL_RATIO = 2;
+/** Aspect ratio used for placeholders before a page is measured (A4 portrait) */
+const DEFAULT_PAGE_RATIO = 1.414;
+
+interface PdfViewerProps {
+    /** URL of the source PDF */
+    url: string;
+    /** Page to scroll to (1-based) */
+    page?: number;
+    /** Regions to highlight, e.g. the fields of the selected line item */
+    highlights?: FieldSource[];
+    className?: string;
+}
+
+export function PdfViewer({ url, page, highlights = [], className }: PdfViewerProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [loaded, setLoaded] = useState<{ url: string; doc?: PDFDocumentProxy; error?: string } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        loadPdfDocument(url)
+            .then((doc) => {
+                if (!cancelled) setLoaded({ url, doc });
+            })
+            .catch((err) => {
+                console.error("[PdfViewer] Failed to load source:", err);
+                if (!cancelled) setLoaded({ url, error: "Source document unavailable" });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [url]);
+
+    // Ignore results of a previous url until the new document has loaded
+    const doc = loaded?.url === url ? loaded.doc ?? null : null;
+    const error = loaded?.url === url ? loaded.error ?? null : null;
+
+    // Scroll the requested page into view
+    useEffect(() => {
+        if (!doc || !page || !containerRef.current) return;
+        const target = containerRef.current.querySelector<HTMLElement>(`[data-page="${page}"]`);
+        target?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }, [doc, page]);
+
+    return (
+        <div ref={containerRef} className={cn("overflow-y-auto bg-muted/40 p-3 space-y-3", className)}>
+            {error && <p className="text-sm text-muted-foreground text-center py-8">{error}</p>}
+            {!doc && !error && <div className="h-96 rounded bg-muted animate-pulse" />}
+            {doc &&
+                Array.from({ length: doc.numPages }, (_, i) => i + 1).map((pageNumber) => (
+                    <PdfPage
+                        key={pageNumber}
+                        doc={doc}
+                        pageNumber={pageNumber}
+                        root={containerRef}
+                        highlights={highlights.filter((h) => h.page === pageNumber)}
+                        isActive={pageNumber === page}
+                    />
+                ))}
+        </div>
+    );
+}
+
+interface PdfPageProps {
+    doc: PDFDocumentProxy;
+    pageNumber: number;
+    root: React.RefObject<HTMLDivElement | null>;
+    highlights: FieldSource[];
+    isActive: boolean;
+}
+
+function PdfPage({ doc, pageNumber, root, highlights, isActive }: PdfPageProps) {
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [isVisible, setIsVisible] = useState(false);
+    const [ratio, setRatio] = useState(DEFAULT_PAGE_RATIO);
+    const [isRendered, setIsRendered] = useState(false);
+
+    // Render once the page is near the viewport
+    useEffect(() => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper || isVisible) return;
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries.some((e) => e.isIntersecting)) setIsVisible(true);
+            },
+            { root: root.current, rootMargin: "400px 0px" }
+        );
+        observer.observe(wrapper);
+        return () => observer.disconnect();
+    }, [root, isVisible]);
+
+    useEffect(() => {
+        if (!isVisible) return;
+        let cancelled = false;
+
+        (async () => {
+            const page = await doc.getPage(pageNumber);
+            const canvas = canvasRef.current;
+            const wrapper = wrapperRef.current;
+            if (cancelled || !canvas || !wrapper) return;
+
+            const unscaled = page.getViewport({ scale: 1 });
+            const scale = (wrapper.clientWidth * PIXEL_RATIO) / unscaled.width;
+            const viewport = page.getViewport({ scale });
+
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            setRatio(viewport.height / viewport.width);
+            await page.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise;
+            if (!cancelled) setIsRendered(true);
+        })().catch((err) => {
+            console.error(`[PdfViewer] Failed to render page ${pageNumber}:`, err);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [doc, pageNumber, isVisible]);
+
+    return (
+        <div
+            ref={wrapperRef}
+            data-page={pageNumber}
+            className={cn(
+                "relative w-full bg-white shadow-sm rounded-sm scroll-mt-3",
+                isActive && "ring-2 ring-primary/60"
+            )}
+            style={{ aspectRatio: `1 / ${ratio}` }}
+        >
+            <canvas ref={canvasRef} className={cn("w-full h-full", !isRendered && "invisible")} />
+            {highlights.map((h, i) =>
+                h.box ? (
+                    <div
+                        key={i}
+                        className="absolute border-2 border-blue-500/90 bg-blue-500/10 rounded-sm pointer-events-none"
+                        style={{
+                            left: `${h.box[0] * 100}%`,
+                            top: `${h.box[1] * 100}%`,
+                            width: `${(h.box[2] - h.box[0]) * 100}%`,
+                            height: `${(h.box[3] - h.box[1]) * 100}%`,
+                        }}
+                    />
+                ) : null
+            )}
+            <span className="absolute bottom-1 right-2 text-[10px] text-muted-foreground">
+                {pageNumber} / {doc.numPages}
+            </span>
+        </div>
+    );
+}
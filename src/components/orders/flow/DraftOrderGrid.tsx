@@ -40,13 +40,16 @@ import {
     TooltipProvider,
     TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { AlertTriangle, Info } from "lucide-react";
+import { AlertTriangle, History, Info } from "lucide-react";
 import { EditableCell } from "./EditableCell";
 import { StatusBadge } from "./StatusBadge";
-import type { DraftLineItem, NormalizedProduct, LineItemStatus, FieldDefinition, ExportConfig } from "@/types";
+import type { DraftLineItem, NormalizedProduct, LineItemStatus, FieldDefinition, ExportConfig, FieldSource, FieldSources } from "@/types";
 import { FloatingActionBar, type QuickSetField } from "./FloatingActionBar";
 import { SparkToggleButton } from "./IngestrySpark";
-import { SourceLegend } from "@/components/ui/SourceTooltip";
+import { GtinCorrectionMenu } from "./GtinCorrectionMenu";
+import { DuplicateMenu } from "./DuplicateMenu";
+import { SourceLegend, SourceTooltip } from "@/components/ui/SourceTooltip";
+import { isGtinField } from "@/lib/gtin";
 
 /** Type for AI uncertainty flags stored in _needs_checking */
 interface NeedsCheckingFlag {
@@ -77,6 +80,18 @@ interface DraftOrderGridProps {
     activeExportConfig?: ExportConfig;
     /** Externally controlled regenerating row IDs (for Spark-triggered recalculations) */
     regeneratingRowIds?: Set<string>;
+    /** URL of the source PDF, enables source snippets on hover */
+    sourceFileUrl?: string;
+    /** Called when a row is clicked (e.g. to show it in the PDF viewer) */
+    onRowFocus?: (item: DraftLineItem) => void;
+    /** Row highlighted as focused */
+    focusedRowId?: string;
+    /** Merge a duplicate line item into the one it repeats */
+    onMergeDuplicate?: (itemId: string, targetId: string) => Promise<void>;
+    /** Remove line items from the order (e.g. duplicates) */
+    onDiscardItems?: (itemIds: string[]) => Promise<void>;
+    /** Open the change history of a line item */
+    onShowHistory?: (item: DraftLineItem) => void;
 }
 
 // Fields that should be treated as numbers
@@ -91,6 +106,12 @@ function getFieldUncertainty(data: Record<string, unknown> | undefined, fieldKey
     return flags?.find(f => f.field === fieldKey);
 }
 
+/** Helper to get the PDF location a field was extracted from */
+function getFieldSource(item: DraftLineItem, fieldKey: string): FieldSource | undefined {
+    const sources = (item.raw_data as unknown as { _sources?: FieldSources })?._sources;
+    return sources?.[fieldKey];
+}
+
 export function DraftOrderGrid({
     lineItems,
     orderId,
@@ -109,6 +130,12 @@ export function DraftOrderGrid({
     profileFields = [],
     activeExportConfig,
     regeneratingRowIds,
+    sourceFileUrl,
+    onRowFocus,
+    focusedRowId,
+    onMergeDuplicate,
+    onDiscardItems,
+    onShowHistory,
 }: DraftOrderGridProps) {
     const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
     const [updatingRows, setUpdatingRows] = useState<Set<string>>(new Set());
@@ -141,6 +168,7 @@ export function DraftOrderGrid({
                 type: NUMBER_FIELDS.has(key) ? "number" : "text",
                 sourceType: fieldDef?.source || 'extracted',
                 logicType: fieldDef?.logic_type,
+                isGtin: isGtinField(fieldDef ?? { key }),
             };
         });
     }, [lineItems, fieldLabels, profileFields]);
@@ -303,7 +331,9 @@ export function DraftOrderGrid({
             cell: ({ row }: { row: { original: DraftLineItem } }) => {
                 const item = row.original;
                 const data = item.normalized_data as unknown as Record<string, unknown>;
-                const error = item.validation_errors?.find((e) => e.field === field.key);
+                // Prefer blocking errors over warnings for the same field
+                const fieldErrors = item.validation_errors?.filter((e) => e.field === field.key) ?? [];
+                const error = fieldErrors.find((e) => e.severity === "error") ?? fieldErrors[0];
                 const value = data?.[field.key] ?? "";
 
                 // Special handling for templated fields with regenerate button
@@ -317,6 +347,7 @@ export function DraftOrderGrid({
                                 onChange={(v) => handleCellUpdate(item.id, field.key as keyof NormalizedProduct, field.type === "number" ? parseFloat(v) || 0 : v)}
                                 hasError={!!error}
                                 errorMessage={error?.message}
+                                isWarning={error?.severity === "warning"}
                                 disabled={updatingRows.has(item.id) || isRegenThis || isApproved}
                                 type={field.type === "number" ? "number" : undefined}
                             />
@@ -348,35 +379,58 @@ export function DraftOrderGrid({
                         onChange={(v) => handleCellUpdate(item.id, field.key as keyof NormalizedProduct, field.type === "number" ? parseFloat(v) || 0 : v)}
                         hasError={!!error}
                         errorMessage={error?.message}
+                        isWarning={error?.severity === "warning"}
                         disabled={updatingRows.has(item.id) || isApproved}
                         type={field.type === "number" ? "number" : undefined}
                     />
                 );
 
-                // If there's an uncertainty flag, wrap with indicator
-                if (uncertaintyFlag) {
+                // Show the PDF region the value came from on hover
+                const fieldSource = sourceFileUrl ? getFieldSource(item, field.key) : undefined;
+                const sourcedContent = fieldSource ? (
+                    <SourceTooltip
+                        sourceType="extracted"
+                        source={fieldSource}
+                        sourceFileUrl={sourceFileUrl}
+                        className="w-full"
+                    >
+                        {cellContent}
+                    </SourceTooltip>
+                ) : cellContent;
+
+                // If there's an uncertainty flag or an EAN to repair, wrap with indicators
+                if (uncertaintyFlag || (field.isGtin && !isApproved)) {
                     return (
                         <div className="flex items-center gap-1">
-                            {cellContent}
-                            <TooltipProvider>
-                                <Tooltip>
-                                    <TooltipTrigger asChild>
-                                        <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 cursor-help" />
-                                    </TooltipTrigger>
-                                    <TooltipContent side="top" className="max-w-xs">
-                                        <p className="text-sm">{uncertaintyFlag.reason}</p>
-                                    </TooltipContent>
-                                </Tooltip>
-                            </TooltipProvider>
+                            {sourcedContent}
+                            {uncertaintyFlag && (
+                                <TooltipProvider>
+                                    <Tooltip>
+                                        <TooltipTrigger asChild>
+                                            <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 cursor-help" />
+                                        </TooltipTrigger>
+                                        <TooltipContent side="top" className="max-w-xs">
+                                            <p className="text-sm">{uncertaintyFlag.reason}</p>
+                                        </TooltipContent>
+                                    </Tooltip>
+                                </TooltipProvider>
+                            )}
+                            {field.isGtin && !isApproved && (
+                                <GtinCorrectionMenu
+                                    value={value}
+                                    onSelect={(v) => handleCellUpdate(item.id, field.key as keyof NormalizedProduct, v)}
+                                    disabled={updatingRows.has(item.id)}
+                                />
+                            )}
                         </div>
                     );
                 }
 
-                return cellContent;
+                return sourcedContent;
             },
             size: field.key === "name" ? 200 : field.key === "sku" ? 180 : 100,
         }));
-    }, [editableColumns, handleCellUpdate, updatingRows, templatedFields, onRegenerateTemplates, handleRegenerateTemplates, isRegenerating, regeneratingIds, activeExportConfig]);
+    }, [editableColumns, handleCellUpdate, updatingRows, templatedFields, onRegenerateTemplates, handleRegenerateTemplates, isRegenerating, regeneratingIds, activeExportConfig, sourceFileUrl]);
 
     // Combine static columns with dynamic data columns
     const columns = useMemo<ColumnDef<DraftLineItem>[]>(
@@ -436,16 +490,42 @@ export function DraftOrderGrid({
             {
                 accessorKey: "line_number",
                 header: "#",
-                cell: ({ row }) => (
-                    <span className="text-muted-foreground text-sm">
-                        {row.original.line_number}
-                    </span>
-                ),
+                cell: ({ row }) => {
+                    const item = row.original;
+                    const duplicates = item.validation_errors?.filter((e) => e.rule === "duplicate") ?? [];
+                    return (
+                        <span className="flex items-center gap-1 text-muted-foreground text-sm">
+                            {item.line_number}
+                            {duplicates.length > 0 && (
+                                <DuplicateMenu
+                                    duplicates={duplicates}
+                                    orderId={orderId}
+                                    onMerge={onMergeDuplicate && ((targetId) => onMergeDuplicate(item.id, targetId))}
+                                    onDiscard={onDiscardItems && (() => onDiscardItems([item.id]))}
+                                    disabled={item.status === "approved"}
+                                />
+                            )}
+                            {onShowHistory && (
+                                <button
+                                    type="button"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onShowHistory(item);
+                                    }}
+                                    className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-muted"
+                                    title="Show history"
+                                >
+                                    <History className="h-3.5 w-3.5" />
+                                </button>
+                            )}
+                        </span>
+                    );
+                },
                 size: 40,
             },
             ...dataColumns,
         ],
-        [dataColumns, rowSelection]
+        [dataColumns, rowSelection, orderId, onMergeDuplicate, onDiscardItems, onShowHistory]
     );
 
     const table = useReactTable({
@@ -545,9 +625,11 @@ export function DraftOrderGrid({
                                     <TableRow
                                         key={row.id}
                                         data-state={row.getIsSelected() && "selected"}
-                                        className={`
+                                        onClick={onRowFocus ? () => onRowFocus(row.original) : undefined}
+                                        className={`group
                                             ${row.original.status === "approved" ? "bg-green-50/50 dark:bg-green-950/20" : ""}
                                             ${isRowRegenerating ? "animate-pulse bg-primary/5" : ""}
+                                            ${row.id === focusedRowId ? "outline outline-2 -outline-offset-2 outline-primary/50" : ""}
                                         `.trim()}
                                     >
                                     {row.getVisibleCells().map((cell) => {
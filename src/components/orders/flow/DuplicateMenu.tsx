@@ -0,0 +1,77 @@
+"use client";
+
+/**
+ * DuplicateMenu - Resolve a duplicate line item
+ * Repeats within the order can be merged into the original (quantities are
+ * summed) or discarded; line items that were already exported with an
+ * earlier order link to that order and can be discarded.
+ */
+
+import Link from "next/link";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ValidationError } from "@/types";
+import { Copy, ExternalLink, Merge, Trash2 } from "lucide-react";
+
+interface DuplicateMenuProps {
+    /** Duplicate warnings of the line item (rule 'duplicate') */
+    duplicates: ValidationError[];
+    orderId: string;
+    onMerge?: (targetId: string) => void;
+    onDiscard?: () => void;
+    disabled?: boolean;
+}
+
+export function DuplicateMenu({ duplicates, orderId, onMerge, onDiscard, disabled = false }: DuplicateMenuProps) {
+    const inOrder = duplicates.find((d) => d.duplicate_of?.order_id === orderId);
+    const exported = duplicates.filter((d) => d.duplicate_of && d.duplicate_of.order_id !== orderId);
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild disabled={disabled}>
+                <button
+                    type="button"
+                    onClick={(e) => e.stopPropagation()}
+                    className="p-0.5 rounded text-amber-500 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                    title={duplicates.map((d) => d.message).join("\n")}
+                >
+                    <Copy className="h-3.5 w-3.5" />
+                </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-72">
+                {duplicates.map((d, i) => (
+                    <DropdownMenuLabel key={i} className="text-xs font-normal text-muted-foreground">
+                        {d.message}
+                    </DropdownMenuLabel>
+                ))}
+                <DropdownMenuSeparator />
+                {inOrder?.duplicate_of && onMerge && (
+                    <DropdownMenuItem onClick={() => onMerge(inOrder.duplicate_of!.line_item_id)} className="gap-2">
+                        <Merge className="h-3.5 w-3.5" />
+                        Merge into line {inOrder.duplicate_of.line_number} (sum quantities)
+                    </DropdownMenuItem>
+                )}
+                {exported.map((d) => (
+                    <DropdownMenuItem key={d.duplicate_of!.line_item_id} asChild className="gap-2">
+                        <Link href={`/dashboard/orders/${d.duplicate_of!.order_id}`} target="_blank">
+                            <ExternalLink className="h-3.5 w-3.5" />
+                            Open {d.duplicate_of!.order_name || "earlier order"}
+                        </Link>
+                    </DropdownMenuItem>
+                ))}
+                {onDiscard && (
+                    <DropdownMenuItem onClick={onDiscard} className="gap-2 text-destructive focus:text-destructive">
+                        <Trash2 className="h-3.5 w-3.5" />
+                        Discard this line item
+                    </DropdownMenuItem>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -17,6 +17,8 @@ interface EditableCellProps {
     disabled?: boolean;
     hasError?: boolean;
     errorMessage?: string;
+    /** Show the error as a non-blocking warning */
+    isWarning?: boolean;
 }
 
 export function EditableCell({
@@ -27,6 +29,7 @@ export function EditableCell({
     disabled = false,
     hasError = false,
     errorMessage,
+    isWarning = false,
 }: EditableCellProps) {
     const [isEditing, setIsEditing] = useState(false);
     const [editValue, setEditValue] = useState(String(value));
@@ -78,7 +81,7 @@ export function EditableCell({
                 onKeyDown={handleKeyDown}
                 className={cn(
                     "h-7 px-2 py-1 text-sm",
-                    hasError && "border-red-500 focus:ring-red-500",
+                    hasError && (isWarning ? "border-amber-500 focus:ring-amber-500" : "border-red-500 focus:ring-red-500"),
                     className
                 )}
             />
@@ -91,7 +94,8 @@ export function EditableCell({
             title={hasError ? errorMessage : undefined}
             className={cn(
                 "cursor-pointer rounded px-1 py-0.5 hover:bg-muted transition-colors",
-                hasError && "bg-red-50 dark:bg-red-950 border border-red-300 dark:border-red-700",
+                hasError && !isWarning && "bg-red-50 dark:bg-red-950 border border-red-300 dark:border-red-700",
+                hasError && isWarning && "bg-amber-50 dark:bg-amber-950 border border-amber-300 dark:border-amber-700",
                 className
             )}
         >
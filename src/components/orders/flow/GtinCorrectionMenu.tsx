@@ -0,0 +1,79 @@
+"use client";
+
+/**
+ * GtinCorrectionMenu - Repair suggestions for an invalid EAN/GTIN cell
+ * Lists the codes one swapped, misread or dropped digit away that have a
+ * valid check digit. Renders nothing for valid or unrepairable values.
+ */
+
+import { useMemo } from "react";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { checkGtin, type GtinCorrectionKind } from "@/lib/gtin";
+import { Wand2 } from "lucide-react";
+
+/** Candidates shown in the menu (a misread digit alone yields one per position) */
+const MAX_CANDIDATES = 10;
+
+const KIND_LABELS: Record<GtinCorrectionKind, string> = {
+    transposition: "swapped digits",
+    substitution: "one digit changed",
+    insertion: "missing digit",
+};
+
+interface GtinCorrectionMenuProps {
+    value: unknown;
+    onSelect: (value: string) => void;
+    disabled?: boolean;
+}
+
+export function GtinCorrectionMenu({ value, onSelect, disabled = false }: GtinCorrectionMenuProps) {
+    const check = useMemo(() => checkGtin(value), [value]);
+
+    if (check.status !== "invalid" || check.corrections.length === 0) {
+        return null;
+    }
+
+    const candidates = check.corrections.slice(0, MAX_CANDIDATES);
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild disabled={disabled}>
+                <button
+                    type="button"
+                    className="p-0.5 rounded text-amber-500 hover:bg-amber-100 dark:hover:bg-amber-900/40 shrink-0"
+                    title="Suggest a valid code"
+                >
+                    <Wand2 className="h-3.5 w-3.5" />
+                </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-64">
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    {check.reason}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {candidates.map((candidate) => (
+                    <DropdownMenuItem
+                        key={candidate.value}
+                        onClick={() => onSelect(candidate.value)}
+                        className="flex items-center justify-between gap-3"
+                    >
+                        <span className="font-mono text-sm">{candidate.value}</span>
+                        <span className="text-[10px] text-muted-foreground">{KIND_LABELS[candidate.kind]}</span>
+                    </DropdownMenuItem>
+                ))}
+                {check.corrections.length > candidates.length && (
+                    <DropdownMenuLabel className="text-[10px] font-normal text-muted-foreground">
+                        {check.corrections.length - candidates.length} more - compare with the source document
+                    </DropdownMenuLabel>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+/**
+ * LineItemHistory - Audit log of an order or a single line item
+ * Lists every field change with its old and new value, who made it and
+ * how. Single changes and whole Spark sessions can be reverted.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import type { LineItemEvent, LineItemEventSource } from "@/types";
+import { History, Loader2, Sparkles, Undo2 } from "lucide-react";
+
+const SOURCE_LABELS: Record<LineItemEventSource, string> = {
+    edit: "Edit",
+    bulk_edit: "Bulk edit",
+    spark: "Spark",
+    recalculation: "Recalculation",
+    merge: "Merge",
+    revert: "Revert",
+};
+
+interface LineItemHistoryProps {
+    orderId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Show the history of this line item only (default: whole order) */
+    lineItemId?: string;
+    lineNumber?: number;
+    /** Field key to label mapping from processing profile */
+    fieldLabels?: Record<string, string>;
+    /** Called after a revert so the grid can refresh */
+    onReverted?: () => void;
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "(empty)";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export function LineItemHistory({
+    orderId,
+    open,
+    onOpenChange,
+    lineItemId,
+    lineNumber,
+    fieldLabels = {},
+    onReverted,
+}: LineItemHistoryProps) {
+    const [events, setEvents] = useState<LineItemEvent[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [reverting, setReverting] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchEvents = useCallback(async () => {
+        const query = lineItemId ? `?lineItemId=${lineItemId}` : "";
+        try {
+            const response = await fetch(`/api/draft-orders/${orderId}/events${query}`);
+            const result = await response.json();
+            if (result.success) {
+                setEvents(result.data);
+                setError(null);
+            } else {
+                setError(result.error || "Failed to load history");
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load history");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [orderId, lineItemId]);
+
+    useEffect(() => {
+        if (open) {
+            fetchEvents();
+        }
+    }, [open, fetchEvents]);
+
+    const handleRevert = async (body: { eventId: string } | { sessionId: string }, key: string) => {
+        setReverting(key);
+        setError(null);
+        try {
+            const response = await fetch(`/api/draft-orders/${orderId}/events`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            });
+            const result = await response.json();
+            if (!result.success) {
+                throw new Error(result.error || "Revert failed");
+            }
+            await fetchEvents();
+            onReverted?.();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Revert failed");
+        } finally {
+            setReverting(null);
+        }
+    };
+
+    // Sessions with changes left to revert, offered once on their newest change
+    const revertableSessions = new Set(
+        events
+            .filter((e) => e.spark_session_id && e.source !== "revert" && !e.reverted_at)
+            .map((e) => e.spark_session_id!)
+    );
+    const sessionHeads = new Map<string, string>();
+    for (const event of events) {
+        if (event.spark_session_id && revertableSessions.has(event.spark_session_id) && !sessionHeads.has(event.spark_session_id)) {
+            sessionHeads.set(event.spark_session_id, event.id);
+        }
+    }
+
+    return (
+        <Sheet open={open} onOpenChange={onOpenChange}>
+            <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-0 p-0">
+                <SheetHeader className="border-b">
+                    <SheetTitle className="flex items-center gap-2">
+                        <History className="h-4 w-4" />
+                        {lineItemId ? `History of line ${lineNumber ?? ""}` : "Order history"}
+                    </SheetTitle>
+                    <SheetDescription>
+                        All changes to the line item data, newest first
+                    </SheetDescription>
+                </SheetHeader>
+
+                {error && (
+                    <p className="mx-4 mt-3 rounded-md bg-red-50 dark:bg-red-950 px-3 py-2 text-sm text-red-700 dark:text-red-300">
+                        {error}
+                    </p>
+                )}
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : events.length === 0 ? (
+                        <p className="text-center py-8 text-sm text-muted-foreground">No changes yet</p>
+                    ) : (
+                        events.map((event) => {
+                            const sessionId = event.spark_session_id;
+                            const isSessionHead = !!sessionId && sessionHeads.get(sessionId) === event.id;
+                            const isReverted = !!event.reverted_at;
+
+                            return (
+                                <div
+                                    key={event.id}
+                                    className={`rounded-md border p-3 text-sm ${isReverted ? "opacity-60" : ""}`}
+                                >
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <p className="font-medium">
+                                                {!lineItemId && event.line_number !== undefined && (
+                                                    <span className="text-muted-foreground">Line {event.line_number} · </span>
+                                                )}
+                                                {fieldLabels[event.field] || event.field}
+                                            </p>
+                                            <p className="mt-1 break-words">
+                                                <span className="text-muted-foreground line-through">{formatValue(event.old_value)}</span>
+                                                {" → "}
+                                                <span>{formatValue(event.new_value)}</span>
+                                            </p>
+                                        </div>
+                                        {!isReverted && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="h-7 px-2 shrink-0"
+                                                disabled={reverting !== null}
+                                                onClick={() => handleRevert({ eventId: event.id }, event.id)}
+                                                title="Revert this change"
+                                            >
+                                                {reverting === event.id ? (
+                                                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                                ) : (
+                                                    <Undo2 className="h-3.5 w-3.5" />
+                                                )}
+                                            </Button>
+                                        )}
+                                    </div>
+                                    <div className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                                        <span className="flex items-center gap-1">
+                                            {event.source === "spark" && <Sparkles className="h-3 w-3 text-purple-500" />}
+                                            {SOURCE_LABELS[event.source]}
+                                            {event.actor_name && <> · {event.actor_name}</>}
+                                            {" · "}
+                                            {new Date(event.created_at).toLocaleString()}
+                                            {isReverted && <> · reverted</>}
+                                        </span>
+                                        {isSessionHead && (
+                                            <button
+                                                type="button"
+                                                className="text-purple-600 hover:underline disabled:opacity-50"
+                                                disabled={reverting !== null}
+                                                onClick={() => handleRevert({ sessionId: sessionId! }, sessionId!)}
+                                            >
+                                                {reverting === sessionId ? "Reverting..." : "Revert Spark session"}
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+/**
+ * ExportRowRules - Row filters and row explosion of an export config
+ * Filters select the line items to export, explosion splits a multi-value
+ * field (e.g. sizes) into one row per value or a parent row plus variant rows.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { ExportConfig, FieldDefinition, RowExplosion, RowFilter, RowFilterOperator } from "@/types";
+
+const OPERATORS: { value: RowFilterOperator; label: string }[] = [
+    { value: "equals", label: "=" },
+    { value: "not_equals", label: "≠" },
+    { value: "contains", label: "contains" },
+    { value: "not_contains", label: "does not contain" },
+    { value: "gt", label: ">" },
+    { value: "gte", label: "≥" },
+    { value: "lt", label: "<" },
+    { value: "lte", label: "≤" },
+    { value: "empty", label: "is empty" },
+    { value: "not_empty", label: "is not empty" },
+];
+
+const VALUELESS_OPERATORS = new Set<RowFilterOperator>(["empty", "not_empty"]);
+
+/** Select value for "no explosion" */
+const NO_EXPLOSION = "_none";
+
+interface ExportRowRulesProps {
+    filters: RowFilter[];
+    explosion?: RowExplosion;
+    fields: FieldDefinition[];
+    onChange: (updates: Pick<ExportConfig, "row_filters" | "row_explosion">) => void;
+}
+
+export function ExportRowRules({ filters, explosion, fields, onChange }: ExportRowRulesProps) {
+    const setFilters = (next: RowFilter[]) => onChange({ row_filters: next.length > 0 ? next : undefined });
+
+    const handleFilterChange = (idx: number, updates: Partial<RowFilter>) => {
+        setFilters(filters.map((f, i) => (i === idx ? { ...f, ...updates } : f)));
+    };
+
+    const handleExplosionChange = (updates: Partial<RowExplosion>) => {
+        onChange({ row_explosion: { field: "", mode: "rows", ...explosion, ...updates } });
+    };
+
+    const toggleVariantField = (key: string) => {
+        const current = explosion?.variant_fields || [];
+        handleExplosionChange({
+            variant_fields: current.includes(key) ? current.filter((k) => k !== key) : [...current, key],
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            {/* Row Filters */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">Row Filters ({filters.length})</Label>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setFilters([...filters, { field: "", operator: "equals", value: "" }])}
+                        className="h-8 text-xs gap-1"
+                    >
+                        <Plus className="h-3.5 w-3.5" />
+                        Add
+                    </Button>
+                </div>
+                {filters.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Every line item is exported.</p>
+                ) : (
+                    filters.map((filter, idx) => (
+                        <div key={idx} className="flex items-center gap-2">
+                            <Select
+                                value={filter.field || undefined}
+                                onValueChange={(value) => handleFilterChange(idx, { field: value })}
+                            >
+                                <SelectTrigger className="w-40 h-8 text-xs">
+                                    <SelectValue placeholder="Field" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {fields.map((f) => (
+                                        <SelectItem key={f.key} value={f.key}>{f.label || f.key}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Select
+                                value={filter.operator}
+                                onValueChange={(value) => handleFilterChange(idx, { operator: value as RowFilterOperator })}
+                            >
+                                <SelectTrigger className="w-36 h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {OPERATORS.map((op) => (
+                                        <SelectItem key={op.value} value={op.value}>{op.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {!VALUELESS_OPERATORS.has(filter.operator) && (
+                                <Input
+                                    value={filter.value || ""}
+                                    onChange={(e) => handleFilterChange(idx, { value: e.target.value })}
+                                    placeholder="Value"
+                                    className="flex-1 h-8 text-xs min-w-0"
+                                />
+                            )}
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setFilters(filters.filter((_, i) => i !== idx))}
+                                className="h-7 w-7 ml-auto text-muted-foreground hover:text-destructive shrink-0"
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    ))
+                )}
+            </div>
+
+            {/* Row Explosion */}
+            <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1.5">
+                    <Label className="text-xs">Rows per Item</Label>
+                    <Select
+                        value={explosion?.field || NO_EXPLOSION}
+                        onValueChange={(value) =>
+                            value === NO_EXPLOSION
+                                ? onChange({ row_explosion: undefined })
+                                : handleExplosionChange({ field: value })
+                        }
+                    >
+                        <SelectTrigger className="h-9">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={NO_EXPLOSION}>One row per item</SelectItem>
+                            {fields.map((f) => (
+                                <SelectItem key={f.key} value={f.key}>
+                                    One row per {f.label || f.key}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                {explosion?.field && (
+                    <>
+                        <div className="space-y-1.5">
+                            <Label className="text-xs">Layout</Label>
+                            <Select
+                                value={explosion.mode}
+                                onValueChange={(value) => handleExplosionChange({ mode: value as RowExplosion["mode"] })}
+                            >
+                                <SelectTrigger className="h-9">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="rows">Full row per value</SelectItem>
+                                    <SelectItem value="parent_variants">Parent + variant rows</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label className="text-xs">Separator</Label>
+                            <Input
+                                value={explosion.separator ?? ""}
+                                onChange={(e) => handleExplosionChange({ separator: e.target.value || undefined })}
+                                placeholder=","
+                                className="h-9"
+                            />
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {explosion?.field && explosion.mode === "parent_variants" && (
+                <div className="space-y-2">
+                    <Label className="text-xs">Fields kept on variant rows</Label>
+                    <div className="flex flex-wrap gap-1.5">
+                        {fields.filter((f) => f.key !== explosion.field).map((f) => {
+                            const selected = explosion.variant_fields?.includes(f.key);
+                            return (
+                                <button
+                                    key={f.key}
+                                    onClick={() => toggleVariantField(f.key)}
+                                    className={`text-xs px-2 py-1 rounded-md border transition-colors ${
+                                        selected
+                                            ? "border-primary bg-primary/10 text-primary"
+                                            : "border-border text-muted-foreground hover:bg-muted"
+                                    }`}
+                                >
+                                    {f.label || f.key}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {explosion?.field && (
+                <p className="text-xs text-muted-foreground">
+                    Use {"{row_type}"} (parent or variant) and {"{variant_index}"} in mapping templates.
+                </p>
+            )}
+        </div>
+    );
+}
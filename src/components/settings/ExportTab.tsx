@@ -23,8 +23,11 @@ import {
     TooltipProvider,
     TooltipTrigger,
 } from "@/components/ui/tooltip";
-import type { ExportConfig, FieldDefinition, FieldMapping, ShopSystem } from "@/types";
-import { AlertTriangle, Plus, Trash2, Ghost, ArrowRight } from "lucide-react";
+import { BMECAT_TARGETS } from "@/lib/export";
+import type { BmecatHeader, ExportBundleFile, ExportConfig, ExportFormat, FieldDefinition, FieldMapping, ShopSystem } from "@/types";
+import { AlertTriangle, Plus, Trash2, Ghost, ArrowRight, Wand2 } from "lucide-react";
+import { MappingTransformsDialog } from "./MappingTransformsDialog";
+import { ExportRowRules } from "./ExportRowRules";
 
 const SHOP_SYSTEMS: { value: ShopSystem; label: string }[] = [
     { value: "xentral", label: "Xentral ERP" },
@@ -32,6 +35,22 @@ const SHOP_SYSTEMS: { value: ShopSystem; label: string }[] = [
     { value: "shopify", label: "Shopify" },
 ];
 
+/** Header fields of BMEcat exports */
+const BMECAT_HEADER_FIELDS: { key: keyof BmecatHeader; label: string; placeholder?: string }[] = [
+    { key: "catalog_id", label: "Catalog ID" },
+    { key: "catalog_name", label: "Catalog Name" },
+    { key: "catalog_version", label: "Catalog Version", placeholder: "1.0" },
+    { key: "supplier_name", label: "Supplier Name" },
+    { key: "supplier_id", label: "Supplier ID" },
+    { key: "buyer_name", label: "Buyer Name" },
+    { key: "currency", label: "Currency", placeholder: "EUR" },
+    { key: "language", label: "Language", placeholder: "deu" },
+    { key: "price_type", label: "Price Type", placeholder: "net_list" },
+];
+
+/** Sheet option value for a single sheet */
+const SINGLE_SHEET = "_single";
+
 const DEFAULT_MAPPING: FieldMapping = {
     source: "",
     target: "",
@@ -58,6 +77,13 @@ function VirtualizedMappings({
     onAddMapping,
 }: VirtualizedMappingsProps) {
     const parentRef = useRef<HTMLDivElement>(null);
+    const [transformsIdx, setTransformsIdx] = useState<number | null>(null);
+
+    // Catalogs referenced by fields are offered for catalog code lookups
+    const catalogKeys = useMemo(
+        () => Array.from(new Set(fields.map(f => f.catalog_key).filter((key): key is string => !!key))),
+        [fields]
+    );
     
     const virtualizer = useVirtualizer({
         count: mappings.length,
@@ -152,6 +178,18 @@ function VirtualizedMappings({
                                         placeholder="Default"
                                         className="w-20 h-8 text-xs shrink-0"
                                     />
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => setTransformsIdx(idx)}
+                                        title="Transforms"
+                                        className={`h-7 px-1.5 gap-1 text-xs shrink-0 ${
+                                            mapping.transforms?.length ? "text-primary" : "text-muted-foreground"
+                                        }`}
+                                    >
+                                        <Wand2 className="h-3 w-3" />
+                                        {mapping.transforms?.length ? mapping.transforms.length : null}
+                                    </Button>
                                     <Button
                                         variant="ghost"
                                         size="icon"
@@ -166,6 +204,17 @@ function VirtualizedMappings({
                     })}
                 </div>
             </div>
+            <MappingTransformsDialog
+                mapping={transformsIdx !== null ? mappings[transformsIdx] ?? null : null}
+                catalogKeys={catalogKeys}
+                onOpenChange={(open) => !open && setTransformsIdx(null)}
+                onSave={(transforms) => {
+                    if (transformsIdx !== null) {
+                        onMappingChange(transformsIdx, { transforms: transforms.length > 0 ? transforms : undefined });
+                    }
+                    setTransformsIdx(null);
+                }}
+            />
         </div>
     );
 }
@@ -187,6 +236,11 @@ export function ExportTab({
 }: ExportTabProps) {
     const [activeConfigIdx, setActiveConfigIdx] = useState(0);
     const activeConfig = exportConfigs[activeConfigIdx];
+    // File being edited: the config itself (null) or one of its bundle files
+    const [activeFileIdx, setActiveFileIdx] = useState<number | null>(null);
+    const activeFile: ExportBundleFile | undefined = activeFileIdx === null
+        ? activeConfig
+        : activeConfig?.bundle_files?.[activeFileIdx];
 
     // Memoize derived values
     const allFieldKeys = useMemo(() => 
@@ -196,15 +250,15 @@ export function ExportTab({
     const validSourceKeys = useMemo(() => new Set(allFieldKeys), [allFieldKeys]);
 
     const mappedSources = useMemo(() => 
-        new Set(activeConfig?.field_mappings.map((m) => m.source).filter(Boolean) || []),
-        [activeConfig?.field_mappings]
+        new Set(activeFile?.field_mappings.map((m) => m.source).filter(Boolean) || []),
+        [activeFile?.field_mappings]
     );
     const unmappedFields = useMemo(() => 
         fields.filter((f) => f.key && !mappedSources.has(f.key)),
         [fields, mappedSources]
     );
 
-    const getInvalidMappings = useCallback((config: ExportConfig) => {
+    const getInvalidMappings = useCallback((config: ExportBundleFile) => {
         return config.field_mappings
             .map((m, idx) => ({ ...m, idx }))
             .filter((m) => m.source && !validSourceKeys.has(m.source));
@@ -224,7 +278,7 @@ export function ExportTab({
             is_default: exportConfigs.length === 0,
         };
         onExportConfigsChange([...exportConfigs, newConfig]);
-        setActiveConfigIdx(exportConfigs.length);
+        handleSelectConfig(exportConfigs.length);
     };
 
     const handleRemoveConfig = (idx: number) => {
@@ -233,6 +287,7 @@ export function ExportTab({
         if (activeConfigIdx >= updated.length) {
             setActiveConfigIdx(Math.max(0, updated.length - 1));
         }
+        setActiveFileIdx(null);
         if (defaultExportConfigIdx === idx) {
             onDefaultIdxChange(0);
         } else if (defaultExportConfigIdx > idx) {
@@ -248,33 +303,95 @@ export function ExportTab({
         );
     };
 
-    const handleAddMapping = (source?: string) => {
-        if (!activeConfig) return;
+    const updateFile = (updates: Partial<ExportBundleFile>) => {
+        if (activeFileIdx === null) {
+            updateConfig(updates);
+            return;
+        }
         updateConfig({
+            bundle_files: activeConfig?.bundle_files?.map((f, i) =>
+                i === activeFileIdx ? { ...f, ...updates } : f
+            ),
+        });
+    };
+
+    const handleSelectConfig = (idx: number) => {
+        setActiveConfigIdx(idx);
+        setActiveFileIdx(null);
+    };
+
+    const handleAddFile = () => {
+        if (!activeConfig) return;
+        const files = activeConfig.bundle_files || [];
+        const newFile: ExportBundleFile = {
+            id: crypto.randomUUID(),
+            name: `File ${files.length + 2}`,
+            field_mappings: fields.map((f) => ({
+                source: f.key,
+                target: f.key,
+            })),
+            format: "csv",
+            format_options: { delimiter: ";", include_header: true },
+        };
+        updateConfig({ bundle_files: [...files, newFile] });
+        setActiveFileIdx(files.length);
+    };
+
+    const handleRemoveFile = (idx: number) => {
+        const files = (activeConfig?.bundle_files || []).filter((_, i) => i !== idx);
+        updateConfig({ bundle_files: files.length > 0 ? files : undefined });
+        setActiveFileIdx(null);
+    };
+
+    const handleFormatChange = (format: ExportFormat) => {
+        updateFile(format === "bmecat" && !activeFile?.bmecat
+            ? { format, bmecat: { catalog_id: "", supplier_name: "", currency: "EUR" } }
+            : { format });
+    };
+
+    const handleBmecatHeaderChange = (key: keyof BmecatHeader, value: string) => {
+        if (!activeFile) return;
+        updateFile({
+            bmecat: {
+                catalog_id: "",
+                supplier_name: "",
+                currency: "",
+                ...activeFile.bmecat,
+                [key]: value,
+            },
+        });
+    };
+
+    const handleAddMapping = (source?: string) => {
+        if (!activeFile) return;
+        updateFile({
             field_mappings: [
-                ...activeConfig.field_mappings,
+                ...activeFile.field_mappings,
                 { ...DEFAULT_MAPPING, source: source || "", target: source || "" },
             ],
         });
     };
 
     const handleRemoveMapping = (idx: number) => {
-        if (!activeConfig) return;
-        updateConfig({
-            field_mappings: activeConfig.field_mappings.filter((_, i) => i !== idx),
+        if (!activeFile) return;
+        updateFile({
+            field_mappings: activeFile.field_mappings.filter((_, i) => i !== idx),
         });
     };
 
     const handleMappingChange = (idx: number, updates: Partial<FieldMapping>) => {
-        if (!activeConfig) return;
-        updateConfig({
-            field_mappings: activeConfig.field_mappings.map((m, i) =>
+        if (!activeFile) return;
+        updateFile({
+            field_mappings: activeFile.field_mappings.map((m, i) =>
                 i === idx ? { ...m, ...updates } : m
             ),
         });
     };
 
-    const invalidMappings = activeConfig ? getInvalidMappings(activeConfig) : [];
+    const invalidMappings = activeFile ? getInvalidMappings(activeFile) : [];
+    const sheetColumns = activeFile
+        ? [...new Set(activeFile.field_mappings.map((m) => m.target).filter(Boolean))]
+        : [];
 
     // Badge with tooltip helper
     const SourceBadge = ({ field }: { field: FieldDefinition }) => {
@@ -306,7 +423,7 @@ export function ExportTab({
                 {exportConfigs.map((config, idx) => (
                     <button
                         key={config.id}
-                        onClick={() => setActiveConfigIdx(idx)}
+                        onClick={() => handleSelectConfig(idx)}
                         className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
                             idx === activeConfigIdx
                                 ? "bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 text-slate-700 dark:text-slate-300 ring-2 ring-inset ring-slate-400/50"
@@ -322,15 +439,45 @@ export function ExportTab({
                 </Button>
             </div>
 
-            {activeConfig ? (
+            {activeConfig && activeFile ? (
                 <div className="space-y-4">
+                    {/* Bundle Files - more than one file is exported as a ZIP */}
+                    <div className="flex items-center gap-1.5 flex-wrap">
+                        <span className="text-xs text-muted-foreground mr-1">Files:</span>
+                        {[activeConfig, ...(activeConfig.bundle_files || [])].map((file, idx) => {
+                            const fileIdx = idx === 0 ? null : idx - 1;
+                            return (
+                                <button
+                                    key={file.id}
+                                    onClick={() => setActiveFileIdx(fileIdx)}
+                                    className={`px-2.5 py-1 rounded-md text-xs transition-colors ${
+                                        fileIdx === activeFileIdx
+                                            ? "bg-muted ring-1 ring-inset ring-slate-400/50 text-foreground font-medium"
+                                            : "text-muted-foreground hover:bg-muted/60"
+                                    }`}
+                                >
+                                    {file.name || "Untitled"} ({file.format.toUpperCase()})
+                                </button>
+                            );
+                        })}
+                        <Button variant="ghost" size="sm" onClick={handleAddFile} className="h-7 text-xs gap-1">
+                            <Plus className="h-3 w-3" />
+                            File
+                        </Button>
+                        {activeConfig.bundle_files?.length ? (
+                            <span className="text-xs text-muted-foreground ml-auto">
+                                Exported as ZIP with manifest.json
+                            </span>
+                        ) : null}
+                    </div>
+
                     {/* Config Settings */}
                     <div className="grid grid-cols-3 gap-3">
                         <div className="space-y-1.5">
                             <Label className="text-xs">Name</Label>
                             <Input
-                                value={activeConfig.name}
-                                onChange={(e) => updateConfig({ name: e.target.value })}
+                                value={activeFile.name}
+                                onChange={(e) => updateFile({ name: e.target.value })}
                                 className="h-9"
                             />
                         </div>
@@ -357,10 +504,8 @@ export function ExportTab({
                         <div className="space-y-1.5">
                             <Label className="text-xs">Format</Label>
                             <Select
-                                value={activeConfig.format}
-                                onValueChange={(value) =>
-                                    updateConfig({ format: value as "csv" | "json" })
-                                }
+                                value={activeFile.format}
+                                onValueChange={(value) => handleFormatChange(value as ExportFormat)}
                             >
                                 <SelectTrigger className="h-9">
                                     <SelectValue />
@@ -368,13 +513,103 @@ export function ExportTab({
                                 <SelectContent>
                                     <SelectItem value="csv">CSV</SelectItem>
                                     <SelectItem value="json">JSON</SelectItem>
+                                    <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                                    <SelectItem value="bmecat">BMEcat 2005 (XML)</SelectItem>
                                 </SelectContent>
                             </Select>
                         </div>
                     </div>
 
+                    {activeFile.format === "bmecat" && (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-3 gap-3">
+                                {BMECAT_HEADER_FIELDS.map(({ key, label, placeholder }) => (
+                                    <div key={key} className="space-y-1.5">
+                                        <Label className="text-xs">{label}</Label>
+                                        <Input
+                                            value={activeFile.bmecat?.[key] || ""}
+                                            onChange={(e) => handleBmecatHeaderChange(key, e.target.value)}
+                                            placeholder={placeholder}
+                                            className="h-9"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                Map to {BMECAT_TARGETS.join(", ")}. Other columns become features;
+                                name them &quot;Group/Feature&quot; to group them.
+                            </p>
+                        </div>
+                    )}
+
+                    {activeFile.format === "xlsx" && (
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="space-y-1.5">
+                                <Label className="text-xs">Sheets</Label>
+                                <Select
+                                    value={activeFile.format_options.sheet_by || SINGLE_SHEET}
+                                    onValueChange={(value) =>
+                                        updateFile({
+                                            format_options: {
+                                                ...activeFile.format_options,
+                                                sheet_by: value === SINGLE_SHEET ? undefined : value,
+                                            },
+                                        })
+                                    }
+                                >
+                                    <SelectTrigger className="h-9">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={SINGLE_SHEET}>Single sheet</SelectItem>
+                                        {sheetColumns.map((target) => (
+                                            <SelectItem key={target} value={target}>
+                                                One sheet per {target}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {!activeFile.format_options.sheet_by && (
+                                <div className="space-y-1.5">
+                                    <Label className="text-xs">Sheet Name</Label>
+                                    <Input
+                                        value={activeFile.format_options.sheet_name || ""}
+                                        onChange={(e) =>
+                                            updateFile({
+                                                format_options: {
+                                                    ...activeFile.format_options,
+                                                    sheet_name: e.target.value || undefined,
+                                                },
+                                            })
+                                        }
+                                        placeholder="Export"
+                                        className="h-9"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <ExportRowRules
+                        filters={activeFile.row_filters || []}
+                        explosion={activeFile.row_explosion}
+                        fields={fields}
+                        onChange={updateConfig}
+                    />
+
                     <div className="flex items-center gap-3">
-                        {activeConfigIdx !== defaultExportConfigIdx && (
+                        {activeFileIdx !== null && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 text-xs text-destructive"
+                                onClick={() => handleRemoveFile(activeFileIdx)}
+                            >
+                                Remove File
+                            </Button>
+                        )}
+                        {activeFileIdx === null && activeConfigIdx !== defaultExportConfigIdx && (
                             <Button
                                 variant="outline"
                                 size="sm"
@@ -384,7 +619,7 @@ export function ExportTab({
                                 Set as Default
                             </Button>
                         )}
-                        {exportConfigs.length > 1 && (
+                        {activeFileIdx === null && exportConfigs.length > 1 && (
                             <Button
                                 variant="ghost"
                                 size="sm"
@@ -454,7 +689,7 @@ export function ExportTab({
 
                     {/* Field Mappings - Virtualized */}
                     <VirtualizedMappings
-                        mappings={activeConfig.field_mappings}
+                        mappings={activeFile.field_mappings}
                         fields={fields}
                         validSourceKeys={validSourceKeys}
                         onMappingChange={handleMappingChange}
@@ -0,0 +1,257 @@
+"use client";
+
+/**
+ * FieldRulesButton - Edit the validation rules of a profile field
+ * Opens a dialog listing the field's rules (pattern, range, enum, GTIN,
+ * cross-field comparison, uniqueness) with their severity.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import type { ComparisonOperator, FieldDefinition, FieldValidationRule } from "@/types";
+import { Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const RULE_TYPES: Array<{ value: FieldValidationRule["type"]; label: string }> = [
+    { value: "pattern", label: "Pattern" },
+    { value: "range", label: "Range" },
+    { value: "enum", label: "Allowed values" },
+    { value: "gtin", label: "EAN/GTIN" },
+    { value: "compare", label: "Compare" },
+    { value: "unique", label: "Unique" },
+];
+
+const OPERATORS: ComparisonOperator[] = [">=", ">", "<=", "<", "=", "!="];
+
+/** New rule of a type with empty parameters */
+function createRule(type: FieldValidationRule["type"], severity: FieldValidationRule["severity"] = "error"): FieldValidationRule {
+    switch (type) {
+        case "pattern": return { type, pattern: "", severity };
+        case "range": return { type, severity };
+        case "enum": return { type, values: [], severity };
+        case "compare": return { type, operator: ">=", field: "", severity };
+        default: return { type, severity };
+    }
+}
+
+function parseBound(value: string): number | undefined {
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : undefined;
+}
+
+interface FieldRulesButtonProps {
+    field: FieldDefinition;
+    /** All profile fields, for cross-field rules */
+    fields: FieldDefinition[];
+    onChange: (rules: FieldValidationRule[]) => void;
+}
+
+export function FieldRulesButton({ field, fields, onChange }: FieldRulesButtonProps) {
+    const [draft, setDraft] = useState<FieldValidationRule[] | null>(null);
+    const count = field.validation?.length || 0;
+
+    const updateRule = (index: number, rule: FieldValidationRule) => {
+        setDraft((rules) => rules && rules.map((r, i) => (i === index ? rule : r)));
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        // Drop rules that are missing their parameters
+        onChange(draft.filter((rule) =>
+            (rule.type !== "pattern" || rule.pattern.trim()) &&
+            (rule.type !== "compare" || rule.field)
+        ));
+        setDraft(null);
+    };
+
+    return (
+        <>
+            <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setDraft(field.validation || []);
+                }}
+                className={cn("h-8 gap-1 px-2 text-xs", count > 0 ? "text-primary" : "text-muted-foreground")}
+                title="Validation rules"
+            >
+                <ShieldCheck className="h-3.5 w-3.5" />
+                {count > 0 && count}
+            </Button>
+
+            <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+                <DialogContent className="sm:max-w-2xl" onClick={(e) => e.stopPropagation()}>
+                    <DialogHeader>
+                        <DialogTitle>Validation rules · {field.label || field.key}</DialogTitle>
+                        <DialogDescription>
+                            Checked on extraction and after every edit. Errors block the line item, warnings only flag it.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                        {draft?.length === 0 && (
+                            <p className="text-sm text-muted-foreground py-4 text-center">No rules yet</p>
+                        )}
+                        {draft?.map((rule, index) => (
+                            <div key={index} className="flex items-center gap-2 p-2 rounded-lg bg-muted/30 ring-1 ring-inset ring-border/50">
+                                <Select
+                                    value={rule.type}
+                                    onValueChange={(value) =>
+                                        updateRule(index, createRule(value as FieldValidationRule["type"], rule.severity))
+                                    }
+                                >
+                                    <SelectTrigger className="w-36 h-8 text-sm">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {RULE_TYPES.map((t) => (
+                                            <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+
+                                <div className="flex-1 flex items-center gap-2 min-w-0">
+                                    {rule.type === "pattern" && (
+                                        <Input
+                                            placeholder="Regex, e.g. [A-Z]{2}-\d{4}"
+                                            value={rule.pattern}
+                                            onChange={(e) => updateRule(index, { ...rule, pattern: e.target.value })}
+                                            className="h-8 text-sm font-mono"
+                                        />
+                                    )}
+                                    {rule.type === "range" && (
+                                        <>
+                                            <Input
+                                                type="number"
+                                                placeholder="Min"
+                                                value={rule.min ?? ""}
+                                                onChange={(e) => updateRule(index, { ...rule, min: parseBound(e.target.value) })}
+                                                className="h-8 text-sm"
+                                            />
+                                            <Input
+                                                type="number"
+                                                placeholder="Max"
+                                                value={rule.max ?? ""}
+                                                onChange={(e) => updateRule(index, { ...rule, max: parseBound(e.target.value) })}
+                                                className="h-8 text-sm"
+                                            />
+                                        </>
+                                    )}
+                                    {rule.type === "enum" && (
+                                        <Input
+                                            placeholder={field.enumValues?.length ? `Default: ${field.enumValues.join(", ")}` : "S, M, L, XL"}
+                                            value={(rule.values || []).join(", ")}
+                                            onChange={(e) =>
+                                                updateRule(index, {
+                                                    ...rule,
+                                                    values: e.target.value.split(",").map((v) => v.trim()).filter(Boolean),
+                                                })
+                                            }
+                                            className="h-8 text-sm"
+                                        />
+                                    )}
+                                    {rule.type === "compare" && (
+                                        <>
+                                            <Select
+                                                value={rule.operator}
+                                                onValueChange={(value) => updateRule(index, { ...rule, operator: value as ComparisonOperator })}
+                                            >
+                                                <SelectTrigger className="w-20 h-8 text-sm font-mono">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {OPERATORS.map((op) => (
+                                                        <SelectItem key={op} value={op} className="font-mono">{op}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            <Select
+                                                value={rule.field || undefined}
+                                                onValueChange={(value) => updateRule(index, { ...rule, field: value })}
+                                            >
+                                                <SelectTrigger className="flex-1 h-8 text-sm">
+                                                    <SelectValue placeholder="Field" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {fields.filter((f) => f.key && f.key !== field.key).map((f) => (
+                                                        <SelectItem key={f.key} value={f.key}>{f.label || f.key}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </>
+                                    )}
+                                    {(rule.type === "gtin" || rule.type === "unique") && (
+                                        <span className="text-xs text-muted-foreground">
+                                            {rule.type === "gtin" ? "Checks the GS1 check digit" : "No other line item of the order may have the same value"}
+                                        </span>
+                                    )}
+                                </div>
+
+                                <Select
+                                    value={rule.severity}
+                                    onValueChange={(value) => updateRule(index, { ...rule, severity: value as FieldValidationRule["severity"] })}
+                                >
+                                    <SelectTrigger className="w-24 h-8 text-sm">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="error">Error</SelectItem>
+                                        <SelectItem value="warning">Warning</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                <Input
+                                    placeholder="Message (optional)"
+                                    value={rule.message || ""}
+                                    onChange={(e) => updateRule(index, { ...rule, message: e.target.value || undefined })}
+                                    className="w-40 h-8 text-sm"
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <DialogFooter className="sm:justify-between">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDraft([...(draft || []), createRule("pattern")])}
+                            className="gap-1.5"
+                        >
+                            <Plus className="h-4 w-4" />
+                            Add Rule
+                        </Button>
+                        <div className="flex gap-2">
+                            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+                            <Button onClick={handleSave}>Apply</Button>
+                        </div>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
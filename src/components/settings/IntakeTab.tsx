@@ -19,6 +19,7 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import type { FieldDefinition } from "@/types";
+import { FieldRulesButton } from "./FieldRulesButton";
 import { Trash2, FileInput, Plus, Upload, Search, Undo2, Sparkles } from "lucide-react";
 import { toast } from "sonner";
 
@@ -354,6 +355,11 @@ export function IntakeTab({ fields, onFieldsChange, onSparkSetup }: IntakeTabPro
                                 }
                                 className="w-32 h-8 text-sm"
                             />
+                            <FieldRulesButton
+                                field={field}
+                                fields={fields}
+                                onChange={(validation) => handleFieldChange(realIndex, { validation })}
+                            />
                             <Button
                                 variant="ghost"
                                 size="icon"
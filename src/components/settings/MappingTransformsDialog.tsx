@@ -0,0 +1,344 @@
+"use client";
+
+/**
+ * MappingTransformsDialog - Edit the value transformation chain of a field mapping
+ * Transforms run in order on the mapped value before the default value applies,
+ * e.g. trim → map "female" to "D" → uppercase.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { applyTransforms } from "@/lib/export";
+import type { FieldMapping, FieldTransform, FieldTransformType } from "@/types";
+
+const TRANSFORM_TYPES: { value: FieldTransformType; label: string; create: () => FieldTransform }[] = [
+    { value: "trim", label: "Trim whitespace", create: () => ({ type: "trim" }) },
+    { value: "uppercase", label: "Uppercase", create: () => ({ type: "uppercase" }) },
+    { value: "lowercase", label: "Lowercase", create: () => ({ type: "lowercase" }) },
+    { value: "titlecase", label: "Title Case", create: () => ({ type: "titlecase" }) },
+    { value: "truncate", label: "Truncate", create: () => ({ type: "truncate", length: 40 }) },
+    { value: "replace", label: "Regex replace", create: () => ({ type: "replace", pattern: "", replacement: "" }) },
+    { value: "number", label: "Number format", create: () => ({ type: "number", decimals: 2, decimal_separator: "," }) },
+    { value: "date", label: "Date format", create: () => ({ type: "date", format: "DD.MM.YYYY" }) },
+    { value: "map", label: "Value map", create: () => ({ type: "map", values: {} }) },
+    { value: "catalog", label: "Catalog code", create: () => ({ type: "catalog", catalog_key: "" }) },
+];
+
+const TRANSFORM_LABELS = Object.fromEntries(TRANSFORM_TYPES.map((t) => [t.value, t.label])) as Record<FieldTransformType, string>;
+
+/** Value map as "from=to" lines - keeps its own text so partial lines survive typing */
+function MapValuesEditor({
+    values,
+    onChange,
+}: {
+    values: Record<string, string>;
+    onChange: (values: Record<string, string>) => void;
+}) {
+    const [text, setText] = useState(() =>
+        Object.entries(values).map(([from, to]) => `${from}=${to}`).join("\n")
+    );
+
+    const handleChange = (next: string) => {
+        setText(next);
+        const parsed: Record<string, string> = {};
+        for (const line of next.split("\n")) {
+            const separator = line.indexOf("=");
+            if (separator > 0) {
+                parsed[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+            }
+        }
+        onChange(parsed);
+    };
+
+    return (
+        <Textarea
+            value={text}
+            onChange={(e) => handleChange(e.target.value)}
+            placeholder={"female=D\nmale=H"}
+            rows={3}
+            className="text-xs font-mono"
+        />
+    );
+}
+
+function TransformOptions({
+    transform,
+    catalogKeys,
+    onChange,
+}: {
+    transform: FieldTransform;
+    catalogKeys: string[];
+    onChange: (transform: FieldTransform) => void;
+}) {
+    switch (transform.type) {
+        case "truncate":
+            return (
+                <Input
+                    type="number"
+                    min={0}
+                    value={transform.length}
+                    onChange={(e) => onChange({ ...transform, length: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="h-8 w-24 text-xs"
+                    aria-label="Maximum length"
+                />
+            );
+        case "replace":
+            return (
+                <div className="flex gap-2">
+                    <Input
+                        value={transform.pattern}
+                        onChange={(e) => onChange({ ...transform, pattern: e.target.value })}
+                        placeholder="Pattern"
+                        className="h-8 text-xs font-mono"
+                    />
+                    <Input
+                        value={transform.replacement}
+                        onChange={(e) => onChange({ ...transform, replacement: e.target.value })}
+                        placeholder="Replacement ($1)"
+                        className="h-8 text-xs font-mono"
+                    />
+                    <Input
+                        value={transform.flags ?? "g"}
+                        onChange={(e) => onChange({ ...transform, flags: e.target.value })}
+                        placeholder="Flags"
+                        className="h-8 w-16 text-xs font-mono"
+                    />
+                </div>
+            );
+        case "number":
+            return (
+                <div className="flex gap-2">
+                    <Input
+                        type="number"
+                        min={0}
+                        value={transform.decimals ?? ""}
+                        onChange={(e) => onChange({
+                            ...transform,
+                            decimals: e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+                        })}
+                        placeholder="Decimals"
+                        className="h-8 w-24 text-xs"
+                    />
+                    <Select
+                        value={transform.decimal_separator || "."}
+                        onValueChange={(value) => onChange({ ...transform, decimal_separator: value as "." | "," })}
+                    >
+                        <SelectTrigger className="h-8 w-32 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value=".">Decimal point</SelectItem>
+                            <SelectItem value=",">Decimal comma</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        value={transform.thousands_separator || ""}
+                        onChange={(e) => onChange({ ...transform, thousands_separator: e.target.value || undefined })}
+                        placeholder="Thousands"
+                        className="h-8 w-24 text-xs"
+                    />
+                </div>
+            );
+        case "date":
+            return (
+                <Input
+                    value={transform.format}
+                    onChange={(e) => onChange({ ...transform, format: e.target.value })}
+                    placeholder="DD.MM.YYYY"
+                    className="h-8 w-40 text-xs font-mono"
+                />
+            );
+        case "map":
+            return <MapValuesEditor values={transform.values} onChange={(values) => onChange({ ...transform, values })} />;
+        case "catalog":
+            return (
+                <div className="flex gap-2">
+                    <Select
+                        value={transform.catalog_key || undefined}
+                        onValueChange={(value) => onChange({ ...transform, catalog_key: value })}
+                    >
+                        <SelectTrigger className="h-8 w-40 text-xs">
+                            <SelectValue placeholder="Catalog" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Array.from(new Set([...catalogKeys, transform.catalog_key].filter(Boolean))).map((key) => (
+                                <SelectItem key={key} value={key}>{key}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        value={transform.column || ""}
+                        onChange={(e) => onChange({ ...transform, column: e.target.value || undefined })}
+                        placeholder="Column (default: code)"
+                        className="h-8 text-xs"
+                    />
+                </div>
+            );
+        default:
+            return null;
+    }
+}
+
+interface MappingTransformsDialogProps {
+    mapping: FieldMapping | null;
+    /** Catalog keys offered for catalog lookups */
+    catalogKeys: string[];
+    onOpenChange: (open: boolean) => void;
+    onSave: (transforms: FieldTransform[]) => void;
+}
+
+export function MappingTransformsDialog({
+    mapping,
+    catalogKeys,
+    onOpenChange,
+    onSave,
+}: MappingTransformsDialogProps) {
+    return (
+        <Dialog open={!!mapping} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl">
+                {mapping && (
+                    // Keyed so the draft resets for every mapping opened
+                    <TransformsEditor
+                        key={`${mapping.source}->${mapping.target}`}
+                        mapping={mapping}
+                        catalogKeys={catalogKeys}
+                        onCancel={() => onOpenChange(false)}
+                        onSave={onSave}
+                    />
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function TransformsEditor({
+    mapping,
+    catalogKeys,
+    onCancel,
+    onSave,
+}: {
+    mapping: FieldMapping;
+    catalogKeys: string[];
+    onCancel: () => void;
+    onSave: (transforms: FieldTransform[]) => void;
+}) {
+    const [transforms, setTransforms] = useState<FieldTransform[]>(mapping.transforms || []);
+    const [sample, setSample] = useState("");
+
+    const update = (idx: number, transform: FieldTransform) => {
+        setTransforms((prev) => prev.map((t, i) => (i === idx ? transform : t)));
+    };
+
+    const move = (idx: number, offset: number) => {
+        setTransforms((prev) => {
+            const next = [...prev];
+            [next[idx], next[idx + offset]] = [next[idx + offset], next[idx]];
+            return next;
+        });
+    };
+
+    const handleAdd = (type: FieldTransformType) => {
+        const definition = TRANSFORM_TYPES.find((t) => t.value === type);
+        if (definition) setTransforms((prev) => [...prev, definition.create()]);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Transforms: {mapping.target || mapping.source}</DialogTitle>
+                <DialogDescription>
+                    Applied in order to the mapped value. The default value is used if the result is empty.
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                {transforms.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No transforms - the value is exported as is.</p>
+                )}
+                {transforms.map((transform, idx) => (
+                    <div key={idx} className="flex items-start gap-2 rounded-lg border p-2">
+                        <span className="w-32 shrink-0 pt-1.5 text-xs font-medium">
+                            {idx + 1}. {TRANSFORM_LABELS[transform.type]}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                            <TransformOptions
+                                transform={transform}
+                                catalogKeys={catalogKeys}
+                                onChange={(next) => update(idx, next)}
+                            />
+                        </div>
+                        <div className="flex shrink-0">
+                            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={idx === 0} onClick={() => move(idx, -1)}>
+                                <ArrowUp className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                disabled={idx === transforms.length - 1}
+                                onClick={() => move(idx, 1)}
+                            >
+                                <ArrowDown className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                onClick={() => setTransforms((prev) => prev.filter((_, i) => i !== idx))}
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <Select value="" onValueChange={(value) => handleAdd(value as FieldTransformType)}>
+                <SelectTrigger className="h-9 w-48 text-xs">
+                    <SelectValue placeholder="Add transform..." />
+                </SelectTrigger>
+                <SelectContent>
+                    {TRANSFORM_TYPES.map((t) => (
+                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {/* Try the chain on a sample value (catalog lookups need order data) */}
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                    <Label className="text-xs">Sample value</Label>
+                    <Input value={sample} onChange={(e) => setSample(e.target.value)} className="h-8 text-xs" />
+                </div>
+                <div className="space-y-1.5">
+                    <Label className="text-xs">Result</Label>
+                    <Input value={applyTransforms(sample, transforms)} readOnly className="h-8 text-xs bg-muted" />
+                </div>
+            </div>
+
+            <DialogFooter>
+                <Button variant="outline" onClick={onCancel}>Cancel</Button>
+                <Button onClick={() => onSave(transforms)}>Apply</Button>
+            </DialogFooter>
+        </>
+    );
+}
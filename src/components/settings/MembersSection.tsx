@@ -0,0 +1,352 @@
+"use client";
+
+/**
+ * MembersSection - Tenant members and invitations in the settings page
+ * Admins invite colleagues by email (the invitation link is shown once to
+ * copy), change roles, remove members and revoke open invitations. The owner
+ * can transfer ownership to another member.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { UserAvatar } from "@/components/ui/user-avatar";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Copy, Crown, MoreHorizontal, UserPlus, X } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { can } from "@/lib/auth/permissions";
+import type { TenantInvitation, TenantRole, TenantUserProfile } from "@/types";
+
+type AssignableRole = Exclude<TenantRole, "owner">;
+
+export function MembersSection() {
+    const [members, setMembers] = useState<TenantUserProfile[]>([]);
+    const [invitations, setInvitations] = useState<TenantInvitation[]>([]);
+    const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isInviteOpen, setIsInviteOpen] = useState(false);
+    const [inviteEmail, setInviteEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<AssignableRole>("member");
+    const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const currentMember = members.find((m) => m.user_id === currentUserId);
+    const canManage = can(currentMember, "members.manage");
+    const isOwner = currentMember?.role === "owner";
+
+    const loadMembers = useCallback(async () => {
+        try {
+            const response = await fetch("/api/tenant/members");
+            const result = await response.json();
+            if (result.success) {
+                setMembers(result.data);
+            }
+        } catch (err) {
+            console.error("Failed to fetch members:", err);
+        }
+    }, []);
+
+    const loadInvitations = useCallback(async () => {
+        try {
+            const response = await fetch("/api/tenant/invitations");
+            const result = await response.json();
+            // Non-admins get a 403 and see no invitations
+            setInvitations(result.success ? result.data : []);
+        } catch (err) {
+            console.error("Failed to fetch invitations:", err);
+        }
+    }, []);
+
+    useEffect(() => {
+        const load = async () => {
+            const supabase = createClient();
+            const { data: { user } } = await supabase.auth.getUser();
+            setCurrentUserId(user?.id || null);
+            await Promise.all([loadMembers(), loadInvitations()]);
+            setIsLoading(false);
+        };
+        load();
+    }, [loadMembers, loadInvitations]);
+
+    const request = async (url: string, init: RequestInit, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            const response = await fetch(url, {
+                ...init,
+                headers: { "Content-Type": "application/json" },
+            });
+            const result = await response.json();
+            if (!result.success) {
+                throw new Error(result.error || "Request failed");
+            }
+            toast.success(successMessage);
+            return result;
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Request failed");
+            return null;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleInvite = async () => {
+        const result = await request(
+            "/api/tenant/invitations",
+            { method: "POST", body: JSON.stringify({ email: inviteEmail, role: inviteRole }) },
+            `Invitation created for ${inviteEmail}`
+        );
+        if (result) {
+            setInviteUrl(result.data.inviteUrl);
+            await loadInvitations();
+        }
+    };
+
+    const handleInviteOpenChange = (open: boolean) => {
+        setIsInviteOpen(open);
+        if (!open) {
+            setInviteEmail("");
+            setInviteRole("member");
+            setInviteUrl(null);
+        }
+    };
+
+    const handleRoleChange = async (member: TenantUserProfile, role: AssignableRole) => {
+        if (await request(
+            `/api/tenant/members/${member.user_id}`,
+            { method: "PATCH", body: JSON.stringify({ role }) },
+            `${member.full_name || member.email} is now ${role === "admin" ? "an admin" : "a member"}`
+        )) {
+            await loadMembers();
+        }
+    };
+
+    const handleRemove = async (member: TenantUserProfile) => {
+        const name = member.full_name || member.email;
+        if (!confirm(`Remove ${name} from this organization?`)) return;
+        if (await request(`/api/tenant/members/${member.user_id}`, { method: "DELETE" }, `${name} was removed`)) {
+            await loadMembers();
+        }
+    };
+
+    const handleTransfer = async (member: TenantUserProfile) => {
+        const name = member.full_name || member.email;
+        if (!confirm(`Make ${name} the owner? You will become an admin.`)) return;
+        if (await request(
+            "/api/tenant/ownership",
+            { method: "POST", body: JSON.stringify({ userId: member.user_id }) },
+            `${name} is now the owner`
+        )) {
+            await loadMembers();
+        }
+    };
+
+    const handleRevoke = async (invitation: TenantInvitation) => {
+        if (await request(
+            `/api/tenant/invitations/${invitation.id}`,
+            { method: "DELETE" },
+            `Invitation for ${invitation.email} revoked`
+        )) {
+            await loadInvitations();
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="border-b flex flex-row items-center justify-between">
+                <CardTitle className="text-base font-medium">Members</CardTitle>
+                {canManage && (
+                    <Button size="sm" variant="outline" onClick={() => setIsInviteOpen(true)}>
+                        <UserPlus className="h-4 w-4 mr-1.5" />
+                        Invite
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent className="p-0">
+                {isLoading ? (
+                    <p className="px-6 py-4 text-sm text-muted-foreground">Loading members...</p>
+                ) : (
+                    <div className="divide-y">
+                        {members.map((member) => {
+                            const isSelf = member.user_id === currentUserId;
+                            const editable = canManage && member.role !== "owner";
+                            return (
+                                <div key={member.user_id} className="flex items-center justify-between gap-4 px-6 py-3">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <UserAvatar user={member} />
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium truncate">
+                                                {member.full_name || member.email}
+                                                {isSelf && <span className="ml-1.5 text-xs text-muted-foreground">(you)</span>}
+                                            </p>
+                                            {member.full_name && (
+                                                <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {editable ? (
+                                            <Select
+                                                value={member.role}
+                                                onValueChange={(value) => handleRoleChange(member, value as AssignableRole)}
+                                                disabled={isSaving}
+                                            >
+                                                <SelectTrigger className="h-8 w-28">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="admin">Admin</SelectItem>
+                                                    <SelectItem value="member">Member</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        ) : (
+                                            <span className="flex items-center gap-1 text-xs capitalize text-muted-foreground">
+                                                {member.role === "owner" && <Crown className="h-3 w-3" />}
+                                                {member.role}
+                                            </span>
+                                        )}
+                                        {editable && (
+                                            <DropdownMenu>
+                                                <DropdownMenuTrigger asChild>
+                                                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={isSaving}>
+                                                        <MoreHorizontal className="h-4 w-4" />
+                                                    </Button>
+                                                </DropdownMenuTrigger>
+                                                <DropdownMenuContent align="end">
+                                                    {isOwner && (
+                                                        <DropdownMenuItem onClick={() => handleTransfer(member)}>
+                                                            Transfer ownership
+                                                        </DropdownMenuItem>
+                                                    )}
+                                                    <DropdownMenuItem
+                                                        className="text-red-600"
+                                                        onClick={() => handleRemove(member)}
+                                                    >
+                                                        {isSelf ? "Leave organization" : "Remove"}
+                                                    </DropdownMenuItem>
+                                                </DropdownMenuContent>
+                                            </DropdownMenu>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+
+                        {invitations.map((invitation) => (
+                            <div key={invitation.id} className="flex items-center justify-between gap-4 px-6 py-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm truncate">{invitation.email}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {new Date(invitation.expires_at) < new Date()
+                                            ? "Invitation expired"
+                                            : `Invited as ${invitation.role} · expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                                    </p>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-8 w-8 p-0"
+                                    title="Revoke invitation"
+                                    disabled={isSaving}
+                                    onClick={() => handleRevoke(invitation)}
+                                >
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            <Dialog open={isInviteOpen} onOpenChange={handleInviteOpenChange}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Invite Member</DialogTitle>
+                        <DialogDescription>
+                            {inviteUrl
+                                ? "Send this link to your colleague. It is only shown once."
+                                : "Create an invitation link for a colleague's email address."}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {inviteUrl ? (
+                        <div className="flex gap-2">
+                            <Input value={inviteUrl} readOnly onFocus={(e) => e.target.select()} />
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-9"
+                                onClick={() => {
+                                    navigator.clipboard.writeText(inviteUrl);
+                                    toast.success("Link copied");
+                                }}
+                            >
+                                <Copy className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="invite-email">Email</Label>
+                                <Input
+                                    id="invite-email"
+                                    type="email"
+                                    value={inviteEmail}
+                                    onChange={(e) => setInviteEmail(e.target.value)}
+                                    placeholder="colleague@example.com"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Role</Label>
+                                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as AssignableRole)}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="member">Member</SelectItem>
+                                        <SelectItem value="admin">Admin</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        {inviteUrl ? (
+                            <Button onClick={() => handleInviteOpenChange(false)}>Done</Button>
+                        ) : (
+                            <>
+                                <Button variant="outline" onClick={() => handleInviteOpenChange(false)}>
+                                    Cancel
+                                </Button>
+                                <Button onClick={handleInvite} disabled={isSaving || !inviteEmail.trim()}>
+                                    Create Invitation
+                                </Button>
+                            </>
+                        )}
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
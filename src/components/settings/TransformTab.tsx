@@ -23,6 +23,7 @@ import {
     CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import type { FieldDefinition } from "@/types";
+import { FieldRulesButton } from "./FieldRulesButton";
 import { Plus, Sparkles, Calculator, Trash2, Wand2, ChevronDown, Search } from "lucide-react";
 
 interface CatalogOption {
@@ -264,6 +265,11 @@ export function TransformTab({
                                                             </SelectItem>
                                                         </SelectContent>
                                                     </Select>
+                                                    <FieldRulesButton
+                                                        field={field}
+                                                        fields={fields}
+                                                        onChange={(validation) => handleFieldUpdate(field.key, { validation })}
+                                                    />
                                                 </div>
 
                                                 {/* Template Input */}
@@ -6,13 +6,15 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { createClient } from "@/lib/supabase/client";
-import { LogOut, LayoutDashboard, Package, Settings, FileInput, BookOpen } from "lucide-react";
+import { LogOut, LayoutDashboard, Package, Boxes, Settings, FileInput, BookOpen, Truck } from "lucide-react";
 
 const navigation = [
     { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
     { name: "Orders", href: "/dashboard/orders", icon: Package },
+    { name: "Products", href: "/dashboard/products", icon: Boxes },
     { name: "Profiles", href: "/dashboard/settings/processing", icon: FileInput },
     { name: "Catalogs", href: "/dashboard/settings/catalogs", icon: BookOpen },
+    { name: "Suppliers", href: "/dashboard/settings/suppliers", icon: Truck },
     { name: "Settings", href: "/dashboard/settings", icon: Settings },
 ];
 
@@ -0,0 +1,95 @@
+"use client";
+
+/**
+ * PdfSnippet - Cropped preview of a region of the source PDF
+ * Renders the page with pdf.js and shows the area an extracted value came from.
+ * Rendered pages are cached, so hovering many cells of the same order only
+ * renders each page once.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { FieldSource } from "@/types";
+import { cn } from "@/lib/utils";
+import { renderPdfPage } from "@/lib/pdf-document";
+
+/** Output resolution of the snippet canvas */
+const RENDER_SCALE = 2;
+/** Context around the value, as fractions of the page */
+const PADDING_X = 0.08;
+const PADDING_Y = 0.015;
+
+interface PdfSnippetProps {
+    /** URL of the source PDF */
+    url: string;
+    source: FieldSource;
+    /** Display width in px */
+    width?: number;
+    className?: string;
+}
+
+export function PdfSnippet({ url, source, width = 280, className }: PdfSnippetProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [state, setState] = useState<"loading" | "ready" | "error">("loading");
+
+    useEffect(() => {
+        let cancelled = false;
+
+        renderPdfPage(url, source.page)
+            .then((page) => {
+                const canvas = canvasRef.current;
+                if (cancelled || !canvas) return;
+
+                // Without a region, show the top of the page
+                const [x0, y0, x1, y1] = source.box ?? [0, 0, 1, 0.25];
+                const left = Math.max(0, x0 - PADDING_X) * page.width;
+                const top = Math.max(0, y0 - PADDING_Y) * page.height;
+                const right = Math.min(1, x1 + PADDING_X) * page.width;
+                const bottom = Math.min(1, y1 + PADDING_Y) * page.height;
+                const cropWidth = right - left;
+                const cropHeight = bottom - top;
+
+                canvas.width = width * RENDER_SCALE;
+                canvas.height = Math.round(canvas.width * (cropHeight / cropWidth));
+                const ctx = canvas.getContext("2d")!;
+                ctx.drawImage(page, left, top, cropWidth, cropHeight, 0, 0, canvas.width, canvas.height);
+
+                // Outline the value itself
+                if (source.box) {
+                    const scale = canvas.width / cropWidth;
+                    ctx.strokeStyle = "rgba(59, 130, 246, 0.9)";
+                    ctx.lineWidth = 2 * RENDER_SCALE;
+                    ctx.strokeRect(
+                        (x0 * page.width - left) * scale,
+                        (y0 * page.height - top) * scale,
+                        (x1 - x0) * page.width * scale,
+                        (y1 - y0) * page.height * scale
+                    );
+                }
+
+                setState("ready");
+            })
+            .catch((err) => {
+                console.error("[PdfSnippet] Failed to render source:", err);
+                if (!cancelled) setState("error");
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [url, source.page, source.box, width]);
+
+    return (
+        <div className={className} style={{ width }}>
+            {state === "loading" && (
+                <div className="h-12 rounded bg-muted animate-pulse" />
+            )}
+            {state === "error" && (
+                <p className="text-muted-foreground">Preview unavailable</p>
+            )}
+            <canvas
+                ref={canvasRef}
+                className={cn("w-full rounded border bg-white", state !== "ready" && "hidden")}
+            />
+        </div>
+    );
+}
@@ -6,6 +6,8 @@
  * - Blue: Extracted from PDF
  * - Purple: AI/Template generated
  * - Green: Mapped to export target
+ * Extracted fields with a known source location also show a cropped
+ * snippet of the original PDF.
  */
 
 import {
@@ -16,6 +18,8 @@ import {
 } from "@/components/ui/tooltip";
 import { FileText, Sparkles, CheckCircle2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PdfSnippet } from "@/components/ui/PdfSnippet";
+import type { FieldSource } from "@/types";
 
 export type SourceType = 'extracted' | 'computed';
 export type LogicType = 'none' | 'template' | 'ai_enrichment';
@@ -25,6 +29,10 @@ interface SourceTooltipProps {
     logicType?: LogicType;
     isMapped?: boolean;
     targetSystem?: string;
+    /** Page/region the value was extracted from */
+    source?: FieldSource;
+    /** URL of the source PDF (required to render the snippet) */
+    sourceFileUrl?: string;
     children: React.ReactNode;
     className?: string;
 }
@@ -34,6 +42,8 @@ export function SourceTooltip({
     logicType = 'none',
     isMapped = false,
     targetSystem,
+    source,
+    sourceFileUrl,
     children,
     className,
 }: SourceTooltipProps) {
@@ -49,7 +59,7 @@ export function SourceTooltip({
                         {children}
                     </span>
                 </TooltipTrigger>
-                <TooltipContent side="top" className="max-w-xs">
+                <TooltipContent side="top" className={source && sourceFileUrl && !isVirtual ? "max-w-sm" : "max-w-xs"}>
                     <div className="space-y-1.5 text-xs">
                         {/* Source indicator */}
                         <div className="flex items-center gap-2">
@@ -63,10 +73,15 @@ export function SourceTooltip({
                             ) : (
                                 <>
                                     <FileText className="h-3.5 w-3.5 text-[var(--color-source-extracted)]" />
-                                    <span>Found in PDF</span>
+                                    <span>Found in PDF{source ? ` (page ${source.page})` : ""}</span>
                                 </>
                             )}
                         </div>
+
+                        {/* Source snippet */}
+                        {!isVirtual && source && sourceFileUrl && (
+                            <PdfSnippet url={sourceFileUrl} source={source} />
+                        )}
                         
                         {/* Mapping status */}
                         {isMapped && (
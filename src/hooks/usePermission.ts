@@ -0,0 +1,39 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { can, type Permission } from "@/lib/auth/permissions";
+import type { TenantRole } from "@/types";
+
+/**
+ * Whether the signed-in user's tenant role has a permission
+ * Only hides actions in the UI - RLS and the API routes enforce it.
+ * False while the role is loading.
+ */
+export function usePermission(permission: Permission): boolean {
+    const [role, setRole] = useState<TenantRole | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadRole = async () => {
+            const supabase = createClient();
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const { data } = await supabase
+                .from("tenant_members")
+                .select("role")
+                .eq("user_id", user.id)
+                .single();
+            if (!cancelled && data) setRole(data.role as TenantRole);
+        };
+
+        loadRole();
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return can(role ? { role } : null, permission);
+}
@@ -4,7 +4,7 @@
  * Allows for mock implementations during development and easy addition of new platforms.
  */
 
-import type { NormalizedProduct, ShopSystem } from '@/types';
+import type { NormalizedProduct, ProductGroup, ShopSystem } from '@/types';
 
 /**
  * Result of a single product upload attempt
@@ -16,6 +16,21 @@ export interface UploadResult {
     message?: string;
 }
 
+/**
+ * How uploads treat products that already exist in the shop system.
+ * - create: always create new products
+ * - upsert: look up existing products by SKU/EAN and update them instead
+ */
+export type UploadMode = 'create' | 'upsert';
+
+/**
+ * Identifiers used to look up an existing product
+ */
+export interface ProductLookup {
+    sku?: string;
+    ean?: string;
+}
+
 /**
  * Batch upload result with summary
  */
@@ -51,12 +66,15 @@ export interface ShopAdapter {
     /** Whether this adapter is running in mock mode */
     readonly isMock: boolean;
 
+    /** Whether credentials for the real shop system are configured */
+    readonly isConfigured: boolean;
+
     /**
      * Upload a batch of products to the shop system
-     * @param products Normalized products to upload
-     * @returns Results for each product upload attempt
+     * @param groups Parent products with their variants (standalone products have no axes)
+     * @returns Results for each variant upload attempt
      */
-    uploadProducts(products: NormalizedProduct[]): Promise<BatchUploadResult>;
+    uploadProducts(groups: ProductGroup[]): Promise<BatchUploadResult>;
 
     /**
      * Test the connection to the shop system
@@ -65,15 +83,40 @@ export interface ShopAdapter {
     testConnection(): Promise<ConnectionTestResult>;
 
     /**
-     * Update an existing product in the shop system
-     * @param externalId The ID of the product in the external system
+     * Update an existing product or variant in the shop system, including
+     * variant fields such as price and stock
+     * @param externalId The ID of the product or variant in the external system
      * @param updates Partial product data to update
      */
     updateProduct?(externalId: string, updates: Partial<NormalizedProduct>): Promise<UploadResult>;
 
+    /**
+     * Find an existing product by SKU or EAN
+     * @param lookup Identifiers to search for
+     * @returns The external ID of the matching variant (or standalone product), or null if none exists
+     */
+    findProduct?(lookup: ProductLookup): Promise<string | null>;
+
+    /**
+     * Find the parent product a variant group was uploaded as
+     * @param group Parent product with its variants
+     * @returns The external ID of the parent, or null if the group does not exist remotely
+     */
+    findParent?(group: ProductGroup): Promise<string | null>;
+
+    /**
+     * Add variants to an existing parent product
+     * @param parentId External ID of the parent (see findParent)
+     * @param group The group the variants belong to, for its variant axes
+     * @param variants Variants that do not exist remotely yet
+     * @returns Results for each added variant
+     */
+    addVariants?(parentId: string, group: ProductGroup, variants: NormalizedProduct[]): Promise<UploadResult[]>;
+
     /**
      * Delete a product from the shop system
-     * @param externalId The ID of the product in the external system
+     * @param externalId The ID stored for the item (Shopify: its variant ID - only
+     *   that variant is deleted unless it is the product's last one)
      */
     deleteProduct?(externalId: string): Promise<UploadResult>;
 }
@@ -44,14 +44,15 @@ export function getSupportedSystems(): ShopSystem[] {
 
 /**
  * Get display information for all supported systems
+ * A system is available when its API credentials are configured.
  */
 export function getSystemInfo(): Array<{ system: ShopSystem; name: string; available: boolean }> {
     return getSupportedSystems().map(system => {
-        const adapter = getAdapter(system, { mockMode: true });
+        const adapter = getAdapter(system, { mockMode: false });
         return {
             system,
             name: adapter.name,
-            available: !adapter.isMock || system === 'shopify', // Shopify is always mock for now
+            available: adapter.isConfigured,
         };
     });
 }
@@ -76,7 +77,8 @@ export async function testAllConnections(): Promise<Map<ShopSystem, boolean>> {
 }
 
 // Re-export types and individual adapters for direct use
-export type { ShopAdapter, ShopAdapterConfig, UploadResult, BatchUploadResult, ConnectionTestResult } from './adapter.interface';
+export type { ShopAdapter, ShopAdapterConfig, UploadResult, BatchUploadResult, ConnectionTestResult, UploadMode, ProductLookup } from './adapter.interface';
+export { upsertProducts } from './upsert';
 export { ShopwareAdapter, createShopwareAdapter } from './shopware.adapter';
 export { XentralAdapter, createXentralAdapter } from './xentral.adapter';
 export { ShopifyAdapter, createShopifyAdapter } from './shopify.adapter';
@@ -1,33 +1,472 @@
 /**
  * Shopify Adapter
- * Mock implementation of ShopAdapter interface for Shopify.
- * Real integration to be added when needed.
+ * Implements ShopAdapter interface for the Shopify Admin GraphQL API.
+ * Each product group becomes one product with its variant axes as options,
+ * and requests respect Shopify's cost-based rate limiting.
  */
 
-import type { NormalizedProduct } from '@/types';
+import type { NormalizedProduct, ProductGroup } from '@/types';
+import { getAxisValue, flattenGroups, splitAxislessGroups } from '@/lib/modules/processing/variant-grouper';
 import type {
     ShopAdapter,
     ShopAdapterConfig,
     BatchUploadResult,
     UploadResult,
-    ConnectionTestResult
+    ConnectionTestResult,
+    ProductLookup
 } from './adapter.interface';
 
+/** Admin API version used for all requests */
+const API_VERSION = '2025-01';
+
+/** Maximum attempts for a single GraphQL request when throttled */
+const MAX_THROTTLE_RETRIES = 5;
+
+/**
+ * Throttle state reported in `extensions.cost` of every GraphQL response
+ */
+interface ThrottleStatus {
+    maximumAvailable: number;
+    currentlyAvailable: number;
+    restoreRate: number;
+}
+
+interface GraphQLResponse<T> {
+    data?: T;
+    errors?: Array<{ message: string; extensions?: { code?: string } }>;
+    extensions?: {
+        cost?: {
+            requestedQueryCost: number;
+            actualQueryCost?: number;
+            throttleStatus: ThrottleStatus;
+        };
+    };
+}
+
+interface UserError {
+    field?: string[] | null;
+    message: string;
+}
+
+const PRODUCT_SET_MUTATION = `
+    mutation productSet($input: ProductSetInput!) {
+        productSet(synchronous: true, input: $input) {
+            product {
+                id
+                variants(first: 250) {
+                    nodes { id sku }
+                }
+            }
+            userErrors { field message }
+        }
+    }
+`;
+
+const PRODUCT_UPDATE_MUTATION = `
+    mutation productUpdate($product: ProductUpdateInput!) {
+        productUpdate(product: $product) {
+            product { id }
+            userErrors { field message }
+        }
+    }
+`;
+
+const PRODUCT_DELETE_MUTATION = `
+    mutation productDelete($input: ProductDeleteInput!) {
+        productDelete(input: $input) {
+            deletedProductId
+            userErrors { field message }
+        }
+    }
+`;
+
+const VARIANTS_BULK_CREATE_MUTATION = `
+    mutation productVariantsBulkCreate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+        productVariantsBulkCreate(productId: $productId, variants: $variants) {
+            productVariants { id sku }
+            userErrors { field message }
+        }
+    }
+`;
+
+const VARIANTS_BULK_UPDATE_MUTATION = `
+    mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+        productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+            productVariants { id }
+            userErrors { field message }
+        }
+    }
+`;
+
+const VARIANTS_BULK_DELETE_MUTATION = `
+    mutation productVariantsBulkDelete($productId: ID!, $variantsIds: [ID!]!) {
+        productVariantsBulkDelete(productId: $productId, variantsIds: $variantsIds) {
+            userErrors { field message }
+        }
+    }
+`;
+
+const INVENTORY_SET_MUTATION = `
+    mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
+        inventorySetQuantities(input: $input) {
+            userErrors { field message }
+        }
+    }
+`;
+
+const VARIANT_QUERY = `
+    query variant($id: ID!) {
+        productVariant(id: $id) {
+            product { id variantsCount { count } }
+            inventoryItem { id }
+        }
+    }
+`;
+
+const VARIANT_LOOKUP_QUERY = `
+    query variantLookup($query: String!) {
+        productVariants(first: 1, query: $query) {
+            nodes { id product { id } }
+        }
+    }
+`;
+
+const PRIMARY_LOCATION_QUERY = `
+    query primaryLocation {
+        locations(first: 1) {
+            nodes { id }
+        }
+    }
+`;
+
+const SHOP_QUERY = `
+    query shopInfo {
+        shop { name }
+    }
+`;
+
 export class ShopifyAdapter implements ShopAdapter {
     readonly name = 'Shopify';
     readonly system = 'shopify' as const;
-    readonly isMock = true; // Always mock for now
+    readonly isMock: boolean;
 
     private shopDomain: string;
     private accessToken: string;
+    private timeout: number;
+    private locationId: string | null;
 
     constructor(config?: ShopAdapterConfig) {
+        this.isMock = config?.mockMode ?? process.env.MOCK_EXTERNAL_APIS === 'true';
         this.shopDomain = config?.apiUrl ?? process.env.SHOPIFY_SHOP_DOMAIN ?? '';
         this.accessToken = config?.apiKey ?? process.env.SHOPIFY_ACCESS_TOKEN ?? '';
+        this.timeout = config?.timeout ?? 30000;
+        this.locationId = process.env.SHOPIFY_LOCATION_ID || null;
+    }
+
+    /**
+     * GraphQL endpoint for the configured shop.
+     * A full URL (e.g. http://localhost:4000) is used as-is so the adapter
+     * can run against a local mock server.
+     */
+    private get endpoint(): string {
+        const base = /^https?:\/\//.test(this.shopDomain)
+            ? this.shopDomain.replace(/\/+$/, '')
+            : `https://${this.shopDomain}`;
+        return `${base}/admin/api/${API_VERSION}/graphql.json`;
+    }
+
+    get isConfigured(): boolean {
+        return !!this.shopDomain && !!this.accessToken;
+    }
+
+    async uploadProducts(groups: ProductGroup[]): Promise<BatchUploadResult> {
+        if (this.isMock) {
+            return this.mockUpload(groups);
+        }
+
+        if (!this.shopDomain || !this.accessToken) {
+            throw new Error('Shopify API credentials not configured');
+        }
+
+        const results: UploadResult[] = [];
+        let successful = 0;
+        let failed = 0;
+
+        for (const group of splitAxislessGroups(groups)) {
+            let groupResults: UploadResult[];
+            try {
+                groupResults = await this.uploadProductGroup(group);
+            } catch (error) {
+                groupResults = group.variants.map(p => ({
+                    sku: String(p['sku'] || ''),
+                    status: 'error' as const,
+                    message: error instanceof Error ? error.message : 'Unknown error',
+                }));
+            }
+
+            for (const result of groupResults) {
+                results.push(result);
+                if (result.status === 'success') {
+                    successful++;
+                } else {
+                    failed++;
+                }
+            }
+        }
+
+        return { successful, failed, results };
+    }
+
+    private async uploadProductGroup(group: ProductGroup): Promise<UploadResult[]> {
+        const locationId = await this.getLocationId();
+        const input = this.mapToShopifyFormat(group, locationId);
+
+        const response = await this.graphql<{
+            productSet: {
+                product: { id: string; variants: { nodes: Array<{ id: string; sku: string | null }> } } | null;
+                userErrors: UserError[];
+            };
+        }>(PRODUCT_SET_MUTATION, { input });
+
+        const { product, userErrors } = response.productSet;
+
+        return group.variants.map((p, index) => {
+            const sku = String(p['sku'] || '');
+            const errors = this.userErrorsForVariant(userErrors, index);
+
+            if (!product || errors.length > 0) {
+                return {
+                    sku,
+                    status: 'error' as const,
+                    message: (errors.length > 0 ? errors : userErrors)
+                        .map(e => e.message)
+                        .join('; ') || 'Product was not created',
+                };
+            }
+
+            // Variant IDs, so later upserts can update price and stock per variant
+            const created = product.variants.nodes.find(v => sku && v.sku === sku)
+                ?? product.variants.nodes[index];
+            return {
+                sku,
+                status: 'success' as const,
+                externalId: created?.id ?? product.id,
+            };
+        });
+    }
+
+    /**
+     * Add variants to an existing product. Shopify creates option values
+     * the product does not offer yet.
+     */
+    async addVariants(parentId: string, group: ProductGroup, variants: NormalizedProduct[]): Promise<UploadResult[]> {
+        if (this.isMock) {
+            return (await this.mockUpload([{ ...group, variants }])).results;
+        }
+
+        const locationId = await this.getLocationId();
+        const data = await this.graphql<{
+            productVariantsBulkCreate: {
+                productVariants: Array<{ id: string; sku: string | null }> | null;
+                userErrors: UserError[];
+            };
+        }>(VARIANTS_BULK_CREATE_MUTATION, {
+            productId: parentId,
+            variants: variants.map(v => this.mapVariant(v, group, locationId)),
+        });
+
+        const { productVariants, userErrors } = data.productVariantsBulkCreate;
+
+        return variants.map((p, index) => {
+            const sku = String(p['sku'] || '');
+            const errors = this.userErrorsForVariant(userErrors, index);
+            const created = productVariants?.find(v => sku && v.sku === sku) ?? productVariants?.[index];
+
+            if (!created || errors.length > 0) {
+                return {
+                    sku,
+                    status: 'error' as const,
+                    message: (errors.length > 0 ? errors : userErrors)
+                        .map(e => e.message)
+                        .join('; ') || 'Variant was not created',
+                };
+            }
+
+            return { sku, status: 'success' as const, externalId: created.id };
+        });
+    }
+
+    /**
+     * The product any variant of the group already belongs to
+     */
+    async findParent(group: ProductGroup): Promise<string | null> {
+        if (this.isMock) {
+            return `gid://shopify/Product/${encodeURIComponent(group.key)}`;
+        }
+
+        for (const variant of group.variants) {
+            const sku = variant['sku'] ? String(variant['sku']) : '';
+            const ean = variant['ean'] ? String(variant['ean']) : undefined;
+            if (!sku && !ean) continue;
+
+            const match = await this.lookupVariant({ sku: sku || undefined, ean });
+            if (match) return match.productId;
+        }
+        return null;
+    }
+
+    /**
+     * Pick the userErrors relevant to one variant.
+     * Errors scoped to `['input', 'variants', '<n>', ...]` belong to that
+     * variant only; errors without a variant path apply to the whole product.
+     */
+    private userErrorsForVariant(userErrors: UserError[], variantIndex: number): UserError[] {
+        return userErrors.filter(error => {
+            const path = error.field || [];
+            const variantsIdx = path.indexOf('variants');
+            if (variantsIdx === -1 || path.length <= variantsIdx + 1) return true;
+            return Number(path[variantsIdx + 1]) === variantIndex;
+        });
+    }
+
+    private mapToShopifyFormat(group: ProductGroup, locationId: string | null): Record<string, unknown> {
+        const parent = group.parent;
+
+        const productOptions = group.axes.map(axis => ({
+            name: axis.label,
+            values: Array.from(new Set(
+                group.variants.map(v => this.getOptionValue(v, axis.key))
+            )).map(name => ({ name })),
+        }));
+
+        const variants = group.variants.map(p => this.mapVariant(p, group, locationId));
+
+        return {
+            title: String(parent['name'] || group.key),
+            vendor: parent['brand'] ? String(parent['brand']) : undefined,
+            productType: parent['category'] ? String(parent['category']) : undefined,
+            status: 'DRAFT',
+            productOptions: group.axes.length > 0
+                ? productOptions
+                : [{ name: 'Title', values: [{ name: 'Default Title' }] }],
+            variants,
+        };
+    }
+
+    private mapVariant(p: NormalizedProduct, group: ProductGroup, locationId: string | null): Record<string, unknown> {
+        return {
+            optionValues: group.axes.length > 0
+                ? group.axes.map(axis => ({
+                    optionName: axis.label,
+                    name: this.getOptionValue(p, axis.key),
+                }))
+                : [{ optionName: 'Title', name: 'Default Title' }],
+            price: String(Number(p['price'] || 0)),
+            barcode: p['ean'] ? String(p['ean']) : undefined,
+            inventoryItem: {
+                sku: p['sku'] ? String(p['sku']) : undefined,
+                tracked: true,
+            },
+            inventoryQuantities: locationId ? [{
+                locationId,
+                name: 'available',
+                quantity: Math.max(0, Math.trunc(Number(p['quantity'] || 0))),
+            }] : undefined,
+        };
+    }
+
+    /**
+     * Option value for a variant - Shopify rejects empty option values
+     */
+    private getOptionValue(product: NormalizedProduct, axisKey: string): string {
+        return getAxisValue(product, axisKey) || '-';
     }
 
-    async uploadProducts(products: NormalizedProduct[]): Promise<BatchUploadResult> {
-        console.log(`[MOCK Shopify] Uploading ${products.length} products to ${this.shopDomain || 'mock-store'}`);
+    /**
+     * Resolve the location used for inventory quantities.
+     * Uses SHOPIFY_LOCATION_ID if set, otherwise the shop's first location.
+     */
+    private async getLocationId(): Promise<string | null> {
+        if (this.locationId) return this.locationId;
+
+        const data = await this.graphql<{ locations: { nodes: Array<{ id: string }> } }>(
+            PRIMARY_LOCATION_QUERY
+        );
+        this.locationId = data.locations.nodes[0]?.id ?? null;
+        return this.locationId;
+    }
+
+    /**
+     * Execute a GraphQL request, waiting for the cost bucket to refill
+     * when Shopify reports the request as throttled.
+     */
+    private async graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+        for (let attempt = 0; attempt < MAX_THROTTLE_RETRIES; attempt++) {
+            const response = await fetch(this.endpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Shopify-Access-Token': this.accessToken,
+                },
+                body: JSON.stringify({ query, variables }),
+                signal: AbortSignal.timeout(this.timeout),
+            });
+
+            if (response.status === 429) {
+                const retryAfter = Number(response.headers.get('Retry-After') || 1);
+                await this.sleep(retryAfter * 1000);
+                continue;
+            }
+
+            if (!response.ok) {
+                const error = await response.text();
+                throw new Error(`HTTP ${response.status}: ${error}`);
+            }
+
+            const body = await response.json() as GraphQLResponse<T>;
+            const cost = body.extensions?.cost;
+            const throttled = body.errors?.some(e => e.extensions?.code === 'THROTTLED');
+
+            if (throttled && cost) {
+                await this.sleep(this.getThrottleDelay(cost.requestedQueryCost, cost.throttleStatus));
+                continue;
+            }
+
+            if (body.errors && body.errors.length > 0) {
+                throw new Error(body.errors.map(e => e.message).join('; '));
+            }
+
+            if (!body.data) {
+                throw new Error('Empty GraphQL response');
+            }
+
+            // Pace the next request if the bucket is nearly drained
+            if (cost && cost.throttleStatus.currentlyAvailable < cost.requestedQueryCost) {
+                await this.sleep(this.getThrottleDelay(cost.requestedQueryCost, cost.throttleStatus));
+            }
+
+            return body.data;
+        }
+
+        throw new Error('Shopify API throttled - retry limit reached');
+    }
+
+    /**
+     * Milliseconds until enough cost points are restored for a request
+     */
+    private getThrottleDelay(requestedCost: number, status: ThrottleStatus): number {
+        const missing = Math.max(0, requestedCost - status.currentlyAvailable);
+        const restoreRate = status.restoreRate || 50;
+        return Math.ceil((missing / restoreRate) * 1000);
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    private async mockUpload(groups: ProductGroup[]): Promise<BatchUploadResult> {
+        const products = flattenGroups(groups);
+        console.log(`[MOCK Shopify] Uploading ${groups.length} products (${products.length} variants) to ${this.shopDomain || 'mock-store'}`);
 
         // Simulate network delay
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -35,7 +474,7 @@ export class ShopifyAdapter implements ShopAdapter {
         const results: UploadResult[] = products.map((p, index) => ({
             sku: String(p['sku'] || ''),
             status: 'success' as const,
-            externalId: `gid://shopify/Product/${1000000000 + index}`,
+            externalId: `gid://shopify/ProductVariant/${1000000000 + index}`,
             message: 'Mock upload successful',
         }));
 
@@ -47,39 +486,224 @@ export class ShopifyAdapter implements ShopAdapter {
     }
 
     async testConnection(): Promise<ConnectionTestResult> {
-        // Always return mock success
-        return {
-            connected: true,
-            message: 'Mock mode - Shopify integration not yet implemented',
-            shopInfo: {
-                name: this.shopDomain || 'Mock Shopify Store',
-                version: '2024-01',
-            },
-        };
+        if (this.isMock) {
+            return {
+                connected: true,
+                message: 'Mock mode - connection simulated',
+                shopInfo: { name: 'Mock Shopify Store', version: API_VERSION },
+            };
+        }
+
+        if (!this.shopDomain || !this.accessToken) {
+            return {
+                connected: false,
+                message: 'Shopify API credentials not configured',
+            };
+        }
+
+        try {
+            const data = await this.graphql<{ shop: { name: string } }>(SHOP_QUERY);
+            return {
+                connected: true,
+                shopInfo: { name: data.shop.name, version: API_VERSION },
+            };
+        } catch (error) {
+            return {
+                connected: false,
+                message: error instanceof Error ? error.message : 'Connection failed',
+            };
+        }
     }
 
     async updateProduct(externalId: string, updates: Partial<NormalizedProduct>): Promise<UploadResult> {
-        console.log(`[MOCK Shopify] Updating product ${externalId}`, updates);
-        await new Promise(resolve => setTimeout(resolve, 200));
+        if (this.isMock) {
+            console.log(`[MOCK Shopify] Updating product ${externalId}`, updates);
+            await new Promise(resolve => setTimeout(resolve, 200));
+            return {
+                sku: String(updates['sku'] || externalId),
+                status: 'success',
+                externalId,
+                message: 'Mock update successful',
+            };
+        }
 
-        return {
-            sku: String(updates['sku'] || externalId),
-            status: 'success',
-            externalId,
-            message: 'Mock update successful',
-        };
+        const sku = String(updates['sku'] || externalId);
+
+        try {
+            // IDs stored before variant IDs were persisted point at the product
+            let variantId = externalId.includes('/ProductVariant/') ? externalId : null;
+            if (!variantId && (updates['sku'] || updates['ean'])) {
+                const match = await this.lookupVariant({
+                    sku: updates['sku'] ? String(updates['sku']) : undefined,
+                    ean: updates['ean'] ? String(updates['ean']) : undefined,
+                });
+                variantId = match?.id ?? null;
+            }
+
+            let productId = externalId;
+            let inventoryItemId: string | null = null;
+            if (variantId) {
+                const data = await this.graphql<{
+                    productVariant: { product: { id: string }; inventoryItem: { id: string } } | null;
+                }>(VARIANT_QUERY, { id: variantId });
+                if (!data.productVariant) {
+                    return { sku, status: 'error', externalId, message: `Variant ${variantId} not found` };
+                }
+                productId = data.productVariant.product.id;
+                inventoryItemId = data.productVariant.inventoryItem.id;
+            }
+
+            const userErrors: UserError[] = [];
+
+            const product: Record<string, unknown> = { id: productId };
+            if (updates['name'] !== undefined) product.title = String(updates['name']);
+            if (updates['brand'] !== undefined) product.vendor = String(updates['brand']);
+            if (updates['category'] !== undefined) product.productType = String(updates['category']);
+            if (Object.keys(product).length > 1) {
+                const data = await this.graphql<{
+                    productUpdate: { product: { id: string } | null; userErrors: UserError[] };
+                }>(PRODUCT_UPDATE_MUTATION, { product });
+                userErrors.push(...data.productUpdate.userErrors);
+            }
+
+            if (variantId) {
+                const variant: Record<string, unknown> = { id: variantId };
+                if (updates['price'] !== undefined) variant.price = String(Number(updates['price'] || 0));
+                if (updates['ean'] !== undefined) variant.barcode = String(updates['ean']);
+                if (updates['sku'] !== undefined) variant.inventoryItem = { sku: String(updates['sku']) };
+                if (Object.keys(variant).length > 1) {
+                    const data = await this.graphql<{
+                        productVariantsBulkUpdate: { userErrors: UserError[] };
+                    }>(VARIANTS_BULK_UPDATE_MUTATION, { productId, variants: [variant] });
+                    userErrors.push(...data.productVariantsBulkUpdate.userErrors);
+                }
+
+                const locationId = updates['quantity'] !== undefined ? await this.getLocationId() : null;
+                if (locationId && inventoryItemId) {
+                    const data = await this.graphql<{
+                        inventorySetQuantities: { userErrors: UserError[] };
+                    }>(INVENTORY_SET_MUTATION, {
+                        input: {
+                            name: 'available',
+                            reason: 'correction',
+                            ignoreCompareQuantity: true,
+                            quantities: [{
+                                inventoryItemId,
+                                locationId,
+                                quantity: Math.max(0, Math.trunc(Number(updates['quantity'] || 0))),
+                            }],
+                        },
+                    });
+                    userErrors.push(...data.inventorySetQuantities.userErrors);
+                }
+            }
+
+            const id = variantId ?? externalId;
+            if (userErrors.length > 0) {
+                return {
+                    sku,
+                    status: 'error',
+                    externalId: id,
+                    message: userErrors.map(e => e.message).join('; '),
+                };
+            }
+
+            return { sku, status: 'success', externalId: id };
+        } catch (error) {
+            return {
+                sku,
+                status: 'error',
+                externalId,
+                message: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    async findProduct(lookup: ProductLookup): Promise<string | null> {
+        if (this.isMock) {
+            return null;
+        }
+
+        return (await this.lookupVariant(lookup))?.id ?? null;
+    }
+
+    /**
+     * Find a variant by SKU or barcode, with the product it belongs to
+     */
+    private async lookupVariant(lookup: ProductLookup): Promise<{ id: string; productId: string } | null> {
+        const terms: string[] = [];
+        if (lookup.sku) terms.push(`sku:${JSON.stringify(lookup.sku)}`);
+        if (lookup.ean) terms.push(`barcode:${JSON.stringify(lookup.ean)}`);
+        if (terms.length === 0) return null;
+
+        const data = await this.graphql<{
+            productVariants: { nodes: Array<{ id: string; product: { id: string } }> };
+        }>(VARIANT_LOOKUP_QUERY, { query: terms.join(' OR ') });
+
+        const variant = data.productVariants.nodes[0];
+        return variant ? { id: variant.id, productId: variant.product.id } : null;
     }
 
     async deleteProduct(externalId: string): Promise<UploadResult> {
-        console.log(`[MOCK Shopify] Deleting product ${externalId}`);
-        await new Promise(resolve => setTimeout(resolve, 200));
+        if (this.isMock) {
+            console.log(`[MOCK Shopify] Deleting product ${externalId}`);
+            await new Promise(resolve => setTimeout(resolve, 200));
+            return {
+                sku: externalId,
+                status: 'success',
+                externalId,
+                message: 'Mock delete successful',
+            };
+        }
 
-        return {
-            sku: externalId,
-            status: 'success',
-            externalId,
-            message: 'Mock delete successful',
-        };
+        try {
+            let productId = externalId;
+
+            // Items store their variant ID - delete only that variant unless it is the last one
+            if (externalId.includes('/ProductVariant/')) {
+                const variant = await this.graphql<{
+                    productVariant: { product: { id: string; variantsCount: { count: number } } } | null;
+                }>(VARIANT_QUERY, { id: externalId });
+                if (!variant.productVariant) {
+                    return { sku: externalId, status: 'error', externalId, message: `Variant ${externalId} not found` };
+                }
+                productId = variant.productVariant.product.id;
+
+                if (variant.productVariant.product.variantsCount.count > 1) {
+                    const data = await this.graphql<{
+                        productVariantsBulkDelete: { userErrors: UserError[] };
+                    }>(VARIANTS_BULK_DELETE_MUTATION, { productId, variantsIds: [externalId] });
+                    return this.toDeleteResult(externalId, data.productVariantsBulkDelete.userErrors);
+                }
+            }
+
+            const data = await this.graphql<{
+                productDelete: { deletedProductId: string | null; userErrors: UserError[] };
+            }>(PRODUCT_DELETE_MUTATION, { input: { id: productId } });
+            return this.toDeleteResult(externalId, data.productDelete.userErrors);
+        } catch (error) {
+            return {
+                sku: externalId,
+                status: 'error',
+                externalId,
+                message: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Result of a product or variant delete mutation
+     */
+    private toDeleteResult(externalId: string, userErrors: UserError[]): UploadResult {
+        if (userErrors.length > 0) {
+            return {
+                sku: externalId,
+                status: 'error',
+                externalId,
+                message: userErrors.map(e => e.message).join('; '),
+            };
+        }
+        return { sku: externalId, status: 'success', externalId };
     }
 }
 
@@ -1,15 +1,20 @@
 /**
  * Shopware Shop Adapter
  * Implements ShopAdapter interface for Shopware 6 integration.
+ * Product groups with variant axes are uploaded as a parent product with
+ * `children` and `configuratorSettings`.
  */
 
-import type { NormalizedProduct } from '@/types';
+import { createHash, randomUUID } from 'crypto';
+import type { NormalizedProduct, ProductGroup, VariantAxis } from '@/types';
+import { getAxisValue, flattenGroups, splitAxislessGroups } from '@/lib/modules/processing/variant-grouper';
 import type {
     ShopAdapter,
     ShopAdapterConfig,
     BatchUploadResult,
     UploadResult,
-    ConnectionTestResult
+    ConnectionTestResult,
+    ProductLookup
 } from './adapter.interface';
 
 export class ShopwareAdapter implements ShopAdapter {
@@ -28,9 +33,13 @@ export class ShopwareAdapter implements ShopAdapter {
         this.timeout = config?.timeout ?? 30000;
     }
 
-    async uploadProducts(products: NormalizedProduct[]): Promise<BatchUploadResult> {
+    get isConfigured(): boolean {
+        return !!this.apiUrl && !!this.apiKey;
+    }
+
+    async uploadProducts(groups: ProductGroup[]): Promise<BatchUploadResult> {
         if (this.isMock) {
-            return this.mockUpload(products);
+            return this.mockUpload(groups);
         }
 
         if (!this.apiUrl || !this.apiKey) {
@@ -41,28 +50,167 @@ export class ShopwareAdapter implements ShopAdapter {
         let successful = 0;
         let failed = 0;
 
-        for (const product of products) {
+        for (const group of splitAxislessGroups(groups)) {
+            let groupResults: UploadResult[];
             try {
-                const result = await this.uploadSingleProduct(product);
+                groupResults = group.axes.length > 0
+                    ? await this.uploadVariantProduct(group)
+                    : [await this.uploadSingleProduct(group.variants[0])];
+            } catch (error) {
+                groupResults = group.variants.map(p => ({
+                    sku: String(p['sku'] || ''),
+                    status: 'error' as const,
+                    message: error instanceof Error ? error.message : 'Unknown error',
+                }));
+            }
+
+            for (const result of groupResults) {
                 results.push(result);
                 if (result.status === 'success') {
                     successful++;
                 } else {
                     failed++;
                 }
-            } catch (error) {
-                failed++;
-                results.push({
-                    sku: String(product['sku'] || ''),
-                    status: 'error',
-                    message: error instanceof Error ? error.message : 'Unknown error',
-                });
             }
         }
 
         return { successful, failed, results };
     }
 
+    /**
+     * Upload a parent product with its variants as children.
+     * IDs are generated client-side so each variant's externalId is known
+     * without fetching the created product.
+     */
+    private async uploadVariantProduct(group: ProductGroup): Promise<UploadResult[]> {
+        const parentId = randomUUID().replace(/-/g, '');
+        const { children, childIds, configuratorSettings } = this.mapChildren(parentId, group, group.variants);
+
+        const payload = {
+            ...this.mapToShopwareFormat(group.parent),
+            id: parentId,
+            productNumber: group.key,
+            stock: group.variants.reduce((sum, v) => sum + Number(v['quantity'] || 0), 0),
+            children,
+            configuratorSettings,
+        };
+
+        return this.sendVariants('POST', `${this.apiUrl}/api/product`, payload, group.variants, childIds);
+    }
+
+    /**
+     * Add children to an existing parent product. Configurator settings have
+     * deterministic IDs, so options the parent already offers are not duplicated.
+     */
+    async addVariants(parentId: string, group: ProductGroup, variants: NormalizedProduct[]): Promise<UploadResult[]> {
+        if (this.isMock) {
+            return (await this.mockUpload([{ ...group, variants }])).results;
+        }
+
+        const { children, childIds, configuratorSettings } = this.mapChildren(parentId, group, variants);
+        return this.sendVariants(
+            'PATCH',
+            `${this.apiUrl}/api/product/${parentId}`,
+            { children, configuratorSettings },
+            variants,
+            childIds
+        );
+    }
+
+    /**
+     * The parent product is numbered with the group key
+     */
+    async findParent(group: ProductGroup): Promise<string | null> {
+        if (this.isMock) {
+            return this.toShopwareId(`parent:${group.key}`);
+        }
+        return this.findProduct({ sku: group.key });
+    }
+
+    /**
+     * Child products and configurator settings for variants of a parent
+     */
+    private mapChildren(parentId: string, group: ProductGroup, variants: NormalizedProduct[]) {
+        const childIds = variants.map(() => randomUUID().replace(/-/g, ''));
+
+        const options = new Map<string, Record<string, unknown>>();
+        const children = variants.map((variant, index) => {
+            const variantOptions = group.axes.map(axis => {
+                const option = this.mapOption(axis, getAxisValue(variant, axis.key) || '-');
+                options.set(option.id as string, option);
+                return option;
+            });
+
+            return {
+                id: childIds[index],
+                productNumber: variant['sku'],
+                stock: Number(variant['quantity'] || 0),
+                price: this.mapPrice(variant),
+                options: variantOptions,
+                customFields: { ean: variant['ean'] },
+            };
+        });
+
+        const configuratorSettings = Array.from(options.keys()).map(optionId => ({
+            id: this.toShopwareId(`setting:${parentId}:${optionId}`),
+            optionId,
+        }));
+
+        return { children, childIds, configuratorSettings };
+    }
+
+    private async sendVariants(
+        method: 'POST' | 'PATCH',
+        url: string,
+        payload: Record<string, unknown>,
+        variants: NormalizedProduct[],
+        childIds: string[]
+    ): Promise<UploadResult[]> {
+        const response = await fetch(url, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify(payload),
+            signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            return variants.map(v => ({
+                sku: String(v['sku'] || ''),
+                status: 'error' as const,
+                message: `HTTP ${response.status}: ${error}`,
+            }));
+        }
+
+        return variants.map((v, index) => ({
+            sku: String(v['sku'] || ''),
+            status: 'success' as const,
+            externalId: childIds[index],
+        }));
+    }
+
+    /**
+     * Property group option for a variant axis value.
+     * Deterministic IDs let repeated uploads reuse the same property options.
+     */
+    private mapOption(axis: VariantAxis, value: string): Record<string, unknown> {
+        return {
+            id: this.toShopwareId(`option:${axis.key}:${value.toLowerCase()}`),
+            name: value,
+            group: {
+                id: this.toShopwareId(`group:${axis.key}`),
+                name: axis.label,
+            },
+        };
+    }
+
+    private toShopwareId(seed: string): string {
+        return createHash('md5').update(seed).digest('hex');
+    }
+
     private async uploadSingleProduct(product: NormalizedProduct): Promise<UploadResult> {
         const response = await fetch(`${this.apiUrl}/api/product`, {
             method: 'POST',
@@ -96,12 +244,7 @@ export class ShopwareAdapter implements ShopAdapter {
             productNumber: product['sku'],
             name: product['name'],
             stock: product['quantity'],
-            price: [{
-                currencyId: this.getCurrencyId(String(product['currency'] || 'EUR')),
-                gross: Number(product['price'] || 0),
-                net: Number(product['price'] || 0) / 1.19, // Assuming 19% VAT
-                linked: true,
-            }],
+            price: this.mapPrice(product),
             manufacturer: {
                 name: product['brand'],
             },
@@ -116,6 +259,15 @@ export class ShopwareAdapter implements ShopAdapter {
         };
     }
 
+    private mapPrice(product: NormalizedProduct): Array<Record<string, unknown>> {
+        return [{
+            currencyId: this.getCurrencyId(String(product['currency'] || 'EUR')),
+            gross: Number(product['price'] || 0),
+            net: Number(product['price'] || 0) / 1.19, // Assuming 19% VAT
+            linked: true,
+        }];
+    }
+
     private getCurrencyId(currency: string): string {
         // Default currency IDs for common currencies
         const currencyMap: Record<string, string> = {
@@ -126,8 +278,9 @@ export class ShopwareAdapter implements ShopAdapter {
         return currencyMap[currency] || currencyMap['EUR'];
     }
 
-    private async mockUpload(products: NormalizedProduct[]): Promise<BatchUploadResult> {
-        console.log(`[MOCK Shopware] Uploading ${products.length} products`);
+    private async mockUpload(groups: ProductGroup[]): Promise<BatchUploadResult> {
+        const products = flattenGroups(groups);
+        console.log(`[MOCK Shopware] Uploading ${groups.length} products (${products.length} variants)`);
 
         // Simulate network delay
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -206,7 +359,7 @@ export class ShopwareAdapter implements ShopAdapter {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${this.apiKey}`,
             },
-            body: JSON.stringify(updates),
+            body: JSON.stringify(this.mapUpdateToShopwareFormat(updates)),
             signal: AbortSignal.timeout(this.timeout),
         });
 
@@ -224,6 +377,58 @@ export class ShopwareAdapter implements ShopAdapter {
             };
         }
     }
+
+    /**
+     * Map only the fields present in a partial update, so a PATCH
+     * never overwrites remote values with defaults.
+     */
+    private mapUpdateToShopwareFormat(updates: Partial<NormalizedProduct>): Record<string, unknown> {
+        const payload: Record<string, unknown> = {};
+        if ('sku' in updates) payload.productNumber = updates['sku'];
+        if ('name' in updates) payload.name = updates['name'];
+        if ('quantity' in updates) payload.stock = Number(updates['quantity'] || 0);
+        if ('price' in updates) payload.price = this.mapPrice(updates);
+        if ('brand' in updates) payload.manufacturer = { name: updates['brand'] };
+        if ('ean' in updates) payload.customFields = { ean: updates['ean'] };
+        return payload;
+    }
+
+    async findProduct(lookup: ProductLookup): Promise<string | null> {
+        if (this.isMock) {
+            return null;
+        }
+
+        const queries: Array<Record<string, unknown>> = [];
+        if (lookup.sku) {
+            queries.push({ type: 'equals', field: 'productNumber', value: lookup.sku });
+        }
+        if (lookup.ean) {
+            queries.push({ type: 'equals', field: 'ean', value: lookup.ean });
+            queries.push({ type: 'equals', field: 'customFields.ean', value: lookup.ean });
+        }
+        if (queries.length === 0) return null;
+
+        const response = await fetch(`${this.apiUrl}/api/search/product`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify({
+                limit: 1,
+                filter: [{ type: 'multi', operator: 'or', queries }],
+                includes: { product: ['id'] },
+            }),
+            signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Product lookup failed: HTTP ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.data?.[0]?.id ?? null;
+    }
 }
 
 /**
@@ -0,0 +1,109 @@
+/**
+ * Upsert Upload
+ * Runs a batch upload in "upsert by SKU/EAN" mode on top of any ShopAdapter:
+ * variants that already exist remotely are updated, the rest are created.
+ * New variants of a product that already exists are added to its parent.
+ */
+
+import type { NormalizedProduct, ProductGroup } from '@/types';
+import type { ShopAdapter, BatchUploadResult, UploadResult } from './adapter.interface';
+
+function toErrorResults(variants: NormalizedProduct[], message: string): UploadResult[] {
+    return variants.map(v => ({ sku: String(v['sku'] || ''), status: 'error' as const, message }));
+}
+
+/**
+ * Add the missing variants of a group to its existing parent product.
+ * Creating the group again would post a second parent with the same key.
+ */
+async function addMissingVariants(
+    adapter: ShopAdapter,
+    group: ProductGroup,
+    missing: NormalizedProduct[]
+): Promise<UploadResult[]> {
+    if (!adapter.findParent || !adapter.addVariants) {
+        return toErrorResults(missing, `${adapter.name} does not support adding variants to existing products`);
+    }
+
+    try {
+        const parentId = await adapter.findParent(group);
+        if (!parentId) {
+            return toErrorResults(missing, `Parent product ${group.key} not found`);
+        }
+        return await adapter.addVariants(parentId, group, missing);
+    } catch (error) {
+        return toErrorResults(missing, error instanceof Error ? error.message : 'Adding variants failed');
+    }
+}
+
+/**
+ * Upload product groups, updating products that already exist in the shop system
+ * @param adapter Shop adapter to upload with
+ * @param groups Parent products with their variants
+ * @param knownIds External IDs from previous exports, keyed by SKU
+ * @returns Results for each variant (updates and creations)
+ */
+export async function upsertProducts(
+    adapter: ShopAdapter,
+    groups: ProductGroup[],
+    knownIds: Map<string, string> = new Map()
+): Promise<BatchUploadResult> {
+    if (!adapter.updateProduct) {
+        throw new Error(`${adapter.name} does not support updating products`);
+    }
+
+    const results: UploadResult[] = [];
+    const toCreate: ProductGroup[] = [];
+
+    for (const group of groups) {
+        const missing: NormalizedProduct[] = [];
+        let existing = 0;
+
+        for (const variant of group.variants) {
+            const sku = String(variant['sku'] || '');
+            const ean = variant['ean'] ? String(variant['ean']) : undefined;
+
+            let externalId = sku ? knownIds.get(sku) ?? null : null;
+            try {
+                if (!externalId && adapter.findProduct && (sku || ean)) {
+                    externalId = await adapter.findProduct({ sku: sku || undefined, ean });
+                }
+            } catch (error) {
+                results.push({
+                    sku,
+                    status: 'error',
+                    message: error instanceof Error ? error.message : 'Lookup failed',
+                });
+                continue;
+            }
+
+            if (externalId) {
+                existing++;
+                results.push(await adapter.updateProduct(externalId, variant));
+            } else {
+                missing.push(variant);
+            }
+        }
+
+        if (missing.length === 0) continue;
+
+        if (existing > 0 && group.axes.length > 0) {
+            results.push(...await addMissingVariants(adapter, group, missing));
+        } else {
+            toCreate.push(missing.length === group.variants.length
+                ? group
+                : { ...group, variants: missing });
+        }
+    }
+
+    if (toCreate.length > 0) {
+        const created = await adapter.uploadProducts(toCreate);
+        results.push(...created.results);
+    }
+
+    return {
+        successful: results.filter(r => r.status === 'success').length,
+        failed: results.filter(r => r.status === 'error').length,
+        results,
+    };
+}
@@ -1,15 +1,19 @@
 /**
  * Xentral ERP Adapter
  * Implements ShopAdapter interface for Xentral integration.
+ * Product groups with variant axes are uploaded as a matrix parent article
+ * followed by one variant article per line item.
  */
 
-import type { NormalizedProduct } from '@/types';
+import type { NormalizedProduct, ProductGroup } from '@/types';
+import { flattenGroups, splitAxislessGroups } from '@/lib/modules/processing/variant-grouper';
 import type {
     ShopAdapter,
     ShopAdapterConfig,
     BatchUploadResult,
     UploadResult,
-    ConnectionTestResult
+    ConnectionTestResult,
+    ProductLookup
 } from './adapter.interface';
 
 export class XentralAdapter implements ShopAdapter {
@@ -28,9 +32,13 @@ export class XentralAdapter implements ShopAdapter {
         this.timeout = config?.timeout ?? 30000;
     }
 
-    async uploadProducts(products: NormalizedProduct[]): Promise<BatchUploadResult> {
+    get isConfigured(): boolean {
+        return !!this.apiUrl && !!this.apiKey;
+    }
+
+    async uploadProducts(groups: ProductGroup[]): Promise<BatchUploadResult> {
         if (this.isMock) {
-            return this.mockUpload(products);
+            return this.mockUpload(groups);
         }
 
         if (!this.apiUrl || !this.apiKey) {
@@ -41,36 +49,93 @@ export class XentralAdapter implements ShopAdapter {
         let successful = 0;
         let failed = 0;
 
-        for (const product of products) {
+        for (const group of splitAxislessGroups(groups)) {
+            let groupResults: UploadResult[];
             try {
-                const result = await this.uploadSingleProduct(product);
+                groupResults = group.axes.length > 0
+                    ? await this.uploadVariantArticles(group)
+                    : [await this.uploadSingleProduct(group.variants[0])];
+            } catch (error) {
+                groupResults = group.variants.map(p => ({
+                    sku: String(p['sku'] || ''),
+                    status: 'error' as const,
+                    message: error instanceof Error ? error.message : 'Unknown error',
+                }));
+            }
+
+            for (const result of groupResults) {
                 results.push(result);
                 if (result.status === 'success') {
                     successful++;
                 } else {
                     failed++;
                 }
-            } catch (error) {
-                failed++;
-                results.push({
-                    sku: String(product['sku'] || ''),
-                    status: 'error',
-                    message: error instanceof Error ? error.message : 'Unknown error',
-                });
             }
         }
 
         return { successful, failed, results };
     }
 
-    private async uploadSingleProduct(product: NormalizedProduct): Promise<UploadResult> {
+    /**
+     * Upload a matrix parent article, then each variant linked via `variante_von`
+     */
+    private async uploadVariantArticles(group: ProductGroup): Promise<UploadResult[]> {
+        const parentResult = await this.uploadSingleProduct(group.parent, {
+            nummer: group.key,
+            matrixprodukt: 1,
+            lagerbestand: group.variants.reduce((sum, v) => sum + Number(v['quantity'] || 0), 0),
+        });
+
+        if (parentResult.status !== 'success' || !parentResult.externalId) {
+            return group.variants.map(v => ({
+                sku: String(v['sku'] || ''),
+                status: 'error' as const,
+                message: `Parent article ${group.key} failed: ${parentResult.message || 'no ID returned'}`,
+            }));
+        }
+
+        return this.addVariants(parentResult.externalId, group, group.variants);
+    }
+
+    /**
+     * Upload variant articles linked to an existing matrix parent via `variante_von`
+     */
+    async addVariants(parentId: string, group: ProductGroup, variants: NormalizedProduct[]): Promise<UploadResult[]> {
+        if (this.isMock) {
+            return (await this.mockUpload([{ ...group, variants }])).results;
+        }
+
+        const results: UploadResult[] = [];
+        for (const variant of variants) {
+            results.push(await this.uploadSingleProduct(variant, {
+                variante: 1,
+                variante_von: parentId,
+            }));
+        }
+        return results;
+    }
+
+    /**
+     * The matrix parent article is numbered with the group key
+     */
+    async findParent(group: ProductGroup): Promise<string | null> {
+        if (this.isMock) {
+            return `XEN-${group.key}`;
+        }
+        return this.findProduct({ sku: group.key });
+    }
+
+    private async uploadSingleProduct(
+        product: NormalizedProduct,
+        overrides: Record<string, unknown> = {}
+    ): Promise<UploadResult> {
         const response = await fetch(`${this.apiUrl}/api/artikel`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${this.apiKey}`,
             },
-            body: JSON.stringify(this.mapToXentralFormat(product)),
+            body: JSON.stringify({ ...this.mapToXentralFormat(product), ...overrides }),
             signal: AbortSignal.timeout(this.timeout),
         });
 
@@ -117,8 +182,9 @@ export class XentralAdapter implements ShopAdapter {
         return 'unisex';
     }
 
-    private async mockUpload(products: NormalizedProduct[]): Promise<BatchUploadResult> {
-        console.log(`[MOCK Xentral] Uploading ${products.length} products`);
+    private async mockUpload(groups: ProductGroup[]): Promise<BatchUploadResult> {
+        const products = flattenGroups(groups);
+        console.log(`[MOCK Xentral] Uploading ${groups.length} products (${products.length} variants)`);
 
         await new Promise(resolve => setTimeout(resolve, 500));
 
@@ -196,7 +262,7 @@ export class XentralAdapter implements ShopAdapter {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${this.apiKey}`,
             },
-            body: JSON.stringify(updates),
+            body: JSON.stringify(this.mapUpdateToXentralFormat(updates)),
             signal: AbortSignal.timeout(this.timeout),
         });
 
@@ -214,6 +280,50 @@ export class XentralAdapter implements ShopAdapter {
             };
         }
     }
+
+    /**
+     * Map a partial update, dropping fields that were not part of it
+     * so defaults (e.g. gender) don't overwrite remote values.
+     */
+    private mapUpdateToXentralFormat(updates: Partial<NormalizedProduct>): Record<string, unknown> {
+        const mapped = this.mapToXentralFormat(updates);
+        if (!('gender' in updates)) delete mapped.geschlecht;
+        return Object.fromEntries(
+            Object.entries(mapped).filter(([, value]) => value !== undefined)
+        );
+    }
+
+    async findProduct(lookup: ProductLookup): Promise<string | null> {
+        if (this.isMock) {
+            return null;
+        }
+
+        const filters: Array<[string, string]> = [];
+        if (lookup.sku) filters.push(['nummer', lookup.sku]);
+        if (lookup.ean) filters.push(['ean', lookup.ean]);
+
+        for (const [field, value] of filters) {
+            const response = await fetch(
+                `${this.apiUrl}/api/artikel?${field}=${encodeURIComponent(value)}`,
+                {
+                    headers: { 'Authorization': `Bearer ${this.apiKey}` },
+                    signal: AbortSignal.timeout(this.timeout),
+                }
+            );
+
+            if (!response.ok) {
+                throw new Error(`Article lookup failed: HTTP ${response.status}`);
+            }
+
+            const data = await response.json();
+            const articles = (Array.isArray(data) ? data : data.data || []) as Array<{ id?: number | string }>;
+            if (articles[0]?.id !== undefined) {
+                return String(articles[0].id);
+            }
+        }
+
+        return null;
+    }
 }
 
 /**
@@ -0,0 +1,78 @@
+/**
+ * Route Authorization
+ * Resolves the signed-in user's tenant role and checks permissions in API routes:
+ *
+ *   const { user, response } = await authorize('order.submit');
+ *   if (!user) return response;
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { can, type AuthorizedUser, type Permission } from './permissions';
+import type { TenantRole } from '@/types';
+
+export type AuthorizeResult =
+    | { user: AuthorizedUser; response?: undefined }
+    | { user?: undefined; response: NextResponse };
+
+/**
+ * The signed-in user with their tenant membership
+ * @returns null when not signed in or not a member of any tenant
+ */
+export async function getAuthorizedUser(): Promise<AuthorizedUser | null> {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) return null;
+
+    const { data: membership, error } = await supabase
+        .from('tenant_members')
+        .select('tenant_id, role')
+        .eq('user_id', user.id)
+        .single();
+
+    if (error || !membership) {
+        console.warn('User has no tenant membership:', user.id);
+        return null;
+    }
+
+    return {
+        id: user.id,
+        email: user.email,
+        tenant_id: membership.tenant_id,
+        role: membership.role as TenantRole,
+    };
+}
+
+/**
+ * Check that the signed-in user has a permission
+ * @returns The user, or the 401/403 response to return
+ */
+export async function authorize(permission: Permission): Promise<AuthorizeResult> {
+    const user = await getAuthorizedUser();
+
+    if (!user) {
+        return {
+            response: NextResponse.json(
+                { success: false, error: 'Unauthorized' },
+                { status: 401 }
+            ),
+        };
+    }
+
+    if (!can(user, permission)) {
+        return { response: forbidden(user, permission) };
+    }
+
+    return { user };
+}
+
+/**
+ * 403 response for permission checks made after `authorize`
+ */
+export function forbidden(user: AuthorizedUser, permission: Permission): NextResponse {
+    return NextResponse.json(
+        { success: false, error: `Forbidden: your role (${user.role}) cannot ${permission}` },
+        { status: 403 }
+    );
+}
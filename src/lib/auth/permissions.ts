@@ -0,0 +1,70 @@
+/**
+ * Permissions
+ * What each tenant role may do. Access is tenant-wide: any member with a
+ * permission can act on all orders of the tenant, not only their own.
+ * Pure functions - used by API routes and to hide actions in the UI.
+ */
+
+import type { TenantRole } from '@/types';
+
+export type Permission =
+    | 'order.read'
+    | 'order.create'
+    | 'order.edit'
+    | 'order.review'
+    | 'order.submit'
+    | 'order.export'
+    | 'order.delete'
+    | 'catalog.read'
+    | 'catalog.edit'
+    | 'product.read'
+    | 'product.edit'
+    | 'settings.read'
+    | 'settings.edit'
+    | 'members.read'
+    | 'members.manage'
+    | 'tenant.transfer'
+    | 'tenant.reset';
+
+/** Signed-in user with their tenant membership */
+export interface AuthorizedUser {
+    id: string;
+    email?: string;
+    tenant_id: string;
+    role: TenantRole;
+}
+
+const MEMBER_PERMISSIONS: Permission[] = [
+    'order.read',
+    'order.create',
+    'order.edit',
+    'order.review',
+    'order.submit',
+    'order.export',
+    'order.delete',
+    'catalog.read',
+    'catalog.edit',
+    'product.read',
+    'product.edit',
+    'settings.read',
+    'members.read',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+    ...MEMBER_PERMISSIONS,
+    'settings.edit',
+    'members.manage',
+];
+
+export const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
+    owner: [...ADMIN_PERMISSIONS, 'tenant.transfer', 'tenant.reset'],
+    admin: ADMIN_PERMISSIONS,
+    member: MEMBER_PERMISSIONS,
+};
+
+/**
+ * Whether a user may do something, e.g. `can(user, 'order.submit')`
+ */
+export function can(user: Pick<AuthorizedUser, 'role'> | null | undefined, permission: Permission): boolean {
+    return !!user && ROLE_PERMISSIONS[user.role]?.includes(permission) === true;
+}
@@ -0,0 +1,221 @@
+/**
+ * BMEcat Serializer
+ * Converts mapped records to a BMEcat 2005 catalog (T_NEW_CATALOG) for B2B
+ * partners. BMEcat 2005 names the article elements PRODUCT, PRODUCT_DETAILS
+ * and PRODUCT_PRICE_DETAILS (ARTICLE* in BMEcat 1.2).
+ *
+ * Mapping targets named like BMEcat elements (see BMECAT_TARGETS) fill the
+ * standard product elements; every other target becomes a FEATURE. Targets of
+ * the form "Group/Feature" are grouped into one PRODUCT_FEATURES per group.
+ */
+
+import type { BmecatHeader } from '@/types';
+import type { DataRecord } from './types';
+
+const BMECAT_NAMESPACE = 'http://www.bmecat.org/bmecat/2005';
+
+const DEFAULTS = {
+    catalog_version: '1.0',
+    language: 'deu',
+    price_type: 'net_list',
+    feature_system: 'udf',
+    feature_group: 'Attributes',
+    order_unit: 'C62',  // UN/ECE code for "piece"
+};
+
+/** Mapping targets with a fixed place in the PRODUCT element */
+export const BMECAT_TARGETS = [
+    'SUPPLIER_PID',
+    'DESCRIPTION_SHORT',
+    'DESCRIPTION_LONG',
+    'INTERNATIONAL_PID',
+    'MANUFACTURER_PID',
+    'MANUFACTURER_NAME',
+    'ORDER_UNIT',
+    'CONTENT_UNIT',
+    'NO_CU_PER_OU',
+    'PRICE_AMOUNT',
+    'TAX',
+] as const;
+
+const STANDARD_TARGETS = new Set<string>(BMECAT_TARGETS);
+
+/**
+ * Escape text for XML element content and attribute values.
+ */
+function escapeXml(value: unknown): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function text(record: DataRecord, key: string): string {
+    const value = record[key];
+    return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * An element with text content, or nothing when the value is empty.
+ */
+function element(name: string, value: string, indent: string, attributes = ''): string {
+    return value ? `${indent}<${name}${attributes}>${escapeXml(value)}</${name}>` : '';
+}
+
+function lines(...parts: string[]): string {
+    return parts.filter(Boolean).join('\n');
+}
+
+/**
+ * Parse a price or tax value, accepting a decimal comma.
+ */
+function toDecimal(value: string): number | null {
+    if (!value) return null;
+    const number = Number(value.replace(/\s/g, '').replace(',', '.'));
+    return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Check the header and records before serializing.
+ * @returns Error message, or null when the catalog can be written
+ */
+export function validateBmecat(records: DataRecord[], header: Partial<BmecatHeader> | undefined): string | null {
+    const missing = (['catalog_id', 'supplier_name', 'currency'] as const).filter(key => !header?.[key]?.trim());
+    if (missing.length > 0) {
+        return `BMEcat header is missing: ${missing.join(', ')}`;
+    }
+
+    const withoutPid = records.findIndex(record => !text(record, 'SUPPLIER_PID'));
+    if (withoutPid !== -1) {
+        return `Record ${withoutPid + 1} has no SUPPLIER_PID`;
+    }
+
+    const withoutPrice = records.find(record => toDecimal(text(record, 'PRICE_AMOUNT')) === null);
+    if (withoutPrice) {
+        return `Product ${text(withoutPrice, 'SUPPLIER_PID')} has no valid PRICE_AMOUNT`;
+    }
+
+    return null;
+}
+
+function headerXml(header: BmecatHeader): string {
+    return lines(
+        '  <HEADER>',
+        '    <GENERATOR_INFO>Ingestry</GENERATOR_INFO>',
+        '    <CATALOG>',
+        element('LANGUAGE', header.language || DEFAULTS.language, '      '),
+        element('CATALOG_ID', header.catalog_id, '      '),
+        element('CATALOG_VERSION', header.catalog_version || DEFAULTS.catalog_version, '      '),
+        element('CATALOG_NAME', header.catalog_name || '', '      '),
+        element('CURRENCY', header.currency, '      '),
+        '    </CATALOG>',
+        header.buyer_name ? lines(
+            '    <BUYER>',
+            element('BUYER_NAME', header.buyer_name, '      '),
+            '    </BUYER>',
+        ) : '',
+        '    <SUPPLIER>',
+        element('SUPPLIER_ID', header.supplier_id || '', '      ', ' type="supplier_specific"'),
+        element('SUPPLIER_NAME', header.supplier_name, '      '),
+        '    </SUPPLIER>',
+        '  </HEADER>',
+    );
+}
+
+function featuresXml(record: DataRecord, header: BmecatHeader): string {
+    const groups = new Map<string, Array<[string, string]>>();
+
+    for (const key of Object.keys(record)) {
+        if (STANDARD_TARGETS.has(key)) continue;
+        const value = text(record, key);
+        if (!value) continue;
+
+        const slash = key.indexOf('/');
+        const group = slash > 0 ? key.slice(0, slash).trim() : header.feature_group || DEFAULTS.feature_group;
+        const name = slash > 0 ? key.slice(slash + 1).trim() : key;
+
+        const features = groups.get(group) || [];
+        features.push([name, value]);
+        groups.set(group, features);
+    }
+
+    return lines(...[...groups].map(([group, features]) => lines(
+        '      <PRODUCT_FEATURES>',
+        element('REFERENCE_FEATURE_SYSTEM_NAME', header.feature_system || DEFAULTS.feature_system, '        '),
+        element('REFERENCE_FEATURE_GROUP_NAME', group, '        '),
+        ...features.map(([name, value]) => lines(
+            '        <FEATURE>',
+            element('FNAME', name, '          '),
+            element('FVALUE', value, '          '),
+            '        </FEATURE>',
+        )),
+        '      </PRODUCT_FEATURES>',
+    )));
+}
+
+function productXml(record: DataRecord, header: BmecatHeader): string {
+    const price = toDecimal(text(record, 'PRICE_AMOUNT')) as number;
+    const tax = toDecimal(text(record, 'TAX'));
+    const orderUnit = text(record, 'ORDER_UNIT') || DEFAULTS.order_unit;
+
+    return lines(
+        '    <PRODUCT mode="new">',
+        element('SUPPLIER_PID', text(record, 'SUPPLIER_PID'), '      '),
+        '      <PRODUCT_DETAILS>',
+        element('DESCRIPTION_SHORT', text(record, 'DESCRIPTION_SHORT') || text(record, 'SUPPLIER_PID'), '        '),
+        element('DESCRIPTION_LONG', text(record, 'DESCRIPTION_LONG'), '        '),
+        element('INTERNATIONAL_PID', text(record, 'INTERNATIONAL_PID'), '        ', ' type="gtin"'),
+        element('MANUFACTURER_PID', text(record, 'MANUFACTURER_PID'), '        '),
+        element('MANUFACTURER_NAME', text(record, 'MANUFACTURER_NAME'), '        '),
+        '      </PRODUCT_DETAILS>',
+        featuresXml(record, header),
+        '      <PRODUCT_ORDER_DETAILS>',
+        element('ORDER_UNIT', orderUnit, '        '),
+        element('CONTENT_UNIT', text(record, 'CONTENT_UNIT') || orderUnit, '        '),
+        element('NO_CU_PER_OU', text(record, 'NO_CU_PER_OU'), '        '),
+        '      </PRODUCT_ORDER_DETAILS>',
+        '      <PRODUCT_PRICE_DETAILS>',
+        `        <PRODUCT_PRICE price_type="${escapeXml(header.price_type || DEFAULTS.price_type)}">`,
+        element('PRICE_AMOUNT', price.toFixed(2), '          '),
+        element('PRICE_CURRENCY', header.currency, '          '),
+        tax !== null ? element('TAX', String(tax), '          ') : '',
+        '        </PRODUCT_PRICE>',
+        '      </PRODUCT_PRICE_DETAILS>',
+        '    </PRODUCT>',
+    );
+}
+
+/**
+ * Serialize records to a BMEcat 2005 document.
+ * Call validateBmecat first - invalid input produces an invalid catalog.
+ */
+export function toBMEcat(
+    records: DataRecord[],
+    header: BmecatHeader
+): string {
+    return lines(
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<BMECAT version="2005" xmlns="${BMECAT_NAMESPACE}">`,
+        headerXml(header),
+        '  <T_NEW_CATALOG>',
+        ...records.map(record => productXml(record, header)),
+        '  </T_NEW_CATALOG>',
+        '</BMECAT>',
+    ) + '\n';
+}
+
+/**
+ * Get the content type for BMEcat files.
+ */
+export function getContentType(): string {
+    return 'application/xml; charset=utf-8';
+}
+
+/**
+ * Get suggested file extension.
+ */
+export function getFileExtension(): string {
+    return 'xml';
+}
@@ -40,8 +40,9 @@ function escapeValue(value: unknown, delimiter: string): string {
 
 /**
  * Get all unique keys from records in consistent order.
+ * Shared with the XLSX serializer.
  */
-function getAllKeys(records: DataRecord[], columnOrder?: string[]): string[] {
+export function getAllKeys(records: DataRecord[], columnOrder?: string[]): string[] {
     if (columnOrder && columnOrder.length > 0) {
         return columnOrder;
     }
@@ -4,7 +4,10 @@
  * See /archive/EXPORT_ARCHITECTURE.md for full documentation.
  */
 
-import type { DataRecord, FieldMapping, OutputProfile } from './types';
+import type { FieldDefinition } from '@/types';
+import type { ColumnType, DataRecord, FieldMapping, OutputProfile } from './types';
+import { applyTransforms, type TransformContext } from './transforms';
+import { applyRowRules } from './row-rules';
 
 /**
  * Evaluate a template string with {variable} placeholders.
@@ -32,7 +35,8 @@ function getValue(record: DataRecord, key: string): string {
  */
 function applyMapping(
     record: DataRecord,
-    mapping: FieldMapping
+    mapping: FieldMapping,
+    context: TransformContext
 ): { key: string; value: string } {
     let value: string;
 
@@ -44,6 +48,9 @@ function applyMapping(
         value = getValue(record, mapping.source);
     }
 
+    // Run the transformation chain
+    value = applyTransforms(value, mapping.transforms, context);
+
     // Apply default if empty
     if (!value && mapping.default_value) {
         value = mapping.default_value;
@@ -58,12 +65,13 @@ function applyMapping(
  */
 export function mapRecord(
     record: DataRecord,
-    mappings: FieldMapping[]
+    mappings: FieldMapping[],
+    context: TransformContext = {}
 ): DataRecord {
     const result: DataRecord = {};
 
     for (const mapping of mappings) {
-        const { key, value } = applyMapping(record, mapping);
+        const { key, value } = applyMapping(record, mapping, context);
         result[key] = value;
     }
 
@@ -72,13 +80,15 @@ export function mapRecord(
 
 /**
  * Map multiple records using an Output Profile.
+ * Row filters and row explosion of the profile decide which rows are mapped.
  * Returns new records with target field names ready for serialization.
  */
 export function mapRecords(
     records: DataRecord[],
-    profile: OutputProfile
+    profile: OutputProfile,
+    context: TransformContext = {}
 ): DataRecord[] {
-    return records.map(record => mapRecord(record, profile.field_mappings));
+    return applyRowRules(records, profile).map(record => mapRecord(record, profile.field_mappings, context));
 }
 
 /**
@@ -92,3 +102,22 @@ export function getTargetFields(mappings: FieldMapping[]): string[] {
     }
     return Array.from(fields);
 }
+
+/**
+ * Get the value type of target columns that map a number or currency field
+ * of the profile directly. Templated or transformed mappings produce text.
+ */
+export function getTargetFieldTypes(
+    mappings: FieldMapping[],
+    fields: FieldDefinition[]
+): Record<string, ColumnType> {
+    const types: Record<string, ColumnType> = {};
+    for (const mapping of mappings) {
+        if (mapping.template || mapping.transforms?.some(t => t.type !== 'trim')) continue;
+        const field = fields.find(f => f.key === mapping.source);
+        if (field?.type === 'number' || field?.type === 'currency') {
+            types[mapping.target] = field.type;
+        }
+    }
+    return types;
+}
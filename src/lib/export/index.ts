@@ -6,20 +6,38 @@
 
 // Types
 export type {
+    ColumnType,
     DataRecord,
     FieldMapping,
     FormatOptions,
     OutputProfile,
     ExportResult,
+    ExportManifest,
 } from './types';
+export type { TransformContext } from './transforms';
 
 // Field Mapper
 export {
     mapRecord,
     mapRecords,
     getTargetFields,
+    getTargetFieldTypes,
 } from './field-mapper';
 
+// Value Transforms
+export {
+    applyTransforms,
+    getTransformCatalogKeys,
+    groupCatalogEntries,
+} from './transforms';
+
+// Row Rules
+export {
+    filterRecords,
+    explodeRecords,
+    applyRowRules,
+} from './row-rules';
+
 // CSV Serializer
 export {
     toCSV,
@@ -27,19 +45,98 @@ export {
     getFileExtension as getCSVFileExtension,
 } from './csv-serializer';
 
-// Export function
-import type { DataRecord, OutputProfile, ExportResult } from './types';
-import { mapRecords } from './field-mapper';
+// XLSX Serializer
+export {
+    toXLSX,
+    getContentType as getXLSXContentType,
+    getFileExtension as getXLSXFileExtension,
+} from './xlsx-serializer';
+
+// BMEcat Serializer
+export {
+    toBMEcat,
+    validateBmecat,
+    BMECAT_TARGETS,
+    getContentType as getBMEcatContentType,
+    getFileExtension as getBMEcatFileExtension,
+} from './bmecat-serializer';
+
+// ZIP Serializer
+export {
+    toZip,
+    getContentType as getZipContentType,
+    getFileExtension as getZipFileExtension,
+} from './zip-serializer';
+
+// Export functions
+import type { ExportBundleFile, ExportConfig, FieldDefinition } from '@/types';
+import type { DataRecord, OutputProfile, ExportResult, ExportManifest } from './types';
+import { mapRecords, getTargetFieldTypes } from './field-mapper';
+import { applyRowRules } from './row-rules';
+import type { TransformContext } from './transforms';
 import { toCSV, getContentType, getFileExtension } from './csv-serializer';
+import {
+    toXLSX,
+    getContentType as getXLSXContentType,
+    getFileExtension as getXLSXFileExtension,
+} from './xlsx-serializer';
+import {
+    toBMEcat,
+    validateBmecat,
+    getContentType as getBMEcatContentType,
+    getFileExtension as getBMEcatFileExtension,
+} from './bmecat-serializer';
+import {
+    toZip,
+    getContentType as getZipContentType,
+    getFileExtension as getZipFileExtension,
+    type ZipEntry,
+} from './zip-serializer';
+
+/**
+ * File name part of a profile or bundle file name.
+ */
+function toFileStem(name: string): string {
+    return name.toLowerCase().replace(/[\\/:*?"<>|]/g, '').replace(/\s+/g, '_') || 'export';
+}
+
+/**
+ * Output Profile of a stored export config - the one place that decides
+ * which config settings reach the export (route, export dialog, bundles).
+ */
+export function toOutputProfile(config: ExportConfig): OutputProfile {
+    return {
+        id: config.id,
+        name: config.name,
+        shop_system: config.shop_system,
+        field_mappings: config.field_mappings || [],
+        format: config.format,
+        format_options: config.format_options || {},
+        bmecat: config.bmecat,
+        row_filters: config.row_filters,
+        row_explosion: config.row_explosion,
+        bundle_files: config.bundle_files,
+        is_default: config.is_default,
+    };
+}
 
 /**
  * Export records using an Output Profile.
- * This is the main entry point for the export system.
+ * This is the main entry point for the export system. Profiles with bundle
+ * files are exported as a ZIP (see exportBundle).
+ * @param fields Profile fields - number and currency fields become numeric XLSX cells
+ * @param context Catalogs for catalog lookup transforms (see getTransformCatalogKeys)
  */
 export function exportRecords(
     records: DataRecord[],
-    profile: OutputProfile
+    profile: OutputProfile,
+    fields: FieldDefinition[] = [],
+    context: TransformContext = {}
 ): ExportResult {
+    if (profile.bundle_files?.length) {
+        return exportBundle(records, profile, fields, context);
+    }
+
     try {
         if (records.length === 0) {
             return {
@@ -49,11 +146,17 @@ export function exportRecords(
             };
         }
 
-        // Step 1: Map fields using profile
-        const mapped = mapRecords(records, profile);
+        // Step 1: Map fields using profile (after row filters and explosion)
+        const mapped = mapRecords(records, profile, context);
+        if (mapped.length === 0) {
+            return {
+                success: false,
+                error: 'No rows match the row filters of this export',
+            };
+        }
 
         // Step 2: Serialize based on format
-        let data: string;
+        let data: string | Uint8Array;
         let content_type: string;
         let extension: string;
 
@@ -61,6 +164,21 @@ export function exportRecords(
             data = toCSV(mapped, profile.format_options);
             content_type = getContentType();
             extension = getFileExtension();
+        } else if (profile.format === 'xlsx') {
+            data = toXLSX(mapped, {
+                ...profile.format_options,
+                column_types: getTargetFieldTypes(profile.field_mappings, fields),
+            });
+            content_type = getXLSXContentType();
+            extension = getXLSXFileExtension();
+        } else if (profile.format === 'bmecat') {
+            const invalid = validateBmecat(mapped, profile.bmecat);
+            if (invalid) {
+                return { success: false, error: invalid };
+            }
+            data = toBMEcat(mapped, profile.bmecat!);
+            content_type = getBMEcatContentType();
+            extension = getBMEcatFileExtension();
         } else if (profile.format === 'json') {
             data = JSON.stringify(mapped, null, 2);
             content_type = 'application/json';
@@ -74,14 +192,94 @@ export function exportRecords(
 
         // Generate filename
         const timestamp = new Date().toISOString().slice(0, 10);
-        const filename = `export_${profile.name.toLowerCase().replace(/\s+/g, '_')}_${timestamp}.${extension}`;
+        const filename = `export_${toFileStem(profile.name)}_${timestamp}.${extension}`;
 
         return {
             success: true,
             data,
             content_type,
             filename,
-            record_count: records.length,
+            record_count: mapped.length,
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Export failed',
+        };
+    }
+}
+
+/**
+ * Export a profile and its bundle files as one ZIP with a manifest.json.
+ * Each file has its own mappings, format and row rules; files without rows
+ * are left out of the ZIP and listed in the manifest with no filename.
+ */
+export function exportBundle(
+    records: DataRecord[],
+    profile: OutputProfile,
+    fields: FieldDefinition[] = [],
+    context: TransformContext = {}
+): ExportResult {
+    const files: ExportBundleFile[] = [profile, ...(profile.bundle_files || [])];
+    const entries: ZipEntry[] = [];
+    const usedNames = new Set<string>(['manifest.json']);
+    const manifest: ExportManifest = {
+        name: profile.name,
+        shop_system: profile.shop_system,
+        created_at: new Date().toISOString(),
+        files: [],
+    };
+
+    for (const file of files) {
+        // Only the file's own settings - nothing is inherited from the profile,
+        // and the profile's own file must not export its bundle again
+        const fileProfile = toOutputProfile({ ...file, shop_system: profile.shop_system, bundle_files: undefined });
+
+        if (applyRowRules(records, fileProfile).length === 0) {
+            manifest.files.push({ name: file.name, format: file.format, filename: null, content_type: null, record_count: 0 });
+            continue;
+        }
+
+        const result = exportRecords(records, fileProfile, fields, context);
+        if (!result.success) {
+            return { success: false, error: `${file.name}: ${result.error}` };
+        }
+
+        const extension = result.filename!.split('.').pop();
+        const stem = toFileStem(file.name);
+        let filename = `${stem}.${extension}`;
+        for (let i = 2; usedNames.has(filename); i++) {
+            filename = `${stem}_${i}.${extension}`;
+        }
+        usedNames.add(filename);
+
+        entries.push({ name: filename, data: result.data! });
+        manifest.files.push({
+            name: file.name,
+            format: file.format,
+            filename,
+            content_type: result.content_type || null,
+            record_count: result.record_count || 0,
+        });
+    }
+
+    if (entries.length === 0) {
+        return { success: false, error: 'No rows match the row filters of this export' };
+    }
+
+    try {
+        const data = toZip([
+            { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+            ...entries,
+        ]);
+        const timestamp = new Date().toISOString().slice(0, 10);
+
+        return {
+            success: true,
+            data,
+            content_type: getZipContentType(),
+            filename: `export_${toFileStem(profile.name)}_${timestamp}.${getZipFileExtension()}`,
+            record_count: manifest.files.reduce((sum, f) => sum + f.record_count, 0),
         };
     } catch (error) {
         return {
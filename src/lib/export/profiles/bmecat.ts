@@ -0,0 +1,51 @@
+/**
+ * BMEcat Export Config Template
+ * Pre-built export configuration for BMEcat 2005 catalogs.
+ * Targets named like BMEcat elements fill the product; the rest become features.
+ */
+
+import type { FieldMapping, ExportConfig } from '@/types';
+
+/**
+ * Default field mappings for BMEcat.
+ */
+export const BMECAT_FIELD_MAPPINGS: FieldMapping[] = [
+    // Product identity
+    { source: 'sku', target: 'SUPPLIER_PID' },
+    { source: 'ean', target: 'INTERNATIONAL_PID' },
+    { source: 'article_number', target: 'MANUFACTURER_PID' },
+    { source: 'brand', target: 'MANUFACTURER_NAME' },
+
+    // Descriptions
+    { source: 'name', target: 'DESCRIPTION_SHORT' },
+    { source: 'description', target: 'DESCRIPTION_LONG' },
+
+    // Pricing
+    { source: 'price', target: 'PRICE_AMOUNT' },
+
+    // Features, grouped by prefix
+    { source: 'color', target: 'Variant/Color' },
+    { source: 'size', target: 'Variant/Size' },
+    { source: 'material', target: 'Material' },
+    { source: 'season', target: 'Season' },
+];
+
+/**
+ * Complete BMEcat export config template.
+ * The header values are placeholders to fill in per trading partner.
+ */
+export function createBmecatExportConfig(id: string = 'bmecat'): ExportConfig {
+    return {
+        id,
+        name: 'BMEcat 2005',
+        shop_system: 'xentral',
+        field_mappings: BMECAT_FIELD_MAPPINGS,
+        format: 'bmecat',
+        format_options: {},
+        bmecat: {
+            catalog_id: '',
+            supplier_name: '',
+            currency: 'EUR',
+        },
+    };
+}
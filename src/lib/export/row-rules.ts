@@ -0,0 +1,125 @@
+/**
+ * Row Rules
+ * Decide which rows a line item produces before field mapping: row filters
+ * select line items (e.g. only one brand), row explosion splits a multi-value
+ * field into one row per value or a parent row plus variant rows.
+ */
+
+import type { RowExplosion, RowFilter } from '@/types';
+import type { DataRecord, OutputProfile } from './types';
+import { parseNumber } from './transforms';
+
+function text(record: DataRecord, key: string): string {
+    const value = record[key];
+    if (value === undefined || value === null) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value).trim();
+}
+
+/**
+ * Numeric value of purely numeric text ("12", "-3,5", "1.299,00"), else null.
+ */
+function toNumber(value: string): number | null {
+    return /^-?[\d.,\s]+$/.test(value) ? parseNumber(value) : null;
+}
+
+/**
+ * Compare numerically when both sides are numbers, else as text.
+ */
+function compare(actual: string, expected: string): number {
+    const a = toNumber(actual);
+    const b = toNumber(expected);
+    if (a !== null && b !== null) return a - b;
+    return actual.localeCompare(expected, undefined, { sensitivity: 'base' });
+}
+
+function matchesFilter(record: DataRecord, filter: RowFilter): boolean {
+    const actual = text(record, filter.field);
+    const expected = (filter.value ?? '').trim();
+
+    switch (filter.operator) {
+        case 'equals':
+            return compare(actual, expected) === 0;
+        case 'not_equals':
+            return compare(actual, expected) !== 0;
+        case 'contains':
+            return actual.toLowerCase().includes(expected.toLowerCase());
+        case 'not_contains':
+            return !actual.toLowerCase().includes(expected.toLowerCase());
+        case 'gt':
+            return actual !== '' && compare(actual, expected) > 0;
+        case 'gte':
+            return actual !== '' && compare(actual, expected) >= 0;
+        case 'lt':
+            return actual !== '' && compare(actual, expected) < 0;
+        case 'lte':
+            return actual !== '' && compare(actual, expected) <= 0;
+        case 'empty':
+            return actual === '';
+        case 'not_empty':
+            return actual !== '';
+        default:
+            return true;
+    }
+}
+
+/**
+ * Keep records matching all filters. Filters without a field are ignored.
+ */
+export function filterRecords(records: DataRecord[], filters: RowFilter[] | undefined): DataRecord[] {
+    const active = (filters || []).filter(f => f.field);
+    if (active.length === 0) return records;
+    return records.filter(record => active.every(filter => matchesFilter(record, filter)));
+}
+
+/**
+ * Values of the exploded field - arrays as is, text split by the separator.
+ */
+function explodedValues(record: DataRecord, explosion: RowExplosion): string[] {
+    const value = record[explosion.field];
+    const values = Array.isArray(value)
+        ? value.map(v => (v === undefined || v === null ? '' : String(v)))
+        : text(record, explosion.field).split(explosion.separator || ',');
+    return values.map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Split each record into one row per value of the explosion field.
+ * In parent_variants mode the record itself comes first with the field blank,
+ * followed by variant rows holding only the variant fields and the value.
+ */
+export function explodeRecords(records: DataRecord[], explosion: RowExplosion | undefined): DataRecord[] {
+    if (!explosion?.field) return records;
+
+    const rows: DataRecord[] = [];
+    for (const record of records) {
+        const values = explodedValues(record, explosion);
+
+        if (explosion.mode === 'parent_variants') {
+            rows.push({ ...record, [explosion.field]: '', row_type: 'parent', variant_index: 0 });
+
+            const variantFields = explosion.variant_fields || [];
+            values.forEach((value, i) => {
+                const variant: DataRecord = {};
+                for (const key of variantFields) {
+                    variant[key] = record[key];
+                }
+                rows.push({ ...variant, [explosion.field]: value, row_type: 'variant', variant_index: i + 1 });
+            });
+        } else if (values.length === 0) {
+            // Nothing to split - the item is exported as is
+            rows.push(record);
+        } else {
+            values.forEach((value, i) => {
+                rows.push({ ...record, [explosion.field]: value, row_type: 'variant', variant_index: i + 1 });
+            });
+        }
+    }
+    return rows;
+}
+
+/**
+ * Rows of a profile: filtered line items, then exploded.
+ */
+export function applyRowRules(records: DataRecord[], profile: OutputProfile): DataRecord[] {
+    return explodeRecords(filterRecords(records, profile.row_filters), profile.row_explosion);
+}
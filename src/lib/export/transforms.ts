@@ -0,0 +1,202 @@
+/**
+ * Value Transforms
+ * Ordered transformation chain of a field mapping: case, trimming,
+ * truncation, regex replacement, number and date formatting, value maps and
+ * catalog code lookup. Handles target system quirks in the export config.
+ */
+
+import type { CatalogEntry, FieldMapping, FieldTransform } from '@/types';
+
+/**
+ * Data a transformation chain may need besides the value.
+ */
+export interface TransformContext {
+    /** Catalog entries by catalog key, for `catalog` transforms */
+    catalogs?: Record<string, CatalogEntry[]>;
+}
+
+/**
+ * Parse a number written with either decimal separator ("1.234,56" or "1,234.56").
+ */
+export function parseNumber(value: string): number | null {
+    let cleaned = value.replace(/[^\d.,-]/g, '');
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+
+    if (lastComma > lastDot) {
+        cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+    } else {
+        cleaned = cleaned.replace(/,/g, '');
+    }
+
+    if (!cleaned) return null;
+    const number = Number(cleaned);
+    return Number.isFinite(number) ? number : null;
+}
+
+function formatNumber(value: string, transform: Extract<FieldTransform, { type: 'number' }>): string {
+    const number = parseNumber(value);
+    if (number === null) return value;
+
+    const fixed = transform.decimals !== undefined && transform.decimals >= 0
+        ? number.toFixed(transform.decimals)
+        : String(number);
+
+    const [integer, fraction] = fixed.split('.');
+    const grouped = transform.thousands_separator
+        ? integer.replace(/\B(?=(\d{3})+(?!\d))/g, transform.thousands_separator)
+        : integer;
+
+    return fraction !== undefined
+        ? `${grouped}${transform.decimal_separator || '.'}${fraction}`
+        : grouped;
+}
+
+/** Optional time after a date, e.g. "T10:00:00Z" or " 10:00" - dropped when formatting */
+const TIME_SUFFIX = String.raw`(?:[T ]\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$`;
+const ISO_DATE = new RegExp(String.raw`^(\d{4})-(\d{1,2})-(\d{1,2})` + TIME_SUFFIX);
+const DAY_FIRST_DATE = new RegExp(String.raw`^(\d{1,2})[./](\d{1,2})[./](\d{2}|\d{4})` + TIME_SUFFIX);
+
+/**
+ * Parse ISO (2024-03-31), German (31.03.2024) and slashed (31/03/2024) dates,
+ * optionally followed by a time.
+ * @returns null for anything else and for days that don't exist (31.02.2024)
+ */
+function parseDate(value: string): { year: number; month: number; day: number } | null {
+    let date: { year: number; month: number; day: number } | null = null;
+
+    const iso = value.match(ISO_DATE);
+    if (iso) date = { year: +iso[1], month: +iso[2], day: +iso[3] };
+
+    const dayFirst = value.match(DAY_FIRST_DATE);
+    if (dayFirst) {
+        const year = dayFirst[3].length === 2 ? 2000 + +dayFirst[3] : +dayFirst[3];
+        date = { year, month: +dayFirst[2], day: +dayFirst[1] };
+    }
+
+    if (!date || date.month < 1 || date.month > 12) return null;
+    // Day 0 of the next month is the last day of this one
+    const daysInMonth = new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+    return date.day >= 1 && date.day <= daysInMonth ? date : null;
+}
+
+function formatDate(value: string, format: string): string {
+    const date = parseDate(value.trim());
+    if (!date) return value;
+
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return format.replace(/YYYY|YY|MM|DD/g, (token) => {
+        switch (token) {
+            case 'YYYY': return String(date.year);
+            case 'YY': return pad(date.year % 100);
+            case 'MM': return pad(date.month);
+            default: return pad(date.day);
+        }
+    });
+}
+
+function replacePattern(value: string, transform: Extract<FieldTransform, { type: 'replace' }>): string {
+    try {
+        return value.replace(new RegExp(transform.pattern, transform.flags ?? 'g'), transform.replacement);
+    } catch {
+        // Invalid patterns leave the value unchanged
+        return value;
+    }
+}
+
+function mapValue(value: string, values: Record<string, string>): string {
+    if (Object.prototype.hasOwnProperty.call(values, value)) return values[value];
+    const lower = value.toLowerCase();
+    const key = Object.keys(values).find(k => k.toLowerCase() === lower);
+    return key !== undefined ? values[key] : value;
+}
+
+/**
+ * Look up a value in a catalog by name, alias or code.
+ * @returns The entry's code, or its extra_data column; unmatched values are kept
+ */
+function lookupCatalog(
+    value: string,
+    transform: Extract<FieldTransform, { type: 'catalog' }>,
+    context: TransformContext
+): string {
+    const lower = value.trim().toLowerCase();
+    if (!lower) return value;
+
+    const entry = context.catalogs?.[transform.catalog_key]?.find(e =>
+        e.name.toLowerCase() === lower ||
+        e.code.toLowerCase() === lower ||
+        e.aliases?.some(alias => alias.toLowerCase() === lower)
+    );
+    if (!entry) return value;
+
+    if (transform.column) {
+        const extra = entry.extra_data?.[transform.column];
+        return extra === undefined || extra === null ? '' : String(extra);
+    }
+    return entry.code;
+}
+
+function applyTransform(value: string, transform: FieldTransform, context: TransformContext): string {
+    switch (transform.type) {
+        case 'uppercase':
+            return value.toUpperCase();
+        case 'lowercase':
+            return value.toLowerCase();
+        case 'titlecase':
+            return value.toLowerCase().replace(/(^|[\s\-/])(\S)/g, (_, sep, letter) => sep + letter.toUpperCase());
+        case 'trim':
+            return value.trim();
+        case 'truncate':
+            return transform.length >= 0 ? value.slice(0, transform.length) : value;
+        case 'replace':
+            return replacePattern(value, transform);
+        case 'number':
+            return formatNumber(value, transform);
+        case 'date':
+            return formatDate(value, transform.format);
+        case 'map':
+            return mapValue(value, transform.values);
+        case 'catalog':
+            return lookupCatalog(value, transform, context);
+        default:
+            return value;
+    }
+}
+
+/**
+ * Run a value through a transformation chain, in order.
+ */
+export function applyTransforms(
+    value: string,
+    transforms: FieldTransform[] | undefined,
+    context: TransformContext = {}
+): string {
+    return (transforms || []).reduce((current, transform) => applyTransform(current, transform, context), value);
+}
+
+/**
+ * Catalog keys used by `catalog` transforms - load these before mapping.
+ */
+export function getTransformCatalogKeys(mappings: FieldMapping[]): string[] {
+    const keys = new Set<string>();
+    for (const mapping of mappings) {
+        for (const transform of mapping.transforms || []) {
+            if (transform.type === 'catalog' && transform.catalog_key) {
+                keys.add(transform.catalog_key);
+            }
+        }
+    }
+    return Array.from(keys);
+}
+
+/**
+ * Group loaded catalog entries by catalog key for the transform context.
+ */
+export function groupCatalogEntries(entries: CatalogEntry[]): Record<string, CatalogEntry[]> {
+    const catalogs: Record<string, CatalogEntry[]> = {};
+    for (const entry of entries) {
+        (catalogs[entry.field_key] ||= []).push(entry);
+    }
+    return catalogs;
+}
@@ -16,6 +16,12 @@ export type { ExportConfig as OutputProfile } from '@/types';
  */
 export type DataRecord = Record<string, unknown>;
 
+/**
+ * Value type of an output column, from the profile field it maps.
+ * Columns without a type are written as text.
+ */
+export type ColumnType = 'number' | 'currency';
+
 /**
  * Format-specific options for serialization.
  */
@@ -24,8 +30,14 @@ export interface FormatOptions {
     delimiter?: string;
     /** Whether to include header row (default: true) */
     include_header?: boolean;
-    /** Explicit column ordering for CSV output */
+    /** Explicit column ordering for CSV and XLSX output */
     column_order?: string[];
+    /** XLSX sheet name (default: "Export") */
+    sheet_name?: string;
+    /** XLSX: split rows into one sheet per value of this column */
+    sheet_by?: string;
+    /** XLSX: typed columns, written as numeric cells */
+    column_types?: Record<string, ColumnType>;
 }
 
 /**
@@ -33,14 +45,31 @@ export interface FormatOptions {
  */
 export interface ExportResult {
     success: boolean;
-    /** Serialized data (CSV string, JSON string, etc.) */
-    data?: string;
+    /** Serialized data (CSV or JSON string, XLSX bytes) */
+    data?: string | Uint8Array;
     /** Content type for HTTP response */
     content_type?: string;
     /** Suggested filename for download */
     filename?: string;
     /** Error message if failed */
     error?: string;
-    /** Number of records exported */
+    /** Number of rows exported, after row filters and explosion */
     record_count?: number;
 }
+
+/**
+ * manifest.json of a multi-file export ZIP.
+ */
+export interface ExportManifest {
+    name: string;
+    shop_system: string;
+    created_at: string;
+    files: Array<{
+        name: string;
+        format: string;
+        /** File in the ZIP - null when no rows matched and the file was left out */
+        filename: string | null;
+        content_type: string | null;
+        record_count: number;
+    }>;
+}
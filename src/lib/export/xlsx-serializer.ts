@@ -0,0 +1,163 @@
+/**
+ * XLSX Serializer
+ * Converts data records to an Excel workbook: numeric cells for number and
+ * currency columns, a frozen header row, column widths from the content and
+ * optionally one sheet per value of a column.
+ */
+
+import * as XLSX from 'xlsx';
+import type { ColumnType, DataRecord, FormatOptions } from './types';
+import { getAllKeys } from './csv-serializer';
+
+const DEFAULT_SHEET_NAME = 'Export';
+
+/** Number format of currency cells */
+const CURRENCY_FORMAT = '#,##0.00';
+
+/** Column width bounds in characters */
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+/** Excel limits sheet names to 31 characters without []:*?/\ */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Make a valid, unique sheet name.
+ */
+function toSheetName(name: string, used: Set<string>): string {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || DEFAULT_SHEET_NAME;
+
+    let candidate = base;
+    for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+        const suffix = ` (${i})`;
+        candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
+
+/**
+ * Build a cell, numeric for typed columns when the value is a number.
+ */
+function toCell(value: unknown, type?: ColumnType): XLSX.CellObject {
+    if (value === undefined || value === null || value === '') {
+        return { t: 's', v: '' };
+    }
+
+    if (type) {
+        const number = typeof value === 'number' ? value : Number(String(value).trim());
+        if (Number.isFinite(number)) {
+            return type === 'currency'
+                ? { t: 'n', v: number, z: CURRENCY_FORMAT }
+                : { t: 'n', v: number };
+        }
+    }
+
+    return { t: 's', v: String(value) };
+}
+
+/**
+ * Build a worksheet from records.
+ */
+function toWorksheet(
+    records: DataRecord[],
+    keys: string[],
+    options: FormatOptions
+): XLSX.WorkSheet {
+    const includeHeader = options.include_header ?? true;
+    const types = options.column_types || {};
+
+    const rows: XLSX.CellObject[][] = [];
+    if (includeHeader) {
+        rows.push(keys.map(key => ({ t: 's', v: key })));
+    }
+    for (const record of records) {
+        rows.push(keys.map(key => toCell(record[key], types[key])));
+    }
+
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+
+    sheet['!cols'] = keys.map((key, col) => {
+        const longest = rows.reduce((max, row) => {
+            const cell = row[col];
+            const text = cell.z === CURRENCY_FORMAT ? (cell.v as number).toFixed(2) : String(cell.v ?? '');
+            return Math.max(max, text.length);
+        }, includeHeader ? key.length : 0);
+        return { wch: Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2)) };
+    });
+
+    return sheet;
+}
+
+/**
+ * Freeze the first row of every sheet.
+ * The xlsx writer has no option for frozen panes, so the pane is added to the
+ * sheet XML of the written workbook.
+ */
+function freezeHeaderRows(workbook: Uint8Array, sheetCount: number): Uint8Array {
+    const container = XLSX.CFB.read(workbook, { type: 'array' });
+
+    for (let i = 1; i <= sheetCount; i++) {
+        const entry = XLSX.CFB.find(container, `/xl/worksheets/sheet${i}.xml`);
+        if (!entry) continue;
+
+        const xml = new TextDecoder().decode(new Uint8Array(entry.content)).replace(
+            /<sheetView ([^>]*?)\/>/,
+            '<sheetView $1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>'
+        );
+        entry.content = new TextEncoder().encode(xml);
+        entry.size = entry.content.length;
+    }
+
+    return new Uint8Array(XLSX.CFB.write(container, { type: 'array', fileType: 'zip', compression: true }));
+}
+
+/**
+ * Serialize records to an XLSX workbook.
+ */
+export function toXLSX(
+    records: DataRecord[],
+    options: FormatOptions = {}
+): Uint8Array {
+    const keys = getAllKeys(records, options.column_order);
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+
+    if (options.sheet_by) {
+        // One sheet per value, in order of first appearance
+        const groups = new Map<string, DataRecord[]>();
+        for (const record of records) {
+            const value = String(record[options.sheet_by] ?? '').trim();
+            const group = groups.get(value) || [];
+            group.push(record);
+            groups.set(value, group);
+        }
+        for (const [value, group] of groups) {
+            XLSX.utils.book_append_sheet(workbook, toWorksheet(group, keys, options), toSheetName(value, usedNames));
+        }
+    } else {
+        const name = toSheetName(options.sheet_name || DEFAULT_SHEET_NAME, usedNames);
+        XLSX.utils.book_append_sheet(workbook, toWorksheet(records, keys, options), name);
+    }
+
+    const data = new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx', compression: true }));
+
+    return (options.include_header ?? true)
+        ? freezeHeaderRows(data, workbook.SheetNames.length)
+        : data;
+}
+
+/**
+ * Get the content type for XLSX files.
+ */
+export function getContentType(): string {
+    return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+}
+
+/**
+ * Get suggested file extension.
+ */
+export function getFileExtension(): string {
+    return 'xlsx';
+}
@@ -0,0 +1,42 @@
+/**
+ * ZIP Serializer
+ * Packs serialized export files into one ZIP archive for multi-file exports.
+ * Uses the zip writer of the xlsx package's CFB module.
+ */
+
+import * as XLSX from 'xlsx';
+
+export interface ZipEntry {
+    /** File name inside the archive */
+    name: string;
+    data: string | Uint8Array;
+}
+
+/**
+ * Serialize files to a ZIP archive. Text is written as UTF-8.
+ */
+export function toZip(entries: ZipEntry[]): Uint8Array {
+    const container = XLSX.CFB.utils.cfb_new();
+    const encoder = new TextEncoder();
+
+    for (const entry of entries) {
+        const content = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        XLSX.CFB.utils.cfb_add(container, entry.name, content);
+    }
+
+    return new Uint8Array(XLSX.CFB.write(container, { type: 'array', fileType: 'zip', compression: true }));
+}
+
+/**
+ * Get the content type for ZIP files.
+ */
+export function getContentType(): string {
+    return 'application/zip';
+}
+
+/**
+ * Get suggested file extension.
+ */
+export function getFileExtension(): string {
+    return 'zip';
+}
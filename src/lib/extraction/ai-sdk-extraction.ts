@@ -10,6 +10,7 @@ import { createOpenAI } from '@ai-sdk/openai';
 import { z } from 'zod';
 import { extractionModel } from './unified-ai-client';
 import type { ExtractionResult, ExtractedProductWithMeta, VisionModel } from './types';
+import { parseFieldSources } from './provenance';
 
 // Create OpenAI provider for gpt-4o
 const openai = createOpenAI({
@@ -61,6 +62,15 @@ export function buildExtractionSchema(fields: FieldConfig[]) {
     fieldSchemas['needs_checking'] = z.array(needsCheckingSchema).optional().describe(
         'Fields where the AI is uncertain about the extracted value'
     );
+
+    // Add per-field source locations for provenance
+    fieldSchemas['sources'] = z.array(z.object({
+        field: z.string().describe('Field key'),
+        page: z.number().describe('1-based page number the value was found on'),
+        box: z.array(z.number()).optional().describe('Approximate region [x0, y0, x1, y1] as fractions (0-1) of page width/height, origin top-left'),
+    })).optional().describe(
+        'Where each extracted value was found in the document'
+    );
     
     const productSchema = z.object(fieldSchemas);
     
@@ -143,12 +153,12 @@ export async function extractWithAISDK(
             const data: Record<string, string> = {};
             
             for (const [key, value] of Object.entries(p)) {
-                if (key !== 'needs_checking' && value !== undefined && value !== null) {
+                if (key !== 'needs_checking' && key !== 'sources' && value !== undefined && value !== null) {
                     data[key] = String(value);
                 }
             }
             
-            return { data, needs_checking: needsChecking };
+            return { data, needs_checking: needsChecking, sources: parseFieldSources(p.sources) };
         });
         
         console.log(`[AI SDK Extraction] ✅ Extracted ${products.length} products`);
@@ -0,0 +1,191 @@
+/**
+ * Chunk Merger
+ * Combines the products of page-range extractions into one list:
+ * - drops table header rows repeated on every page
+ * - stitches rows that a page break split into two partial products
+ * - de-duplicates a row both neighbouring chunks extracted
+ * - tags products and needs_checking flags with their source pages and
+ *   maps field source pages from chunk-relative to document page numbers
+ */
+
+import type { ExtractedProductWithMeta, NeedsCheckingFlag, PageRange } from './types';
+import type { FieldConfig } from './ai-sdk-extraction';
+import { offsetFieldSources } from './provenance';
+
+export interface ChunkExtraction {
+    pages: PageRange;
+    products: ExtractedProductWithMeta[];
+}
+
+/** Share of the typical row's values below which a row counts as partial */
+const PARTIAL_ROW_RATIO = 0.6;
+
+function normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9äöüß]/g, '');
+}
+
+function formatPages(pages: PageRange): string {
+    return pages.start === pages.end ? `page ${pages.start}` : `pages ${pages.start}-${pages.end}`;
+}
+
+function nonEmptyEntries(data: Record<string, string>): Array<[string, string]> {
+    return Object.entries(data).filter(([, value]) => value !== undefined && String(value).trim() !== '');
+}
+
+/**
+ * Detect a table header row extracted as a product
+ * (most values are column titles: field keys or labels)
+ */
+export function isHeaderRow(data: Record<string, string>, fields: FieldConfig[] = []): boolean {
+    const headerWords = new Set<string>();
+    for (const field of fields) {
+        headerWords.add(normalize(field.key));
+        headerWords.add(normalize(field.label));
+    }
+
+    const entries = nonEmptyEntries(data);
+    const matches = entries.filter(([key, value]) => {
+        const word = normalize(String(value));
+        return word !== '' && (word === normalize(key) || headerWords.has(word));
+    }).length;
+
+    return matches >= 2 && matches >= entries.length / 2;
+}
+
+/**
+ * Same values on the same keys (a row both chunks extracted)
+ */
+function isSameRow(a: Record<string, string>, b: Record<string, string>): boolean {
+    const entriesA = nonEmptyEntries(a);
+    const entriesB = nonEmptyEntries(b);
+    if (entriesA.length === 0 || entriesA.length !== entriesB.length) return false;
+
+    return entriesA.every(([key, value]) =>
+        b[key] !== undefined && normalize(String(b[key])) === normalize(String(value))
+    );
+}
+
+/**
+ * Check whether two boundary products are halves of one row:
+ * at least one is partial and they don't contradict each other.
+ */
+function canStitch(
+    a: Record<string, string>,
+    b: Record<string, string>,
+    fields: FieldConfig[],
+    typicalSize: number
+): boolean {
+    const entriesA = nonEmptyEntries(a);
+    const entriesB = nonEmptyEntries(b);
+    if (entriesA.length === 0 || entriesB.length === 0) return false;
+
+    // Conflicting values on a shared key mean two different rows
+    for (const [key, value] of entriesA) {
+        const other = b[key];
+        if (other !== undefined && String(other).trim() !== '' && normalize(String(other)) !== normalize(String(value))) {
+            return false;
+        }
+    }
+
+    const required = fields.filter(f => f.required && f.source !== 'computed').map(f => f.key);
+    const isPartial = (data: Record<string, string>, size: number) =>
+        required.length > 0
+            ? required.some(key => !data[key] || String(data[key]).trim() === '')
+            : size < typicalSize * PARTIAL_ROW_RATIO;
+
+    return isPartial(a, entriesA.length) || isPartial(b, entriesB.length);
+}
+
+function mergePages(a?: PageRange, b?: PageRange): PageRange | undefined {
+    if (!a || !b) return a || b;
+    return { start: Math.min(a.start, b.start), end: Math.max(a.end, b.end) };
+}
+
+/**
+ * Merge page-range extractions (in page order) into one product list
+ * @param chunks Extraction result per chunk
+ * @param fields Profile fields, used for header detection and required keys
+ */
+export function mergeChunks(
+    chunks: ChunkExtraction[],
+    fields: FieldConfig[] = []
+): ExtractedProductWithMeta[] {
+    const sizes = chunks
+        .flatMap(c => c.products)
+        .map(p => nonEmptyEntries(p.data).length)
+        .sort((a, b) => a - b);
+    const typicalSize = sizes.length > 0 ? sizes[Math.floor(sizes.length / 2)] : 0;
+
+    const merged: ExtractedProductWithMeta[] = [];
+    let removedHeaders = 0;
+    let stitched = 0;
+    let duplicates = 0;
+
+    chunks.forEach((chunk, chunkIndex) => {
+        const products = chunk.products
+            .filter(p => {
+                const header = isHeaderRow(p.data, fields);
+                if (header) removedHeaders++;
+                return !header;
+            })
+            .map((p): ExtractedProductWithMeta => ({
+                ...p,
+                source_pages: chunk.pages,
+                sources: offsetFieldSources(p.sources, chunk.pages.start - 1),
+                needs_checking: p.needs_checking?.map(flag => ({
+                    ...flag,
+                    reason: `${flag.reason} (${formatPages(chunk.pages)})`,
+                    source_pages: chunk.pages,
+                })),
+            }));
+
+        if (products.length === 0) return;
+
+        // Only the first row of a chunk can continue the previous chunk's last row
+        const previous = merged[merged.length - 1];
+        const first = products[0];
+
+        if (chunkIndex > 0 && previous) {
+            const flags = [...(previous.needs_checking || []), ...(first.needs_checking || [])];
+
+            if (isSameRow(previous.data, first.data)) {
+                merged[merged.length - 1] = {
+                    ...previous,
+                    needs_checking: flags.length > 0 ? flags : undefined,
+                    sources: previous.sources || first.sources,
+                    source_pages: mergePages(previous.source_pages, first.source_pages),
+                };
+                products.shift();
+                duplicates++;
+            } else if (canStitch(previous.data, first.data, fields, typicalSize)) {
+                const pages = mergePages(previous.source_pages, first.source_pages)!;
+                const continuedKeys = nonEmptyEntries(first.data)
+                    .map(([key]) => key)
+                    .filter(key => !previous.data[key] || String(previous.data[key]).trim() === '');
+
+                const stitchFlag: NeedsCheckingFlag = {
+                    field: continuedKeys[0] || nonEmptyEntries(first.data)[0][0],
+                    reason: `Row continued across a page break and was merged automatically (${formatPages(pages)})`,
+                    source_pages: pages,
+                };
+
+                merged[merged.length - 1] = {
+                    data: { ...first.data, ...Object.fromEntries(nonEmptyEntries(previous.data)) },
+                    needs_checking: [...flags, stitchFlag],
+                    source_pages: pages,
+                    sources: previous.sources || first.sources
+                        ? { ...first.sources, ...previous.sources }
+                        : undefined,
+                };
+                products.shift();
+                stitched++;
+            }
+        }
+
+        merged.push(...products);
+    });
+
+    console.log(`[Chunk Merger] ${chunks.length} chunks → ${merged.length} products (${removedHeaders} header rows removed, ${stitched} rows stitched, ${duplicates} duplicates removed)`);
+
+    return merged;
+}
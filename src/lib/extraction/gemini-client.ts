@@ -5,6 +5,7 @@
 
 import { GoogleGenAI } from "@google/genai";
 import type { ExtractionResult, ExtractedProductWithMeta, NeedsCheckingFlag } from './types';
+import { parseFieldSources } from './provenance';
 
 // Available Gemini 3 models for vision
 const DEFAULT_MODEL = "gemini-3-flash-preview";
@@ -129,12 +130,12 @@ export async function extractWithGemini(
             // Build data object from all other fields
             const data: Record<string, string> = {};
             for (const [key, value] of Object.entries(p)) {
-                if (key !== 'needs_checking') {
+                if (key !== 'needs_checking' && key !== 'sources') {
                     data[key] = String(value || "");
                 }
             }
 
-            return { data, needs_checking: needsChecking };
+            return { data, needs_checking: needsChecking, sources: parseFieldSources(p.sources) };
         });
     } catch (parseError) {
         console.error("[Gemini Vision] Failed to parse response:", parseError);
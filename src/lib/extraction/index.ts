@@ -10,6 +10,8 @@
 import { extractWithOpenAI } from './openai-client';
 import { extractWithGemini } from './gemini-client';
 import { extractWithAISDK, type FieldConfig } from './ai-sdk-extraction';
+import { splitPdf, DEFAULT_PAGES_PER_CHUNK } from './pdf-chunker';
+import { mergeChunks } from './chunk-merger';
 import type { ExtractionResult, VisionModel } from './types';
 
 export { 
@@ -17,6 +19,7 @@ export {
     type ExtractedProduct, 
     type ExtractedProductWithMeta, 
     type NeedsCheckingFlag, 
+    type PageRange,
     type VisionModel, 
     type VisionProvider, 
     VISION_MODELS,
@@ -26,6 +29,7 @@ export {
     DEFAULT_SPARK_MODEL,
 } from './types';
 export { getPromptForProfile, type PromptOptions } from './prompt-builder';
+export { DEFAULT_PAGES_PER_CHUNK } from './pdf-chunker';
 export type { ProcessingProfile } from './prompt-builder';
 
 /**
@@ -38,12 +42,23 @@ export type ExtractionFieldConfig = FieldConfig;
  * Extraction options
  */
 interface ExtractProductsOptions {
-    /** Profile fields for AI SDK mode with Zod schema generation */
+    /**
+     * Profile fields for AI SDK mode with Zod schema generation.
+     * Also used to recognise repeated header rows and partial rows when merging chunks.
+     */
     fields?: ExtractionFieldConfig[];
     /** Force legacy extraction mode (ignores fields even if provided) */
     forceLegacy?: boolean;
+    /** Pages per extraction call (default DEFAULT_PAGES_PER_CHUNK) */
+    pagesPerChunk?: number;
+    /** Chunks extracted in parallel (default 3) */
+    concurrency?: number;
+    /** Called after each chunk finished */
+    onChunkComplete?: (completed: number, total: number) => void | Promise<void>;
 }
 
+const DEFAULT_CONCURRENCY = 3;
+
 /**
  * Extract products from PDF using the specified vision model
  * 
@@ -51,6 +66,10 @@ interface ExtractProductsOptions {
  * - AI SDK mode (recommended): Pass `options.fields` to use generateObject with Zod schemas
  * - Legacy mode: Omit `options.fields` to use direct provider calls
  * 
+ * PDFs longer than `pagesPerChunk` pages are split into page ranges that are
+ * extracted in parallel and merged (see chunk-merger.ts), so long order
+ * confirmations don't run into output token limits.
+ * 
  * @param pdfBuffer PDF file as Buffer
  * @param systemPrompt System prompt from processing profile
  * @param model Vision model to use (defaults to gemini-3-flash)
@@ -61,6 +80,80 @@ export async function extractProducts(
     systemPrompt: string,
     model: VisionModel = "gemini-3-flash",
     options?: ExtractProductsOptions
+): Promise<ExtractionResult> {
+    const { pagesPerChunk = DEFAULT_PAGES_PER_CHUNK, concurrency = DEFAULT_CONCURRENCY, onChunkComplete } = options || {};
+
+    const chunks = await splitPdf(pdfBuffer, pagesPerChunk);
+    if (chunks.length === 1) {
+        const result = await extractChunk(pdfBuffer, systemPrompt, model, options);
+        await onChunkComplete?.(1, 1);
+        return result;
+    }
+
+    const totalPages = chunks[chunks.length - 1].pages.end;
+    console.log(`[Extraction] Splitting ${totalPages} pages into ${chunks.length} chunks of ${pagesPerChunk}`);
+
+    // Extract chunks with limited parallelism, keeping page order
+    const results: ExtractionResult[] = new Array(chunks.length);
+    let next = 0;
+    let completed = 0;
+
+    const worker = async () => {
+        while (next < chunks.length) {
+            const index = next++;
+            const { buffer, pages } = chunks[index];
+            const chunkPrompt = `${systemPrompt}
+
+## Document Section
+You are given pages ${pages.start}-${pages.end} of a ${totalPages}-page document.
+- Extract every product row visible on these pages.
+- If the first row continues a row from the previous page, or the last row continues on the next page, extract the visible part as its own product.
+- Do not extract repeated table header rows as products.
+- Count source pages from 1 within this section: page ${pages.start} of the document is page 1.`;
+
+            try {
+                results[index] = await extractChunk(buffer, chunkPrompt, model, options);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new Error(`Extraction failed for pages ${pages.start}-${pages.end}: ${message}`);
+            }
+            await onChunkComplete?.(++completed, chunks.length);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+    const products = mergeChunks(
+        chunks.map((chunk, i) => ({ pages: chunk.pages, products: results[i].products })),
+        options?.fields
+    );
+
+    const usage = results.every(r => r.usage)
+        ? results.reduce(
+            (sum, r) => ({
+                promptTokens: sum.promptTokens + r.usage!.promptTokens,
+                completionTokens: sum.completionTokens + r.usage!.completionTokens,
+                totalTokens: sum.totalTokens + r.usage!.totalTokens,
+            }),
+            { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+        )
+        : undefined;
+
+    return {
+        products,
+        rawResponse: results.map(r => r.rawResponse).join('\n'),
+        usage,
+    };
+}
+
+/**
+ * Extract products from a single PDF (or chunk) with the selected provider
+ */
+async function extractChunk(
+    pdfBuffer: Buffer,
+    systemPrompt: string,
+    model: VisionModel,
+    options?: ExtractProductsOptions
 ): Promise<ExtractionResult> {
     const { fields, forceLegacy } = options || {};
     
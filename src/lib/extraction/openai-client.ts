@@ -4,6 +4,7 @@
  */
 
 import type { ExtractionResult, ExtractedProductWithMeta, NeedsCheckingFlag } from './types';
+import { parseFieldSources } from './provenance';
 
 const OPENAI_RESPONSES_API_URL = "https://api.openai.com/v1/responses";
 
@@ -140,12 +141,12 @@ export async function extractWithOpenAI(
             // Build data object from all other fields
             const data: Record<string, string> = {};
             for (const [key, value] of Object.entries(p)) {
-                if (key !== 'needs_checking') {
+                if (key !== 'needs_checking' && key !== 'sources') {
                     data[key] = String(value || "");
                 }
             }
 
-            return { data, needs_checking: needsChecking };
+            return { data, needs_checking: needsChecking, sources: parseFieldSources(p.sources) };
         });
     } catch (parseError) {
         console.error("[OpenAI Vision] Failed to parse response:", parseError);
@@ -0,0 +1,57 @@
+/**
+ * PDF Chunker
+ * Splits multi-page PDFs into page ranges so each extraction call stays
+ * well below the model's output token limit.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import type { PageRange } from './types';
+
+/** Pages per extraction call - dense order tables fill ~40 rows per page */
+export const DEFAULT_PAGES_PER_CHUNK = 3;
+
+export interface PdfChunk {
+    buffer: Buffer;
+    pages: PageRange;
+}
+
+/**
+ * Split a PDF into consecutive page ranges
+ * @param pdfBuffer PDF file as Buffer
+ * @param pagesPerChunk Maximum pages per chunk
+ * @returns One chunk per page range; a single chunk with the original
+ *          buffer if the PDF fits in one chunk or cannot be parsed
+ */
+export async function splitPdf(
+    pdfBuffer: Buffer,
+    pagesPerChunk: number = DEFAULT_PAGES_PER_CHUNK
+): Promise<PdfChunk[]> {
+    let source: PDFDocument;
+    try {
+        source = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+    } catch {
+        return [{ buffer: pdfBuffer, pages: { start: 1, end: 1 } }];
+    }
+
+    const pageCount = source.getPageCount();
+    if (pageCount <= pagesPerChunk) {
+        return [{ buffer: pdfBuffer, pages: { start: 1, end: Math.max(pageCount, 1) } }];
+    }
+
+    const chunks: PdfChunk[] = [];
+    for (let start = 0; start < pageCount; start += pagesPerChunk) {
+        const end = Math.min(start + pagesPerChunk, pageCount);
+        const indices = Array.from({ length: end - start }, (_, i) => start + i);
+
+        const chunk = await PDFDocument.create();
+        const pages = await chunk.copyPages(source, indices);
+        pages.forEach(page => chunk.addPage(page));
+
+        chunks.push({
+            buffer: Buffer.from(await chunk.save()),
+            pages: { start: start + 1, end },
+        });
+    }
+
+    return chunks;
+}
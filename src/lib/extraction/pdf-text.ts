@@ -0,0 +1,38 @@
+/**
+ * PDF Text Layer
+ * Reads the embedded text of PDF pages with pdf.js (no AI, no OCR).
+ * Scanned documents without a text layer return an empty string.
+ */
+
+/**
+ * Extract the text of the first pages of a PDF
+ * @param pdfBuffer PDF file as Buffer
+ * @param maxPages Number of pages to read from the start
+ */
+export async function extractPdfText(pdfBuffer: Buffer, maxPages: number = 1): Promise<string> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+    try {
+        const doc = await pdfjs.getDocument({
+            data: new Uint8Array(pdfBuffer),
+            isEvalSupported: false,
+            useSystemFonts: false,
+            verbosity: 0,
+        }).promise;
+
+        const pages: string[] = [];
+        for (let pageNumber = 1; pageNumber <= Math.min(maxPages, doc.numPages); pageNumber++) {
+            const page = await doc.getPage(pageNumber);
+            const content = await page.getTextContent();
+            pages.push(content.items
+                .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+                .join(''));
+        }
+
+        await doc.destroy();
+        return pages.join('\n');
+    } catch (error) {
+        console.error('[PDF Text] Failed to read text layer:', error);
+        return '';
+    }
+}
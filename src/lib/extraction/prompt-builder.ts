@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { SOURCE_LOCATION_INSTRUCTIONS } from './provenance';
 
 /**
  * Field configuration from processing profile
@@ -127,6 +128,10 @@ The goal is automated ingestion into ERP/shop systems where each entry represent
 - Interpret size grids, variant tables, or grouped data as individual items
 - Example: A row showing "Jacket" with quantities for S, M, L becomes THREE entries, not one with quantity summed`;
 
+    prompt += `
+
+${SOURCE_LOCATION_INSTRUCTIONS}`;
+
     // Add reasoning instructions when enabled
     if (options?.enableReasoning) {
         prompt += `
@@ -177,6 +182,8 @@ function buildJsonSchema(fields: FieldConfig[], includeNeedsChecking?: boolean):
         example.needs_checking = [{ field: '', reason: '' }];
     }
 
+    example.sources = [{ field: '', page: 1, box: [0, 0, 0, 0] }];
+
     return {
         products: [example]
     };
@@ -236,7 +243,9 @@ Important:
 - Extract ALL products shown
 - Use empty string "" for missing fields
 - Include currency symbols with prices
-- Be precise, don't infer`;
+- Be precise, don't infer
+
+${SOURCE_LOCATION_INSTRUCTIONS}`;
 
     if (options?.enableReasoning) {
         prompt += `
@@ -0,0 +1,67 @@
+/**
+ * Field Provenance
+ * Parses the per-field source locations the model returns next to each
+ * product ("sources": [{ field, page, box }]) into FieldSources.
+ */
+
+import type { FieldSource, FieldSources } from '@/types';
+
+/** Prompt section asking the model for source locations */
+export const SOURCE_LOCATION_INSTRUCTIONS = `## Source Locations
+For every product include a "sources" array with one entry per extracted field:
+{ "field": "<field key>", "page": <1-based page number>, "box": [x0, y0, x1, y1] }
+The box is the approximate region of the value on the page as fractions (0-1) of page width and height, measured from the top-left corner.
+Omit entries for fields that are empty.`;
+
+function clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
+function parseBox(value: unknown): FieldSource['box'] | undefined {
+    if (!Array.isArray(value) || value.length !== 4) return undefined;
+
+    const numbers = value.map(Number);
+    if (numbers.some(n => !Number.isFinite(n))) return undefined;
+
+    // Some models answer in percent - scale down when every coordinate is > 1
+    const scaled = numbers.every(n => n <= 1) ? numbers : numbers.map(n => n / 100);
+    const [x0, y0, x1, y1] = scaled.map(clamp);
+
+    if (x0 === x1 || y0 === y1) return undefined;
+    return [Math.min(x0, x1), Math.min(y0, y1), Math.max(x0, x1), Math.max(y0, y1)];
+}
+
+/**
+ * Parse the "sources" array of an extracted product
+ * @returns Source per field key, or undefined if nothing usable was returned
+ */
+export function parseFieldSources(value: unknown): FieldSources | undefined {
+    if (!Array.isArray(value)) return undefined;
+
+    const sources: FieldSources = {};
+    for (const entry of value) {
+        if (!entry || typeof entry !== 'object') continue;
+        const { field, page, box } = entry as Record<string, unknown>;
+
+        const pageNumber = Number(page);
+        if (typeof field !== 'string' || !field || !Number.isInteger(pageNumber) || pageNumber < 1) {
+            continue;
+        }
+
+        sources[field] = { page: pageNumber, box: parseBox(box) };
+    }
+
+    return Object.keys(sources).length > 0 ? sources : undefined;
+}
+
+/**
+ * Shift page numbers of sources extracted from a page-range chunk
+ * @param offset Pages before the chunk (chunk start page - 1)
+ */
+export function offsetFieldSources(sources: FieldSources | undefined, offset: number): FieldSources | undefined {
+    if (!sources || offset === 0) return sources;
+
+    return Object.fromEntries(
+        Object.entries(sources).map(([field, source]) => [field, { ...source, page: source.page + offset }])
+    );
+}
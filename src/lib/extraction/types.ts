@@ -2,6 +2,8 @@
  * Shared types for extraction clients
  */
 
+import type { FieldSources } from '@/types';
+
 /**
  * Uncertainty flag for a field that the AI is not 100% confident about.
  * Used in human-in-the-loop validation to highlight fields needing review.
@@ -9,6 +11,16 @@
 export interface NeedsCheckingFlag {
     field: string;
     reason: string;
+    /** Pages of the chunk the flag was raised in (chunked extraction only) */
+    source_pages?: PageRange;
+}
+
+/**
+ * 1-based, inclusive page range of a PDF
+ */
+export interface PageRange {
+    start: number;
+    end: number;
 }
 
 /**
@@ -18,6 +30,10 @@ export interface NeedsCheckingFlag {
 export interface ExtractedProductWithMeta {
     data: Record<string, string>;
     needs_checking?: NeedsCheckingFlag[];
+    /** Pages the product was extracted from (chunked extraction only) */
+    source_pages?: PageRange;
+    /** Page and region of each extracted field */
+    sources?: FieldSources;
 }
 
 // Legacy alias for backward compatibility
@@ -0,0 +1,175 @@
+/**
+ * GTIN / EAN Codes
+ * Check digit validation for EAN-8, UPC-A (GTIN-12), EAN-13 and GTIN-14,
+ * detection of spreadsheet-mangled codes and repair suggestions for the
+ * digit errors vision extraction typically makes.
+ * Pure functions - used by the pipeline on the server and the grid in the browser.
+ */
+
+import type { FieldDefinition } from '@/types';
+
+export type GtinFormat = 'EAN-8' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+const FORMATS_BY_LENGTH: Record<number, GtinFormat> = {
+    8: 'EAN-8',
+    12: 'UPC-A',
+    13: 'EAN-13',
+    14: 'GTIN-14',
+};
+
+/** Field keys treated as GTINs even without a `gtin` validation rule */
+const GTIN_KEY_PATTERN = /(^|_)(ean|ean13|gtin|upc|barcode)($|_)/i;
+
+/** "4.00E+12" - what spreadsheets make of long numbers */
+const SCIENTIFIC_NOTATION = /^\d+(?:[.,]\d+)?e\+?\d+$/i;
+
+export type GtinCorrectionKind = 'transposition' | 'substitution' | 'insertion';
+
+export interface GtinCorrection {
+    value: string;
+    kind: GtinCorrectionKind;
+}
+
+export type GtinCheck =
+    | { status: 'valid'; format: GtinFormat; value: string }
+    | { status: 'invalid'; reason: string; corrections: GtinCorrection[] }
+    | { status: 'mangled'; reason: string };
+
+/**
+ * Strip the separators that appear in printed codes ("400 6381 33393 1")
+ */
+export function normalizeGtin(value: unknown): string {
+    return String(value ?? '').trim().replace(/[\s-]/g, '');
+}
+
+export function getGtinFormat(code: string): GtinFormat | null {
+    return /^\d+$/.test(code) ? FORMATS_BY_LENGTH[code.length] ?? null : null;
+}
+
+/**
+ * GS1 check digit for a code without its check digit
+ */
+export function calculateCheckDigit(body: string): number {
+    // Weights alternate 3, 1, 3, ... starting next to the check digit
+    let sum = 0;
+    for (let i = 0; i < body.length; i++) {
+        const digit = Number(body[body.length - 1 - i]);
+        sum += digit * (i % 2 === 0 ? 3 : 1);
+    }
+    return (10 - (sum % 10)) % 10;
+}
+
+export function isValidGtin(value: unknown): boolean {
+    const code = normalizeGtin(value);
+    if (!getGtinFormat(code)) return false;
+    return calculateCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Whether a value is a GTIN that a spreadsheet turned into scientific notation
+ */
+export function isScientificNotation(value: unknown): boolean {
+    return SCIENTIFIC_NOTATION.test(String(value ?? '').trim());
+}
+
+/**
+ * Codes one typical extraction error away from the value that have a valid
+ * check digit: two swapped neighbouring digits, one misread digit, or one
+ * dropped digit. Transpositions come first as they are the most specific.
+ */
+export function findGtinCorrections(value: unknown): GtinCorrection[] {
+    const code = normalizeGtin(value);
+    if (!/^\d+$/.test(code)) return [];
+
+    const seen = new Set<string>([code]);
+    const corrections: GtinCorrection[] = [];
+    const add = (candidate: string, kind: GtinCorrectionKind) => {
+        if (seen.has(candidate) || !isValidGtin(candidate)) return;
+        seen.add(candidate);
+        corrections.push({ value: candidate, kind });
+    };
+
+    if (getGtinFormat(code)) {
+        for (let i = 0; i < code.length - 1; i++) {
+            if (code[i] === code[i + 1]) continue;
+            add(code.slice(0, i) + code[i + 1] + code[i] + code.slice(i + 2), 'transposition');
+        }
+        for (let i = 0; i < code.length; i++) {
+            for (let digit = 0; digit <= 9; digit++) {
+                add(code.slice(0, i) + digit + code.slice(i + 1), 'substitution');
+            }
+        }
+    }
+
+    // One digit short of an EAN (a GTIN-14 is rarely what a 13-digit code was meant to be)
+    if (code.length === 7 || code.length === 12) {
+        for (let i = 0; i <= code.length; i++) {
+            for (let digit = 0; digit <= 9; digit++) {
+                add(code.slice(0, i) + digit + code.slice(i), 'insertion');
+            }
+        }
+    }
+
+    return corrections;
+}
+
+/**
+ * Check a GTIN value and explain what is wrong with it
+ */
+export function checkGtin(value: unknown): GtinCheck {
+    if (isScientificNotation(value)) {
+        return {
+            status: 'mangled',
+            reason: `Code was converted to scientific notation (${String(value).trim()}) by a spreadsheet - the original digits are lost`,
+        };
+    }
+
+    const code = normalizeGtin(value);
+    const format = getGtinFormat(code);
+
+    if (format && isValidGtin(code)) {
+        return { status: 'valid', format, value: code };
+    }
+
+    const reason = !/^\d+$/.test(code)
+        ? 'Code contains characters other than digits'
+        : format
+            ? `Check digit of the ${format} code is invalid`
+            : `Code has ${code.length} digits - expected 8, 12, 13 or 14`;
+
+    return { status: 'invalid', reason, corrections: findGtinCorrections(code) };
+}
+
+/**
+ * Whether a profile field holds GTINs: it has a `gtin` rule or an EAN/GTIN-like key
+ */
+export function isGtinField(field: Pick<FieldDefinition, 'key' | 'validation'>): boolean {
+    return !!field.validation?.some(rule => rule.type === 'gtin') || GTIN_KEY_PATTERN.test(field.key);
+}
+
+/**
+ * Uncertainty flags for the invalid GTINs of a product, in the
+ * `_needs_checking` format used by extraction
+ * @param keys Only check these fields (default: all GTIN fields)
+ */
+export function getGtinFlags(
+    product: Record<string, unknown>,
+    fields: Array<Pick<FieldDefinition, 'key' | 'validation'>>,
+    keys?: Set<string>
+): Array<{ field: string; reason: string }> {
+    const flags: Array<{ field: string; reason: string }> = [];
+
+    for (const field of fields) {
+        if (!isGtinField(field) || (keys && !keys.has(field.key))) continue;
+
+        const value = product[field.key];
+        if (value === undefined || value === null || String(value).trim() === '') continue;
+
+        const result = checkGtin(value);
+        if (result.status !== 'valid') {
+            flags.push({ field: field.key, reason: result.reason });
+        }
+    }
+
+    return flags;
+}
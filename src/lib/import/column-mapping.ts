@@ -0,0 +1,155 @@
+/**
+ * Column Mapping
+ * Maps the columns of a supplier's CSV/XLSX file to profile field keys.
+ * Mappings confirmed on import are remembered on the profile by header set,
+ * so the next file with the same columns maps automatically.
+ */
+
+import type { ColumnMapping, FieldDefinition, RawExtractedProduct, SavedColumnMapping } from '@/types';
+import type { ParsedCSV } from './csv-parser';
+
+/** Saved mappings kept per profile (oldest are dropped first) */
+const MAX_SAVED_MAPPINGS = 25;
+
+/** Share of a saved mapping's headers a file must contain to reuse it */
+const MIN_HEADER_OVERLAP = 0.8;
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9äöüß]/g, '');
+}
+
+function headerSet(headers: string[]): Set<string> {
+    return new Set(headers.map(normalizeHeader).filter(Boolean));
+}
+
+/**
+ * Find the saved mapping for a file's columns: an identical header set,
+ * or else the mapping whose headers the file covers best.
+ */
+export function findSavedMapping(
+    headers: string[],
+    saved: SavedColumnMapping[] = []
+): SavedColumnMapping | undefined {
+    const fileHeaders = headerSet(headers);
+    let best: { mapping: SavedColumnMapping; overlap: number } | undefined;
+
+    for (const candidate of saved) {
+        const candidateHeaders = headerSet(candidate.headers);
+        if (candidateHeaders.size === 0) continue;
+
+        const shared = [...candidateHeaders].filter(h => fileHeaders.has(h)).length;
+        if (shared === candidateHeaders.size && shared === fileHeaders.size) {
+            return candidate;
+        }
+
+        const overlap = shared / Math.max(candidateHeaders.size, fileHeaders.size);
+        if (overlap >= MIN_HEADER_OVERLAP && (!best || overlap > best.overlap)) {
+            best = { mapping: candidate, overlap };
+        }
+    }
+
+    return best?.mapping;
+}
+
+/**
+ * Suggest a mapping for a file's columns.
+ * Uses the saved mapping for these columns when there is one, otherwise
+ * matches headers against field keys and labels.
+ */
+export function suggestColumnMapping(
+    headers: string[],
+    fields: Pick<FieldDefinition, 'key' | 'label' | 'source'>[],
+    saved: SavedColumnMapping[] = []
+): { mapping: ColumnMapping; source: 'saved' | 'suggested' } {
+    const fieldKeys = new Set(fields.map(f => f.key));
+    const previous = findSavedMapping(headers, saved);
+
+    if (previous) {
+        const byNormalized = new Map(
+            Object.entries(previous.mapping).map(([header, key]) => [normalizeHeader(header), key])
+        );
+        const mapping: ColumnMapping = {};
+        for (const header of headers) {
+            const key = byNormalized.get(normalizeHeader(header));
+            // Fields may have been removed from the profile since
+            if (key && fieldKeys.has(key)) mapping[header] = key;
+        }
+        return { mapping, source: 'saved' };
+    }
+
+    const candidates = fields.filter(f => f.source !== 'computed');
+    const mapping: ColumnMapping = {};
+    const used = new Set<string>();
+
+    for (const header of headers) {
+        const normalized = normalizeHeader(header);
+        if (!normalized) continue;
+
+        const match = candidates.find(f =>
+            !used.has(f.key) &&
+            (normalizeHeader(f.key) === normalized || normalizeHeader(f.label) === normalized)
+        );
+        if (match) {
+            mapping[header] = match.key;
+            used.add(match.key);
+        }
+    }
+
+    return { mapping, source: 'suggested' };
+}
+
+/**
+ * Turn parsed rows into raw products keyed by profile field
+ * (unmapped columns and empty rows are dropped)
+ */
+export function applyColumnMapping(
+    rows: Record<string, string>[],
+    mapping: ColumnMapping
+): RawExtractedProduct[] {
+    const products: RawExtractedProduct[] = [];
+
+    for (const row of rows) {
+        const product: Record<string, string> = {};
+        for (const [header, key] of Object.entries(mapping)) {
+            const value = row[header]?.trim();
+            if (!key || !value) continue;
+            // Several columns mapped to one field are joined (e.g. two description columns)
+            product[key] = product[key] ? `${product[key]} ${value}` : value;
+        }
+        if (Object.keys(product).length > 0) {
+            products.push(product);
+        }
+    }
+
+    return products;
+}
+
+/**
+ * Add or replace the saved mapping for a header set
+ * @returns Updated list to store on the profile
+ */
+export function rememberColumnMapping(
+    saved: SavedColumnMapping[] = [],
+    headers: string[],
+    mapping: ColumnMapping
+): SavedColumnMapping[] {
+    const key = [...headerSet(headers)].sort().join('|');
+    const others = saved.filter(m => [...headerSet(m.headers)].sort().join('|') !== key);
+
+    const entry: SavedColumnMapping = {
+        headers,
+        mapping: Object.fromEntries(Object.entries(mapping).filter(([, fieldKey]) => fieldKey)),
+        updated_at: new Date().toISOString(),
+    };
+
+    return [...others, entry].slice(-MAX_SAVED_MAPPINGS);
+}
+
+/**
+ * Text used to recognize the supplier of a tabular file:
+ * the header row plus the first rows (supplier name, VAT ID columns)
+ */
+export function tabularSupplierText(parsed: ParsedCSV, rowCount: number = 5): string {
+    const rows = parsed.rows.slice(0, rowCount).map(row => Object.values(row).join(' '));
+    return [parsed.headers.join(' '), ...rows].join('\n');
+}
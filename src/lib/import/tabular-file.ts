@@ -0,0 +1,47 @@
+/**
+ * Tabular File Intake
+ * Detects CSV/XLSX uploads and parses them without AI extraction.
+ */
+
+import { parseCSV, type ParsedCSV } from './csv-parser';
+import { parseXLSX } from './xlsx-reader';
+
+export type TabularFormat = 'csv' | 'xlsx';
+
+const CSV_TYPES = new Set(['text/csv', 'text/plain', 'application/csv']);
+const XLSX_TYPES = new Set([
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+]);
+
+/**
+ * Detect a tabular upload by extension, then content type
+ * @returns Format, or null for documents that need extraction (PDF)
+ */
+export function getTabularFormat(fileName: string, contentType?: string): TabularFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'csv' || extension === 'tsv' || extension === 'txt') return 'csv';
+    if (extension === 'xlsx' || extension === 'xls') return 'xlsx';
+    if (extension === 'pdf') return null;
+
+    if (contentType && CSV_TYPES.has(contentType)) return 'csv';
+    if (contentType && XLSX_TYPES.has(contentType)) return 'xlsx';
+    return null;
+}
+
+/**
+ * Decode CSV bytes: UTF-8 (with or without BOM), falling back to
+ * Windows-1252 which many ERP exports still use.
+ */
+function decodeText(buffer: Buffer): string {
+    const utf8 = new TextDecoder('utf-8').decode(buffer);
+    const text = utf8.includes('\uFFFD') ? new TextDecoder('windows-1252').decode(buffer) : utf8;
+    return text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * Parse a CSV or XLSX file into headers and rows
+ */
+export function parseTabularFile(buffer: Buffer, format: TabularFormat): ParsedCSV {
+    return format === 'xlsx' ? parseXLSX(buffer) : parseCSV(decodeText(buffer));
+}
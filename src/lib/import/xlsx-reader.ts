@@ -0,0 +1,68 @@
+/**
+ * XLSX Reader Utility
+ * Reads the first worksheet of an Excel file into the same shape as parseCSV.
+ */
+
+import * as XLSX from 'xlsx';
+import type { ParsedCSV } from './csv-parser';
+
+export interface ReadXLSXOptions {
+    /** Sheet name to read (defaults to the first sheet) */
+    sheet?: string;
+}
+
+/**
+ * Text of a cell. Whole numbers use the raw value so long codes (EAN, article
+ * numbers) aren't turned into the scientific notation of the display format.
+ */
+function cellText(cell: XLSX.CellObject | undefined): string {
+    if (!cell || cell.v === undefined || cell.v === null) return '';
+    if (cell.t === 'n' && Number.isInteger(cell.v)) return String(cell.v);
+    return (cell.w ?? String(cell.v)).trim();
+}
+
+/**
+ * Parse an XLSX/XLS workbook into headers and rows.
+ * The first non-empty row is used as header row.
+ */
+export function parseXLSX(data: ArrayBuffer | Buffer, options?: ReadXLSXOptions): ParsedCSV {
+    const workbook = XLSX.read(data, { type: Buffer.isBuffer(data) ? 'buffer' : 'array' });
+    const sheetName = options?.sheet || workbook.SheetNames[0];
+    const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+
+    if (!sheet || !sheet['!ref']) {
+        return { headers: [], rows: [] };
+    }
+
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const lines: string[][] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+        const line: string[] = [];
+        for (let c = range.s.c; c <= range.e.c; c++) {
+            line.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })]));
+        }
+        if (line.some(value => value !== '')) {
+            lines.push(line);
+        }
+    }
+
+    if (lines.length === 0) {
+        return { headers: [], rows: [] };
+    }
+
+    // Drop trailing columns without a header
+    const headers = lines[0];
+    while (headers.length > 0 && headers[headers.length - 1] === '') {
+        headers.pop();
+    }
+
+    const rows = lines.slice(1).map(values => {
+        const row: Record<string, string> = {};
+        headers.forEach((header, idx) => {
+            if (header) row[header] = values[idx] || '';
+        });
+        return row;
+    });
+
+    return { headers: headers.filter(Boolean), rows };
+}
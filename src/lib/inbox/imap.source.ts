@@ -0,0 +1,76 @@
+/**
+ * IMAP Mail Source
+ * Reads unseen messages of one mailbox folder and flags them \Seen once handled.
+ */
+
+import { ImapFlow } from 'imapflow';
+import type { MailSource, MailSourceConfig, MessageHandler } from './mail-source.interface';
+import { parseMessage } from './parse-message';
+
+export class ImapMailSource implements MailSource {
+    readonly name = 'imap';
+    private config: Required<Pick<MailSourceConfig, 'host' | 'port' | 'secure' | 'user' | 'password' | 'mailbox'>>;
+
+    constructor(config: MailSourceConfig = {}) {
+        const host = config.host || process.env.IMAP_HOST;
+        const user = config.user || process.env.IMAP_USER;
+        const password = config.password || process.env.IMAP_PASSWORD;
+
+        if (!host || !user || !password) {
+            throw new Error('IMAP_HOST, IMAP_USER and IMAP_PASSWORD are required for the imap inbox');
+        }
+
+        this.config = {
+            host,
+            user,
+            password,
+            port: config.port || Number(process.env.IMAP_PORT) || 993,
+            secure: config.secure ?? process.env.IMAP_TLS !== 'false',
+            mailbox: config.mailbox || process.env.IMAP_MAILBOX || 'INBOX',
+        };
+    }
+
+    async poll(handler: MessageHandler, limit: number): Promise<number> {
+        const client = new ImapFlow({
+            host: this.config.host,
+            port: this.config.port,
+            secure: this.config.secure,
+            auth: { user: this.config.user, pass: this.config.password },
+            logger: false,
+        });
+
+        await client.connect();
+        const lock = await client.getMailboxLock(this.config.mailbox);
+        let handled = 0;
+
+        try {
+            const uids = (await client.search({ seen: false }, { uid: true })) || [];
+
+            for (const uid of uids.slice(0, limit)) {
+                const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+                if (!message || !message.source) continue;
+
+                try {
+                    await handler(await parseMessage(message.source));
+                } catch (error) {
+                    console.error(`[Inbox] Message ${uid} left unread:`, error);
+                    continue;
+                }
+                await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+                handled++;
+            }
+        } finally {
+            lock.release();
+            await client.logout();
+        }
+
+        return handled;
+    }
+}
+
+/**
+ * Factory function for creating an IMAP mail source
+ */
+export function createImapSource(config?: MailSourceConfig): MailSource {
+    return new ImapMailSource(config);
+}
@@ -0,0 +1,36 @@
+/**
+ * Inbox Module
+ * Email ingestion of order confirmations (INBOX_PROVIDER env: imap or maildir).
+ */
+
+import type { MailSource, MailSourceConfig } from './mail-source.interface';
+import { createImapSource } from './imap.source';
+import { createMaildirSource } from './maildir.source';
+
+export type MailSourceType = 'imap' | 'maildir';
+
+/**
+ * Registry of mail source factory functions
+ */
+const sourceFactories: Record<MailSourceType, (config?: MailSourceConfig) => MailSource> = {
+    imap: createImapSource,
+    maildir: createMaildirSource,
+};
+
+/**
+ * Get the configured mail source
+ * @param type Override the INBOX_PROVIDER env (default: imap)
+ */
+export function getMailSource(type?: MailSourceType, config?: MailSourceConfig): MailSource {
+    const selected = type || (process.env.INBOX_PROVIDER as MailSourceType | undefined) || 'imap';
+    const factory = sourceFactories[selected];
+
+    if (!factory) {
+        throw new Error(`Unknown inbox provider: ${selected}. Supported: ${Object.keys(sourceFactories).join(', ')}`);
+    }
+
+    return factory(config);
+}
+
+export { pollInbox, isOrderAttachment, type InboxPollResult } from './ingest';
+export type { MailSource, MailSourceConfig, InboxMessage, InboxAttachment } from './mail-source.interface';
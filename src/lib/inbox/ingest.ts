@@ -0,0 +1,157 @@
+/**
+ * Inbox Ingestion
+ * Turns emailed order confirmations into draft orders:
+ * message → sender verified → routed to tenant (+ supplier profile) → attachments queued
+ * through the same intake as uploads → jobs run as a tenant member.
+ */
+
+import { createServiceClient, runAsUser } from '@/lib/supabase/service';
+import { processJobs } from '@/lib/jobs';
+import { queueOrderFile } from '@/lib/services/order-intake.service';
+import { getTabularFormat } from '@/lib/import/tabular-file';
+import type { InboxAttachment, InboxMessage, MailSource } from './mail-source.interface';
+
+/** Messages handled per poll */
+const DEFAULT_POLL_LIMIT = 20;
+
+/** Polls that try a failing message before it is given up on */
+const MAX_INGEST_ATTEMPTS = 3;
+
+type InboxMessageStatus = 'processed' | 'unverified' | 'unmatched' | 'no_attachments' | 'failed';
+
+interface InboxRoute {
+    tenant_id: string;
+    user_id: string;
+    supplier_id: string | null;
+    profile_id: string | null;
+}
+
+export interface InboxPollResult {
+    processed: number;
+    skipped: number;
+    unverified: number;
+    unmatched: number;
+    failed: number;
+    jobIds: string[];
+}
+
+/**
+ * PDF, CSV and XLSX attachments are order documents; signatures, logos etc. are ignored
+ */
+export function isOrderAttachment(attachment: InboxAttachment): boolean {
+    return attachment.contentType === 'application/pdf'
+        || attachment.fileName.toLowerCase().endsWith('.pdf')
+        || getTabularFormat(attachment.fileName, attachment.contentType) !== null;
+}
+
+/**
+ * Poll the mailbox once and ingest all new messages
+ */
+export async function pollInbox(source: MailSource, limit: number = DEFAULT_POLL_LIMIT): Promise<InboxPollResult> {
+    const service = createServiceClient();
+    const result: InboxPollResult = { processed: 0, skipped: 0, unverified: 0, unmatched: 0, failed: 0, jobIds: [] };
+
+    const record = async (
+        message: InboxMessage,
+        status: InboxMessageStatus,
+        details: { tenantId?: string; jobIds?: string[]; error?: string; attempts?: number } = {}
+    ) => {
+        const { error } = await service.from('inbox_messages').upsert({
+            message_id: message.messageId,
+            tenant_id: details.tenantId || null,
+            from_address: message.from,
+            subject: message.subject,
+            status,
+            job_ids: details.jobIds || [],
+            error: details.error || null,
+            received_at: message.date?.toISOString() || null,
+            attempts: details.attempts ?? 1,
+        }, { onConflict: 'message_id' });
+        // Throwing keeps the message unread, so it is retried on the next poll
+        if (error) throw new Error(`Failed to record message ${message.messageId}: ${error.message}`);
+    };
+
+    await source.poll(async (message) => {
+        const { data: existing } = await service
+            .from('inbox_messages')
+            .select('status, job_ids, attempts')
+            .eq('message_id', message.messageId)
+            .maybeSingle();
+
+        // Failed messages were left unread and are retried
+        if (existing && existing.status !== 'failed') {
+            console.log(`[Inbox] Skipping already ingested message ${message.messageId}`);
+            result.skipped++;
+            return;
+        }
+        const attempts = (existing?.attempts ?? 0) + 1;
+
+        // The sender picks the tenant, so a forged From must not be routed
+        if (!message.authenticated) {
+            console.log(`[Inbox] Sender ${message.from} not verified by the mail server - skipping "${message.subject}"`);
+            await record(message, 'unverified', { attempts });
+            result.unverified++;
+            return;
+        }
+
+        const { data: routes, error: routeError } = await service.rpc('find_inbox_route', { p_email: message.from });
+        if (routeError) throw new Error(`Failed to route message: ${routeError.message}`);
+
+        const route = (routes as InboxRoute[] | null)?.[0];
+        if (!route) {
+            console.log(`[Inbox] No tenant for sender ${message.from} - skipping "${message.subject}"`);
+            await record(message, 'unmatched', { attempts });
+            result.unmatched++;
+            return;
+        }
+
+        const attachments = message.attachments.filter(isOrderAttachment);
+        if (attachments.length === 0) {
+            await record(message, 'no_attachments', { tenantId: route.tenant_id, attempts });
+            result.skipped++;
+            return;
+        }
+
+        // Attachments queued by a failed attempt keep their jobs
+        const jobIds: string[] = existing?.job_ids ?? [];
+        try {
+            await runAsUser(route.user_id, async () => {
+                for (const attachment of attachments.slice(jobIds.length)) {
+                    const job = await queueOrderFile(
+                        { name: attachment.fileName, type: attachment.contentType, data: attachment.data },
+                        {
+                            userId: route.user_id,
+                            tenantId: route.tenant_id,
+                            profileId: route.profile_id,
+                            senderEmail: message.from,
+                        }
+                    );
+                    jobIds.push(job.id);
+                }
+
+                // No user is waiting on these jobs, so run them right here
+                for (const jobId of jobIds) {
+                    await processJobs(jobId);
+                }
+            });
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : 'Ingestion failed';
+            console.error(`[Inbox] Failed to ingest ${message.messageId}:`, error);
+            await record(message, 'failed', { tenantId: route.tenant_id, jobIds, error: reason, attempts });
+            result.failed++;
+
+            // Throwing keeps the message unread for the next poll
+            if (attempts < MAX_INGEST_ATTEMPTS) {
+                throw new Error(`Failed to ingest ${message.messageId} (attempt ${attempts}/${MAX_INGEST_ATTEMPTS}): ${reason}`);
+            }
+            return;
+        }
+
+        await record(message, 'processed', { tenantId: route.tenant_id, jobIds, attempts });
+        result.processed++;
+        result.jobIds.push(...jobIds);
+        console.log(`[Inbox] ${message.from} "${message.subject}" → ${jobIds.length} job(s)`);
+    }, limit);
+
+    return result;
+}
@@ -0,0 +1,51 @@
+/**
+ * Mail Source Interface
+ * A mailbox the inbox poller reads order confirmations from.
+ */
+
+export interface InboxAttachment {
+    fileName: string;
+    contentType: string;
+    data: Buffer;
+}
+
+export interface InboxMessage {
+    /** Message-ID header, or a hash of the raw message when missing */
+    messageId: string;
+    /** Sender address (lowercase, without display name) */
+    from: string;
+    /** The receiving server verified the sender domain (DMARC, DKIM or SPF pass) */
+    authenticated: boolean;
+    subject: string;
+    date?: Date;
+    attachments: InboxAttachment[];
+}
+
+/**
+ * Called for each new message. When it resolves, the message is marked as
+ * read (IMAP) or moved to cur/ (maildir); when it throws, the message stays
+ * new and is retried on the next poll, while the poll goes on with the next
+ * message.
+ */
+export type MessageHandler = (message: InboxMessage) => Promise<void>;
+
+export interface MailSource {
+    readonly name: string;
+    /**
+     * Hand unread messages to the handler, oldest first
+     * @returns Number of messages handled
+     */
+    poll(handler: MessageHandler, limit: number): Promise<number>;
+}
+
+export interface MailSourceConfig {
+    /** IMAP */
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    user?: string;
+    password?: string;
+    mailbox?: string;
+    /** Maildir */
+    path?: string;
+}
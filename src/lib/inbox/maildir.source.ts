@@ -0,0 +1,52 @@
+/**
+ * Maildir Mail Source
+ * Reads messages from a local maildir (new/ → cur/) - for development and
+ * tests without a mail server. Drop .eml files into <path>/new to ingest them.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MailSource, MailSourceConfig, MessageHandler } from './mail-source.interface';
+import { parseMessage } from './parse-message';
+
+export class MaildirMailSource implements MailSource {
+    readonly name = 'maildir';
+    private root: string;
+
+    constructor(config: MailSourceConfig = {}) {
+        this.root = path.resolve(config.path || process.env.MAILDIR_PATH || '.maildir');
+    }
+
+    async poll(handler: MessageHandler, limit: number): Promise<number> {
+        const newDir = path.join(this.root, 'new');
+        const curDir = path.join(this.root, 'cur');
+        await fs.mkdir(newDir, { recursive: true });
+        await fs.mkdir(curDir, { recursive: true });
+
+        const entries = (await fs.readdir(newDir)).filter(name => !name.startsWith('.')).sort();
+        let handled = 0;
+
+        for (const entry of entries.slice(0, limit)) {
+            const file = path.join(newDir, entry);
+            try {
+                await handler(await parseMessage(await fs.readFile(file)));
+            } catch (error) {
+                console.error(`[Inbox] Message ${entry} left in new/:`, error);
+                continue;
+            }
+
+            // Maildir "seen" flag
+            await fs.rename(file, path.join(curDir, `${entry}:2,S`));
+            handled++;
+        }
+
+        return handled;
+    }
+}
+
+/**
+ * Factory function for creating a maildir mail source
+ */
+export function createMaildirSource(config?: MailSourceConfig): MailSource {
+    return new MaildirMailSource(config);
+}
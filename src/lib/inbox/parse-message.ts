@@ -0,0 +1,33 @@
+/**
+ * Raw email → InboxMessage (mailparser)
+ */
+
+import { createHash } from 'crypto';
+import { simpleParser } from 'mailparser';
+import type { InboxMessage } from './mail-source.interface';
+import { isSenderAuthenticated } from './sender-auth';
+
+export async function parseMessage(source: Buffer): Promise<InboxMessage> {
+    const parsed = await simpleParser(source);
+    const from = parsed.from?.value[0]?.address?.toLowerCase() || '';
+
+    // Header lines are in message order, so the topmost (last added) comes first
+    const authResults = parsed.headerLines
+        .filter(h => h.key === 'authentication-results')
+        .map(h => h.line.slice(h.line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim());
+
+    return {
+        messageId: parsed.messageId || `sha256:${createHash('sha256').update(source).digest('hex')}`,
+        from,
+        authenticated: isSenderAuthenticated(authResults, from),
+        subject: parsed.subject || '',
+        date: parsed.date,
+        attachments: parsed.attachments
+            .filter(a => a.contentDisposition !== 'inline' || a.filename)
+            .map(a => ({
+                fileName: a.filename || 'attachment',
+                contentType: a.contentType,
+                data: a.content,
+            })),
+    };
+}
@@ -0,0 +1,86 @@
+/**
+ * Sender Authentication
+ * The From address is only trusted when the receiving mail server verified
+ * it: its Authentication-Results header (RFC 8601) must report a DMARC, DKIM
+ * or SPF pass for the From domain.
+ */
+
+interface AuthResult {
+    method: string;
+    result: string;
+    properties: Record<string, string>;
+}
+
+interface AuthResultsHeader {
+    authservId: string;
+    results: AuthResult[];
+}
+
+/**
+ * Parse one Authentication-Results header value
+ * e.g. "mx.example.com; dkim=pass header.d=acme.com; spf=fail smtp.mailfrom=x@y.com"
+ */
+export function parseAuthenticationResults(value: string): AuthResultsHeader {
+    // Comments in parentheses carry no results
+    const [authserv = '', ...resinfos] = value.replace(/\([^)]*\)/g, ' ').split(';');
+
+    return {
+        authservId: authserv.trim().split(/\s+/)[0].toLowerCase(),
+        results: resinfos.flatMap(resinfo => {
+            const [head, ...props] = resinfo.trim().split(/\s+/);
+            const match = head?.match(/^([\w.-]+)=(\w+)$/);
+            if (!match) return [];
+
+            const properties: Record<string, string> = {};
+            for (const prop of props) {
+                const eq = prop.indexOf('=');
+                if (eq > 0) properties[prop.slice(0, eq).toLowerCase()] = prop.slice(eq + 1).replace(/^"|"$/g, '').toLowerCase();
+            }
+            return [{ method: match[1].toLowerCase(), result: match[2].toLowerCase(), properties }];
+        }),
+    };
+}
+
+/**
+ * Relaxed alignment: the verified domain is the From domain or one of its parents
+ */
+function isAligned(fromDomain: string, domain: string | undefined): boolean {
+    if (!domain) return false;
+    const verified = domain.includes('@') ? domain.split('@').pop()! : domain;
+    return verified !== '' && (fromDomain === verified || fromDomain.endsWith(`.${verified}`));
+}
+
+/**
+ * Whether the receiving server verified the sender
+ * @param headers Authentication-Results values, topmost first
+ * @param from Sender address
+ * @param authservId Only trust headers added by this server (INBOX_AUTHSERV_ID env).
+ *   Without it only the topmost header is used - the one added by the last
+ *   hop; headers further down may have been written by the sender.
+ */
+export function isSenderAuthenticated(
+    headers: string[],
+    from: string,
+    authservId: string | undefined = process.env.INBOX_AUTHSERV_ID
+): boolean {
+    const fromDomain = from.split('@')[1]?.toLowerCase();
+    if (!fromDomain) return false;
+
+    const trusted = authservId
+        ? headers.map(parseAuthenticationResults).filter(h => h.authservId === authservId.toLowerCase())
+        : headers.slice(0, 1).map(parseAuthenticationResults);
+
+    return trusted.some(header => header.results.some(({ method, result, properties }) => {
+        if (result !== 'pass') return false;
+        switch (method) {
+            case 'dmarc':
+                return properties['header.from'] === fromDomain;
+            case 'dkim':
+                return isAligned(fromDomain, properties['header.d'] || properties['header.i']);
+            case 'spf':
+                return isAligned(fromDomain, properties['smtp.mailfrom']);
+            default:
+                return false;
+        }
+    }));
+}
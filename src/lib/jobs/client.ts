@@ -0,0 +1,43 @@
+/**
+ * Job Status Polling (browser)
+ * Polls GET /api/jobs/[id] until a background job finishes.
+ */
+
+import type { Job } from '@/types';
+
+const POLL_INTERVAL_MS = 1500;
+
+/**
+ * Wait for a job to finish
+ * @param jobId Job to poll
+ * @param onProgress Called with every status update while the job runs
+ * @returns The finished job (completed, failed or cancelled)
+ */
+export async function waitForJob(
+    jobId: string,
+    onProgress?: (job: Job) => void
+): Promise<Job> {
+    for (;;) {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        const result = await response.json();
+
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to fetch job status');
+        }
+
+        const job = result.data as Job;
+        if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+            return job;
+        }
+
+        onProgress?.(job);
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+}
+
+/**
+ * Request cancellation of a job
+ */
+export async function cancelJob(jobId: string): Promise<void> {
+    await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+}
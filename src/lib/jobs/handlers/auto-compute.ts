@@ -0,0 +1,145 @@
+/**
+ * Auto-Computed Fields
+ * Fills template and AI enrichment fields on a freshly created draft order.
+ * Shared by the PDF extraction and tabular import jobs.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { evaluateTemplate, loadCodeLookups, loadExtraDataLookups, type TemplateContext } from '@/lib/services/template-engine';
+import { enrichProducts, type EnrichmentField } from '@/lib/services/ai-enrichment';
+import { revalidateOrder } from '@/lib/modules/processing/pipeline';
+import type { DraftOrder } from '@/types';
+
+export type ProfileField = {
+    key: string;
+    label?: string;
+    source?: string;
+    logic_type?: string;
+    template?: string;
+    use_template?: boolean;
+    ai_prompt?: string;
+    fallback?: string;
+    catalog_key?: string;
+};
+
+/**
+ * Fill computed fields (templates + AI enrichment) on freshly created line items
+ */
+export async function autoComputeFields(draftOrder: DraftOrder, fields: ProfileField[]): Promise<void> {
+    if (!draftOrder.line_items || draftOrder.line_items.length === 0) return;
+
+    const supabase = await createClient();
+
+    const templatedFields = fields.filter(f =>
+        (f.source === 'computed' && f.logic_type === 'template' && f.template) ||
+        (f.use_template && f.template)
+    );
+
+    const aiEnrichmentFields = fields.filter(f =>
+        f.source === 'computed' && f.logic_type === 'ai_enrichment' && f.ai_prompt
+    );
+
+    if (templatedFields.length === 0 && aiEnrichmentFields.length === 0) return;
+
+    console.log(`[Auto-Compute] ${templatedFields.length} template + ${aiEnrichmentFields.length} AI fields`);
+
+    // Build lookup maps for templates
+    const codeLookups = await loadCodeLookups();
+    const extraDataLookups = await loadExtraDataLookups();
+
+    const catalogKeyMapping: Record<string, string> = {};
+    for (const field of fields) {
+        if (field.catalog_key) {
+            catalogKeyMapping[field.key] = field.catalog_key;
+        }
+    }
+
+    // Process each line item
+    const batchUpdates: Array<{ id: string; normalized_data: Record<string, unknown> }> = [];
+
+    for (const item of draftOrder.line_items) {
+        const data = item.normalized_data as Record<string, unknown>;
+        if (!data) continue;
+
+        const productValues: Record<string, string> = {};
+        for (const [key, value] of Object.entries(data)) {
+            productValues[key] = value !== null && value !== undefined ? String(value) : '';
+        }
+
+        const context: TemplateContext = {
+            values: productValues,
+            sequence: item.line_number || 1,
+            catalogKeyMapping,
+        };
+
+        const updates: Record<string, string> = {};
+
+        for (const field of templatedFields) {
+            try {
+                updates[field.key] = await evaluateTemplate(field.template!, context, codeLookups, extraDataLookups);
+            } catch (err) {
+                console.error(`[Auto-Compute] Template ${field.key} failed:`, err);
+            }
+        }
+
+        if (Object.keys(updates).length > 0) {
+            batchUpdates.push({
+                id: item.id,
+                normalized_data: { ...data, ...updates },
+            });
+        }
+    }
+
+    // Process AI enrichment fields (batch)
+    if (aiEnrichmentFields.length > 0 && process.env.GEMINI_API_KEY) {
+        const enrichmentFieldsInput: EnrichmentField[] = aiEnrichmentFields.map(f => ({
+            key: f.key,
+            label: f.label || f.key,
+            ai_prompt: f.ai_prompt!,
+            fallback: f.fallback,
+        }));
+
+        const productsToEnrich = draftOrder.line_items.map(item => {
+            const existing = batchUpdates.find(u => u.id === item.id);
+            return {
+                id: item.id,
+                data: existing ? existing.normalized_data : (item.normalized_data as Record<string, unknown> || {}),
+            };
+        });
+
+        try {
+            const enrichmentResults = await enrichProducts(enrichmentFieldsInput, productsToEnrich, process.env.GEMINI_API_KEY);
+
+            for (const result of enrichmentResults) {
+                const existing = batchUpdates.find(u => u.id === result.id);
+                if (existing) {
+                    existing.normalized_data = { ...existing.normalized_data, ...result.enrichments };
+                } else {
+                    const item = draftOrder.line_items.find(i => i.id === result.id);
+                    if (item) {
+                        batchUpdates.push({
+                            id: result.id,
+                            normalized_data: { ...(item.normalized_data as Record<string, unknown>), ...result.enrichments },
+                        });
+                    }
+                }
+            }
+        } catch (err) {
+            console.error('[Auto-Compute] AI enrichment failed:', err);
+        }
+    }
+
+    // Save computed values
+    if (batchUpdates.length > 0) {
+        await Promise.all(batchUpdates.map(update =>
+            supabase
+                .from('draft_line_items')
+                .update({ normalized_data: update.normalized_data })
+                .eq('id', update.id)
+        ));
+        console.log(`[Auto-Compute] Updated ${batchUpdates.length} items`);
+
+        // Rules may depend on the computed values (required, cross-field, unique)
+        await revalidateOrder(draftOrder.id);
+    }
+}
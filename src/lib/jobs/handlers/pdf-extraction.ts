@@ -0,0 +1,152 @@
+/**
+ * PDF Extraction Job
+ * Supplier detection → vision extraction → processing pipeline →
+ * auto-computed fields for an uploaded order confirmation. Replaces the inline processing that used to
+ * run inside POST /api/draft-orders.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { processOrder } from '@/lib/modules/processing/pipeline';
+import { getStorageProvider } from '@/lib/storage';
+import { extractProducts, getPromptForProfile, type VisionModel, type ExtractionFieldConfig } from '@/lib/extraction';
+import { extractPdfText } from '@/lib/extraction/pdf-text';
+import { detectSupplier } from '@/lib/services/supplier.service';
+import type { ShopSystem, RawExtractedProduct } from '@/types';
+import { JobCancelledError, PermanentJobError, type JobContext } from '../types';
+import { autoComputeFields, type ProfileField } from './auto-compute';
+
+/**
+ * Input stored on pdf_extraction jobs by POST /api/draft-orders
+ */
+export interface PdfExtractionInput {
+    /** Path in the storage provider */
+    storagePath: string;
+    fileName: string;
+    fileSize: number;
+    contentType: string;
+    orderName: string;
+    shopSystem: ShopSystem | null;
+    brandId: string | null;
+    /** Chosen on upload; when null the detected supplier's profile (or the default) is used */
+    profileId: string | null;
+    skipComputed: boolean;
+    /** Sender of an emailed document (inbox ingestion) */
+    senderEmail?: string | null;
+}
+
+export async function handlePdfExtraction({ job, progress }: JobContext): Promise<Record<string, unknown>> {
+    const supabase = await createClient();
+    const input = job.input as unknown as PdfExtractionInput;
+
+    await progress(5, 'Loading source file');
+
+    const { data: fileBuffer } = await getStorageProvider().download(input.storagePath);
+
+    await progress(10, 'Detecting supplier');
+    const supplierMatch = await detectSupplier({
+        text: await extractPdfText(fileBuffer),
+        senderEmail: input.senderEmail || undefined,
+    });
+    const profileId = input.profileId || supplierMatch?.supplier.default_profile_id || undefined;
+
+    // Get tenant's AI settings
+    const { data: tenantData } = await supabase
+        .from('tenants')
+        .select('settings')
+        .single();
+
+    const visionModel = (tenantData?.settings?.vision_model as VisionModel) || 'gpt-4o';
+    const aiReasoningEnabled = tenantData?.settings?.ai_reasoning_enabled ?? true;
+    console.log(`[Job ${job.id}] Vision model: ${visionModel}, reasoning: ${aiReasoningEnabled}`);
+
+    // Get processing profile (required)
+    const { prompt: systemPrompt, profile } = await getPromptForProfile(
+        profileId,
+        { enableReasoning: aiReasoningEnabled }
+    );
+
+    if (!profile) {
+        throw new PermanentJobError('Processing profile is required. Please create a profile in Settings → Processing.');
+    }
+
+    // API Decoupling: Derive shop_system from profile if not provided
+    const defaultExportConfig = (profile as { export_configs?: Array<{ shop_system: ShopSystem }>, default_export_config_idx?: number }).export_configs?.[
+        (profile as { default_export_config_idx?: number }).default_export_config_idx ?? 0
+    ];
+    const shopSystem: ShopSystem = input.shopSystem || defaultExportConfig?.shop_system || 'xentral';
+    console.log(`[Job ${job.id}] Profile: ${profile.name}, shop system: ${shopSystem}`);
+
+    await progress(15, 'Extracting products');
+
+    // Fields only inform chunk merging (header rows, partial rows) - extraction stays in legacy mode
+    const extraction = await extractProducts(fileBuffer, systemPrompt, visionModel, {
+        fields: (profile.fields || []) as ExtractionFieldConfig[],
+        forceLegacy: true,
+        onChunkComplete: (completed, total) =>
+            progress(15 + Math.round(45 * completed / total), `Extracting products (${completed}/${total} page ranges)`),
+    });
+    const extractedProducts = extraction.products;
+
+    const productsWithFlags = extractedProducts.filter(p => p.needs_checking && p.needs_checking.length > 0);
+    console.log(`[Job ${job.id}] Products with needs_checking flags: ${productsWithFlags.length}/${extractedProducts.length}`);
+
+    // Extract raw data for processing, storing needs_checking and source locations in data for now
+    const rawProducts: RawExtractedProduct[] = extractedProducts.map(p => {
+        const data = { ...p.data };
+        if (p.needs_checking && p.needs_checking.length > 0) {
+            (data as Record<string, unknown>)._needs_checking = p.needs_checking;
+        }
+        if (p.sources) {
+            (data as Record<string, unknown>)._sources = p.sources;
+        }
+        if (p.source_pages) {
+            (data as Record<string, unknown>)._source_pages = p.source_pages;
+        }
+        return data;
+    });
+
+    await progress(60, `Processing ${rawProducts.length} products`);
+
+    // A previous attempt may have died after creating the order
+    if (job.attempts > 1) {
+        await supabase.from('draft_orders').delete().eq('source_job_id', job.id);
+    }
+
+    const draftOrder = await processOrder(rawProducts, {
+        shop_system: shopSystem,
+        user_id: job.user_id,
+        source_job_id: job.id,
+        supplier_id: supplierMatch?.supplier.id,
+        source_file: {
+            name: input.fileName,
+            path: input.storagePath,
+            content_type: input.contentType,
+        },
+        order_name: input.orderName || undefined,
+        options: {
+            auto_generate_sku: true,
+            normalize_colors: true,
+            match_catalogue: false,
+        },
+    }, profile as Parameters<typeof processOrder>[2]);
+
+    try {
+        if (!input.skipComputed) {
+            await progress(75, 'Computing fields');
+            await autoComputeFields(draftOrder, (profile.fields || []) as ProfileField[]);
+        }
+        await progress(95, 'Finishing');
+    } catch (error) {
+        // Don't leave a half-finished order behind when the user cancels
+        if (error instanceof JobCancelledError) {
+            await supabase.from('draft_orders').delete().eq('id', draftOrder.id);
+        }
+        throw error;
+    }
+
+    return {
+        productCount: draftOrder.line_items?.length || 0,
+        draftOrderId: draftOrder.id,
+        supplierName: supplierMatch?.supplier.name ?? null,
+    };
+}
@@ -0,0 +1,47 @@
+/**
+ * Shop Upload Job
+ * Submits an approved draft order to its shop system (shopware_upload,
+ * xentral_upload, shopify_upload).
+ */
+
+import { submitOrderToShop } from '@/lib/services/draft-order.service';
+import type { UploadMode } from '@/lib/adapters';
+import { JobCancelledError, PermanentJobError, type JobContext } from '../types';
+
+/**
+ * Input stored on shop upload jobs by POST /api/draft-orders/[id]/submit
+ */
+export interface ShopUploadInput {
+    orderId: string;
+    mode: UploadMode;
+}
+
+export async function handleShopUpload({ job, progress }: JobContext): Promise<Record<string, unknown>> {
+    const { orderId, mode } = job.input as unknown as ShopUploadInput;
+
+    await progress(10, 'Uploading products');
+
+    // Each batch renews the lease, so a long upload isn't reclaimed by another worker.
+    // Products already sent can't be taken back, so the upload isn't cancelled halfway.
+    const result = await submitOrderToShop(orderId, mode, async (uploaded, total) => {
+        try {
+            await progress(10 + (uploaded / total) * 85, `Uploaded ${uploaded} of ${total} products`);
+        } catch (error) {
+            if (!(error instanceof JobCancelledError)) throw error;
+        }
+    });
+
+    // Per-product failures are reported in the results, not retried
+    if (!result.success && !result.results) {
+        const message = result.error || 'Upload failed';
+        // Only upserts are safe to repeat - a retried create could duplicate products
+        throw mode === 'upsert' ? new Error(message) : new PermanentJobError(message);
+    }
+
+    return {
+        orderId,
+        mode,
+        success: result.success,
+        results: result.results,
+    };
+}
@@ -0,0 +1,34 @@
+/**
+ * SKU Regeneration Job
+ * Re-evaluates templated and AI-enriched fields for selected line items
+ * using the order's latest profile.
+ */
+
+import { regenerateTemplatesForLineItems } from '@/lib/services/regenerate-templates';
+import type { JobContext } from '../types';
+
+/**
+ * Input stored on sku_regeneration jobs by POST /api/draft-orders/[id]/line-items
+ */
+export interface SkuRegenerationInput {
+    orderId: string;
+    lineItemIds: string[];
+    fieldKeys?: string[];
+}
+
+export async function handleSkuRegeneration({ job, progress }: JobContext): Promise<Record<string, unknown>> {
+    const { orderId, lineItemIds, fieldKeys } = job.input as unknown as SkuRegenerationInput;
+
+    await progress(10, `Regenerating ${lineItemIds.length} items`);
+
+    const result = await regenerateTemplatesForLineItems(orderId, lineItemIds, fieldKeys);
+    if (!result.success) {
+        throw new Error(result.error || 'Regeneration failed');
+    }
+
+    return {
+        orderId,
+        regeneratedCount: result.regeneratedCount,
+        fieldsUpdated: result.fieldsUpdated,
+    };
+}
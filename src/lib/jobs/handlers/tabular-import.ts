@@ -0,0 +1,134 @@
+/**
+ * Tabular Import Job
+ * CSV/XLSX supplier file → supplier detection → column mapping →
+ * processing pipeline → auto-computed fields. No vision extraction: rows are read as they are.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient, isServiceClientConfigured } from '@/lib/supabase/service';
+import { processOrder } from '@/lib/modules/processing/pipeline';
+import { getStorageProvider } from '@/lib/storage';
+import { getProcessingProfile } from '@/lib/extraction/prompt-builder';
+import { parseTabularFile, type TabularFormat } from '@/lib/import/tabular-file';
+import { applyColumnMapping, rememberColumnMapping, suggestColumnMapping, tabularSupplierText } from '@/lib/import/column-mapping';
+import { detectSupplier } from '@/lib/services/supplier.service';
+import type { ColumnMapping, FieldDefinition, SavedColumnMapping, ShopSystem } from '@/types';
+import { JobCancelledError, PermanentJobError, type JobContext } from '../types';
+import type { PdfExtractionInput } from './pdf-extraction';
+import { autoComputeFields, type ProfileField } from './auto-compute';
+
+/**
+ * Input stored on tabular_import jobs by POST /api/draft-orders
+ */
+export interface TabularImportInput extends PdfExtractionInput {
+    format: TabularFormat;
+    /** Mapping confirmed by the user; suggested from the profile when missing */
+    columnMapping: ColumnMapping | null;
+}
+
+export async function handleTabularImport({ job, progress }: JobContext): Promise<Record<string, unknown>> {
+    const supabase = await createClient();
+    const input = job.input as unknown as TabularImportInput;
+
+    await progress(5, 'Loading source file');
+
+    const { data: fileBuffer } = await getStorageProvider().download(input.storagePath);
+
+    await progress(10, 'Reading rows');
+
+    let parsed;
+    try {
+        parsed = parseTabularFile(fileBuffer, input.format);
+    } catch (error) {
+        throw new PermanentJobError(`Could not read ${input.format.toUpperCase()} file: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new PermanentJobError('The file contains no rows');
+    }
+
+    const supplierMatch = await detectSupplier({
+        text: tabularSupplierText(parsed),
+        senderEmail: input.senderEmail || undefined,
+    });
+
+    const profile = await getProcessingProfile(input.profileId || supplierMatch?.supplier.default_profile_id || undefined);
+    if (!profile) {
+        throw new PermanentJobError('Processing profile is required. Please create a profile in Settings → Processing.');
+    }
+
+    const defaultExportConfig = (profile as { export_configs?: Array<{ shop_system: ShopSystem }>, default_export_config_idx?: number }).export_configs?.[
+        (profile as { default_export_config_idx?: number }).default_export_config_idx ?? 0
+    ];
+    const shopSystem: ShopSystem = input.shopSystem || defaultExportConfig?.shop_system || 'xentral';
+    const savedMappings = (profile as { column_mappings?: SavedColumnMapping[] }).column_mappings || [];
+
+    const fields = (profile.fields || []) as unknown as FieldDefinition[];
+    const mapping = input.columnMapping || suggestColumnMapping(parsed.headers, fields, savedMappings).mapping;
+    if (Object.values(mapping).filter(Boolean).length === 0) {
+        throw new PermanentJobError('No columns are mapped to profile fields');
+    }
+
+    const rawProducts = applyColumnMapping(parsed.rows, mapping);
+    console.log(`[Job ${job.id}] ${parsed.rows.length} rows → ${rawProducts.length} products (${input.format}, ${Object.keys(mapping).length} mapped columns)`);
+
+    await progress(40, `Processing ${rawProducts.length} products`);
+
+    // A previous attempt may have died after creating the order
+    if (job.attempts > 1) {
+        await supabase.from('draft_orders').delete().eq('source_job_id', job.id);
+    }
+
+    const draftOrder = await processOrder(rawProducts, {
+        shop_system: shopSystem,
+        user_id: job.user_id,
+        source_job_id: job.id,
+        supplier_id: supplierMatch?.supplier.id,
+        source_file: {
+            name: input.fileName,
+            path: input.storagePath,
+            content_type: input.contentType,
+        },
+        order_name: input.orderName || undefined,
+        options: {
+            auto_generate_sku: true,
+            normalize_colors: true,
+            match_catalogue: false,
+        },
+    }, profile as Parameters<typeof processOrder>[2]);
+
+    try {
+        if (!input.skipComputed) {
+            await progress(75, 'Computing fields');
+            await autoComputeFields(draftOrder, (profile.fields || []) as ProfileField[]);
+        }
+        await progress(95, 'Finishing');
+    } catch (error) {
+        // Don't leave a half-finished order behind when the user cancels
+        if (error instanceof JobCancelledError) {
+            await supabase.from('draft_orders').delete().eq('id', draftOrder.id);
+        }
+        throw error;
+    }
+
+    // Remember the mapping so this supplier's next file maps automatically.
+    // Profiles are admin-only under RLS; the profile was loaded as the user,
+    // so learning a mapping from a member's import is still tenant-scoped.
+    if (!isServiceClientConfigured()) {
+        console.warn(`[Job ${job.id}] SUPABASE_SECRET_KEY is not configured - column mapping not saved`);
+    } else {
+        const { error: saveError } = await createServiceClient()
+            .from('input_profiles')
+            .update({ column_mappings: rememberColumnMapping(savedMappings, parsed.headers, mapping) })
+            .eq('id', profile.id);
+        if (saveError) {
+            console.error(`[Job ${job.id}] Failed to save column mapping:`, saveError);
+        }
+    }
+
+    return {
+        productCount: draftOrder.line_items?.length || 0,
+        draftOrderId: draftOrder.id,
+        supplierName: supplierMatch?.supplier.name ?? null,
+    };
+}
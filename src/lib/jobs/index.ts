@@ -0,0 +1,30 @@
+/**
+ * Job Queue Module
+ * Background processing for extraction, file imports, shop uploads and SKU regeneration.
+ * Server-only - use '@/lib/jobs/client' to poll job status from the browser.
+ */
+
+// Types
+export {
+    type EnqueueOptions,
+    type JobContext,
+    type JobHandler,
+    JobCancelledError,
+    PermanentJobError,
+} from './types';
+
+// Queue
+export {
+    enqueueJob,
+    getJob,
+    cancelJob,
+} from './queue';
+
+// Runner
+export { processJobs, processJobsInBackground, processDueJobs } from './runner';
+
+// Handlers
+export type { PdfExtractionInput } from './handlers/pdf-extraction';
+export type { TabularImportInput } from './handlers/tabular-import';
+export type { ShopUploadInput } from './handlers/shop-upload';
+export type { SkuRegenerationInput } from './handlers/sku-regeneration';
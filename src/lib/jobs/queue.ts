@@ -0,0 +1,242 @@
+/**
+ * Job Queue
+ * DB-backed queue on the jobs table. Jobs are claimed with a time-limited
+ * lease (see claim_job in migration 026), retried with exponential backoff
+ * and can be cancelled while pending or between handler steps.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { Job, JobType } from '@/types';
+import type { EnqueueOptions } from './types';
+
+/** Lease duration - handlers renew it on every progress report */
+export const LEASE_SECONDS = 300;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 15 * 60;
+
+/**
+ * Delay before the next attempt: 30s, 60s, 120s, ... capped at 15 minutes
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+    return Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_SECONDS);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+    type: JobType,
+    input: Record<string, unknown>,
+    userId: string,
+    options: EnqueueOptions = {}
+): Promise<Job> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('jobs')
+        .insert({
+            type,
+            status: 'pending',
+            input,
+            user_id: userId,
+            max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+            run_at: (options.runAt ?? new Date()).toISOString(),
+            step: 'Queued',
+        })
+        .select()
+        .single();
+
+    if (error || !data) {
+        throw new Error(`Failed to enqueue ${type} job: ${error?.message || 'unknown error'}`);
+    }
+
+    return data as Job;
+}
+
+/**
+ * Get a job by ID (RLS limits this to the current tenant)
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+    if (error || !data) {
+        return null;
+    }
+
+    return data as Job;
+}
+
+/**
+ * Claim the next due job (or a specific one) for this worker
+ * @returns The claimed job, or null if nothing is due
+ */
+export async function claimJob(workerId: string, jobId?: string): Promise<Job | null> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc('claim_job', {
+        p_worker_id: workerId,
+        p_lease_seconds: LEASE_SECONDS,
+        p_job_id: jobId ?? null,
+    });
+
+    if (error) {
+        console.error('[Jobs] Failed to claim job:', error);
+        return null;
+    }
+
+    const claimed = (data as Job[] | null)?.[0];
+    return claimed ?? null;
+}
+
+/**
+ * Store progress, renew the lease and check for cancellation.
+ * Only the worker holding the lease may report progress.
+ * @returns Whether cancellation was requested (or the lease was lost)
+ */
+export async function reportProgress(
+    job: Job,
+    percent: number,
+    step: string
+): Promise<{ cancelled: boolean }> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('jobs')
+        .update({
+            progress: Math.max(0, Math.min(100, Math.round(percent))),
+            step,
+            locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', job.id)
+        .eq('locked_by', job.locked_by!)
+        .select('cancel_requested')
+        .single();
+
+    if (error || !data) {
+        console.warn(`[Jobs] Lost lease on job ${job.id}`);
+        return { cancelled: true };
+    }
+
+    return { cancelled: data.cancel_requested };
+}
+
+/**
+ * Mark a claimed job as completed
+ */
+export async function completeJob(job: Job, result: Record<string, unknown>): Promise<void> {
+    await finishJob(job, {
+        status: 'completed',
+        result,
+        error: null,
+        progress: 100,
+        step: 'Done',
+    });
+}
+
+/**
+ * Record a failed attempt. The job is re-queued with backoff until it runs
+ * out of attempts; non-retryable failures fail immediately.
+ * @returns Whether the job will be retried
+ */
+export async function failJob(job: Job, message: string, retryable = true): Promise<boolean> {
+    const retry = retryable && job.attempts < job.max_attempts;
+
+    if (retry) {
+        const delay = getRetryDelaySeconds(job.attempts);
+        await finishJob(job, {
+            status: 'pending',
+            error: message,
+            run_at: new Date(Date.now() + delay * 1000).toISOString(),
+            step: `Retrying in ${delay}s (attempt ${job.attempts + 1} of ${job.max_attempts})`,
+        });
+    } else {
+        await finishJob(job, { status: 'failed', error: message, step: 'Failed' });
+    }
+
+    return retry;
+}
+
+/**
+ * Mark a claimed job as cancelled
+ */
+export async function markJobCancelled(job: Job): Promise<void> {
+    await finishJob(job, { status: 'cancelled', step: 'Cancelled' });
+}
+
+/**
+ * Request cancellation of a job.
+ * Pending jobs are cancelled right away; running jobs stop at their next
+ * progress report.
+ * @returns The updated job, or null if it was not found
+ */
+export async function cancelJob(jobId: string): Promise<Job | null> {
+    const supabase = await createClient();
+
+    const job = await getJob(jobId);
+    if (!job) return null;
+
+    if (job.status === 'pending') {
+        const { data } = await supabase
+            .from('jobs')
+            .update({
+                status: 'cancelled',
+                cancel_requested: true,
+                step: 'Cancelled',
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', jobId)
+            .eq('status', 'pending')
+            .select()
+            .single();
+
+        // Claimed in the meantime - fall through to a cancellation request
+        if (data) return data as Job;
+    } else if (job.status !== 'processing') {
+        return job;
+    }
+
+    const { data } = await supabase
+        .from('jobs')
+        .update({
+            cancel_requested: true,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId)
+        .select()
+        .single();
+
+    return (data as Job | null) ?? job;
+}
+
+/**
+ * Release a claimed job with a final (or retry) state.
+ * Guarded by locked_by so a worker whose lease expired cannot overwrite
+ * the state written by the worker that reclaimed the job.
+ */
+async function finishJob(job: Job, updates: Record<string, unknown>): Promise<void> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+        .from('jobs')
+        .update({
+            ...updates,
+            locked_by: null,
+            locked_until: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', job.id)
+        .eq('locked_by', job.locked_by!);
+
+    if (error) {
+        console.error(`[Jobs] Failed to update job ${job.id}:`, error);
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * Job Runner
+ * Claims due jobs and dispatches them to their handler.
+ *
+ * Jobs run after the response has been sent (next/server `after`) in the
+ * request that enqueued or polled them, so handlers keep the user's session
+ * and tenant context for RLS. Retries and jobs whose worker died are picked
+ * up by the next status poll or by the scheduler (`processDueJobs`), which
+ * runs each job as the user who enqueued it.
+ */
+
+import { after } from 'next/server';
+import { randomUUID } from 'crypto';
+import type { Job } from '@/types';
+import {
+    claimJob,
+    completeJob,
+    failJob,
+    markJobCancelled,
+    reportProgress,
+} from './queue';
+import { createServiceClient, runAsUser } from '@/lib/supabase/service';
+import { JobCancelledError, PermanentJobError, type JobContext, type JobHandlers } from './types';
+import { handlePdfExtraction } from './handlers/pdf-extraction';
+import { handleTabularImport } from './handlers/tabular-import';
+import { handleShopUpload } from './handlers/shop-upload';
+import { handleSkuRegeneration } from './handlers/sku-regeneration';
+
+const WORKER_ID = `worker-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+/** Upper bound of jobs processed per runner invocation */
+const MAX_JOBS_PER_RUN = 10;
+
+const handlers: JobHandlers = {
+    pdf_extraction: handlePdfExtraction,
+    tabular_import: handleTabularImport,
+    shopware_upload: handleShopUpload,
+    xentral_upload: handleShopUpload,
+    shopify_upload: handleShopUpload,
+    sku_regeneration: handleSkuRegeneration,
+};
+
+/**
+ * Run a single claimed job to completion, failure or cancellation
+ */
+async function runJob(job: Job): Promise<void> {
+    if (job.cancel_requested) {
+        await markJobCancelled(job);
+        return;
+    }
+
+    // Reclaimed after a crash with no attempts left
+    if (job.attempts > job.max_attempts) {
+        await failJob(job, job.error || 'Job timed out', false);
+        return;
+    }
+
+    const context: JobContext = {
+        job,
+        async progress(percent, step) {
+            const { cancelled } = await reportProgress(job, percent, step);
+            if (cancelled) throw new JobCancelledError();
+        },
+    };
+
+    console.log(`[Jobs] ${WORKER_ID} running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    try {
+        const result = await handlers[job.type](context);
+        await completeJob(job, result);
+        console.log(`[Jobs] Job ${job.id} completed`);
+    } catch (error) {
+        if (error instanceof JobCancelledError) {
+            await markJobCancelled(job);
+            console.log(`[Jobs] Job ${job.id} cancelled`);
+            return;
+        }
+
+        const message = error instanceof Error ? error.message : 'Job failed';
+        const retrying = await failJob(job, message, !(error instanceof PermanentJobError));
+        console.error(`[Jobs] Job ${job.id} failed${retrying ? ' (will retry)' : ''}:`, error);
+    }
+}
+
+/**
+ * Process due jobs until the queue is empty
+ * @param jobId Only run this job (if it is due)
+ */
+export async function processJobs(jobId?: string): Promise<number> {
+    let processed = 0;
+
+    while (processed < MAX_JOBS_PER_RUN) {
+        const job = await claimJob(WORKER_ID, jobId);
+        if (!job) break;
+
+        await runJob(job);
+        processed++;
+
+        if (jobId) break;
+    }
+
+    return processed;
+}
+
+/**
+ * Schedule job processing after the current response has been sent
+ */
+export function processJobsInBackground(jobId?: string): void {
+    after(async () => {
+        try {
+            await processJobs(jobId);
+        } catch (error) {
+            console.error('[Jobs] Background processing failed:', error);
+        }
+    });
+}
+
+/**
+ * Run the due jobs of all tenants (called by a scheduler/cron)
+ * Picks up retries whose backoff has passed and jobs whose lease expired.
+ * Each job runs as the user who enqueued it, so RLS applies as in the request.
+ * @returns Number of jobs processed
+ */
+export async function processDueJobs(): Promise<number> {
+    const service = createServiceClient();
+    const now = new Date().toISOString();
+
+    const { data: due, error } = await service
+        .from('jobs')
+        .select('id, user_id')
+        .or(`and(status.eq.pending,run_at.lte.${now}),and(status.eq.processing,locked_until.lt.${now})`)
+        .order('run_at')
+        .limit(MAX_JOBS_PER_RUN);
+
+    if (error) {
+        throw new Error(`Failed to load due jobs: ${error.message}`);
+    }
+
+    let processed = 0;
+    for (const { id, user_id } of due ?? []) {
+        try {
+            processed += await runAsUser(user_id, () => processJobs(id));
+        } catch (err) {
+            console.error(`[Jobs] Scheduled run of job ${id} failed:`, err);
+        }
+    }
+
+    return processed;
+}
@@ -0,0 +1,55 @@
+/**
+ * Job Queue Types
+ */
+
+import type { Job, JobType } from '@/types';
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueOptions {
+    /** Total attempts before the job is marked failed (default 3) */
+    maxAttempts?: number;
+    /** Earliest time the job may run (default: now) */
+    runAt?: Date;
+}
+
+/**
+ * Passed to a handler while it processes a claimed job
+ */
+export interface JobContext {
+    job: Job;
+    /**
+     * Report progress and renew the lease.
+     * Throws JobCancelledError if cancellation was requested meanwhile.
+     */
+    progress(percent: number, step: string): Promise<void>;
+}
+
+/**
+ * Processes one job type. The returned object is stored as the job result.
+ */
+export type JobHandler = (context: JobContext) => Promise<Record<string, unknown>>;
+
+export type JobHandlers = Record<JobType, JobHandler>;
+
+/**
+ * Thrown from progress() when the user cancelled the job
+ */
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Job was cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+/**
+ * Thrown by handlers for failures that retrying won't fix
+ * (missing profile, order in wrong state, ...)
+ */
+export class PermanentJobError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermanentJobError';
+    }
+}
@@ -123,6 +123,8 @@ export async function processCatalogMatching(
     const result: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(rawAsRecord)) {
+        // Source locations stay in raw_data only
+        if (key === '_sources' || key === '_source_pages') continue;
         if (value !== undefined && value !== '') {
             result[key] = parseFieldValue(key, value);
         }
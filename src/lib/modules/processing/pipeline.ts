@@ -11,43 +11,14 @@ import type {
     ProcessingContext,
     DraftOrder,
     DraftLineItem,
-    LineItemStatus,
-    ValidationError,
     ProcessingProfile,
+    FieldDefinition,
 } from '@/types';
 import { normalizeProducts } from './normalizer';
+import { validateProducts, getValidationStatus } from './validator';
+import { getDuplicateErrors, getLineItemFingerprint } from '@/lib/services/dedupe.service';
 import { createClient } from '@/lib/supabase/server';
-
-/**
- * Validate that the product has required fields populated
- * Validation is dynamic - only checks fields that exist in the product
- */
-function validateProduct(product: NormalizedProduct): string[] {
-    const errors: string[] = [];
-    const productRecord = product as unknown as Record<string, unknown>;
-
-    // Only validate SKU if it exists as a field
-    if ('sku' in productRecord && !product['sku']) {
-        errors.push('SKU is required');
-    }
-
-    // Only validate name if it exists as a field
-    if ('name' in productRecord && !product['name']) {
-        errors.push('Name is required');
-    }
-
-    // Only validate price if it exists as a field
-    if ('price' in productRecord && Number(product['price'] || 0) <= 0) {
-        errors.push('Price must be greater than 0');
-    }
-
-    // Only validate quantity if it exists as a field
-    if ('quantity' in productRecord && Number(product['quantity'] || 0) <= 0) {
-        errors.push('Quantity must be greater than 0');
-    }
-
-    return errors;
-}
+import { getGtinFlags } from '@/lib/gtin';
 
 /**
  * Process raw GPT extraction results through the full pipeline
@@ -80,8 +51,18 @@ export async function processOrder(
         throw normalizeError;
     }
 
-    // Step 2: Products are ready (profile defines all fields)
-    const finalProducts = normalized;
+    // Step 2: Flag invalid EAN/GTIN codes for review
+    const finalProducts = normalized.map(product => {
+        const gtinFlags = getGtinFlags(product, profile.fields || []);
+        if (gtinFlags.length === 0) return product;
+
+        const existing = (product._needs_checking as Array<{ field: string; reason: string }> | undefined) || [];
+        const flagged = new Set(gtinFlags.map(f => f.field));
+        return {
+            ...product,
+            _needs_checking: [...existing.filter(f => !flagged.has(f.field)), ...gtinFlags],
+        };
+    });
 
     // Step 3: Create draft order with line items
     console.log('[Pipeline] Step 3: Creating draft order...');
@@ -111,6 +92,10 @@ async function createDraftOrder(
             shop_system: context.shop_system,
             template_id: context.template?.id || null,
             source_job_id: context.source_job_id || null,
+            supplier_id: context.supplier_id || null,
+            source_file_name: context.source_file?.name || null,
+            source_file_path: context.source_file?.path || null,
+            source_file_type: context.source_file?.content_type || null,
             user_id: context.user_id,
             metadata: {
                 options: context.options,
@@ -132,26 +117,22 @@ async function createDraftOrder(
 
     // Create line items
     const lineItems: Array<Omit<DraftLineItem, 'id' | 'created_at' | 'updated_at'>> = [];
+    const validationResults = validateProducts(normalizedProducts, profile?.fields || []);
 
     for (let i = 0; i < normalizedProducts.length; i++) {
         const raw = rawProducts[i];
         const normalized = normalizedProducts[i];
-        const validationErrors = validateProduct(normalized).map(msg => ({
-            field: getErrorField(msg),
-            message: msg,
-            severity: 'error' as const,
-        }));
-
-        const status: LineItemStatus = validationErrors.length > 0 ? 'error' : 'validated';
+        const validationErrors = validationResults[i];
 
         lineItems.push({
             draft_order_id: order.id,
             line_number: i + 1,
-            status,
+            status: getValidationStatus(validationErrors),
             raw_data: raw,
             normalized_data: normalized,
             validation_errors: validationErrors,
             user_modified: false,
+            fingerprint: getLineItemFingerprint(normalized)?.value ?? null,
         });
     }
 
@@ -166,6 +147,9 @@ async function createDraftOrder(
         throw new Error(`Failed to create line items: ${itemsError.message}`);
     }
 
+    // Duplicate warnings reference line item IDs, so they are added once the items exist
+    await revalidateOrder(order.id);
+
     // Fetch the complete order with items
     const { data: completeOrder, error: fetchError } = await supabase
         .from('draft_orders')
@@ -184,16 +168,64 @@ async function createDraftOrder(
 }
 
 /**
- * Get the field name from a validation error message
- * Extracts the field name dynamically from the message pattern
+ * Load what is needed to validate line items of an order: the profile fields
+ * snapshot taken at order creation and all line items of the order
  */
-function getErrorField(message: string): string {
-    // Messages follow pattern: "FieldName is required" or "FieldName must be..."
-    const match = message.match(/^(\w+)\s+(is|must)/i);
-    if (match) {
-        return match[1].toLowerCase();
+export async function getOrderValidationScope(orderId: string): Promise<{
+    fields: FieldDefinition[];
+    items: Array<Pick<DraftLineItem, 'id' | 'line_number' | 'status' | 'normalized_data' | 'validation_errors' | 'fingerprint'>>;
+}> {
+    const supabase = await createClient();
+
+    const { data: order, error } = await supabase
+        .from('draft_orders')
+        .select('metadata, line_items:draft_line_items(id, line_number, status, normalized_data, validation_errors, fingerprint)')
+        .eq('id', orderId)
+        .single();
+
+    if (error || !order) {
+        throw new Error(`Order not found: ${orderId}`);
     }
-    return 'general';
+
+    const metadata = (order.metadata || {}) as { profile_fields?: FieldDefinition[] | null };
+    return {
+        fields: metadata.profile_fields || [],
+        // In line order, so the first occurrence of a duplicate is the original
+        items: [...(order.line_items || [])].sort((a, b) => a.line_number - b.line_number),
+    };
+}
+
+/**
+ * Re-validate all line items of an order against the profile rules and
+ * check them for duplicates. Runs after every change to line item data.
+ * Only items whose result changed are written; approved items keep their status.
+ */
+export async function revalidateOrder(orderId: string): Promise<void> {
+    const supabase = await createClient();
+    const { fields, items } = await getOrderValidationScope(orderId);
+    const ruleErrors = validateProducts(items.map(i => i.normalized_data || {}), fields);
+    const duplicateErrors = await getDuplicateErrors(orderId, items);
+
+    await Promise.all(items.map(async (item, index) => {
+        const errors = [...ruleErrors[index], ...duplicateErrors[index]];
+        const status = item.status === 'approved' ? item.status : getValidationStatus(errors);
+        const fingerprint = getLineItemFingerprint(item.normalized_data || {})?.value ?? null;
+        const unchanged = status === item.status
+            && fingerprint === (item.fingerprint ?? null)
+            && JSON.stringify(errors) === JSON.stringify(item.validation_errors || []);
+        if (unchanged) {
+            return;
+        }
+
+        const { error } = await supabase
+            .from('draft_line_items')
+            .update({ validation_errors: errors, status, fingerprint })
+            .eq('id', item.id);
+
+        if (error) {
+            console.error(`[Pipeline] Failed to re-validate line item ${item.id}:`, error);
+        }
+    }));
 }
 
 /**
@@ -226,30 +258,31 @@ export async function reprocessLineItem(
     // Product data is merged (no enrichment needed with profiles)
     const enriched = merged;
 
-    // Re-validate
-    const validationErrors: ValidationError[] = validateProduct(enriched).map(msg => ({
-        field: getErrorField(msg),
-        message: msg,
-        severity: 'error' as const,
-    }));
-
-    const status: LineItemStatus = validationErrors.length > 0 ? 'error' : 'validated';
-
     // Update the line item
-    const { data: updated, error: updateError } = await supabase
+    const { error: updateError } = await supabase
         .from('draft_line_items')
         .update({
             normalized_data: enriched,
-            validation_errors: validationErrors,
-            status,
+            status: 'validated',
             user_modified: true,
         })
+        .eq('id', lineItemId);
+
+    if (updateError) {
+        throw new Error(`Failed to update line item: ${updateError.message}`);
+    }
+
+    // Re-validate (rules and duplicates may involve other line items)
+    await revalidateOrder(item.draft_order_id);
+
+    const { data: updated, error: fetchUpdatedError } = await supabase
+        .from('draft_line_items')
+        .select('*')
         .eq('id', lineItemId)
-        .select()
         .single();
 
-    if (updateError || !updated) {
-        throw new Error(`Failed to update line item: ${updateError?.message || 'Unknown error'}`);
+    if (fetchUpdatedError || !updated) {
+        throw new Error(`Failed to fetch line item: ${fetchUpdatedError?.message || 'Unknown error'}`);
     }
 
     return updated as DraftLineItem;
@@ -303,3 +336,4 @@ export async function checkOrderApprovalStatus(orderId: string): Promise<{
 
 // Export individual modules for direct use
 export { normalizeProducts, normalizeProduct } from './normalizer';
+export { validateProduct, validateProducts, getValidationStatus, getUniqueFieldKeys } from './validator';
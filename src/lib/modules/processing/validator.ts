@@ -0,0 +1,256 @@
+/**
+ * Line Item Validator
+ * Checks normalized products against the validation rules of the profile
+ * fields. Runs when an order is created and again after every edit.
+ * Profiles without any rules keep the built-in checks (sku, name, price, quantity).
+ */
+
+import type {
+    ComparisonOperator,
+    FieldDefinition,
+    FieldValidationRule,
+    LineItemStatus,
+    NormalizedProduct,
+    ValidationError,
+} from '@/types';
+import { checkGtin } from '@/lib/gtin';
+
+/** Readable form of the comparison operators, used in messages */
+const OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+    '=': 'equal to',
+    '!=': 'different from',
+    '>': 'greater than',
+    '>=': 'greater than or equal to',
+    '<': 'less than',
+    '<=': 'less than or equal to',
+};
+
+/** Tells whether another line item of the order has the same value for a field */
+type DuplicateCheck = (key: string, value: string) => boolean;
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Parse numbers as they appear in supplier documents ("12.50", "12,50", 12.5)
+ */
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    let text = String(value).trim().replace(/\s/g, '');
+    // Decimal comma without a decimal point
+    if (text.includes(',') && !text.includes('.')) {
+        text = text.replace(',', '.');
+    } else {
+        text = text.replace(/,/g, '');
+    }
+    if (!/^[-+]?\d*\.?\d+$/.test(text)) return null;
+    return parseFloat(text);
+}
+
+/** Normalized form of a value for uniqueness checks */
+function uniqueKey(value: unknown): string {
+    return String(value).trim().toLowerCase();
+}
+
+function compareValues(left: unknown, right: unknown, operator: ComparisonOperator): boolean {
+    const a = toNumber(left);
+    const b = toNumber(right);
+
+    if (a !== null && b !== null) {
+        switch (operator) {
+            case '=': return a === b;
+            case '!=': return a !== b;
+            case '>': return a > b;
+            case '>=': return a >= b;
+            case '<': return a < b;
+            case '<=': return a <= b;
+        }
+    }
+
+    // Non-numeric values can only be checked for (in)equality
+    const equal = uniqueKey(left) === uniqueKey(right);
+    if (operator === '=') return equal;
+    if (operator === '!=') return !equal;
+    return true;
+}
+
+/**
+ * Check a single non-empty value against a rule
+ * @returns Generated error message, or null when the rule passes
+ */
+function checkRule(
+    rule: FieldValidationRule,
+    field: FieldDefinition,
+    value: unknown,
+    product: NormalizedProduct,
+    fields: FieldDefinition[],
+    isDuplicate: DuplicateCheck
+): string | null {
+    const text = String(value).trim();
+
+    switch (rule.type) {
+        case 'pattern': {
+            let regex: RegExp;
+            try {
+                regex = new RegExp(`^(?:${rule.pattern})$`);
+            } catch {
+                console.warn(`[Validator] Invalid pattern for ${field.key}: ${rule.pattern}`);
+                return null;
+            }
+            return regex.test(text) ? null : `${field.label} has an invalid format`;
+        }
+
+        case 'range': {
+            const number = toNumber(value);
+            if (number === null) return `${field.label} must be a number`;
+            if (rule.min !== undefined && number < rule.min) return `${field.label} must be at least ${rule.min}`;
+            if (rule.max !== undefined && number > rule.max) return `${field.label} must be at most ${rule.max}`;
+            return null;
+        }
+
+        case 'enum': {
+            const allowed = rule.values?.length ? rule.values : field.enumValues || [];
+            if (allowed.length === 0) return null;
+            return allowed.some(v => uniqueKey(v) === uniqueKey(text))
+                ? null
+                : `${field.label} must be one of: ${allowed.join(', ')}`;
+        }
+
+        case 'gtin': {
+            const result = checkGtin(text);
+            return result.status === 'valid' ? null : `${field.label}: ${result.reason}`;
+        }
+
+        case 'compare': {
+            const other = product[rule.field];
+            if (isEmpty(other)) return null;
+            const otherLabel = fields.find(f => f.key === rule.field)?.label || rule.field;
+            return compareValues(value, other, rule.operator)
+                ? null
+                : `${field.label} must be ${OPERATOR_LABELS[rule.operator]} ${otherLabel}`;
+        }
+
+        case 'unique':
+            return isDuplicate(field.key, uniqueKey(value))
+                ? `${field.label} "${text}" appears more than once in this order`
+                : null;
+    }
+}
+
+/**
+ * Built-in checks for profiles that do not define any rules
+ */
+function validateDefaults(product: NormalizedProduct): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string): ValidationError => ({ field, message, severity: 'error' });
+
+    if ('sku' in product && !product['sku']) {
+        errors.push(error('sku', 'SKU is required'));
+    }
+    if ('name' in product && !product['name']) {
+        errors.push(error('name', 'Name is required'));
+    }
+    if ('price' in product && Number(product['price'] || 0) <= 0) {
+        errors.push(error('price', 'Price must be greater than 0'));
+    }
+    if ('quantity' in product && Number(product['quantity'] || 0) <= 0) {
+        errors.push(error('quantity', 'Quantity must be greater than 0'));
+    }
+
+    return errors;
+}
+
+function validate(
+    product: NormalizedProduct,
+    fields: FieldDefinition[],
+    isDuplicate: DuplicateCheck
+): ValidationError[] {
+    if (!fields.some(f => f.validation?.length)) {
+        const errors = validateDefaults(product);
+        const reported = new Set(errors.map(e => e.field));
+        for (const field of fields) {
+            if (field.required && !reported.has(field.key) && isEmpty(product[field.key])) {
+                errors.push({ field: field.key, message: `${field.label} is required`, severity: 'error', rule: 'required' });
+            }
+        }
+        return errors;
+    }
+
+    const errors: ValidationError[] = [];
+
+    for (const field of fields) {
+        const value = product[field.key];
+
+        if (isEmpty(value)) {
+            if (field.required) {
+                errors.push({ field: field.key, message: `${field.label} is required`, severity: 'error', rule: 'required' });
+            }
+            continue;
+        }
+
+        for (const rule of field.validation || []) {
+            const message = checkRule(rule, field, value, product, fields, isDuplicate);
+            if (message) {
+                errors.push({
+                    field: field.key,
+                    message: rule.message || message,
+                    severity: rule.severity,
+                    rule: rule.type,
+                });
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Validate one product against the profile fields
+ * @param others The other products of the same order, for uniqueness rules
+ */
+export function validateProduct(
+    product: NormalizedProduct,
+    fields: FieldDefinition[],
+    others: NormalizedProduct[] = []
+): ValidationError[] {
+    return validate(product, fields, (key, value) =>
+        others.some(other => !isEmpty(other[key]) && uniqueKey(other[key]) === value)
+    );
+}
+
+/**
+ * Validate all products of an order
+ * @returns Validation errors per product, in input order
+ */
+export function validateProducts(products: NormalizedProduct[], fields: FieldDefinition[]): ValidationError[][] {
+    const uniqueFields = fields.filter(f => f.validation?.some(r => r.type === 'unique'));
+    const counts = new Map<string, Map<string, number>>();
+
+    for (const field of uniqueFields) {
+        const fieldCounts = new Map<string, number>();
+        for (const product of products) {
+            if (isEmpty(product[field.key])) continue;
+            const key = uniqueKey(product[field.key]);
+            fieldCounts.set(key, (fieldCounts.get(key) || 0) + 1);
+        }
+        counts.set(field.key, fieldCounts);
+    }
+
+    const isDuplicate: DuplicateCheck = (key, value) => (counts.get(key)?.get(value) || 0) > 1;
+    return products.map(product => validate(product, fields, isDuplicate));
+}
+
+/**
+ * Keys of fields whose rules depend on other line items of the order
+ */
+export function getUniqueFieldKeys(fields: FieldDefinition[]): string[] {
+    return fields.filter(f => f.validation?.some(r => r.type === 'unique')).map(f => f.key);
+}
+
+/**
+ * Line item status for a set of validation errors - warnings don't block
+ */
+export function getValidationStatus(errors: ValidationError[]): LineItemStatus {
+    return errors.some(e => e.severity === 'error') ? 'error' : 'validated';
+}
@@ -0,0 +1,120 @@
+/**
+ * Variant Grouper
+ * Groups approved line items into parent products with variants before shop upload.
+ * Driven by the profile's variant_grouping config - without one, every
+ * line item stays a standalone product.
+ */
+
+import type {
+    NormalizedProduct,
+    ProductGroup,
+    VariantAxis,
+    VariantGroupingConfig,
+    FieldDefinition,
+} from '@/types';
+
+/**
+ * Get the value of a grouping/axis field, preferring the normalized value
+ */
+export function getAxisValue(product: NormalizedProduct, key: string): string {
+    const value = product[`${key}_normalized`] ?? product[key];
+    return value !== undefined && value !== null ? String(value).trim() : '';
+}
+
+/**
+ * Wrap a single product as a standalone group
+ */
+function toStandaloneGroup(product: NormalizedProduct, index: number): ProductGroup {
+    return {
+        key: String(product['sku'] || `item-${index + 1}`),
+        parent: product,
+        variants: [product],
+        axes: [],
+    };
+}
+
+/**
+ * Group products by the profile's variant grouping config
+ * @param products Normalized products (one per line item)
+ * @param config Variant grouping config from the processing profile
+ * @param fields Profile fields, used for axis labels
+ * @returns Parent products with their variants, in first-seen order
+ */
+export function groupProducts(
+    products: NormalizedProduct[],
+    config?: VariantGroupingConfig | null,
+    fields: FieldDefinition[] = []
+): ProductGroup[] {
+    if (!config || config.group_by.length === 0) {
+        return products.map(toStandaloneGroup);
+    }
+
+    const groups = new Map<string, Array<{ product: NormalizedProduct; index: number }>>();
+    const standalone: ProductGroup[] = [];
+
+    products.forEach((product, index) => {
+        const keyParts = config.group_by.map(key => getAxisValue(product, key));
+
+        // Products missing a grouping value cannot be matched to siblings
+        if (keyParts.some(part => !part)) {
+            standalone.push(toStandaloneGroup(product, index));
+            return;
+        }
+
+        const key = keyParts.join('-');
+        const existing = groups.get(key);
+        if (existing) {
+            existing.push({ product, index });
+        } else {
+            groups.set(key, [{ product, index }]);
+        }
+    });
+
+    const labels = new Map(fields.map(f => [f.key, f.label || f.key]));
+
+    const grouped = Array.from(groups).flatMap(([key, members]): ProductGroup[] => {
+        const variants = members.map(m => m.product);
+
+        // Only axes that actually carry a value become variant options
+        const axes: VariantAxis[] = config.variant_axes
+            .filter(axis => variants.some(v => getAxisValue(v, axis)))
+            .map(axis => ({ key: axis, label: labels.get(axis) || axis }));
+
+        // Without an axis the items cannot be told apart as variants - keep them standalone
+        if (axes.length === 0 && variants.length > 1) {
+            return members.map(m => toStandaloneGroup(m.product, m.index));
+        }
+
+        const parent: NormalizedProduct = { ...variants[0], sku: key };
+        for (const axis of axes) {
+            delete parent[axis.key];
+            delete parent[`${axis.key}_normalized`];
+        }
+
+        return [{ key, parent, variants, axes }];
+    });
+
+    return [...grouped, ...standalone];
+}
+
+/**
+ * Split groups without variant axes into one standalone group per item,
+ * so adapters uploading such groups as a single product drop no item
+ */
+export function splitAxislessGroups(groups: ProductGroup[]): ProductGroup[] {
+    return groups.flatMap(group => group.axes.length === 0 && group.variants.length > 1
+        ? group.variants.map((variant, i): ProductGroup => ({
+            key: String(variant['sku'] || `${group.key}-${i + 1}`),
+            parent: variant,
+            variants: [variant],
+            axes: [],
+        }))
+        : [group]);
+}
+
+/**
+ * Flatten groups back to their variants (e.g. for mock uploads)
+ */
+export function flattenGroups(groups: ProductGroup[]): NormalizedProduct[] {
+    return groups.flatMap(g => g.variants);
+}
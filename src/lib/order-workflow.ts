@@ -0,0 +1,31 @@
+/**
+ * Order Workflow
+ * Allowed status transitions of draft orders. Review goes
+ * pending_review → in_review → approved, or back to the uploader via
+ * changes_requested.
+ * Enforced for direct table updates by a trigger (migration 041) - keep both in sync.
+ */
+
+import type { DraftOrderStatus } from '@/types';
+
+export const ORDER_STATUS_TRANSITIONS: Record<DraftOrderStatus, DraftOrderStatus[]> = {
+    processing: ['pending_review'],
+    pending_review: ['in_review', 'approved'],
+    in_review: ['approved', 'changes_requested', 'pending_review'],
+    changes_requested: ['in_review', 'pending_review'],
+    approved: ['exporting', 'in_review', 'pending_review'],
+    exporting: ['exported', 'failed'],
+    // Exported and failed orders can be re-submitted with upsert
+    exported: ['exporting'],
+    failed: ['exporting', 'pending_review'],
+};
+
+/** Statuses that show up in a reviewer's queue */
+export const REVIEW_QUEUE_STATUSES: DraftOrderStatus[] = ['pending_review', 'in_review'];
+
+/** Statuses reviewers set by hand - exporting, exported and failed are only set by the shop upload */
+export const MANUAL_ORDER_STATUSES: DraftOrderStatus[] = ['pending_review', 'in_review', 'changes_requested', 'approved'];
+
+export function canTransitionOrder(from: DraftOrderStatus, to: DraftOrderStatus): boolean {
+    return from === to || ORDER_STATUS_TRANSITIONS[from]?.includes(to) === true;
+}
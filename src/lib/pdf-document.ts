@@ -0,0 +1,58 @@
+/**
+ * PDF Document Loading (browser)
+ * Shared pdf.js document cache for the source viewer and field snippets,
+ * so one order's PDF is downloaded and parsed once per page visit.
+ */
+
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+/** Render resolution of cached snippet pages */
+const SNIPPET_RENDER_SCALE = 2;
+
+const documentCache = new Map<string, Promise<PDFDocumentProxy>>();
+const pageCache = new Map<string, Promise<HTMLCanvasElement>>();
+
+/**
+ * Load (or reuse) a PDF document
+ */
+export function loadPdfDocument(url: string): Promise<PDFDocumentProxy> {
+    let cached = documentCache.get(url);
+    if (!cached) {
+        cached = (async () => {
+            const pdfjs = await import("pdfjs-dist");
+            pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+                "pdfjs-dist/build/pdf.worker.min.mjs",
+                import.meta.url
+            ).toString();
+            return pdfjs.getDocument(url).promise;
+        })();
+        // Allow a retry after a failed download
+        cached.catch(() => documentCache.delete(url));
+        documentCache.set(url, cached);
+    }
+    return cached;
+}
+
+/**
+ * Render a page into an offscreen canvas (cached, used for cropping snippets)
+ */
+export function renderPdfPage(url: string, pageNumber: number): Promise<HTMLCanvasElement> {
+    const key = `${url}#${pageNumber}`;
+    let cached = pageCache.get(key);
+    if (!cached) {
+        cached = (async () => {
+            const doc = await loadPdfDocument(url);
+            const page = await doc.getPage(pageNumber);
+            const viewport = page.getViewport({ scale: SNIPPET_RENDER_SCALE });
+
+            const canvas = document.createElement("canvas");
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            await page.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise;
+            return canvas;
+        })();
+        cached.catch(() => pageCache.delete(key));
+        pageCache.set(key, cached);
+    }
+    return cached;
+}
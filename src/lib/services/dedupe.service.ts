@@ -0,0 +1,159 @@
+/**
+ * Dedupe Service
+ * Detects line items that repeat within an order and line items that were
+ * already exported with an earlier order of the tenant. Line items are
+ * compared by fingerprint: EAN, otherwise SKU, otherwise article + color + size.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { isValidGtin, normalizeGtin } from '@/lib/gtin';
+import { getAxisValue } from '@/lib/modules/processing/variant-grouper';
+import type { DuplicateReference, NormalizedProduct, ValidationError } from '@/types';
+
+export const EAN_KEYS = ['ean', 'gtin', 'barcode', 'upc'];
+const ARTICLE_KEYS = ['article_number', 'articleNumber', 'article', 'style_code', 'styleCode'];
+
+/** Fingerprints per request when looking up exported line items */
+const LOOKUP_BATCH_SIZE = 200;
+
+export interface LineItemFingerprint {
+    value: string;
+    /** Field the duplicate error is reported on */
+    field: string;
+    /** What matched, used in messages */
+    label: string;
+}
+
+/**
+ * Identity of a line item for duplicate detection
+ * @returns null when the product has no identifying values
+ */
+export function getLineItemFingerprint(product: NormalizedProduct): LineItemFingerprint | null {
+    for (const key of EAN_KEYS) {
+        const code = normalizeGtin(product[key]);
+        if (code && isValidGtin(code)) {
+            return { value: `ean:${code}`, field: key, label: 'EAN' };
+        }
+    }
+
+    const sku = getAxisValue(product, 'sku');
+    if (sku) {
+        return { value: `sku:${sku.toLowerCase()}`, field: 'sku', label: 'SKU' };
+    }
+
+    const articleKey = ARTICLE_KEYS.find(key => getAxisValue(product, key));
+    if (articleKey) {
+        const parts = [articleKey, 'color', 'size'].map(key => getAxisValue(product, key).toLowerCase());
+        return { value: `article:${parts.join('|')}`, field: articleKey, label: 'article, color and size' };
+    }
+
+    return null;
+}
+
+/**
+ * Find line items of exported orders with the given fingerprints
+ * @returns Most recent exported line item per fingerprint
+ */
+export async function findExportedDuplicates(
+    fingerprints: string[],
+    excludeOrderId?: string
+): Promise<Map<string, DuplicateReference>> {
+    const matches = new Map<string, DuplicateReference & { created_at: string }>();
+    const unique = [...new Set(fingerprints)];
+    if (unique.length === 0) return matches;
+
+    const supabase = await createClient();
+
+    for (let i = 0; i < unique.length; i += LOOKUP_BATCH_SIZE) {
+        let query = supabase
+            .from('draft_line_items')
+            .select('id, line_number, fingerprint, draft_order_id, draft_orders!inner(name, status, created_at)')
+            .in('fingerprint', unique.slice(i, i + LOOKUP_BATCH_SIZE))
+            .eq('draft_orders.status', 'exported');
+
+        if (excludeOrderId) {
+            query = query.neq('draft_order_id', excludeOrderId);
+        }
+
+        const { data, error } = await query;
+        if (error) {
+            console.error('[Dedupe] Failed to look up exported line items:', error);
+            continue;
+        }
+
+        for (const row of data || []) {
+            const order = row.draft_orders as unknown as { name: string | null; created_at: string };
+            const previous = matches.get(row.fingerprint);
+            if (previous && previous.created_at >= order.created_at) continue;
+
+            matches.set(row.fingerprint, {
+                order_id: row.draft_order_id,
+                order_name: order.name,
+                line_item_id: row.id,
+                line_number: row.line_number,
+                created_at: order.created_at,
+            });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Duplicate warnings for the line items of an order
+ * Later repeats of a line item point to its first occurrence; line items
+ * that were exported before point to the earlier order.
+ * @param orderId Order the items belong to
+ * @returns Validation errors per item, in input order
+ */
+export async function getDuplicateErrors(
+    orderId: string,
+    items: Array<{ id: string; line_number: number; normalized_data?: NormalizedProduct | null }>
+): Promise<ValidationError[][]> {
+    const fingerprints = items.map(item => getLineItemFingerprint(item.normalized_data || {}));
+    const exported = await findExportedDuplicates(
+        fingerprints.filter((fp): fp is LineItemFingerprint => fp !== null).map(fp => fp.value),
+        orderId
+    );
+
+    const firstSeen = new Map<string, number>();
+
+    return items.map((item, index) => {
+        const fingerprint = fingerprints[index];
+        if (!fingerprint) return [];
+
+        const errors: ValidationError[] = [];
+        const firstIndex = firstSeen.get(fingerprint.value);
+
+        if (firstIndex === undefined) {
+            firstSeen.set(fingerprint.value, index);
+        } else {
+            const original = items[firstIndex];
+            errors.push({
+                field: fingerprint.field,
+                message: `Duplicate of line ${original.line_number} (same ${fingerprint.label})`,
+                severity: 'warning',
+                rule: 'duplicate',
+                duplicate_of: {
+                    order_id: orderId,
+                    line_item_id: original.id,
+                    line_number: original.line_number,
+                },
+            });
+        }
+
+        const previous = exported.get(fingerprint.value);
+        if (previous) {
+            const { order_id, order_name, line_item_id, line_number } = previous as DuplicateReference;
+            errors.push({
+                field: fingerprint.field,
+                message: `Already exported with order ${order_name ? `"${order_name}"` : order_id.slice(0, 8)} (line ${line_number})`,
+                severity: 'warning',
+                rule: 'duplicate',
+                duplicate_of: { order_id, order_name, line_item_id, line_number },
+            });
+        }
+
+        return errors;
+    });
+}
@@ -10,8 +10,17 @@ import type {
     DraftOrderStatus,
     NormalizedProduct,
     ShopSystem,
+    FieldDefinition,
+    VariantGroupingConfig,
+    LineItemEventSource,
 } from '@/types';
-import { getAdapter } from '@/lib/adapters';
+import { getAdapter, upsertProducts, type BatchUploadResult, type UploadMode, type UploadResult } from '@/lib/adapters';
+import { groupProducts } from '@/lib/modules/processing/variant-grouper';
+import { getGtinFlags } from '@/lib/gtin';
+import { revalidateOrder } from '@/lib/modules/processing/pipeline';
+import { recordLineItemChanges } from '@/lib/services/line-item-events.service';
+import { recordExportedProducts } from '@/lib/services/products.service';
+import { canTransitionOrder, REVIEW_QUEUE_STATUSES } from '@/lib/order-workflow';
 
 /**
  * Get a draft order by ID with all line items
@@ -23,7 +32,8 @@ export async function getDraftOrder(orderId: string): Promise<DraftOrder | null>
         .from('draft_orders')
         .select(`
             *,
-            line_items:draft_line_items(*)
+            line_items:draft_line_items(*),
+            supplier:vendors(id, name)
         `)
         .eq('id', orderId)
         .single();
@@ -38,22 +48,58 @@ export async function getDraftOrder(orderId: string): Promise<DraftOrder | null>
 
 /**
  * Get all draft orders for a user
+ * @param options.queueFor Only orders waiting for this user: assigned to them
+ *                         for review, or their own orders with changes requested
  */
 export async function getDraftOrders(options?: {
     status?: DraftOrderStatus;
+    queueFor?: string;
+    /** Full-text search across name, source file, supplier and line item values */
+    search?: string;
+    /** Only archived orders (default: only active ones) */
+    archived?: boolean;
+    /** Created on or after (ISO date) */
+    createdFrom?: string;
+    /** Created on or before (ISO date, inclusive) */
+    createdTo?: string;
+    profileId?: string;
     limit?: number;
     offset?: number;
 }): Promise<{ orders: DraftOrder[]; total: number }> {
     const supabase = await createClient();
 
-    let query = supabase
-        .from('draft_orders')
-        .select('*', { count: 'exact' })
-        .order('created_at', { ascending: false });
+    // search_draft_orders returns draft_orders rows, so the filters below apply to both
+    const search = options?.search?.trim();
+    let query = (search
+        ? supabase.rpc('search_draft_orders', { p_query: search }, { count: 'exact' }).select('*')
+        : supabase.from('draft_orders').select('*', { count: 'exact' })
+    ).order('created_at', { ascending: false });
+
+    query = options?.archived
+        ? query.not('archived_at', 'is', null)
+        : query.is('archived_at', null);
 
     if (options?.status) {
         query = query.eq('status', options.status);
     }
+    if (options?.queueFor) {
+        query = query.or(
+            `and(reviewer_id.eq.${options.queueFor},status.in.(${REVIEW_QUEUE_STATUSES.join(',')})),` +
+            `and(user_id.eq.${options.queueFor},status.eq.changes_requested)`
+        );
+    }
+    if (options?.createdFrom) {
+        query = query.gte('created_at', options.createdFrom);
+    }
+    if (options?.createdTo) {
+        // Include the whole end day
+        const end = new Date(options.createdTo);
+        end.setUTCDate(end.getUTCDate() + 1);
+        query = query.lt('created_at', end.toISOString());
+    }
+    if (options?.profileId) {
+        query = query.eq('metadata->>profile_id', options.profileId);
+    }
     if (options?.limit) {
         query = query.limit(options.limit);
     }
@@ -72,42 +118,142 @@ export async function getDraftOrders(options?: {
 }
 
 /**
- * Update a draft order's status
+ * Move a draft order to another status along the review workflow
+ * Starting a review assigns the current user if no reviewer is set.
+ * @param options.note What the reviewer asks to change (for changes_requested)
  */
 export async function updateDraftOrderStatus(
     orderId: string,
-    status: DraftOrderStatus
-): Promise<DraftOrder | null> {
+    status: DraftOrderStatus,
+    options: { note?: string } = {}
+): Promise<{ success: boolean; order?: DraftOrder; error?: string }> {
     const supabase = await createClient();
 
+    const { data: current, error: fetchError } = await supabase
+        .from('draft_orders')
+        .select('status, reviewer_id')
+        .eq('id', orderId)
+        .single();
+
+    if (fetchError || !current) {
+        console.error('Failed to fetch draft order status:', fetchError);
+        return { success: false, error: 'Order not found' };
+    }
+
+    if (!canTransitionOrder(current.status, status)) {
+        console.warn(`[Workflow] Rejected status change of ${orderId}: ${current.status} → ${status}`);
+        return { success: false, error: `Cannot change order status from ${current.status} to ${status}` };
+    }
+
+    const updates: Record<string, unknown> = { status };
+    if (status === 'changes_requested') {
+        updates.review_note = options.note?.trim() || null;
+    } else if (status === 'approved') {
+        updates.review_note = null;
+    }
+    if (status === 'in_review' && !current.reviewer_id) {
+        const { data: { user } } = await supabase.auth.getUser();
+        updates.reviewer_id = user?.id ?? null;
+    }
+
+    // Only update if nobody moved the order in the meantime
     const { data, error } = await supabase
         .from('draft_orders')
-        .update({ status })
+        .update(updates)
         .eq('id', orderId)
+        .eq('status', current.status)
         .select()
-        .single();
+        .maybeSingle();
 
     if (error) {
         console.error('Failed to update draft order status:', error);
-        return null;
+        return { success: false, error: 'Failed to update status' };
+    }
+    if (!data) {
+        return { success: false, error: 'Order status was changed in the meantime' };
     }
 
-    return data as DraftOrder;
+    return { success: true, order: data as DraftOrder };
+}
+
+/**
+ * Assign a tenant member to review a draft order (null to unassign)
+ */
+export async function assignReviewer(
+    orderId: string,
+    reviewerId: string | null
+): Promise<{ success: boolean; order?: DraftOrder; error?: string }> {
+    const supabase = await createClient();
+
+    if (reviewerId) {
+        const { data: member } = await supabase
+            .from('tenant_user_profiles')
+            .select('user_id')
+            .eq('user_id', reviewerId)
+            .maybeSingle();
+
+        if (!member) {
+            return { success: false, error: 'Reviewer is not a member of this organization' };
+        }
+    }
+
+    const { data, error } = await supabase
+        .from('draft_orders')
+        .update({ reviewer_id: reviewerId })
+        .eq('id', orderId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Failed to assign reviewer:', error);
+        return { success: false, error: 'Failed to assign reviewer' };
+    }
+
+    return { success: true, order: data as DraftOrder };
+}
+
+/**
+ * Archive a draft order (it leaves the default orders list) or restore it
+ */
+export async function setDraftOrderArchived(
+    orderId: string,
+    archived: boolean
+): Promise<{ success: boolean; order?: DraftOrder; error?: string }> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('draft_orders')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', orderId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Failed to archive draft order:', error);
+        return { success: false, error: archived ? 'Failed to archive order' : 'Failed to restore order' };
+    }
+
+    return { success: true, order: data as DraftOrder };
 }
 
 /**
- * Update a line item's normalized data
+ * Update a line item's normalized data, record the change in the audit log
+ * and re-validate the order
+ * @param options.revalidate Set to false when updating many items; call
+ *                           revalidateOrder once afterwards instead
+ * @param options.source How the change was made (default: inline edit)
  */
 export async function updateLineItem(
     lineItemId: string,
-    updates: Partial<NormalizedProduct>
+    updates: Partial<NormalizedProduct>,
+    options: { revalidate?: boolean; source?: LineItemEventSource } = {}
 ): Promise<DraftLineItem | null> {
     const supabase = await createClient();
 
-    // Get current line item
+    // Get current line item with the order's profile fields snapshot
     const { data: current, error: fetchError } = await supabase
         .from('draft_line_items')
-        .select('normalized_data')
+        .select('draft_order_id, normalized_data, draft_order:draft_orders(metadata)')
         .eq('id', lineItemId)
         .single();
 
@@ -120,18 +266,21 @@ export async function updateLineItem(
     const currentData = current.normalized_data as NormalizedProduct & { 
         _needs_checking?: Array<{ field: string; reason: string }> 
     };
-    
-    // Clear _needs_checking flags for any edited fields
+    const order = current.draft_order as unknown as { metadata?: { profile_fields?: FieldDefinition[] | null } } | null;
+    const fields = order?.metadata?.profile_fields || [];
+
+    // Clear _needs_checking flags for any edited fields, unless an edited EAN/GTIN is still invalid
     const editedFields = new Set(Object.keys(updates));
-    const updatedNeedsChecking = currentData._needs_checking?.filter(
-        flag => !editedFields.has(flag.field)
-    );
+    const updatedNeedsChecking = [
+        ...(currentData._needs_checking || []).filter(flag => !editedFields.has(flag.field)),
+        ...getGtinFlags({ ...currentData, ...updates }, fields, editedFields),
+    ];
     
     const normalized = {
         ...currentData,
         ...updates,
         // Only include _needs_checking if there are remaining flags
-        _needs_checking: updatedNeedsChecking?.length ? updatedNeedsChecking : undefined,
+        _needs_checking: updatedNeedsChecking.length ? updatedNeedsChecking : undefined,
     };
 
     // Update the item
@@ -140,8 +289,7 @@ export async function updateLineItem(
         .update({
             normalized_data: normalized,
             user_modified: true,
-            status: 'validated', // Mark as validated after user edit
-            validation_errors: [], // Clear errors after edit
+            status: 'validated', // Re-validation below sets 'error' if rules fail
         })
         .eq('id', lineItemId)
         .select()
@@ -152,7 +300,100 @@ export async function updateLineItem(
         return null;
     }
 
-    return data as DraftLineItem;
+    await recordLineItemChanges(
+        current.draft_order_id,
+        [{ lineItemId, before: currentData, after: normalized }],
+        { source: options.source || 'edit' }
+    );
+
+    if (options.revalidate === false) {
+        return data as DraftLineItem;
+    }
+
+    // Rules and duplicates can involve other line items of the order
+    await revalidateOrder(current.draft_order_id);
+
+    const { data: validated } = await supabase
+        .from('draft_line_items')
+        .select()
+        .eq('id', lineItemId)
+        .single();
+
+    return (validated || data) as DraftLineItem;
+}
+
+/**
+ * Merge a duplicate line item into the line item it repeats:
+ * quantities are summed on the original and the duplicate is removed
+ */
+export async function mergeDuplicateLineItem(
+    orderId: string,
+    duplicateId: string,
+    originalId: string
+): Promise<{ success: boolean; error?: string }> {
+    const supabase = await createClient();
+
+    const { data: items, error: fetchError } = await supabase
+        .from('draft_line_items')
+        .select('id, normalized_data')
+        .eq('draft_order_id', orderId)
+        .in('id', [duplicateId, originalId]);
+
+    const duplicate = items?.find(i => i.id === duplicateId);
+    const original = items?.find(i => i.id === originalId);
+    if (fetchError || !duplicate || !original || duplicateId === originalId) {
+        return { success: false, error: 'Line items not found in this order' };
+    }
+
+    const originalData = original.normalized_data as NormalizedProduct;
+    const duplicateData = duplicate.normalized_data as NormalizedProduct;
+    const quantityKey = 'quantity' in originalData
+        ? 'quantity'
+        : Object.keys(originalData).find(key => /quantity|qty/i.test(key));
+
+    if (quantityKey) {
+        const sum = (Number(originalData[quantityKey]) || 0) + (Number(duplicateData[quantityKey]) || 0);
+        const merged = { ...originalData, [quantityKey]: sum };
+        const { error } = await supabase
+            .from('draft_line_items')
+            .update({ normalized_data: merged, user_modified: true })
+            .eq('id', originalId);
+
+        if (error) {
+            console.error('Failed to merge line items:', error);
+            return { success: false, error: 'Failed to update quantity' };
+        }
+
+        await recordLineItemChanges(orderId, [{ lineItemId: originalId, before: originalData, after: merged }], {
+            source: 'merge',
+        });
+    }
+
+    return deleteLineItems(orderId, [duplicateId]);
+}
+
+/**
+ * Delete line items from an order (e.g. discarded duplicates) and re-validate the rest
+ */
+export async function deleteLineItems(
+    orderId: string,
+    lineItemIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+        .from('draft_line_items')
+        .delete()
+        .eq('draft_order_id', orderId)
+        .in('id', lineItemIds);
+
+    if (error) {
+        console.error('Failed to delete line items:', error);
+        return { success: false, error: 'Failed to delete line items' };
+    }
+
+    await revalidateOrder(orderId);
+    return { success: true };
 }
 
 /**
@@ -200,11 +441,20 @@ export async function approveAllLineItems(
     return { success: true, count: count || 0 };
 }
 
+/** Product groups sent to the shop system per adapter call */
+const UPLOAD_BATCH_SIZE = 10;
+
 /**
  * Submit an approved order to the shop system
+ * @param mode 'create' always creates products; 'upsert' updates products that
+ *             already exist (by stored external ID, SKU or EAN). Upsert also
+ *             allows re-submitting exported or failed orders.
+ * @param onProgress Called after each batch of product groups, e.g. to renew a job lease
  */
 export async function submitOrderToShop(
-    orderId: string
+    orderId: string,
+    mode: UploadMode = 'create',
+    onProgress?: (uploaded: number, total: number) => Promise<void>
 ): Promise<{ success: boolean; results?: unknown; error?: string }> {
     const supabase = await createClient();
 
@@ -214,27 +464,76 @@ export async function submitOrderToShop(
         return { success: false, error: 'Order not found' };
     }
 
-    if (order.status !== 'approved') {
+    const submittable = mode === 'upsert'
+        ? ['approved', 'exported', 'failed'].includes(order.status)
+        : order.status === 'approved';
+    if (!submittable) {
         return { success: false, error: 'Order must be approved before submitting' };
     }
 
+    // Get approved line items - checked before the order is moved to exporting
+    const approvedItems = order.line_items?.filter(i => i.status === 'approved') || [];
+    const products = approvedItems.map(i => i.normalized_data as NormalizedProduct);
+
+    if (products.length === 0) {
+        return { success: false, error: 'No approved products to export' };
+    }
+
     // Update status to exporting
-    await updateDraftOrderStatus(orderId, 'exporting');
+    const exporting = await updateDraftOrderStatus(orderId, 'exporting');
+    if (!exporting.success) {
+        return { success: false, error: exporting.error };
+    }
 
     try {
-        // Get approved line items
-        const approvedItems = order.line_items?.filter(i => i.status === 'approved') || [];
-        const products = approvedItems.map(i => i.normalized_data as NormalizedProduct);
-
-        if (products.length === 0) {
-            return { success: false, error: 'No approved products to export' };
+        // Group variants into parent products using the order's profile
+        const profileId = order.metadata?.profile_id as string | undefined;
+        let variantGrouping: VariantGroupingConfig | null = null;
+        let profileFields = (order.metadata?.profile_fields as FieldDefinition[] | null) || [];
+        if (profileId) {
+            const { data: profile } = await supabase
+                .from('input_profiles')
+                .select('fields, variant_grouping')
+                .eq('id', profileId)
+                .single();
+            variantGrouping = (profile?.variant_grouping as VariantGroupingConfig | null) || null;
+            profileFields = (profile?.fields as FieldDefinition[] | null) || profileFields;
         }
+        const groups = groupProducts(products, variantGrouping, profileFields);
 
         // Get the adapter for this shop system
         const adapter = getAdapter(order.shop_system as ShopSystem);
 
-        // Upload products
-        const results = await adapter.uploadProducts(products);
+        const knownIds = new Map<string, string>();
+        for (const item of approvedItems) {
+            const sku = String(item.normalized_data?.['sku'] || '');
+            if (sku && item.external_id) knownIds.set(sku, item.external_id);
+        }
+
+        // Upload products in batches so progress is reported during long uploads
+        const results: BatchUploadResult = { successful: 0, failed: 0, results: [] };
+        for (let start = 0; start < groups.length; start += UPLOAD_BATCH_SIZE) {
+            const batch = groups.slice(start, start + UPLOAD_BATCH_SIZE);
+            const batchResults = mode === 'upsert'
+                ? await upsertProducts(adapter, batch, knownIds)
+                : await adapter.uploadProducts(batch);
+
+            results.successful += batchResults.successful;
+            results.failed += batchResults.failed;
+            results.results.push(...batchResults.results);
+
+            await onProgress?.(Math.min(start + UPLOAD_BATCH_SIZE, groups.length), groups.length);
+        }
+
+        const externalIds = await saveExternalIds(approvedItems, results.results);
+
+        // Line items whose upload failed stay out of the product master
+        const failedSkus = new Set(results.results.filter(r => r.status === 'error').map(r => r.sku));
+        await recordExportedProducts(
+            order,
+            approvedItems.filter(i => !failedSkus.has(String(i.normalized_data?.['sku'] || ''))),
+            externalIds
+        );
 
         // Update order with results
         await supabase
@@ -243,7 +542,7 @@ export async function submitOrderToShop(
                 status: results.failed === 0 ? 'exported' : 'failed',
                 metadata: {
                     ...order.metadata,
-                    export_results: results,
+                    export_results: { ...results, mode },
                 },
             })
             .eq('id', orderId);
@@ -259,6 +558,45 @@ export async function submitOrderToShop(
     }
 }
 
+/**
+ * Persist external IDs from upload results on the matching line items.
+ * Results are matched by SKU; duplicate SKUs are assigned in line order.
+ * @returns External ID per line item ID
+ */
+async function saveExternalIds(
+    lineItems: DraftLineItem[],
+    results: UploadResult[]
+): Promise<Map<string, string>> {
+    const supabase = await createClient();
+
+    const itemsBySku = new Map<string, DraftLineItem[]>();
+    for (const item of lineItems) {
+        const sku = String(item.normalized_data?.['sku'] || '');
+        if (!sku) continue;
+        itemsBySku.set(sku, [...(itemsBySku.get(sku) || []), item]);
+    }
+
+    const assigned = results
+        .filter(r => r.status === 'success' && r.externalId)
+        .map(r => ({ item: itemsBySku.get(r.sku)?.shift(), externalId: r.externalId! }))
+        .filter(u => u.item);
+    const updates = assigned.filter(u => u.item!.external_id !== u.externalId);
+
+    const responses = await Promise.all(updates.map(u =>
+        supabase
+            .from('draft_line_items')
+            .update({ external_id: u.externalId })
+            .eq('id', u.item!.id)
+    ));
+
+    const failed = responses.filter(r => r.error);
+    if (failed.length > 0) {
+        console.error('Failed to save external IDs:', failed.map(r => r.error));
+    }
+
+    return new Map(assigned.map(u => [u.item!.id, u.externalId]));
+}
+
 /**
  * Delete a draft order and all its line items
  */
@@ -0,0 +1,262 @@
+/**
+ * Line Item Events Service
+ * Audit log of line item changes. Every edit path records the fields it
+ * changed with their old and new values; single changes and whole Spark
+ * sessions can be reverted from the log.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidateOrder } from '@/lib/modules/processing/pipeline';
+import type { LineItemEvent, LineItemEventSource } from '@/types';
+
+export interface LineItemChange {
+    lineItemId: string;
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+}
+
+export interface RevertResult {
+    success: boolean;
+    revertedCount: number;
+    /** Line items with their restored data, for optimistic UI updates */
+    items: Array<{ id: string; data: Record<string, unknown> }>;
+    error?: string;
+}
+
+/** Events returned per request when loading the history */
+const DEFAULT_HISTORY_LIMIT = 200;
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field-level differences between two versions of a line item's data
+ * Internal keys (`_needs_checking`, `_sources`, ...) are not tracked.
+ */
+export function diffLineItemData(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+): Array<{ field: string; old_value: unknown; new_value: unknown }> {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const diffs: Array<{ field: string; old_value: unknown; new_value: unknown }> = [];
+
+    for (const key of keys) {
+        if (key.startsWith('_') || isSameValue(before[key], after[key])) continue;
+        diffs.push({ field: key, old_value: before[key] ?? null, new_value: after[key] ?? null });
+    }
+
+    return diffs;
+}
+
+/**
+ * Record the changes made to line items of an order
+ * Failures are logged - the edit itself has already been saved.
+ */
+export async function recordLineItemChanges(
+    orderId: string,
+    changes: LineItemChange[],
+    options: { source: LineItemEventSource; sparkSessionId?: string }
+): Promise<void> {
+    const rows = changes.flatMap(change =>
+        diffLineItemData(change.before, change.after).map(diff => ({
+            draft_order_id: orderId,
+            line_item_id: change.lineItemId,
+            ...diff,
+            source: options.source,
+            spark_session_id: options.sparkSessionId ?? null,
+        }))
+    );
+
+    if (rows.length === 0) return;
+
+    const supabase = await createClient();
+    const { error } = await supabase.from('line_item_events').insert(rows);
+
+    if (error) {
+        console.error('[Audit] Failed to record line item changes:', error);
+    }
+}
+
+/**
+ * History of an order or a single line item, newest first
+ */
+export async function getLineItemEvents(
+    orderId: string,
+    options: { lineItemId?: string; limit?: number } = {}
+): Promise<LineItemEvent[]> {
+    const supabase = await createClient();
+
+    let query = supabase
+        .from('line_item_events')
+        .select('*, line_item:draft_line_items(line_number)')
+        .eq('draft_order_id', orderId)
+        .order('created_at', { ascending: false })
+        .limit(options.limit || DEFAULT_HISTORY_LIMIT);
+
+    if (options.lineItemId) {
+        query = query.eq('line_item_id', options.lineItemId);
+    }
+
+    const { data, error } = await query;
+
+    if (error || !data) {
+        console.error('[Audit] Failed to fetch line item events:', error);
+        return [];
+    }
+
+    // Resolve actor names from the tenant's member profiles
+    const actorIds = [...new Set(data.map(e => e.actor_id).filter(Boolean))];
+    const names = new Map<string, string>();
+    if (actorIds.length > 0) {
+        const { data: profiles } = await supabase
+            .from('tenant_user_profiles')
+            .select('user_id, email, full_name')
+            .in('user_id', actorIds);
+
+        for (const profile of profiles || []) {
+            names.set(profile.user_id, profile.full_name || profile.email);
+        }
+    }
+
+    return data.map(({ line_item, ...event }) => ({
+        ...event,
+        line_number: (line_item as { line_number: number } | null)?.line_number,
+        actor_name: event.actor_id ? names.get(event.actor_id) : undefined,
+    })) as LineItemEvent[];
+}
+
+/**
+ * Undo events: restore their old values, newest first so that a field
+ * changed several times ends up with the value it had before the first change
+ */
+async function revertEvents(orderId: string, events: LineItemEvent[]): Promise<RevertResult> {
+    if (events.length === 0) {
+        return { success: false, revertedCount: 0, items: [], error: 'Nothing to revert' };
+    }
+
+    const supabase = await createClient();
+    const itemIds = [...new Set(events.map(e => e.line_item_id))];
+
+    const { data: items, error: fetchError } = await supabase
+        .from('draft_line_items')
+        .select('id, normalized_data')
+        .eq('draft_order_id', orderId)
+        .in('id', itemIds);
+
+    if (fetchError || !items) {
+        console.error('[Audit] Failed to fetch line items to revert:', fetchError);
+        return { success: false, revertedCount: 0, items: [], error: 'Failed to fetch line items' };
+    }
+
+    const sorted = [...events].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    const revertRows: Array<Record<string, unknown>> = [];
+    const revertedIds: string[] = [];
+    const restoredItems: RevertResult['items'] = [];
+
+    for (const item of items) {
+        const data = { ...(item.normalized_data as Record<string, unknown>) };
+        const itemEvents = sorted.filter(e => e.line_item_id === item.id);
+        const rows = itemEvents.map(event => {
+            const row = {
+                draft_order_id: orderId,
+                line_item_id: item.id,
+                field: event.field,
+                old_value: data[event.field] ?? null,
+                new_value: event.old_value ?? null,
+                source: 'revert',
+                spark_session_id: event.spark_session_id,
+                reverts_event_id: event.id,
+            };
+
+            if (event.old_value === null || event.old_value === undefined) {
+                delete data[event.field];
+            } else {
+                data[event.field] = event.old_value;
+            }
+            return row;
+        });
+
+        const { error } = await supabase
+            .from('draft_line_items')
+            .update({ normalized_data: data, user_modified: true, status: 'validated' })
+            .eq('id', item.id);
+
+        if (error) {
+            console.error('[Audit] Failed to revert line item:', error);
+            continue;
+        }
+
+        revertRows.push(...rows);
+        revertedIds.push(...itemEvents.map(e => e.id));
+        restoredItems.push({ id: item.id, data });
+    }
+
+    if (revertRows.length > 0) {
+        const { error: insertError } = await supabase.from('line_item_events').insert(revertRows);
+        // Events are append-only: only changes with a recorded revert event are marked
+        const { error: markError } = await supabase
+            .rpc('mark_line_item_events_reverted', { p_event_ids: revertedIds });
+
+        if (insertError || markError) {
+            console.error('[Audit] Failed to record revert:', insertError || markError);
+        }
+
+        await revalidateOrder(orderId);
+    }
+
+    return {
+        success: restoredItems.length > 0,
+        revertedCount: revertedIds.length,
+        items: restoredItems,
+        error: restoredItems.length > 0 ? undefined : 'Failed to revert changes',
+    };
+}
+
+/**
+ * Revert a single change of a line item
+ */
+export async function revertLineItemEvent(orderId: string, eventId: string): Promise<RevertResult> {
+    const supabase = await createClient();
+
+    const { data: event, error } = await supabase
+        .from('line_item_events')
+        .select('*')
+        .eq('id', eventId)
+        .eq('draft_order_id', orderId)
+        .single();
+
+    if (error || !event) {
+        return { success: false, revertedCount: 0, items: [], error: 'Change not found' };
+    }
+    if (event.reverted_at) {
+        return { success: false, revertedCount: 0, items: [], error: 'Change was already reverted' };
+    }
+
+    return revertEvents(orderId, [event as LineItemEvent]);
+}
+
+/**
+ * Revert all changes Spark made in one session that are not reverted yet
+ */
+export async function revertSparkSession(orderId: string, sessionId: string): Promise<RevertResult> {
+    const supabase = await createClient();
+
+    const { data: events, error } = await supabase
+        .from('line_item_events')
+        .select('*')
+        .eq('draft_order_id', orderId)
+        .eq('spark_session_id', sessionId)
+        .neq('source', 'revert')
+        .is('reverted_at', null);
+
+    if (error) {
+        console.error('[Audit] Failed to fetch Spark session:', error);
+        return { success: false, revertedCount: 0, items: [], error: 'Failed to fetch session' };
+    }
+    if (!events?.length) {
+        return { success: false, revertedCount: 0, items: [], error: 'Session not found or already reverted' };
+    }
+
+    return revertEvents(orderId, events as LineItemEvent[]);
+}
@@ -0,0 +1,66 @@
+/**
+ * Order Intake Service
+ * Stores an incoming order file and queues the job that turns it into a
+ * draft order: vision extraction for PDFs, column mapping for CSV/XLSX.
+ * Shared by uploads (POST /api/draft-orders) and the email inbox poller.
+ */
+
+import { enqueueJob, type PdfExtractionInput, type TabularImportInput } from '@/lib/jobs';
+import { getStorageProvider, createSourceFilePath } from '@/lib/storage';
+import { getTabularFormat } from '@/lib/import/tabular-file';
+import type { ColumnMapping, Job, ShopSystem } from '@/types';
+
+export interface OrderFile {
+    name: string;
+    /** MIME type as sent by the client (may be empty) */
+    type: string;
+    data: Buffer;
+}
+
+export interface OrderIntakeOptions {
+    userId: string;
+    tenantId: string;
+    orderName?: string | null;
+    shopSystem?: ShopSystem | null;
+    brandId?: string | null;
+    /** Null to use the detected supplier's profile (or the default) */
+    profileId?: string | null;
+    skipComputed?: boolean;
+    /** CSV/XLSX only - suggested from the profile when missing */
+    columnMapping?: ColumnMapping | null;
+    /** Sender of an emailed document, used for supplier detection */
+    senderEmail?: string | null;
+}
+
+/**
+ * Persist the file and queue its processing job
+ * @throws Error when the file cannot be stored or the job cannot be created
+ */
+export async function queueOrderFile(file: OrderFile, options: OrderIntakeOptions): Promise<Job> {
+    // Persist the upload so the job can run outside this request
+    // and reviewers can view the document next to the grid
+    const format = getTabularFormat(file.name, file.type);
+    const storagePath = createSourceFilePath(options.tenantId, options.userId, file.name);
+    const contentType = file.type || (format === 'csv' ? 'text/csv' : format === 'xlsx'
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'application/pdf');
+
+    await getStorageProvider().upload(storagePath, file.data, contentType);
+
+    const input: PdfExtractionInput = {
+        storagePath,
+        fileName: file.name,
+        fileSize: file.data.length,
+        contentType,
+        orderName: options.orderName || file.name.replace(/\.[^/.]+$/, ''),
+        shopSystem: options.shopSystem ?? null,
+        brandId: options.brandId ?? null,
+        profileId: options.profileId ?? null,
+        skipComputed: options.skipComputed ?? false,
+        senderEmail: options.senderEmail ?? null,
+    };
+
+    return format
+        ? enqueueJob('tabular_import', { ...input, format, columnMapping: options.columnMapping ?? null } satisfies TabularImportInput, options.userId)
+        : enqueueJob('pdf_extraction', { ...input }, options.userId);
+}
@@ -0,0 +1,267 @@
+/**
+ * Products Service
+ * Product master of the tenant. Exporting an order creates or updates a
+ * product per SKU (or EAN when there is no SKU) with the exported attributes,
+ * the shop system's product ID and a history line with quantity and price.
+ * Attributes edited on the products page are kept as overrides.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { isValidGtin, normalizeGtin } from '@/lib/gtin';
+import { getAxisValue } from '@/lib/modules/processing/variant-grouper';
+import { EAN_KEYS } from '@/lib/services/dedupe.service';
+import type { DraftLineItem, DraftOrder, NormalizedProduct, Product, ProductOrderLine } from '@/types';
+
+interface ProductIdentity {
+    key: string;
+    sku: string | null;
+    ean: string | null;
+}
+
+/**
+ * Identity of a product in the master: SKU, otherwise a valid EAN
+ * @returns null when the product has neither
+ */
+export function getProductIdentity(product: NormalizedProduct): ProductIdentity | null {
+    const sku = getAxisValue(product, 'sku') || null;
+
+    let ean: string | null = null;
+    for (const key of EAN_KEYS) {
+        const code = normalizeGtin(product[key]);
+        if (code && isValidGtin(code)) {
+            ean = code;
+            break;
+        }
+    }
+
+    if (sku) return { key: `sku:${sku.toLowerCase()}`, sku, ean };
+    if (ean) return { key: `ean:${ean}`, sku, ean };
+    return null;
+}
+
+/** Exported attributes without internal fields (prefixed with `_`) */
+function toAttributes(product: NormalizedProduct): NormalizedProduct {
+    return Object.fromEntries(Object.entries(product).filter(([key]) => !key.startsWith('_')));
+}
+
+function toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+}
+
+function displayName(attributes: NormalizedProduct, overrides: NormalizedProduct): string | null {
+    const name = overrides['name'] ?? attributes['name'];
+    return name === null || name === undefined || name === '' ? null : String(name);
+}
+
+// ============================================
+// Recording Exports
+// ============================================
+
+/**
+ * Add exported line items to the product master
+ * Products are upserted by identity; line items without SKU or EAN are skipped.
+ * Failures are logged and don't fail the export.
+ * @param externalIds Shop system variant ID per line item ID (Shopify: ProductVariant GID)
+ */
+export async function recordExportedProducts(
+    order: DraftOrder,
+    lineItems: DraftLineItem[],
+    externalIds: Map<string, string>
+): Promise<void> {
+    const supabase = await createClient();
+    const exportedAt = new Date().toISOString();
+
+    // The last line item of a product in the order wins
+    const itemsByKey = new Map<string, { identity: ProductIdentity; items: DraftLineItem[] }>();
+    for (const item of lineItems) {
+        const identity = item.normalized_data ? getProductIdentity(item.normalized_data) : null;
+        if (!identity) continue;
+        const entry = itemsByKey.get(identity.key) || { identity, items: [] };
+        entry.items.push(item);
+        itemsByKey.set(identity.key, entry);
+    }
+
+    if (itemsByKey.size === 0) return;
+
+    const { data: existing, error: fetchError } = await supabase
+        .from('products')
+        .select('product_key, ean, overrides, external_variant_ids, first_exported_at')
+        .in('product_key', [...itemsByKey.keys()]);
+
+    if (fetchError) {
+        console.error('Failed to fetch products:', fetchError);
+        return;
+    }
+
+    const existingByKey = new Map((existing || []).map(p => [p.product_key as string, p]));
+
+    const rows = [...itemsByKey.values()].map(({ identity, items }) => {
+        const current = existingByKey.get(identity.key);
+        const latest = items[items.length - 1];
+        const attributes = toAttributes(latest.normalized_data || {});
+        const externalId = [...items].reverse().map(i => externalIds.get(i.id) || i.external_id).find(Boolean);
+
+        return {
+            product_key: identity.key,
+            sku: identity.sku,
+            ean: identity.ean ?? current?.ean ?? null,
+            name: displayName(attributes, current?.overrides || {}),
+            attributes,
+            external_variant_ids: externalId
+                ? { ...(current?.external_variant_ids || {}), [order.shop_system]: externalId }
+                : current?.external_variant_ids || {},
+            first_exported_at: current?.first_exported_at || exportedAt,
+            last_exported_at: exportedAt,
+        };
+    });
+
+    const { data: products, error: upsertError } = await supabase
+        .from('products')
+        .upsert(rows, { onConflict: 'tenant_id,product_key' })
+        .select('id, product_key');
+
+    if (upsertError || !products) {
+        console.error('Failed to save products:', upsertError);
+        return;
+    }
+
+    const productIds = new Map(products.map(p => [p.product_key as string, p.id as string]));
+
+    const lines = [...itemsByKey.entries()].flatMap(([key, { items }]) =>
+        items.map(item => ({
+            product_id: productIds.get(key),
+            draft_order_id: order.id,
+            line_item_id: item.id,
+            quantity: toNumber(item.normalized_data?.['quantity']),
+            price: toNumber(item.normalized_data?.['price']),
+            shop_system: order.shop_system,
+            external_id: externalIds.get(item.id) || item.external_id || null,
+            exported_at: exportedAt,
+        }))
+    ).filter(line => line.product_id);
+
+    // Re-submitting an order refreshes its lines instead of adding new ones
+    const { error: linesError } = await supabase
+        .from('product_order_lines')
+        .upsert(lines, { onConflict: 'product_id,line_item_id' });
+
+    if (linesError) {
+        console.error('Failed to save product order lines:', linesError);
+    }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * List products, most recently exported first
+ * @param options.search Matches SKU, EAN or name
+ */
+export async function getProducts(options?: {
+    search?: string;
+    limit?: number;
+    offset?: number;
+}): Promise<{ products: Product[]; total: number }> {
+    const supabase = await createClient();
+    const limit = options?.limit || 20;
+    const offset = options?.offset || 0;
+
+    let query = supabase
+        .from('products')
+        .select('*, product_order_lines(count)', { count: 'exact' })
+        .order('last_exported_at', { ascending: false, nullsFirst: false })
+        .range(offset, offset + limit - 1);
+
+    // Characters with a meaning in PostgREST filters are dropped
+    const search = options?.search?.replace(/[,()*%\\]/g, ' ').trim();
+    if (search) {
+        query = query.or(`sku.ilike.*${search}*,ean.ilike.*${search}*,name.ilike.*${search}*`);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+        console.error('Failed to fetch products:', error);
+        return { products: [], total: 0 };
+    }
+
+    const products = (data || []).map(({ product_order_lines, ...product }) => ({
+        ...product,
+        order_count: (product_order_lines as Array<{ count: number }> | null)?.[0]?.count ?? 0,
+    })) as Product[];
+
+    return { products, total: count || 0 };
+}
+
+/**
+ * Get a product with its order history, newest first
+ */
+export async function getProduct(
+    productId: string
+): Promise<{ product: Product; history: ProductOrderLine[] } | null> {
+    const supabase = await createClient();
+
+    const { data: product, error } = await supabase
+        .from('products')
+        .select('*')
+        .eq('id', productId)
+        .single();
+
+    if (error || !product) {
+        console.error('Failed to fetch product:', error);
+        return null;
+    }
+
+    const { data: history, error: historyError } = await supabase
+        .from('product_order_lines')
+        .select('*, order:draft_orders(id, name, source_file_name, created_at)')
+        .eq('product_id', productId)
+        .order('exported_at', { ascending: false });
+
+    if (historyError) {
+        console.error('Failed to fetch product history:', historyError);
+    }
+
+    return {
+        product: { ...product, order_count: history?.length ?? 0 } as Product,
+        history: (history || []) as ProductOrderLine[],
+    };
+}
+
+/**
+ * Replace the edited attributes of a product
+ * Overrides take precedence over exported attributes and survive later exports.
+ */
+export async function updateProductOverrides(
+    productId: string,
+    overrides: NormalizedProduct
+): Promise<{ success: boolean; product?: Product; error?: string }> {
+    const supabase = await createClient();
+
+    const { data: current, error: fetchError } = await supabase
+        .from('products')
+        .select('attributes')
+        .eq('id', productId)
+        .single();
+
+    if (fetchError || !current) {
+        return { success: false, error: 'Product not found' };
+    }
+
+    const { data, error } = await supabase
+        .from('products')
+        .update({ overrides, name: displayName(current.attributes || {}, overrides) })
+        .eq('id', productId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Failed to update product:', error);
+        return { success: false, error: 'Failed to update product' };
+    }
+
+    return { success: true, product: data as Product };
+}
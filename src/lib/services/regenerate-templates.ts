@@ -10,7 +10,9 @@ import { createClient } from '@/lib/supabase/server';
 import { evaluateTemplate, type TemplateContext } from '@/lib/services/template-engine';
 import { enrichProducts, type EnrichmentField } from '@/lib/services/ai-enrichment';
 import { prefetchCatalog, clearCatalogCache, getCatalogCache } from '@/lib/services/catalog-reconciler';
-import type { NormalizedProduct } from '@/types';
+import { revalidateOrder } from '@/lib/modules/processing/pipeline';
+import { recordLineItemChanges } from '@/lib/services/line-item-events.service';
+import type { LineItemEventSource, NormalizedProduct } from '@/types';
 
 interface ProfileField {
     key: string;
@@ -42,12 +44,14 @@ interface RegenerateResult {
  * @param orderId - The draft order ID
  * @param lineItemIds - IDs of line items to regenerate
  * @param fieldKeys - Optional: specific fields to regenerate (if empty/undefined, regenerate all)
+ * @param audit - How the changes are recorded in the audit log (default: recalculation)
  * @returns Result with count and field keys that were updated
  */
 export async function regenerateTemplatesForLineItems(
     orderId: string,
     lineItemIds: string[],
-    fieldKeys?: string[]
+    fieldKeys?: string[],
+    audit: { source: LineItemEventSource; sparkSessionId?: string } = { source: 'recalculation' }
 ): Promise<RegenerateResult> {
     const supabase = await createClient();
 
@@ -271,6 +275,18 @@ export async function regenerateTemplatesForLineItems(
             console.error('[Regenerate] Some updates failed:', errors.map(e => e.error));
             return { success: false, regeneratedCount: 0, fieldsUpdated: [], error: 'Failed to save some changes' };
         }
+
+        await recordLineItemChanges(
+            orderId,
+            batchUpdates.map(update => ({
+                lineItemId: update.id,
+                before: (items.find(i => i.id === update.id)?.normalized_data || {}) as Record<string, unknown>,
+                after: update.normalized_data,
+            })),
+            audit
+        );
+
+        await revalidateOrder(orderId);
     }
 
     clearCatalogCache();
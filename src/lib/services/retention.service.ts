@@ -0,0 +1,279 @@
+/**
+ * Retention Service
+ * Tenant data lifecycle: retention policies that archive exported orders and
+ * purge uploaded source files after a number of days (run on a schedule), and
+ * the scoped tenant reset with a dry-run count preview.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient, runAsUser } from '@/lib/supabase/service';
+import { getStorageProvider } from '@/lib/storage';
+import type { RetentionPolicy, TenantResetScope } from '@/types';
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    archive_exported_after_days: null,
+    purge_source_files_after_days: null,
+};
+
+/** Upper bound of source files deleted per tenant and run */
+const PURGE_BATCH_SIZE = 500;
+
+/** Tables cleared per reset scope (line items, their events and product order lines cascade with orders) */
+export const RESET_SCOPE_TABLES: Record<TenantResetScope, string[]> = {
+    orders: ['draft_orders', 'jobs', 'products'],
+    catalogs: ['catalog_entries', 'catalog_fields'],
+    profiles: ['input_profiles'],
+};
+
+export interface RetentionRunResult {
+    archivedOrders: number;
+    purgedSourceFiles: number;
+}
+
+export interface TenantRetentionResult extends RetentionRunResult {
+    tenantId: string;
+    error?: string;
+}
+
+export interface TenantResetResult {
+    dryRun: boolean;
+    /** Rows per table, plus `source_files` for the orders scope */
+    counts: Record<string, number>;
+}
+
+function readPolicy(settings: Record<string, unknown> | null | undefined): RetentionPolicy {
+    return { ...DEFAULT_RETENTION_POLICY, ...(settings?.retention as Partial<RetentionPolicy> | undefined) };
+}
+
+function isPolicyActive(policy: RetentionPolicy): boolean {
+    return policy.archive_exported_after_days !== null || policy.purge_source_files_after_days !== null;
+}
+
+function daysBefore(now: Date, days: number): string {
+    return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// ============================================
+// Retention Policies
+// ============================================
+
+/**
+ * Retention policy of the current tenant
+ */
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+    const supabase = await createClient();
+
+    const { data: tenant } = await supabase
+        .from('tenants')
+        .select('settings')
+        .single();
+
+    return readPolicy(tenant?.settings);
+}
+
+/**
+ * Store the retention policy of the current tenant
+ */
+export async function updateRetentionPolicy(
+    policy: RetentionPolicy
+): Promise<{ success: boolean; policy?: RetentionPolicy; error?: string }> {
+    const supabase = await createClient();
+
+    const { data: tenant, error: fetchError } = await supabase
+        .from('tenants')
+        .select('id, settings')
+        .single();
+
+    if (fetchError || !tenant) {
+        return { success: false, error: 'Failed to fetch tenant' };
+    }
+
+    const { error } = await supabase
+        .from('tenants')
+        .update({ settings: { ...(tenant.settings || {}), retention: policy } })
+        .eq('id', tenant.id);
+
+    if (error) {
+        console.error('Failed to update retention policy:', error);
+        return { success: false, error: 'Failed to update retention policy' };
+    }
+
+    return { success: true, policy };
+}
+
+/**
+ * Apply a retention policy to the current tenant's data.
+ * Exported orders are archived once they haven't changed for the configured
+ * number of days; source files are deleted once the order is that old.
+ */
+export async function applyRetentionPolicy(
+    policy: RetentionPolicy,
+    now: Date = new Date()
+): Promise<RetentionRunResult> {
+    const supabase = await createClient();
+    const result: RetentionRunResult = { archivedOrders: 0, purgedSourceFiles: 0 };
+
+    if (policy.archive_exported_after_days !== null) {
+        const { data, error } = await supabase
+            .from('draft_orders')
+            .update({ archived_at: now.toISOString() })
+            .eq('status', 'exported')
+            .is('archived_at', null)
+            .lt('updated_at', daysBefore(now, policy.archive_exported_after_days))
+            .select('id');
+
+        if (error) throw new Error(`Failed to archive orders: ${error.message}`);
+        result.archivedOrders = data?.length ?? 0;
+    }
+
+    if (policy.purge_source_files_after_days !== null) {
+        const { data: orders, error } = await supabase
+            .from('draft_orders')
+            .select('id, source_file_path')
+            .not('source_file_path', 'is', null)
+            .lt('created_at', daysBefore(now, policy.purge_source_files_after_days))
+            .limit(PURGE_BATCH_SIZE);
+
+        if (error) throw new Error(`Failed to find source files: ${error.message}`);
+
+        if (orders && orders.length > 0) {
+            const paths = orders.map((order) => order.source_file_path as string);
+            const removed = new Set(await getStorageProvider().remove(paths));
+            const purged = orders.filter((order) => removed.has(order.source_file_path as string));
+
+            if (purged.length < orders.length) {
+                console.warn(`[Retention] ${orders.length - purged.length} source file(s) could not be deleted`);
+            }
+
+            if (purged.length > 0) {
+                const { error: updateError } = await supabase
+                    .from('draft_orders')
+                    .update({ source_file_path: null, source_file_purged_at: now.toISOString() })
+                    .in('id', purged.map((order) => order.id));
+
+                if (updateError) throw new Error(`Failed to mark source files as purged: ${updateError.message}`);
+            }
+            result.purgedSourceFiles = purged.length;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Apply the retention policies of all tenants (called by the scheduler).
+ * Each tenant's policy runs as its owner, so RLS and storage policies apply.
+ */
+export async function runScheduledRetention(now: Date = new Date()): Promise<TenantRetentionResult[]> {
+    const service = createServiceClient();
+
+    const { data: tenants, error } = await service
+        .from('tenants')
+        .select('id, settings');
+
+    if (error) throw new Error(`Failed to load tenants: ${error.message}`);
+
+    const results: TenantRetentionResult[] = [];
+
+    for (const tenant of tenants ?? []) {
+        const policy = readPolicy(tenant.settings);
+        if (!isPolicyActive(policy)) continue;
+
+        const { data: members } = await service
+            .from('tenant_members')
+            .select('user_id, role')
+            .eq('tenant_id', tenant.id)
+            .order('created_at');
+
+        const actor = members?.find((m) => m.role === 'owner')
+            ?? members?.find((m) => m.role === 'admin')
+            ?? members?.[0];
+
+        if (!actor) {
+            results.push({ tenantId: tenant.id, archivedOrders: 0, purgedSourceFiles: 0, error: 'Tenant has no members' });
+            continue;
+        }
+
+        try {
+            const result = await runAsUser(actor.user_id, () => applyRetentionPolicy(policy, now));
+            results.push({ tenantId: tenant.id, ...result });
+            console.log(`[Retention] Tenant ${tenant.id}: archived ${result.archivedOrders} order(s), purged ${result.purgedSourceFiles} source file(s)`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Retention run failed';
+            console.error(`[Retention] Tenant ${tenant.id} failed:`, err);
+            results.push({ tenantId: tenant.id, archivedOrders: 0, purgedSourceFiles: 0, error: message });
+        }
+    }
+
+    return results;
+}
+
+// ============================================
+// Tenant Reset
+// ============================================
+
+/**
+ * Delete the current tenant's data in the given scopes, or only count it
+ * @param tenantId The current user's tenant (filtered explicitly on top of RLS)
+ */
+export async function resetTenantData(
+    tenantId: string,
+    scopes: TenantResetScope[],
+    options: { dryRun?: boolean } = {}
+): Promise<TenantResetResult> {
+    const supabase = await createClient();
+    const dryRun = options.dryRun ?? false;
+    const counts: Record<string, number> = {};
+
+    // Source files go first - their paths are lost once the orders are deleted
+    if (scopes.includes('orders')) {
+        const { data: orders, error } = await supabase
+            .from('draft_orders')
+            .select('source_file_path')
+            .eq('tenant_id', tenantId)
+            .not('source_file_path', 'is', null);
+
+        if (error) throw new Error(`Failed to find source files: ${error.message}`);
+
+        const paths = (orders ?? []).map((order) => order.source_file_path as string);
+        counts.source_files = paths.length;
+
+        if (!dryRun && paths.length > 0) {
+            // Don't fail the reset over storage - the database is what matters
+            try {
+                const removed = await getStorageProvider().remove(paths);
+                counts.source_files = removed.length;
+                if (removed.length < paths.length) {
+                    console.warn(`[Retention] ${paths.length - removed.length} source file(s) could not be deleted`);
+                }
+            } catch (storageError) {
+                console.error('Failed to delete source files:', storageError);
+                counts.source_files = 0;
+            }
+        }
+    }
+
+    for (const scope of scopes) {
+        for (const table of RESET_SCOPE_TABLES[scope]) {
+            if (dryRun) {
+                const { count, error } = await supabase
+                    .from(table)
+                    .select('id', { count: 'exact', head: true })
+                    .eq('tenant_id', tenantId);
+
+                if (error) throw new Error(`Failed to count ${table}: ${error.message}`);
+                counts[table] = count ?? 0;
+            } else {
+                const { count, error } = await supabase
+                    .from(table)
+                    .delete({ count: 'exact' })
+                    .eq('tenant_id', tenantId);
+
+                if (error) throw new Error(`Failed to clear ${table}: ${error.message}`);
+                counts[table] = count ?? 0;
+            }
+        }
+    }
+
+    return { dryRun, counts };
+}
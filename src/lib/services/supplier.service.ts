@@ -0,0 +1,131 @@
+/**
+ * Supplier Service
+ * Recognizes the supplier of an uploaded document from its first page
+ * (VAT ID and letterhead fingerprints) or the sender's email domain.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { Supplier } from '@/types';
+
+/** Score of a matching VAT ID or sender domain (identifies a supplier on its own) */
+const STRONG_MATCH = 10;
+/** Score of a matching text fingerprint or the supplier name */
+const TEXT_MATCH = 2;
+/** Lowest score accepted as a match */
+const MIN_SCORE = TEXT_MATCH;
+
+export interface SupplierSignals {
+    /** Text of the first page (or header rows of a CSV/XLSX file) */
+    text?: string;
+    /** Sender address of an emailed document */
+    senderEmail?: string;
+}
+
+export interface SupplierMatch {
+    supplier: Supplier;
+    score: number;
+    /** What matched, for logging and the review UI */
+    reasons: string[];
+}
+
+function normalizeText(value: string): string {
+    return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** VAT IDs are compared without spaces, dots and dashes */
+function normalizeVatId(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function emailDomain(email: string): string {
+    return email.toLowerCase().split('@').pop()?.replace(/[>\s]/g, '') || '';
+}
+
+/**
+ * Score every supplier against the signals and return the best match
+ * @returns The highest scoring supplier, or null when none matches or two tie
+ */
+export function matchSupplier(suppliers: Supplier[], signals: SupplierSignals): SupplierMatch | null {
+    const text = normalizeText(signals.text || '');
+    const compactText = normalizeVatId(signals.text || '');
+    const domain = signals.senderEmail ? emailDomain(signals.senderEmail) : '';
+
+    const matches: SupplierMatch[] = [];
+
+    for (const supplier of suppliers) {
+        let score = 0;
+        const reasons: string[] = [];
+
+        if (domain && supplier.email_domains?.some(d => {
+            const expected = d.toLowerCase().replace(/^@/, '');
+            return domain === expected || domain.endsWith(`.${expected}`);
+        })) {
+            score += STRONG_MATCH;
+            reasons.push(`sender domain ${domain}`);
+        }
+
+        for (const fingerprint of supplier.fingerprints || []) {
+            if (!fingerprint.value?.trim()) continue;
+
+            if (fingerprint.type === 'vat_id') {
+                if (compactText.includes(normalizeVatId(fingerprint.value))) {
+                    score += STRONG_MATCH;
+                    reasons.push(`VAT ID ${fingerprint.value}`);
+                }
+            } else if (text.includes(normalizeText(fingerprint.value))) {
+                score += TEXT_MATCH;
+                reasons.push(`"${fingerprint.value}"`);
+            }
+        }
+
+        if (text && supplier.name && text.includes(normalizeText(supplier.name))) {
+            score += TEXT_MATCH;
+            reasons.push('name');
+        }
+
+        if (score >= MIN_SCORE) {
+            matches.push({ supplier, score, reasons });
+        }
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    if (matches.length === 0 || (matches.length > 1 && matches[0].score === matches[1].score)) {
+        return null;
+    }
+    return matches[0];
+}
+
+/**
+ * Get all suppliers of the current tenant
+ */
+export async function getSuppliers(): Promise<Supplier[]> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('vendors')
+        .select('*')
+        .order('name');
+
+    if (error) {
+        console.error('Failed to fetch suppliers:', error);
+        return [];
+    }
+
+    return data as Supplier[];
+}
+
+/**
+ * Recognize the supplier of a document
+ */
+export async function detectSupplier(signals: SupplierSignals): Promise<SupplierMatch | null> {
+    if (!signals.text?.trim() && !signals.senderEmail) return null;
+
+    const suppliers = await getSuppliers();
+    if (suppliers.length === 0) return null;
+
+    const match = matchSupplier(suppliers, signals);
+    if (match) {
+        console.log(`[Supplier] Detected ${match.supplier.name} (score ${match.score}: ${match.reasons.join(', ')})`);
+    }
+    return match;
+}
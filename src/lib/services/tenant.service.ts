@@ -4,8 +4,12 @@
  * One user = one tenant model.
  */
 
+import { createHash, randomBytes } from 'crypto';
 import { createClient } from '@/lib/supabase/server';
-import type { TenantUserProfile } from '@/types';
+import type { TenantInvitation, TenantRole, TenantUserProfile } from '@/types';
+
+/** How long an invitation link can be used */
+export const INVITATION_TTL_DAYS = 7;
 
 export interface Tenant {
     id: string;
@@ -19,7 +23,7 @@ export interface TenantMember {
     id: string;
     tenant_id: string;
     user_id: string;
-    role: 'owner' | 'admin' | 'member';
+    role: TenantRole;
 }
 
 /** Field definition for the unified field system */
@@ -120,3 +124,243 @@ export async function getTenantMembers(): Promise<TenantUserProfile[]> {
 
     return data as TenantUserProfile[];
 }
+
+// ============================================
+// Member Management
+// ============================================
+
+type AssignableRole = Exclude<TenantRole, 'owner'>;
+
+/** Invitation details shown to the invitee before accepting */
+export interface InvitationPreview {
+    email: string;
+    role: AssignableRole;
+    tenant_name: string;
+    expires_at: string;
+    accepted: boolean;
+}
+
+/** Only the hash of an invitation token is stored */
+function hashInvitationToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Invite someone to the current tenant by email.
+ * Replaces an open invitation for the same email.
+ * @returns The invitation and the token for the invitation link (only available here)
+ */
+export async function createInvitation(
+    email: string,
+    role: AssignableRole
+): Promise<{ success: boolean; invitation?: TenantInvitation; token?: string; error?: string }> {
+    const supabase = await createClient();
+    const normalizedEmail = email.trim().toLowerCase();
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+        return { success: false, error: 'Invalid email address' };
+    }
+
+    const { data: existingMember } = await supabase
+        .from('tenant_user_profiles')
+        .select('user_id')
+        .eq('email', normalizedEmail)
+        .maybeSingle();
+
+    if (existingMember) {
+        return { success: false, error: 'This person is already a member' };
+    }
+
+    const { error: deleteError } = await supabase
+        .from('tenant_invitations')
+        .delete()
+        .eq('email', normalizedEmail)
+        .is('accepted_at', null);
+
+    if (deleteError) {
+        console.error('Failed to replace open invitation:', deleteError);
+        return { success: false, error: 'Failed to create invitation' };
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+        .from('tenant_invitations')
+        .insert({
+            email: normalizedEmail,
+            role,
+            token_hash: hashInvitationToken(token),
+            expires_at: expiresAt.toISOString(),
+        })
+        .select('id, tenant_id, email, role, invited_by, expires_at, accepted_at, created_at')
+        .single();
+
+    if (error) {
+        console.error('Failed to create invitation:', error);
+        return { success: false, error: 'Failed to create invitation' };
+    }
+
+    return { success: true, invitation: data as TenantInvitation, token };
+}
+
+/**
+ * Open (not yet accepted) invitations of the current tenant, newest first
+ */
+export async function getInvitations(): Promise<TenantInvitation[]> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('tenant_invitations')
+        .select('id, tenant_id, email, role, invited_by, expires_at, accepted_at, created_at')
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+    if (error || !data) {
+        console.error('Failed to fetch invitations:', error);
+        return [];
+    }
+
+    return data as TenantInvitation[];
+}
+
+/**
+ * Revoke an open invitation - its link stops working
+ */
+export async function revokeInvitation(invitationId: string): Promise<{ success: boolean; error?: string }> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('tenant_invitations')
+        .delete()
+        .eq('id', invitationId)
+        .is('accepted_at', null)
+        .select('id');
+
+    if (error) {
+        console.error('Failed to revoke invitation:', error);
+        return { success: false, error: 'Failed to revoke invitation' };
+    }
+    if (!data?.length) {
+        return { success: false, error: 'Invitation not found' };
+    }
+
+    return { success: true };
+}
+
+/**
+ * Look up an invitation by the token from its link (works for non-members)
+ */
+export async function getInvitationByToken(token: string): Promise<InvitationPreview | null> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .rpc('get_tenant_invitation', { p_token_hash: hashInvitationToken(token) })
+        .maybeSingle();
+
+    if (error) {
+        console.error('Failed to look up invitation:', error);
+        return null;
+    }
+
+    return (data as InvitationPreview | null) ?? null;
+}
+
+/**
+ * Join the invitation's tenant as the signed-in user
+ */
+export async function acceptInvitation(token: string): Promise<{ success: boolean; tenantId?: string; error?: string }> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .rpc('accept_tenant_invitation', { p_token_hash: hashInvitationToken(token) });
+
+    if (error) {
+        // Raised by the function with a user-facing message
+        return { success: false, error: error.message };
+    }
+
+    return { success: true, tenantId: data as string };
+}
+
+/**
+ * Member of the current tenant, or an error when changing them is not allowed
+ */
+async function getManageableMember(userId: string): Promise<{ member?: TenantUserProfile; error?: string }> {
+    const supabase = await createClient();
+
+    const { data: member } = await supabase
+        .from('tenant_user_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!member) {
+        return { error: 'User is not a member of this organization' };
+    }
+    if (member.role === 'owner') {
+        return { error: 'Transfer ownership before changing the owner' };
+    }
+
+    return { member: member as TenantUserProfile };
+}
+
+/**
+ * Change a member's role (the owner is changed by transferring ownership)
+ */
+export async function updateMemberRole(
+    userId: string,
+    role: AssignableRole
+): Promise<{ success: boolean; error?: string }> {
+    const { error: memberError } = await getManageableMember(userId);
+    if (memberError) return { success: false, error: memberError };
+
+    const supabase = await createClient();
+    const { error } = await supabase
+        .from('tenant_members')
+        .update({ role })
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Failed to update member role:', error);
+        return { success: false, error: 'Failed to update role' };
+    }
+
+    return { success: true };
+}
+
+/**
+ * Remove a member from the current tenant (not the owner)
+ */
+export async function removeMember(userId: string): Promise<{ success: boolean; error?: string }> {
+    const { error: memberError } = await getManageableMember(userId);
+    if (memberError) return { success: false, error: memberError };
+
+    const supabase = await createClient();
+    const { error } = await supabase
+        .from('tenant_members')
+        .delete()
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Failed to remove member:', error);
+        return { success: false, error: 'Failed to remove member' };
+    }
+
+    return { success: true };
+}
+
+/**
+ * Make another member the owner; the current owner becomes an admin
+ */
+export async function transferOwnership(userId: string): Promise<{ success: boolean; error?: string }> {
+    const supabase = await createClient();
+
+    const { error } = await supabase.rpc('transfer_tenant_ownership', { p_user_id: userId });
+
+    if (error) {
+        return { success: false, error: error.message };
+    }
+
+    return { success: true };
+}
@@ -0,0 +1,44 @@
+/**
+ * Storage Provider Registry
+ * Selects where uploaded source files are stored (STORAGE_PROVIDER env).
+ */
+
+import { randomUUID } from 'crypto';
+import type { StorageProvider, StorageProviderConfig } from './storage.interface';
+import { createSupabaseStorage } from './supabase.storage';
+import { createLocalStorage } from './local.storage';
+
+export type StorageBackend = 'supabase' | 'local';
+
+/**
+ * Registry of storage provider factory functions
+ */
+const providerFactories: Record<StorageBackend, (config?: StorageProviderConfig) => StorageProvider> = {
+    supabase: createSupabaseStorage,
+    local: createLocalStorage,
+};
+
+/**
+ * Get the configured storage provider
+ * @param backend Override the STORAGE_PROVIDER env (default: supabase)
+ */
+export function getStorageProvider(backend?: StorageBackend, config?: StorageProviderConfig): StorageProvider {
+    const selected = backend || (process.env.STORAGE_PROVIDER as StorageBackend | undefined) || 'supabase';
+    const factory = providerFactories[selected];
+
+    if (!factory) {
+        throw new Error(`Unknown storage provider: ${selected}. Supported: ${Object.keys(providerFactories).join(', ')}`);
+    }
+
+    return factory(config);
+}
+
+/**
+ * Build a unique storage path for an uploaded source file
+ * The tenant ID comes first - storage policies check it (migration 027).
+ */
+export function createSourceFilePath(tenantId: string, userId: string, fileName: string): string {
+    return `${tenantId}/${userId}/${randomUUID()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+}
+
+export type { StorageProvider, StorageProviderConfig, StoredFile } from './storage.interface';
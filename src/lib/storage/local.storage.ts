@@ -0,0 +1,69 @@
+/**
+ * Local Storage Provider
+ * Keeps source files on the local filesystem - for development and
+ * self-hosted single-node setups. The content type is stored in a
+ * `.meta.json` sidecar next to each file.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageProvider, StorageProviderConfig, StoredFile } from './storage.interface';
+
+const DEFAULT_ROOT_DIR = '.storage';
+
+export class LocalStorageProvider implements StorageProvider {
+    readonly name = 'Local Filesystem';
+    private rootDir: string;
+
+    constructor(config?: StorageProviderConfig) {
+        this.rootDir = path.resolve(config?.rootDir || process.env.STORAGE_LOCAL_DIR || DEFAULT_ROOT_DIR);
+    }
+
+    /**
+     * Resolve a storage path inside the root directory
+     */
+    private resolve(filePath: string): string {
+        const resolved = path.resolve(this.rootDir, filePath);
+        if (!resolved.startsWith(this.rootDir + path.sep)) {
+            throw new Error(`Invalid storage path: ${filePath}`);
+        }
+        return resolved;
+    }
+
+    async upload(filePath: string, data: Buffer, contentType: string): Promise<void> {
+        const target = this.resolve(filePath);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, data);
+        await fs.writeFile(`${target}.meta.json`, JSON.stringify({ contentType }));
+    }
+
+    async download(filePath: string): Promise<StoredFile> {
+        const target = this.resolve(filePath);
+        const data = await fs.readFile(target);
+
+        let contentType = 'application/octet-stream';
+        try {
+            const meta = JSON.parse(await fs.readFile(`${target}.meta.json`, 'utf-8'));
+            contentType = meta.contentType || contentType;
+        } catch {
+            // No sidecar - keep the default
+        }
+
+        return { data, contentType };
+    }
+
+    async remove(paths: string[]): Promise<string[]> {
+        await Promise.all(paths.flatMap(filePath => {
+            const target = this.resolve(filePath);
+            return [target, `${target}.meta.json`].map(file => fs.rm(file, { force: true }));
+        }));
+        return paths;
+    }
+}
+
+/**
+ * Factory function to create a local filesystem storage provider
+ */
+export function createLocalStorage(config?: StorageProviderConfig): StorageProvider {
+    return new LocalStorageProvider(config);
+}
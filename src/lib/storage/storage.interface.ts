@@ -0,0 +1,44 @@
+/**
+ * Storage Provider Interface
+ * Common interface for where uploaded source files are kept.
+ * Implementations: Supabase Storage (default) and the local filesystem.
+ */
+
+/**
+ * A downloaded file
+ */
+export interface StoredFile {
+    data: Buffer;
+    contentType: string;
+}
+
+/**
+ * Storage Provider Interface
+ * Paths are relative keys like `<tenant id>/<user id>/<uuid>-order.pdf`.
+ */
+export interface StorageProvider {
+    /** Display name of the backend */
+    readonly name: string;
+
+    /** Store a file, overwriting nothing (paths are unique) */
+    upload(path: string, data: Buffer, contentType: string): Promise<void>;
+
+    /** Read a file; throws if it does not exist */
+    download(path: string): Promise<StoredFile>;
+
+    /**
+     * Delete files; missing files are ignored
+     * @returns Paths that were deleted - files the caller may not delete are left out
+     */
+    remove(paths: string[]): Promise<string[]>;
+}
+
+/**
+ * Configuration options for storage providers
+ */
+export interface StorageProviderConfig {
+    /** Supabase Storage bucket */
+    bucket?: string;
+    /** Root directory of the local provider */
+    rootDir?: string;
+}
@@ -0,0 +1,68 @@
+/**
+ * Supabase Storage Provider
+ * Keeps source files in a Supabase Storage bucket. Uses the request's
+ * Supabase client, so storage policies apply to the signed-in user.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { StorageProvider, StorageProviderConfig, StoredFile } from './storage.interface';
+
+const DEFAULT_BUCKET = 'pdfs';
+
+export class SupabaseStorageProvider implements StorageProvider {
+    readonly name = 'Supabase Storage';
+    private bucket: string;
+
+    constructor(config?: StorageProviderConfig) {
+        this.bucket = config?.bucket || process.env.SUPABASE_STORAGE_BUCKET || DEFAULT_BUCKET;
+    }
+
+    async upload(path: string, data: Buffer, contentType: string): Promise<void> {
+        const supabase = await createClient();
+        const { error } = await supabase.storage
+            .from(this.bucket)
+            .upload(path, data, { contentType });
+
+        if (error) {
+            throw new Error(`Failed to upload ${path}: ${error.message}`);
+        }
+    }
+
+    async download(path: string): Promise<StoredFile> {
+        const supabase = await createClient();
+        const { data, error } = await supabase.storage
+            .from(this.bucket)
+            .download(path);
+
+        if (error || !data) {
+            throw new Error(`Failed to download ${path}: ${error?.message || 'not found'}`);
+        }
+
+        return {
+            data: Buffer.from(await data.arrayBuffer()),
+            contentType: data.type || 'application/octet-stream',
+        };
+    }
+
+    async remove(paths: string[]): Promise<string[]> {
+        if (paths.length === 0) return [];
+
+        const supabase = await createClient();
+        const { data, error } = await supabase.storage
+            .from(this.bucket)
+            .remove(paths);
+
+        if (error) {
+            throw new Error(`Failed to delete files: ${error.message}`);
+        }
+        // Storage policies silently skip objects the user may not delete
+        return (data ?? []).map(file => file.name);
+    }
+}
+
+/**
+ * Factory function to create a Supabase storage provider
+ */
+export function createSupabaseStorage(config?: StorageProviderConfig): StorageProvider {
+    return new SupabaseStorageProvider(config);
+}
@@ -1,9 +1,10 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import { getScopedUserClient } from "./service";
 
-export async function createClient() {
-    const cookieStore = await cookies();
+type CookieStore = Awaited<ReturnType<typeof cookies>>;
 
+function createCookieClient(cookieStore: CookieStore) {
     return createServerClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
         process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
@@ -27,3 +28,13 @@ export async function createClient() {
         }
     );
 }
+
+export async function createClient() {
+    // Background work (inbox polling) runs as a user without cookies
+    const scopedClient = getScopedUserClient();
+    if (scopedClient) {
+        return scopedClient as unknown as ReturnType<typeof createCookieClient>;
+    }
+
+    return createCookieClient(await cookies());
+}
@@ -0,0 +1,92 @@
+/**
+ * Supabase clients for background work without a browser session
+ * (inbox polling). Server-only.
+ *
+ * - createServiceClient(): secret-key client that bypasses RLS - only for
+ *   lookups across tenants (e.g. routing an email to its tenant)
+ * - runAsUser(): runs code as a tenant member. Inside the callback,
+ *   createClient() from './server' returns a client authenticated with a
+ *   short-lived token for that user, so RLS and column defaults
+ *   (get_user_tenant_id()) behave exactly as in a user's request.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHmac } from 'crypto';
+import { createClient as createSupabaseClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/** Lifetime of tokens minted for runAsUser */
+const USER_TOKEN_SECONDS = 15 * 60;
+
+const userScope = new AsyncLocalStorage<{ userId: string; client: SupabaseClient }>();
+
+function base64Url(value: string | Buffer): string {
+    return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Sign an access token for a user with the project's JWT secret (HS256)
+ */
+function signUserToken(userId: string): string {
+    const secret = process.env.SUPABASE_JWT_SECRET;
+    if (!secret) {
+        throw new Error('SUPABASE_JWT_SECRET is required to run background work as a user');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({
+        sub: userId,
+        role: 'authenticated',
+        aud: 'authenticated',
+        iat: now,
+        exp: now + USER_TOKEN_SECONDS,
+    }));
+    const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+    return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Whether the secret key is set - features that need it are skipped without
+ */
+export function isServiceClientConfigured(): boolean {
+    return !!process.env.SUPABASE_SECRET_KEY;
+}
+
+/**
+ * Client with the secret key (bypasses RLS)
+ */
+export function createServiceClient(): SupabaseClient {
+    const secretKey = process.env.SUPABASE_SECRET_KEY;
+    if (!secretKey) {
+        throw new Error('SUPABASE_SECRET_KEY is not configured');
+    }
+
+    return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, secretKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+}
+
+/**
+ * Run a callback as the given user (see module comment)
+ */
+export async function runAsUser<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    const token = signUserToken(userId);
+    const client = createSupabaseClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+        {
+            global: { headers: { Authorization: `Bearer ${token}` } },
+            auth: { persistSession: false, autoRefreshToken: false },
+        }
+    );
+
+    return userScope.run({ userId, client }, fn);
+}
+
+/**
+ * Client of the surrounding runAsUser() call, if any
+ */
+export function getScopedUserClient(): SupabaseClient | undefined {
+    return userScope.getStore()?.client;
+}
@@ -4,8 +4,8 @@
 // Job Types
 // ============================================
 
-export type JobType = 'pdf_extraction' | 'shopware_upload' | 'xentral_upload' | 'sku_regeneration';
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type JobType = 'pdf_extraction' | 'tabular_import' | 'shopware_upload' | 'xentral_upload' | 'shopify_upload' | 'sku_regeneration';
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
 export interface Job {
     id: string;
@@ -15,6 +15,16 @@ export interface Job {
     result?: Record<string, unknown>;
     error?: string;
     user_id: string;
+    // Queue bookkeeping
+    attempts: number;
+    max_attempts: number;
+    run_at: string;
+    locked_by?: string | null;
+    locked_until?: string | null;
+    cancel_requested: boolean;
+    // Progress reporting
+    progress: number;
+    step?: string | null;
     created_at: string;
     updated_at?: string;
 }
@@ -55,12 +65,14 @@ export interface CategoryRule {
 // ============================================
 
 export type DraftOrderStatus =
-    | 'processing'      // GPT extraction in progress
-    | 'pending_review'  // Ready for human validation
-    | 'approved'        // All items approved
-    | 'exporting'       // Pushing to shop system
-    | 'exported'        // Successfully exported
-    | 'failed';         // Export failed
+    | 'processing'        // GPT extraction in progress
+    | 'pending_review'    // Ready for human validation
+    | 'in_review'         // A reviewer is working on the order
+    | 'changes_requested' // Sent back by the reviewer (see review_note)
+    | 'approved'          // All items approved
+    | 'exporting'         // Pushing to shop system
+    | 'exported'          // Successfully exported
+    | 'failed';           // Export failed
 
 export type LineItemStatus =
     | 'pending'     // Awaiting review
@@ -75,13 +87,21 @@ export interface DraftOrder {
     shop_system: ShopSystem;
     template_id?: string;
     source_file_name?: string;
+    source_file_path?: string | null;   // Path in the storage provider
+    source_file_type?: string | null;   // MIME type of the uploaded document
     source_job_id?: string;
+    supplier_id?: string | null;        // Supplier detected from the source document
     user_id: string;
+    reviewer_id?: string | null;        // Tenant member assigned to review
+    review_note?: string | null;        // Reason changes were requested
+    archived_at?: string | null;        // Archived by hand or by the retention policy
+    source_file_purged_at?: string | null; // Source document deleted by the retention policy
     metadata: Record<string, unknown>;
     created_at: string;
     updated_at: string;
     // Joined relations
     line_items?: DraftLineItem[];
+    supplier?: Pick<Supplier, 'id' | 'name'> | null;
 }
 
 export interface DraftLineItem {
@@ -94,17 +114,66 @@ export interface DraftLineItem {
     validation_errors: ValidationError[];
     needs_checking?: Array<{ field: string; reason: string }>;
     user_modified: boolean;
+    external_id?: string | null;    // Product ID in the shop system after upload
+    fingerprint?: string | null;    // Identity for duplicate detection (EAN, SKU or article+color+size)
     created_at: string;
     updated_at: string;
 }
 
+/** How a line item change was made */
+export type LineItemEventSource = 'edit' | 'bulk_edit' | 'spark' | 'recalculation' | 'merge' | 'revert';
+
+/** One field change of a line item, from the audit log (line_item_events) */
+export interface LineItemEvent {
+    id: string;
+    draft_order_id: string;
+    line_item_id: string;
+    field: string;
+    old_value: unknown;
+    new_value: unknown;
+    source: LineItemEventSource;
+    actor_id: string | null;
+    spark_session_id: string | null;
+    reverts_event_id: string | null;
+    reverted_at: string | null;
+    created_at: string;
+    /** Joined for display */
+    line_number?: number;
+    actor_name?: string;
+}
+
 /** Raw product data from GPT Vision extraction - dynamic based on profile */
 export type RawExtractedProduct = Record<string, string>;
 
+/**
+ * Where an extracted value was found in the source PDF.
+ * Stored per field key in raw_data._sources.
+ */
+export interface FieldSource {
+    /** 1-based page number in the uploaded document */
+    page: number;
+    /** Approximate region [x0, y0, x1, y1] as fractions of page width/height, origin top-left */
+    box?: [number, number, number, number];
+}
+
+export type FieldSources = Record<string, FieldSource>;
+
+export type ValidationSeverity = 'warning' | 'error';
+
 export interface ValidationError {
     field: string;
     message: string;
-    severity: 'warning' | 'error';
+    severity: ValidationSeverity;
+    rule?: FieldValidationRule['type'] | 'required' | 'duplicate';
+    duplicate_of?: DuplicateReference;  // set for rule 'duplicate'
+}
+
+/** Earlier line item a duplicate was detected against - in the same or an exported order */
+export interface DuplicateReference {
+    order_id: string;
+    order_name?: string | null;
+    line_item_id: string;
+    line_number: number;
 }
 
 /**
@@ -115,6 +184,35 @@ export interface ValidationError {
  */
 export type NormalizedProduct = Record<string, unknown>;
 
+// ============================================
+// Variant Grouping
+// ============================================
+
+/**
+ * Profile-level config for grouping line items into parent products with variants.
+ * e.g. group_by: ['article_number', 'color'], variant_axes: ['size']
+ */
+export interface VariantGroupingConfig {
+    group_by: string[];
+    variant_axes: string[];
+}
+
+export interface VariantAxis {
+    key: string;
+    label: string;
+}
+
+/**
+ * A parent product with its variants, as handed to shop adapters.
+ * Standalone products are groups with a single variant and no axes.
+ */
+export interface ProductGroup {
+    key: string;                    // Parent product number (group_by values joined)
+    parent: NormalizedProduct;      // Attributes shared by all variants
+    variants: NormalizedProduct[];
+    axes: VariantAxis[];            // Axes that differ between variants
+}
+
 // ============================================
 // Processing Context
 // ============================================
@@ -125,6 +223,12 @@ export interface ProcessingContext {
     brand_name?: string;
     user_id: string;
     source_job_id?: string;
+    supplier_id?: string;
+    source_file?: {
+        name: string;
+        path: string;
+        content_type: string;
+    };
     extraction_profile_id?: string;
     sku_template_id?: string;
     order_name?: string;  // User-provided name for this processing run
@@ -155,8 +259,27 @@ export interface FieldDefinition {
     template?: string;  // template expression e.g. "{brand} - {name}"
     ai_prompt?: string;  // AI enrichment prompt e.g. "Write a marketing description..."
     fallback?: string;  // fallback value if extraction/computation returns empty
+    validation?: FieldValidationRule[];  // checked on extraction and after every edit
 }
 
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Profile-level validation rule for a field. Empty values are only checked
+ * by `required`; all other rules skip them.
+ */
+export type FieldValidationRule = {
+    severity: ValidationSeverity;
+    message?: string;   // overrides the generated message
+} & (
+    | { type: 'pattern'; pattern: string }                          // regex the whole value must match
+    | { type: 'range'; min?: number; max?: number }                 // inclusive numeric bounds
+    | { type: 'enum'; values?: string[] }                           // defaults to the field's enumValues
+    | { type: 'gtin' }                                              // EAN-8/13, UPC-A or GTIN-14 check digit
+    | { type: 'compare'; operator: ComparisonOperator; field: string }  // e.g. sale_price >= purchase_price
+    | { type: 'unique' }                                            // no other line item of the order has the value
+);
+
 export interface ExtractionProfile {
     id: string;
     name: string;
@@ -223,19 +346,163 @@ export interface ProcessingProfile {
     is_default: boolean;
     export_configs: ExportConfig[];
     default_export_config_idx?: number;
+    variant_grouping?: VariantGroupingConfig | null;
+    /** Column mappings remembered from CSV/XLSX imports */
+    column_mappings?: SavedColumnMapping[];
     created_at?: string;
     updated_at?: string;
 }
 
+// ============================================
+// Suppliers
+// ============================================
+
+/**
+ * Text that identifies a supplier's documents: a VAT ID or any other
+ * distinctive text of the letterhead (company name, address line, IBAN)
+ */
+export interface SupplierFingerprint {
+    type: 'vat_id' | 'text';
+    value: string;
+}
+
+export interface Supplier {
+    id: string;
+    tenant_id: string;
+    name: string;
+    email_domains: string[];
+    fingerprints: SupplierFingerprint[];
+    /** Profile used for this supplier's documents when none is chosen on upload */
+    default_profile_id?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+/**
+ * Supplier file column header → profile field key
+ */
+export type ColumnMapping = Record<string, string>;
+
+/**
+ * Column mapping confirmed on a CSV/XLSX import, reused for files with the same headers
+ */
+export interface SavedColumnMapping {
+    headers: string[];
+    mapping: ColumnMapping;
+    updated_at: string;
+}
+
+// ============================================
+// Product Master
+// ============================================
+
+/** A product of the tenant, created when it is first exported */
+export interface Product {
+    id: string;
+    tenant_id: string;
+    product_key: string;                    // sku:<lowercase SKU> or ean:<GTIN>
+    sku: string | null;
+    ean: string | null;
+    name: string | null;
+    attributes: NormalizedProduct;          // Normalized data of the latest export
+    overrides: NormalizedProduct;           // Edited on the products page, kept across exports
+    external_variant_ids: Partial<Record<ShopSystem, string>>; // Exported variant per shop (Shopify: ProductVariant GID)
+    first_exported_at: string | null;
+    last_exported_at: string | null;
+    created_at: string;
+    updated_at: string;
+    // Aggregates
+    order_count?: number;
+}
+
+/** One export of a product with an order */
+export interface ProductOrderLine {
+    id: string;
+    product_id: string;
+    draft_order_id: string;
+    line_item_id: string;
+    quantity: number | null;
+    price: number | null;
+    shop_system: ShopSystem;
+    external_id: string | null;
+    exported_at: string;
+    // Joined relations
+    order?: Pick<DraftOrder, 'id' | 'name' | 'source_file_name' | 'created_at'> | null;
+}
+
 // ============================================
 // Export Configuration (Unified Profile)
 // ============================================
 
+/** One step of a mapping's value transformation chain */
+export type FieldTransform =
+    | { type: 'uppercase' }
+    | { type: 'lowercase' }
+    | { type: 'titlecase' }
+    | { type: 'trim' }
+    | { type: 'truncate'; length: number }
+    | { type: 'replace'; pattern: string; replacement: string; flags?: string }    // regular expression
+    | { type: 'number'; decimals?: number; decimal_separator?: '.' | ','; thousands_separator?: string }
+    | { type: 'date'; format: string }                                              // YYYY, YY, MM, DD tokens
+    | { type: 'map'; values: Record<string, string> }                              // unmatched values are kept
+    | { type: 'catalog'; catalog_key: string; column?: string };                   // code, or an extra_data column
+
+export type FieldTransformType = FieldTransform['type'];
+
 export interface FieldMapping {
     source: string;
     target: string;
     template?: string;
     default_value?: string;
+    transforms?: FieldTransform[];  // applied in order before the default value
+}
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'bmecat';
+
+export type RowFilterOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'not_contains'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'empty'
+    | 'not_empty';
+
+/** Condition a line item must meet to be exported - all filters of a config must match */
+export interface RowFilter {
+    field: string;                  // source field key
+    operator: RowFilterOperator;
+    value?: string;                 // unused by empty / not_empty
+}
+
+/**
+ * Splits one line item into several rows by a multi-value field.
+ * Exploded rows carry `row_type` ('parent' | 'variant') and `variant_index` (1-based)
+ * for use in templates, e.g. "{row_type}".
+ */
+export interface RowExplosion {
+    field: string;                  // source field with several values, e.g. "sizes"
+    mode: 'rows' | 'parent_variants';   // one row per value, or a parent row followed by variant rows
+    separator?: string;             // for text values, default ","
+    variant_fields?: string[];      // parent_variants: source fields kept on variant rows, others are blank
+}
+
+/** Catalog header of a BMEcat export */
+export interface BmecatHeader {
+    catalog_id: string;
+    catalog_version?: string;   // default "1.0"
+    catalog_name?: string;
+    language?: string;          // ISO 639-2, default "deu"
+    currency: string;           // ISO 4217, e.g. "EUR"
+    supplier_name: string;
+    supplier_id?: string;
+    buyer_name?: string;
+    price_type?: string;        // default "net_list"
+    feature_system?: string;    // REFERENCE_FEATURE_SYSTEM_NAME, default "udf"
+    feature_group?: string;     // group of features without "Group/" prefix, default "Attributes"
 }
 
 export interface ExportConfig {
@@ -243,23 +510,58 @@ export interface ExportConfig {
     name: string;
     shop_system: ShopSystem;
     field_mappings: FieldMapping[];
-    format: 'csv' | 'json';
+    format: ExportFormat;
     format_options: {
         delimiter?: string;
         include_header?: boolean;
+        column_order?: string[];
+        sheet_name?: string;    // XLSX: name of the single sheet
+        sheet_by?: string;      // XLSX: one sheet per value of this target column
     };
+    bmecat?: BmecatHeader;      // required for format 'bmecat'
+    row_filters?: RowFilter[];      // applied before row_explosion
+    row_explosion?: RowExplosion;
+    bundle_files?: ExportBundleFile[];  // further files - exported together with this one as a ZIP
     is_default?: boolean;
 }
 
+/** Additional file of a multi-file export, with its own mappings and format */
+export type ExportBundleFile = Pick<
+    ExportConfig,
+    'id' | 'name' | 'field_mappings' | 'format' | 'format_options' | 'bmecat' | 'row_filters' | 'row_explosion'
+>;
+
 // ============================================
 // Tenant Types
 // ============================================
 
+export type TenantRole = 'owner' | 'admin' | 'member';
+
 export interface TenantUserProfile {
     user_id: string;
     email: string;
     full_name?: string;
     avatar_url?: string;
     tenant_id: string;
-    role: string;
+    role: TenantRole;
+}
+
+/** Stored in tenants.settings.retention - null disables a rule */
+export interface RetentionPolicy {
+    archive_exported_after_days: number | null;
+    purge_source_files_after_days: number | null;
+}
+
+/** Data deleted by a tenant reset */
+export type TenantResetScope = 'orders' | 'catalogs' | 'profiles';
+
+export interface TenantInvitation {
+    id: string;
+    tenant_id: string;
+    email: string;
+    role: Exclude<TenantRole, 'owner'>;
+    invited_by: string | null;
+    expires_at: string;
+    accepted_at: string | null;
+    created_at: string;
 }
@@ -0,0 +1,8 @@
+-- Migration: Variant grouping on input profiles
+-- Groups line items into parent products with variants before shop upload
+-- Example: {"group_by": ["article_number", "color"], "variant_axes": ["size"]}
+
+ALTER TABLE input_profiles
+ADD COLUMN IF NOT EXISTS variant_grouping JSONB;
+
+COMMENT ON COLUMN input_profiles.variant_grouping IS 'Variant grouping config: group_by field keys and variant_axes field keys';
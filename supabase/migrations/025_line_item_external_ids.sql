@@ -0,0 +1,10 @@
+-- Migration: Track external IDs on line items
+-- Stores the shop system's product ID after upload so re-exports update
+-- the same remote record instead of creating duplicates
+
+ALTER TABLE draft_line_items
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_draft_line_items_external_id ON draft_line_items(external_id);
+
+COMMENT ON COLUMN draft_line_items.external_id IS 'Product ID in the shop system from the last successful upload';
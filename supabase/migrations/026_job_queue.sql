@@ -0,0 +1,61 @@
+-- Migration: Background job queue
+-- Turns the jobs table into a DB-backed queue: workers claim due jobs with a
+-- time-limited lease, failed jobs are retried with exponential backoff and
+-- users can request cancellation. Progress is reported as percent + step.
+
+-- Shopify uploads and cancelled jobs
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_type_check
+    CHECK (type IN ('pdf_extraction', 'shopware_upload', 'xentral_upload', 'shopify_upload', 'sku_regeneration'));
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'));
+
+-- Queue bookkeeping
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN IF NOT EXISTS run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS step TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_queue ON jobs(status, run_at);
+
+COMMENT ON COLUMN jobs.run_at IS 'Earliest time the job may be claimed (pushed back on retry)';
+COMMENT ON COLUMN jobs.locked_until IS 'Lease expiry - a processing job past its lease can be reclaimed by another worker';
+COMMENT ON COLUMN jobs.progress IS 'Progress percent (0-100) reported by the job handler';
+COMMENT ON COLUMN jobs.step IS 'Human-readable label of the step currently running';
+
+-- Claim the next due job for a worker.
+-- Picks pending jobs whose run_at has passed and processing jobs whose lease
+-- expired (worker died). SKIP LOCKED keeps concurrent workers from claiming
+-- the same row. Runs as the caller, so RLS limits claims to the own tenant.
+CREATE OR REPLACE FUNCTION claim_job(
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 300,
+    p_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF jobs AS $$
+    UPDATE jobs
+    SET status = 'processing',
+        locked_by = p_worker_id,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE id = (
+        SELECT id FROM jobs
+        WHERE (p_job_id IS NULL OR id = p_job_id)
+          AND (
+              (status = 'pending' AND run_at <= NOW())
+              OR (status = 'processing' AND locked_until < NOW())
+          )
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
@@ -0,0 +1,52 @@
+-- Migration: Persist source files on draft orders
+-- Uploaded documents are kept in the configured storage provider so the
+-- review page can show them next to the extracted line items
+
+ALTER TABLE draft_orders
+ADD COLUMN IF NOT EXISTS source_file_path TEXT,
+ADD COLUMN IF NOT EXISTS source_file_type TEXT;
+
+COMMENT ON COLUMN draft_orders.source_file_path IS 'Path of the uploaded document in the storage provider';
+COMMENT ON COLUMN draft_orders.source_file_type IS 'MIME type of the uploaded document';
+
+-- Source files are stored as <tenant_id>/<user_id>/<file> in the pdfs bucket.
+-- The policies of 001 let every signed-in user read all files, so access is
+-- limited to the caller's tenant folder. Files stored before the tenant
+-- prefix (<user_id>/<file>) stay readable for members of the uploader's tenant.
+DROP POLICY IF EXISTS "Authenticated users can upload PDFs" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can read PDFs" ON storage.objects;
+
+DROP POLICY IF EXISTS "Tenant members can read source files" ON storage.objects;
+CREATE POLICY "Tenant members can read source files" ON storage.objects
+    FOR SELECT TO authenticated USING (
+        bucket_id = 'pdfs'
+        AND (
+            (storage.foldername(name))[1] = get_user_tenant_id()::text
+            OR EXISTS (
+                SELECT 1 FROM tenant_members tm
+                WHERE tm.user_id::text = (storage.foldername(name))[1]
+                  AND tm.tenant_id = get_user_tenant_id()
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Tenant members can upload source files" ON storage.objects;
+CREATE POLICY "Tenant members can upload source files" ON storage.objects
+    FOR INSERT TO authenticated WITH CHECK (
+        bucket_id = 'pdfs'
+        AND (storage.foldername(name))[1] = get_user_tenant_id()::text
+    );
+
+DROP POLICY IF EXISTS "Tenant members can delete source files" ON storage.objects;
+CREATE POLICY "Tenant members can delete source files" ON storage.objects
+    FOR DELETE TO authenticated USING (
+        bucket_id = 'pdfs'
+        AND (
+            (storage.foldername(name))[1] = get_user_tenant_id()::text
+            OR EXISTS (
+                SELECT 1 FROM tenant_members tm
+                WHERE tm.user_id::text = (storage.foldername(name))[1]
+                  AND tm.tenant_id = get_user_tenant_id()
+            )
+        )
+    );
@@ -0,0 +1,12 @@
+-- Migration: Native CSV/XLSX intake
+-- Tabular supplier files skip vision extraction: their columns are mapped to
+-- profile fields and the rows go straight into the processing pipeline.
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_type_check
+    CHECK (type IN ('pdf_extraction', 'tabular_import', 'shopware_upload', 'xentral_upload', 'shopify_upload', 'sku_regeneration'));
+
+ALTER TABLE input_profiles
+ADD COLUMN IF NOT EXISTS column_mappings JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN input_profiles.column_mappings IS 'Column mappings remembered from CSV/XLSX imports: [{headers, mapping: {header: field_key}, updated_at}]';
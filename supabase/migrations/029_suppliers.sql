@@ -0,0 +1,44 @@
+-- Migration: Suppliers
+-- Suppliers (vendors) that send order confirmations, recognized from the
+-- first page of an upload and linked to the profile their documents use.
+-- Named "vendors" because "suppliers" still holds the legacy brand mapping.
+
+CREATE TABLE IF NOT EXISTS vendors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL DEFAULT get_user_tenant_id() REFERENCES tenants(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+
+    -- Sender domains, e.g. {"acme.de", "acme-fashion.com"}
+    email_domains TEXT[] NOT NULL DEFAULT '{}',
+
+    -- Document fingerprints found on the first page
+    -- Format: [{ "type": "vat_id", "value": "DE123456789" }, { "type": "text", "value": "ACME Fashion GmbH" }]
+    fingerprints JSONB NOT NULL DEFAULT '[]',
+
+    default_profile_id UUID REFERENCES input_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+
+    UNIQUE(tenant_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendors_tenant ON vendors(tenant_id);
+
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant isolation" ON vendors;
+CREATE POLICY "Tenant isolation" ON vendors
+    FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP TRIGGER IF EXISTS update_vendors_updated_at ON vendors;
+CREATE TRIGGER update_vendors_updated_at
+    BEFORE UPDATE ON vendors
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Supplier recognized for an order
+ALTER TABLE draft_orders
+ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_draft_orders_supplier ON draft_orders(supplier_id);
+
+COMMENT ON COLUMN draft_orders.supplier_id IS 'Supplier detected from the source document (or set by the user)';
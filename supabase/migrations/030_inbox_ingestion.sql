@@ -0,0 +1,73 @@
+-- Migration: Email inbox ingestion
+-- Order confirmations sent (or forwarded) to the shared inbox are turned into
+-- draft orders. Every processed message is recorded by Message-ID so a
+-- message is never imported twice, even if the mailbox flags get lost.
+
+CREATE TABLE IF NOT EXISTS inbox_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id TEXT NOT NULL UNIQUE,
+    tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+    from_address TEXT,
+    subject TEXT,
+    status TEXT NOT NULL CHECK (status IN ('processed', 'unmatched', 'no_attachments', 'failed')),
+    job_ids UUID[] NOT NULL DEFAULT '{}',
+    error TEXT,
+    received_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_tenant ON inbox_messages(tenant_id);
+
+ALTER TABLE inbox_messages ENABLE ROW LEVEL SECURITY;
+
+-- Written by the poller with the secret key; members can see their tenant's messages
+DROP POLICY IF EXISTS "Tenant isolation" ON inbox_messages;
+CREATE POLICY "Tenant isolation" ON inbox_messages
+    FOR SELECT USING (tenant_id = get_user_tenant_id());
+
+COMMENT ON COLUMN inbox_messages.message_id IS 'Message-ID header (or a content hash when missing) - used to skip already ingested mails';
+COMMENT ON COLUMN inbox_messages.job_ids IS 'Extraction/import jobs created for the attachments';
+
+-- Route a sender to a tenant:
+-- 1. the sender is a tenant member (forwarded mail) → that member
+-- 2. the sender's domain belongs to a supplier → the supplier's tenant,
+--    acting as its first owner (or admin/member), with the supplier's profile
+CREATE OR REPLACE FUNCTION find_inbox_route(p_email TEXT)
+RETURNS TABLE (tenant_id UUID, user_id UUID, supplier_id UUID, profile_id UUID) AS $$
+DECLARE
+    v_email TEXT := lower(trim(p_email));
+    v_domain TEXT := split_part(lower(trim(p_email)), '@', 2);
+BEGIN
+    RETURN QUERY
+    SELECT tm.tenant_id, tm.user_id, NULL::UUID, NULL::UUID
+    FROM tenant_members tm
+    JOIN auth.users u ON u.id = tm.user_id
+    WHERE lower(u.email) = v_email
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT v.tenant_id, owner.user_id, v.id, v.default_profile_id
+    FROM vendors v
+    CROSS JOIN LATERAL (
+        SELECT tm.user_id
+        FROM tenant_members tm
+        WHERE tm.tenant_id = v.tenant_id
+        ORDER BY CASE tm.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, tm.created_at
+        LIMIT 1
+    ) owner
+    WHERE v_domain <> ''
+      AND EXISTS (
+          SELECT 1 FROM unnest(v.email_domains) d
+          WHERE v_domain = lower(d) OR v_domain LIKE '%.' || lower(d)
+      )
+    ORDER BY v.created_at
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE ALL ON FUNCTION find_inbox_route(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_inbox_route(TEXT) TO service_role;
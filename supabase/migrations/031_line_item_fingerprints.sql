@@ -0,0 +1,13 @@
+-- Migration: Line item fingerprints for duplicate detection
+-- Each line item stores its identity (EAN, SKU or article+color+size) so
+-- repeated rows and products that were already exported with an earlier
+-- order can be found without scanning all line items of the tenant
+
+ALTER TABLE draft_line_items
+ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_draft_line_items_fingerprint
+    ON draft_line_items(fingerprint)
+    WHERE fingerprint IS NOT NULL;
+
+COMMENT ON COLUMN draft_line_items.fingerprint IS 'Identity for duplicate detection, e.g. ean:4006381333931 - set on creation and re-validation';
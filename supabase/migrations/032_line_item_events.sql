@@ -0,0 +1,40 @@
+-- Migration: Line item events (audit log)
+-- Every change to a line item's normalized_data is recorded per field with
+-- its old and new value, who made it and how (inline edit, bulk edit, Spark,
+-- template recalculation, duplicate merge or revert). Changes made in one
+-- Spark request share a session id so the whole session can be reverted.
+
+CREATE TABLE IF NOT EXISTS line_item_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL DEFAULT get_user_tenant_id() REFERENCES tenants(id) ON DELETE CASCADE,
+    draft_order_id UUID NOT NULL REFERENCES draft_orders(id) ON DELETE CASCADE,
+    line_item_id UUID NOT NULL REFERENCES draft_line_items(id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    old_value JSONB,
+    new_value JSONB,
+    source TEXT NOT NULL CHECK (source IN ('edit', 'bulk_edit', 'spark', 'recalculation', 'merge', 'revert')),
+    actor_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    spark_session_id TEXT,
+    reverts_event_id UUID REFERENCES line_item_events(id) ON DELETE SET NULL,
+    reverted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_line_item_events_line_item
+    ON line_item_events(line_item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_line_item_events_order
+    ON line_item_events(draft_order_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_line_item_events_spark_session
+    ON line_item_events(spark_session_id)
+    WHERE spark_session_id IS NOT NULL;
+
+ALTER TABLE line_item_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant isolation" ON line_item_events;
+CREATE POLICY "Tenant isolation" ON line_item_events
+    FOR ALL USING (tenant_id = get_user_tenant_id());
+
+COMMENT ON COLUMN line_item_events.source IS 'How the change was made: edit, bulk_edit, spark, recalculation, merge or revert';
+COMMENT ON COLUMN line_item_events.spark_session_id IS 'Spark request the change was made in - all its changes can be reverted together';
+COMMENT ON COLUMN line_item_events.reverts_event_id IS 'For revert events: the change that was undone';
+COMMENT ON COLUMN line_item_events.reverted_at IS 'Set when the change has been reverted';
@@ -0,0 +1,19 @@
+-- Migration: Order review workflow
+-- Orders can be assigned to a reviewer of the tenant. Review adds two states:
+-- in_review (a reviewer is working on the order) and changes_requested
+-- (sent back with a note). Allowed transitions are enforced in the service.
+
+ALTER TABLE draft_orders DROP CONSTRAINT IF EXISTS draft_orders_status_check;
+ALTER TABLE draft_orders ADD CONSTRAINT draft_orders_status_check
+    CHECK (status IN ('processing', 'pending_review', 'in_review', 'changes_requested', 'approved', 'exporting', 'exported', 'failed'));
+
+ALTER TABLE draft_orders
+ADD COLUMN IF NOT EXISTS reviewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_draft_orders_reviewer
+    ON draft_orders(reviewer_id, status)
+    WHERE reviewer_id IS NOT NULL;
+
+COMMENT ON COLUMN draft_orders.reviewer_id IS 'Tenant member assigned to review the order';
+COMMENT ON COLUMN draft_orders.review_note IS 'What the reviewer asked to change (set when changes are requested)';
@@ -0,0 +1,150 @@
+-- Migration: Tenant member invitations and management
+-- Admins invite colleagues by email. The invitation link carries a random
+-- token; only its SHA-256 hash is stored. Accepting (as a signed-in user with
+-- the invited email) adds the user to the tenant. Admins can change roles and
+-- remove members; the owner can hand ownership to another member.
+
+------------------------------------------------------------
+-- 1. Invitations
+------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS tenant_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL DEFAULT get_user_tenant_id() REFERENCES tenants(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+    token_hash TEXT NOT NULL UNIQUE,
+    invited_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    accepted_at TIMESTAMPTZ,
+    accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_invitations_tenant ON tenant_invitations(tenant_id);
+
+-- One open invitation per email and tenant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_invitations_open
+    ON tenant_invitations(tenant_id, lower(email))
+    WHERE accepted_at IS NULL;
+
+ALTER TABLE tenant_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant isolation" ON tenant_invitations;
+CREATE POLICY "Tenant isolation" ON tenant_invitations
+    FOR ALL USING (tenant_id = get_user_tenant_id());
+
+COMMENT ON COLUMN tenant_invitations.token_hash IS 'SHA-256 (hex) of the token in the invitation link - the token itself is never stored';
+COMMENT ON COLUMN tenant_invitations.expires_at IS 'The invitation link cannot be used after this time';
+
+------------------------------------------------------------
+-- 2. Member management
+------------------------------------------------------------
+
+-- Current user's role (SECURITY DEFINER to avoid RLS recursion in policies)
+CREATE OR REPLACE FUNCTION get_user_tenant_role()
+RETURNS TEXT AS $$
+    SELECT role FROM tenant_members WHERE user_id = auth.uid()
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+-- Owners and admins can change roles and remove members of their tenant
+DROP POLICY IF EXISTS "Admins can update tenant members" ON tenant_members;
+CREATE POLICY "Admins can update tenant members" ON tenant_members
+    FOR UPDATE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    );
+
+DROP POLICY IF EXISTS "Admins can remove tenant members" ON tenant_members;
+CREATE POLICY "Admins can remove tenant members" ON tenant_members
+    FOR DELETE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    );
+
+------------------------------------------------------------
+-- 3. Functions for users outside the tenant and atomic changes
+------------------------------------------------------------
+
+-- Invitation details for the accept page (the invitee is not a member yet)
+CREATE OR REPLACE FUNCTION get_tenant_invitation(p_token_hash TEXT)
+RETURNS TABLE (email TEXT, role TEXT, tenant_name TEXT, expires_at TIMESTAMPTZ, accepted BOOLEAN) AS $$
+    SELECT i.email, i.role, t.name, i.expires_at, i.accepted_at IS NOT NULL
+    FROM tenant_invitations i
+    JOIN tenants t ON t.id = i.tenant_id
+    WHERE i.token_hash = p_token_hash
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+-- Join the tenant of an invitation as the signed-in user
+CREATE OR REPLACE FUNCTION accept_tenant_invitation(p_token_hash TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_invitation tenant_invitations%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    SELECT * INTO v_invitation
+    FROM tenant_invitations
+    WHERE token_hash = p_token_hash
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+    IF v_invitation.accepted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Invitation has already been accepted';
+    END IF;
+    IF v_invitation.expires_at < now() THEN
+        RAISE EXCEPTION 'Invitation has expired';
+    END IF;
+    IF lower(v_invitation.email) <> lower(coalesce(auth.email(), '')) THEN
+        RAISE EXCEPTION 'Invitation was sent to a different email address';
+    END IF;
+    IF EXISTS (SELECT 1 FROM tenant_members WHERE user_id = v_user_id) THEN
+        RAISE EXCEPTION 'You are already a member of an organization';
+    END IF;
+
+    INSERT INTO tenant_members (tenant_id, user_id, role)
+    VALUES (v_invitation.tenant_id, v_user_id, v_invitation.role);
+
+    UPDATE tenant_invitations
+    SET accepted_at = now(), accepted_by = v_user_id
+    WHERE id = v_invitation.id;
+
+    RETURN v_invitation.tenant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Hand ownership to another member; the previous owner becomes an admin
+CREATE OR REPLACE FUNCTION transfer_tenant_ownership(p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_tenant_id UUID := get_user_tenant_id();
+BEGIN
+    IF get_user_tenant_role() IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Only the owner can transfer ownership';
+    END IF;
+    IF p_user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You already own this organization';
+    END IF;
+
+    UPDATE tenant_members SET role = 'owner'
+    WHERE user_id = p_user_id AND tenant_id = v_tenant_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User is not a member of this organization';
+    END IF;
+
+    UPDATE tenant_members SET role = 'admin'
+    WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION get_tenant_invitation(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION accept_tenant_invitation(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION transfer_tenant_ownership(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_tenant_invitation(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_tenant_invitation(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION transfer_tenant_ownership(UUID) TO authenticated;
@@ -0,0 +1,14 @@
+-- Migration: Data retention
+-- Tenants can configure retention in tenants.settings.retention
+-- ({ archive_exported_after_days, purge_source_files_after_days }). A
+-- scheduled run archives exported orders and deletes their uploaded source
+-- documents once they are older than the configured number of days.
+
+ALTER TABLE draft_orders
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS source_file_purged_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_draft_orders_archived ON draft_orders(tenant_id, archived_at);
+
+COMMENT ON COLUMN draft_orders.archived_at IS 'Set when the order was archived (by hand or by the retention policy)';
+COMMENT ON COLUMN draft_orders.source_file_purged_at IS 'Set when the retention policy deleted the uploaded source document';
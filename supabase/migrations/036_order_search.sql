@@ -0,0 +1,39 @@
+-- Migration: Order search
+-- Full-text search over orders: name, source file name, supplier and every
+-- value in the line items' normalized_data (e.g. an EAN or a style name).
+-- Line item values are indexed in a generated tsvector column; terms match
+-- by prefix, so "park" finds "Parka".
+
+ALTER TABLE draft_line_items
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (jsonb_to_tsvector('simple', coalesce(normalized_data, '{}'::jsonb), '["string", "numeric"]')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_draft_line_items_search ON draft_line_items USING GIN (search_vector);
+
+-- Profile filter on the orders list
+CREATE INDEX IF NOT EXISTS idx_draft_orders_profile ON draft_orders((metadata->>'profile_id'));
+
+-- Orders matching all terms of a query. Runs as the caller, so RLS applies;
+-- returns draft_orders rows so callers can add filters, ordering and paging.
+CREATE OR REPLACE FUNCTION search_draft_orders(p_query TEXT)
+RETURNS SETOF draft_orders AS $$
+    WITH q AS (
+        SELECT to_tsquery('simple', string_agg(term || ':*', ' & ')) AS query
+        FROM regexp_split_to_table(lower(regexp_replace(p_query, '[^[:alnum:][:space:]]+', ' ', 'g')), '[[:space:]]+') AS term
+        WHERE term <> ''
+    )
+    SELECT o.*
+    FROM draft_orders o
+    CROSS JOIN q
+    LEFT JOIN vendors v ON v.id = o.supplier_id
+    WHERE to_tsvector('simple', concat_ws(' ', o.name, o.source_file_name, v.name)) @@ q.query
+       OR EXISTS (
+           SELECT 1 FROM draft_line_items li
+           WHERE li.draft_order_id = o.id
+             AND li.search_vector @@ q.query
+       )
+$$ LANGUAGE SQL STABLE;
+
+GRANT EXECUTE ON FUNCTION search_draft_orders(TEXT) TO authenticated;
+
+COMMENT ON COLUMN draft_line_items.search_vector IS 'Values of normalized_data for order search (generated)';
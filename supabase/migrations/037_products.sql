@@ -0,0 +1,62 @@
+-- Migration: Product master
+-- Products of a tenant, created and updated when orders are exported to a
+-- shop system. A product is keyed by SKU (or EAN when there is no SKU) and
+-- keeps the attributes of its latest export, edits made on the products page
+-- and its ID per shop system. Every exported line item is kept as a history
+-- line with the order, quantity and price.
+
+CREATE TABLE IF NOT EXISTS products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL DEFAULT get_user_tenant_id() REFERENCES tenants(id) ON DELETE CASCADE,
+    product_key TEXT NOT NULL,
+    sku TEXT,
+    ean TEXT,
+    name TEXT,
+    attributes JSONB NOT NULL DEFAULT '{}',
+    overrides JSONB NOT NULL DEFAULT '{}',
+    external_ids JSONB NOT NULL DEFAULT '{}',
+    first_exported_at TIMESTAMPTZ,
+    last_exported_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (tenant_id, product_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_tenant ON products(tenant_id, last_exported_at DESC);
+
+CREATE TABLE IF NOT EXISTS product_order_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL DEFAULT get_user_tenant_id() REFERENCES tenants(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    draft_order_id UUID NOT NULL REFERENCES draft_orders(id) ON DELETE CASCADE,
+    line_item_id UUID NOT NULL REFERENCES draft_line_items(id) ON DELETE CASCADE,
+    quantity NUMERIC,
+    price NUMERIC,
+    shop_system TEXT NOT NULL,
+    external_id TEXT,
+    exported_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (product_id, line_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_order_lines_product ON product_order_lines(product_id, exported_at DESC);
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_order_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant isolation" ON products;
+CREATE POLICY "Tenant isolation" ON products
+    FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Tenant isolation" ON product_order_lines;
+CREATE POLICY "Tenant isolation" ON product_order_lines
+    FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP TRIGGER IF EXISTS update_products_updated_at ON products;
+CREATE TRIGGER update_products_updated_at
+    BEFORE UPDATE ON products
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN products.product_key IS 'sku:<lowercase SKU>, or ean:<GTIN> for products without SKU';
+COMMENT ON COLUMN products.attributes IS 'Normalized data of the most recent export';
+COMMENT ON COLUMN products.overrides IS 'Attributes edited on the products page - kept across later exports';
+COMMENT ON COLUMN products.external_ids IS 'Product ID per shop system, e.g. {"shopware": "..."}';
@@ -0,0 +1,59 @@
+-- Migration: Fix inbox routing and retries
+-- 1. Messages whose ingestion failed are retried on the next polls; the
+--    number of attempts is recorded so a broken message is given up on.
+-- 2. Sender domains only route to a supplier when a single tenant claims
+--    them - otherwise any tenant could pull in mail from e.g. gmail.com.
+--    Domains configured as "@example.com" match like "example.com".
+
+ALTER TABLE inbox_messages
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN inbox_messages.attempts IS 'Ingestion attempts - failed messages are retried until the limit is reached';
+
+CREATE OR REPLACE FUNCTION find_inbox_route(p_email TEXT)
+RETURNS TABLE (tenant_id UUID, user_id UUID, supplier_id UUID, profile_id UUID) AS $$
+DECLARE
+    v_email TEXT := lower(trim(p_email));
+    v_domain TEXT := split_part(lower(trim(p_email)), '@', 2);
+BEGIN
+    RETURN QUERY
+    SELECT tm.tenant_id, tm.user_id, NULL::UUID, NULL::UUID
+    FROM tenant_members tm
+    JOIN auth.users u ON u.id = tm.user_id
+    WHERE lower(u.email) = v_email
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH matches AS (
+        SELECT v.id, v.tenant_id, v.default_profile_id, v.created_at
+        FROM vendors v
+        WHERE v_domain <> ''
+          AND EXISTS (
+              SELECT 1
+              FROM unnest(v.email_domains) AS d(value)
+              CROSS JOIN LATERAL (SELECT ltrim(lower(trim(d.value)), '@') AS domain) n
+              WHERE n.domain <> ''
+                AND (v_domain = n.domain OR v_domain LIKE '%.' || n.domain)
+          )
+    )
+    SELECT m.tenant_id, owner.user_id, m.id, m.default_profile_id
+    FROM matches m
+    CROSS JOIN LATERAL (
+        SELECT tm.user_id
+        FROM tenant_members tm
+        WHERE tm.tenant_id = m.tenant_id
+        ORDER BY CASE tm.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, tm.created_at
+        LIMIT 1
+    ) owner
+    WHERE (SELECT count(DISTINCT mt.tenant_id) FROM matches mt) = 1
+    ORDER BY m.created_at
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE ALL ON FUNCTION find_inbox_route(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_inbox_route(TEXT) TO service_role;
@@ -0,0 +1,31 @@
+-- Migration: Role-aware RLS for profiles
+-- Profiles (with their export configs) are written straight from the browser,
+-- so tenant isolation alone let members edit and delete them although
+-- `settings.edit` is admin-only. Members keep read access.
+
+DROP POLICY IF EXISTS "Tenant isolation" ON input_profiles;
+
+DROP POLICY IF EXISTS "Tenant members can read profiles" ON input_profiles;
+CREATE POLICY "Tenant members can read profiles" ON input_profiles
+    FOR SELECT USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Admins can create profiles" ON input_profiles;
+CREATE POLICY "Admins can create profiles" ON input_profiles
+    FOR INSERT WITH CHECK (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    );
+
+DROP POLICY IF EXISTS "Admins can update profiles" ON input_profiles;
+CREATE POLICY "Admins can update profiles" ON input_profiles
+    FOR UPDATE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    ) WITH CHECK (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Admins can delete profiles" ON input_profiles;
+CREATE POLICY "Admins can delete profiles" ON input_profiles
+    FOR DELETE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    );
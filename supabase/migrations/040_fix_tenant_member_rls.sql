@@ -0,0 +1,59 @@
+-- Migration: Fix tenant member and invitation RLS
+-- The policies of migration 034 only checked the tenant, so direct table
+-- writes bypassed the API guards:
+-- - any member could create an admin invitation (with a token hash of their
+--   choice) and accept it with a second account
+-- - admins could change or remove the owner, or make themselves owner
+-- Ownership only changes through transfer_tenant_ownership().
+
+------------------------------------------------------------
+-- 1. Invitations: members read, owners and admins write
+------------------------------------------------------------
+DROP POLICY IF EXISTS "Tenant isolation" ON tenant_invitations;
+
+DROP POLICY IF EXISTS "Tenant members can read invitations" ON tenant_invitations;
+CREATE POLICY "Tenant members can read invitations" ON tenant_invitations
+    FOR SELECT USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Admins can create invitations" ON tenant_invitations;
+CREATE POLICY "Admins can create invitations" ON tenant_invitations
+    FOR INSERT WITH CHECK (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    );
+
+DROP POLICY IF EXISTS "Admins can update invitations" ON tenant_invitations;
+CREATE POLICY "Admins can update invitations" ON tenant_invitations
+    FOR UPDATE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    ) WITH CHECK (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Admins can revoke invitations" ON tenant_invitations;
+CREATE POLICY "Admins can revoke invitations" ON tenant_invitations
+    FOR DELETE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+    );
+
+------------------------------------------------------------
+-- 2. Members: the owner row is off-limits, nobody becomes owner
+------------------------------------------------------------
+DROP POLICY IF EXISTS "Admins can update tenant members" ON tenant_members;
+CREATE POLICY "Admins can update tenant members" ON tenant_members
+    FOR UPDATE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+        AND role <> 'owner'
+    ) WITH CHECK (
+        tenant_id = get_user_tenant_id()
+        AND role <> 'owner'
+    );
+
+DROP POLICY IF EXISTS "Admins can remove tenant members" ON tenant_members;
+CREATE POLICY "Admins can remove tenant members" ON tenant_members
+    FOR DELETE USING (
+        tenant_id = get_user_tenant_id()
+        AND get_user_tenant_role() IN ('owner', 'admin')
+        AND role <> 'owner'
+    );
@@ -0,0 +1,38 @@
+-- Migration: Enforce order status transitions
+-- Order status changes must follow the workflow in src/lib/order-workflow.ts
+-- also when draft_orders is updated directly, not only through
+-- updateDraftOrderStatus.
+
+-- Mirrors ORDER_STATUS_TRANSITIONS - keep both in sync
+CREATE OR REPLACE FUNCTION check_draft_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status AND (OLD.status, NEW.status) NOT IN (
+        ('processing', 'pending_review'),
+        ('pending_review', 'in_review'),
+        ('pending_review', 'approved'),
+        ('in_review', 'approved'),
+        ('in_review', 'changes_requested'),
+        ('in_review', 'pending_review'),
+        ('changes_requested', 'in_review'),
+        ('changes_requested', 'pending_review'),
+        ('approved', 'exporting'),
+        ('approved', 'in_review'),
+        ('approved', 'pending_review'),
+        ('exporting', 'exported'),
+        ('exporting', 'failed'),
+        ('exported', 'exporting'),
+        ('failed', 'exporting'),
+        ('failed', 'pending_review')
+    ) THEN
+        RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS draft_orders_status_transition ON draft_orders;
+CREATE TRIGGER draft_orders_status_transition
+    BEFORE UPDATE OF status ON draft_orders
+    FOR EACH ROW EXECUTE FUNCTION check_draft_order_status_transition();
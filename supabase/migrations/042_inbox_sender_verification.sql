@@ -0,0 +1,7 @@
+-- Migration: Inbox sender verification
+-- Messages are only routed when the receiving mail server verified the
+-- sender (Authentication-Results); the others are recorded as 'unverified'.
+
+ALTER TABLE inbox_messages DROP CONSTRAINT IF EXISTS inbox_messages_status_check;
+ALTER TABLE inbox_messages ADD CONSTRAINT inbox_messages_status_check
+    CHECK (status IN ('processed', 'unverified', 'unmatched', 'no_attachments', 'failed'));
@@ -0,0 +1,39 @@
+-- Migration: Append-only line item events
+-- The audit log could be edited or deleted by any tenant member. Members may
+-- now only read events and add their own; reverted_at is set through
+-- mark_line_item_events_reverted(), and only for changes a revert event undid.
+
+DROP POLICY IF EXISTS "Tenant isolation" ON line_item_events;
+
+DROP POLICY IF EXISTS "Tenant members can read events" ON line_item_events;
+CREATE POLICY "Tenant members can read events" ON line_item_events
+    FOR SELECT USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Tenant members can record their changes" ON line_item_events;
+CREATE POLICY "Tenant members can record their changes" ON line_item_events
+    FOR INSERT WITH CHECK (tenant_id = get_user_tenant_id() AND actor_id = auth.uid());
+
+-- Mark changes as reverted once their revert events are recorded
+CREATE OR REPLACE FUNCTION mark_line_item_events_reverted(p_event_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE line_item_events e SET reverted_at = now()
+    WHERE e.id = ANY(p_event_ids)
+      AND e.tenant_id = get_user_tenant_id()
+      AND e.reverted_at IS NULL
+      AND EXISTS (
+          SELECT 1 FROM line_item_events r
+          WHERE r.reverts_event_id = e.id
+            AND r.tenant_id = e.tenant_id
+            AND r.source = 'revert'
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION mark_line_item_events_reverted(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_line_item_events_reverted(UUID[]) TO authenticated;
@@ -0,0 +1,24 @@
+-- Migration: Fix order search across fields
+-- A query only matched when all its terms were in the order header or all
+-- in a single line item, so "acme parka" missed supplier Acme's parka. The
+-- header and all line item values now form one vector per order.
+
+CREATE OR REPLACE FUNCTION search_draft_orders(p_query TEXT)
+RETURNS SETOF draft_orders AS $$
+    WITH q AS (
+        SELECT to_tsquery('simple', string_agg(term || ':*', ' & ')) AS query
+        FROM regexp_split_to_table(lower(regexp_replace(p_query, '[^[:alnum:][:space:]]+', ' ', 'g')), '[[:space:]]+') AS term
+        WHERE term <> ''
+    )
+    SELECT o.*
+    FROM draft_orders o
+    CROSS JOIN q
+    LEFT JOIN vendors v ON v.id = o.supplier_id
+    WHERE (to_tsvector('simple', concat_ws(' ', o.name, o.source_file_name, v.name))
+        || coalesce((
+            SELECT array_to_tsvector(array_agg(DISTINCT lx.lexeme))
+            FROM draft_line_items li
+            CROSS JOIN LATERAL unnest(li.search_vector) AS lx
+            WHERE li.draft_order_id = o.id
+        ), ''::tsvector)) @@ q.query
+$$ LANGUAGE SQL STABLE;
@@ -0,0 +1,8 @@
+-- Migration: Product variant IDs
+-- products.external_ids held the ID of the exported variant (for Shopify the
+-- ProductVariant, not the Product), as a product here is one SKU. The column
+-- is renamed so it is not mistaken for the shop's product ID.
+
+ALTER TABLE products RENAME COLUMN external_ids TO external_variant_ids;
+
+COMMENT ON COLUMN products.external_variant_ids IS 'ID of the exported variant per shop system (Shopify: ProductVariant GID), e.g. {"shopify": "gid://shopify/ProductVariant/1"}';